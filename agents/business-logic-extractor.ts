@@ -10,60 +10,117 @@
  * - Factory methods
  * - CRUD operations
  *
+ * Properties, MaxLength constants and CheckBusinessRules branches are first parsed statically
+ * (lib/business-object-parser.ts) into {output}/.baseline/business-object.json. Claude gets the
+ * inventory with line numbers, and properties it leaves uncited are cited from the inventory.
+ *
  * Usage:
  *   bun run agents/business-logic-extractor.ts --entity "Facility"
  *   bun run agents/business-logic-extractor.ts --entity "Facility" --interactive
  */
 
-import { spawn } from "bun";
-import { buildClaudeFlags, parsedArgs } from "../lib/flags";
-import type { ClaudeFlags } from "../lib/claude-flags.types";
-import { getProjectRoot, getBusinessObjectPathForPrompt, getBusinessObjectBasePathForPrompt, getLocationBasePathForPrompt, getAdminApiPath, getAdminApiExamples, getCrewingApiExamples } from "../lib/paths";
-import businessLogicSettings from "../settings/business-logic.settings.json" with { type: "json" };
+import { basename } from "node:path";
+import { runAgentCli } from "../lib/agent-runner";
+import {
+	type BusinessObjectInventory,
+	buildBusinessObjectInventory,
+	citePropertySources,
+	formatInventoryForPrompt,
+	writeBusinessObjectInventory,
+} from "../lib/business-object-parser";
+import {
+	getAdminApiExamples,
+	getBusinessObjectBasePathForPrompt,
+	getBusinessObjectPathForPrompt,
+	getCrewingApiExamples,
+	getLocationBasePathForPrompt,
+} from "../lib/paths";
+import { formatSourceIndexForPrompt } from "../lib/source-index";
 import businessLogicMcp from "../settings/business-logic.mcp.json" with { type: "json" };
-import businessLogicExtractorPrompt from "../system-prompts/business-logic-extractor-prompt.md" with { type: "text" };
+import businessLogicSettings from "../settings/business-logic.settings.json" with { type: "json" };
+import businessLogicExtractorPrompt from "../system-prompts/business-logic-extractor-prompt.md" with {
+	type: "text",
+};
 
-const projectRoot = getProjectRoot(import.meta.url);
-const settingsJson = JSON.stringify(businessLogicSettings);
-const mcpJson = JSON.stringify(businessLogicMcp);
+// Set while building the prompt; used afterwards to cite properties Claude left uncited
+let inventory: BusinessObjectInventory | null = null;
 
-interface ExtractorOptions {
-	entity: string;
-	interactive: boolean;
-	outputDir?: string;
-}
-
-function parseOptions(): ExtractorOptions {
-	const entity = parsedArgs.values.entity as string;
-	const interactive = parsedArgs.values.interactive === true;
-	const outputDir = parsedArgs.values.output as string;
+/**
+ * Parse the business object files without an LLM and return the inventory plus its prompt section
+ */
+async function prepareInventory(
+	entity: string,
+	outputPath: string,
+): Promise<{ inventory: BusinessObjectInventory | null; section: string }> {
+	try {
+		const inventory = await buildBusinessObjectInventory(entity, [
+			getBusinessObjectPathForPrompt(entity),
+			getBusinessObjectBasePathForPrompt(entity),
+		]);
+		if (inventory.classes.length === 0) {
+			console.warn(
+				`[business-logic-extractor] No business object files found, no inventory: ${inventory.missingFiles.join(", ")}`,
+			);
+			return { inventory: null, section: "" };
+		}
 
-	if (!entity) {
-		console.error("Error: --entity parameter is required");
-		process.exit(1);
+		const inventoryPath = await writeBusinessObjectInventory(outputPath, inventory);
+		const propertyCount = inventory.classes.reduce((sum, cls) => sum + cls.properties.length, 0);
+		console.log(
+			`[business-logic-extractor] Inventory: ${propertyCount} properties → ${inventoryPath}`,
+		);
+
+		return {
+			inventory,
+			section: `
+SOURCE INVENTORY (parsed from the business object files without an LLM; full detail in ${inventoryPath}):
+${formatInventoryForPrompt(inventory)}
+
+Property names, types, ReadOnly/WriteOnly access, backing fields, MaxLength values and the
+CheckBusinessRules branches above are exact; do not contradict them or drop any of them.
+Cite the source of everything you extract:
+- Every entry in "properties" must include "sourceFile", "lineStart" and "lineEnd"
+- Every entry in "businessRules" must include "sourceFile" and "lineNumber"
+`,
+		};
+	} catch (error) {
+		console.warn(`[business-logic-extractor] Could not parse business object files: ${error}`);
+		return { inventory: null, section: "" };
 	}
-
-	return { entity, interactive, outputDir };
 }
 
-async function runBusinessLogicExtractor(options: ExtractorOptions): Promise<number> {
-	const outputPath = options.outputDir || `${projectRoot}output/${options.entity}`;
-
-	// Build context-specific prompt with entity details and paths
-	const contextPrompt = `
-TASK: Extract complete business logic from legacy VB.NET business objects for ${options.entity}.
+await runAgentCli({
+	name: "business-logic-extractor",
+	systemPrompt: businessLogicExtractorPrompt,
+	settings: businessLogicSettings,
+	mcp: businessLogicMcp,
+	outputFile: "business-logic.json",
+	startMessage: ({ entity }) => `Extracting business logic for ${entity}...`,
+	buildPrompt: async ({ entity, outputPath, outputFilePath }) => {
+		const { inventory: parsed, section: inventorySection } = await prepareInventory(
+			entity,
+			outputPath,
+		);
+		inventory = parsed;
+		const sourcesSection = await formatSourceIndexForPrompt(entity);
+		const businessObjectPath = getBusinessObjectPathForPrompt(entity);
+		const basePath = getBusinessObjectBasePathForPrompt(entity);
+
+		// Build context-specific prompt with entity details and paths
+		return `
+TASK: Extract complete business logic from legacy VB.NET business objects for ${entity}.
 
 TARGET FILES:
-- Business Object: ${getBusinessObjectPathForPrompt(options.entity)}
-- Base Class: ${getBusinessObjectBasePathForPrompt(options.entity)}
+- Business Object: ${businessObjectPath}
+- Base Class: ${basePath}
 - Location Base: ${getLocationBasePathForPrompt()}
-
+${sourcesSection}
 OUTPUT:
-Generate a JSON file at: ${outputPath}/business-logic.json
-
+Generate a JSON file at: ${outputFilePath}
+${inventorySection}
 Expected business object structure:
-- Business Object: "${options.entity}Location"
-- Base Class: "${options.entity}LocationBase"
+- Business Object: "${basename(businessObjectPath, ".vb")}"
+- Base Class: "${basename(basePath, ".vb")}"
 
 ARCHITECTURE REFERENCES:
 For business logic patterns, reference:
@@ -78,59 +135,14 @@ For business logic patterns, reference:
 
 Begin extraction now.
 `;
-
-	const baseFlags = {
-		"append-system-prompt": businessLogicExtractorPrompt,
-		settings: settingsJson,
-		"mcp-config": mcpJson,
-		...(options.interactive ? {} : { print: true, "output-format": "json" }),
-	} as const;
-
-	const flags = buildClaudeFlags({ ...baseFlags }, parsedArgs.values as ClaudeFlags);
-	const args = [...flags, contextPrompt];
-
-	const child = spawn(["claude", ...args], {
-		stdin: "inherit",
-		stdout: options.interactive ? "inherit" : "pipe",
-		stderr: "inherit",
-		env: {
-			...process.env,
-			CLAUDE_PROJECT_DIR: projectRoot,
-			ENTITY_NAME: options.entity,
-			OUTPUT_PATH: outputPath,
-		},
-	});
-
-	const onExit = () => {
-		try {
-			child.kill("SIGTERM");
-		} catch {}
-	};
-
-	process.on("SIGINT", onExit);
-	process.on("SIGTERM", onExit);
-
-	if (!options.interactive) {
-		const stdoutText = await new Response(child.stdout).text();
-		const exitCode = await child.exited;
-
-		if (exitCode === 0) {
-			console.log(`Business logic extraction complete. Output: ${outputPath}/business-logic.json`);
+	},
+	afterRun: async ({ outputFilePath }, exitCode) => {
+		if (exitCode !== 0 || !inventory) return;
+		const cited = await citePropertySources(outputFilePath, inventory);
+		if (cited > 0) {
+			console.log(
+				`[business-logic-extractor] Added source citations to ${cited} properties from the inventory`,
+			);
 		}
-
-		return exitCode;
-	}
-
-	await child.exited;
-	return child.exitCode ?? 0;
-}
-
-async function main() {
-	const options = parseOptions();
-	console.log(`[business-logic-extractor] Extracting business logic for ${options.entity}...`);
-
-	const code = await runBusinessLogicExtractor(options);
-	process.exit(code);
-}
-
-await main();
+	},
+});
@@ -13,6 +13,7 @@
 
 import { spawn } from "bun";
 import type { ClaudeFlags } from "../lib/claude-flags.types";
+import { getClaudeCommand } from "../lib/config";
 import { buildClaudeFlags, getPositionals, parsedArgs, resolvePath } from "../lib/flags";
 import conversionOrchestratorSettings from "../settings/conversion-planner.settings.json" with { type: "json" };
 import conversionOrchestratorPrompt from "../system-prompts/conversion-orchestrator-prompt.md" with { type: "text" };
@@ -54,7 +55,7 @@ async function main() {
 
 	const args = [...flags, prompt];
 
-	const child = spawn(["claude", ...args], {
+	const child = spawn([...getClaudeCommand(), ...args], {
 		stdin: "inherit",
 		stdout: "inherit",
 		stderr: "inherit",
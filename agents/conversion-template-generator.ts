@@ -1,8 +1,8 @@
 #!/usr/bin/env -S bun run
 /**
- * CONVERSION TEMPLATE GENERATOR: Generate complete conversion plan (ALWAYS INTERACTIVE)
+ * CONVERSION TEMPLATE GENERATOR: Generate complete conversion plan (INTERACTIVE by default)
  *
- * This agent ALWAYS runs interactively in Claude Code.
+ * This agent runs interactively in Claude Code unless --print is given.
  * It takes all extracted data from steps 1-10 and generates:
  * - Complete conversion plan document
  * - Code templates for domain models, DTOs, repositories, services, controllers
@@ -10,15 +10,24 @@
  * - JavaScript files
  * - Step-by-step implementation guide
  *
+ * With --print it runs without user input for batch and CI use: the interactive questions
+ * get default answers (Search, Edit and Details ViewModels), claude is told the exact files
+ * to write (lib/template-tree.ts), and afterwards every expected file is checked. Missing
+ * files are listed and the script exits with 1.
+ *
  * Usage:
  *   bun run agents/conversion-template-generator.ts --entity "Facility"
+ *   bun run agents/conversion-template-generator.ts --entity "Facility" --print
  *
- * NOTE: This agent always runs interactively, --interactive flag is implicit
+ * NOTE: Without --print this agent runs interactively, --interactive flag is implicit
  */
 
 import { spawn } from "bun";
 import { buildClaudeFlags, parsedArgs } from "../lib/flags";
+import { getClaudeCommand } from "../lib/config";
 import type { ClaudeFlags } from "../lib/claude-flags.types";
+import { recordClaudeRun } from "../lib/claude-result";
+import { type TemplateMode, getExpectedTemplateFiles, getMissingTemplateFiles } from "../lib/template-tree";
 import { getProjectRoot, getCrewingApiPath, getCrewingUiPath, getAdminApiPath, getAdminUiPath, getSharedProjectPath, getDetailedReferenceExamples } from "../lib/paths";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
@@ -35,6 +44,7 @@ interface GeneratorOptions {
 	entity: string;
 	outputDir?: string;
 	formName?: string;
+	print: boolean;
 }
 
 function parseOptions(): GeneratorOptions {
@@ -47,7 +57,7 @@ function parseOptions(): GeneratorOptions {
 		process.exit(1);
 	}
 
-	return { entity, outputDir, formName };
+	return { entity, outputDir, formName, print: parsedArgs.values.print === true };
 }
 
 function getMissingFiles(outputPath: string, files: string[]): string[] {
@@ -66,7 +76,7 @@ function getSkipStepsFromExistingFiles(outputPath: string, filesInStepOrder: str
 	return skipSteps;
 }
 
-function getAnalysisFilesForMode(mode: "search-detail" | "single-form"): string[] {
+function getAnalysisFilesForMode(mode: TemplateMode): string[] {
 	if (mode === "single-form") {
 		return [
 			"form-structure.json",
@@ -95,7 +105,7 @@ function getAnalysisFilesForMode(mode: "search-detail" | "single-form"): string[
 	];
 }
 
-function detectAnalysisMode(outputPath: string, options: GeneratorOptions): "search-detail" | "single-form" {
+function detectAnalysisMode(outputPath: string, options: GeneratorOptions): TemplateMode {
 	// If user explicitly provides a form name, treat non-Search/Detail as a single-form workflow.
 	if (options.formName) {
 		const isSearchOrDetail = /^(frm)?\w+(Search|Detail)$/i.test(options.formName);
@@ -112,7 +122,36 @@ function detectAnalysisMode(outputPath: string, options: GeneratorOptions): "sea
 	return "search-detail";
 }
 
-async function ensureAnalysisOutputsExist(options: GeneratorOptions, outputPath: string, analysisFiles: string[], mode: "search-detail" | "single-form"): Promise<void> {
+const INTERACTIVE_WORKFLOW = `INTERACTIVE WORKFLOW:
+1. Generate initial templates based on analysis
+2. Ask: "Would you like me to generate ViewModels for this entity?"
+3. If yes, ask which types: Search, Edit, Details, ListItem
+4. Generate requested ViewModels following patterns above
+5. Iterate and refine based on user feedback
+
+This is an INTERACTIVE session. You can ask questions, clarify requirements, and iterate on the templates.`;
+
+function getScriptedWorkflow(entity: string, outputPath: string, mode: TemplateMode): string {
+	return `NON-INTERACTIVE MODE:
+Nobody is available to answer questions. Do not ask any; use these default answers instead:
+- ViewModels: generate ${mode === "search-detail" ? "Search, Edit and Details" : "Edit and Details"} ViewModels; add a ListItem ViewModel only if grid rows need fields the DTO does not have
+- Child entities: generate a {Child}Dto.cs for each child entity in related-entities.json
+- Anything else that is unclear: make the most reasonable choice from the analysis and list it under "Assumptions" in conversion-plan.md
+
+Write at least these files, with exactly these paths (relative to ${outputPath}/):
+${getExpectedTemplateFiles(entity, mode)
+	.map((file) => `- ${file.path} - ${file.description}`)
+	.join("\n")}
+
+Finish by writing every file; the run is checked for each path above when you exit.`;
+}
+
+async function ensureAnalysisOutputsExist(
+	options: GeneratorOptions,
+	outputPath: string,
+	analysisFiles: string[],
+	mode: TemplateMode,
+): Promise<void> {
 	const missingBefore = getMissingFiles(outputPath, analysisFiles);
 	if (missingBefore.length === 0) {
 		return;
@@ -122,7 +161,7 @@ async function ensureAnalysisOutputsExist(options: GeneratorOptions, outputPath:
 ╔════════════════════════════════════════════════════════════════════════════╗
 ║                    TEMPLATE GENERATION PRE-FLIGHT CHECK                    ║
 ║                                                                            ║
-║  Entity: ${entity.padEnd(68, " ")}║
+║  Entity: ${options.entity.padEnd(68, " ")}║
 ║  Output: ${outputPath.padEnd(67, " ")}║
 ║                                                                            ║
 ║  Missing analysis files detected. Running orchestrator to (re)generate     ║
@@ -190,7 +229,7 @@ async function runTemplateGenerator(options: GeneratorOptions): Promise<number>
 	await ensureAnalysisOutputsExist(options, outputPath, analysisFiles, mode);
 
 	const systemPrompt = `
-You are a specialized Conversion Template Generator agent running in INTERACTIVE MODE.
+You are a specialized Conversion Template Generator agent running in ${options.print ? "NON-INTERACTIVE MODE (--print)" : "INTERACTIVE MODE"}.
 
 TASK: Generate complete conversion plan and code templates for ${options.entity}.
 
@@ -278,18 +317,16 @@ ${outputPath}/templates/
 │   ├── Repositories/
 │   │   ├── I{Entity}Repository.cs
 │   │   └── {Entity}Repository.cs
-│   ├── Services/
-│   │   ├── I{Entity}Service.cs
-│   │   └── {Entity}Service.cs
-│   └── Mapping/
-│       └── {Entity}MappingProfile.cs
+│   └── Services/    (no Mapping/ folder: repositories return DTOs, so there are no AutoMapper profiles)
+│       ├── I{Entity}Service.cs
+│       └── {Entity}Service.cs
 └── ui/              (UI-specific files)
     ├── Controllers/
     │   └── {Entity}Controller.cs
     ├── Services/
     │   ├── I{Entity}Service.cs
     │   └── {Entity}Service.cs
-    ├── ViewModels/      ⭐ OFFER TO GENERATE THESE DURING INTERACTIVE SESSION
+    ├── ViewModels/      ⭐ ${options.print ? "GENERATE THE VIEWMODELS LISTED UNDER NON-INTERACTIVE MODE" : "OFFER TO GENERATE THESE DURING INTERACTIVE SESSION"}
     │   ├── {Entity}SearchViewModel.cs   - Search/list screen
     │   ├── {Entity}EditViewModel.cs     - Edit/create form
     │   ├── {Entity}DetailsViewModel.cs  - Read-only details
@@ -324,7 +361,7 @@ IMPORTANT IMPLEMENTATION ORDER:
 6. Create UI Controllers and Views
 
 VIEWMODEL GENERATION:
-As part of template generation, you should offer to create ViewModels for common scenarios:
+As part of template generation, you should ${options.print ? "create" : "offer to create"} ViewModels for common scenarios:
 - SearchViewModel - For search/list screens
 - EditViewModel - For edit/create forms
 - DetailsViewModel - For read-only detail views
@@ -342,23 +379,17 @@ For each ViewModel, follow these patterns:
 7. **Display Attributes**: [Display(Name = "...")] for all user-facing properties
 8. **ID Fields**: Uppercase ID (LocationID, BargeID, NOT LocationId)
 
-INTERACTIVE WORKFLOW:
-1. Generate initial templates based on analysis
-2. Ask: "Would you like me to generate ViewModels for this entity?"
-3. If yes, ask which types: Search, Edit, Details, ListItem
-4. Generate requested ViewModels following patterns above
-5. Iterate and refine based on user feedback
-
-This is an INTERACTIVE session. You can ask questions, clarify requirements, and iterate on the templates.
+${options.print ? getScriptedWorkflow(options.entity, outputPath, mode) : INTERACTIVE_WORKFLOW}
 
 Begin template generation now.
 `;
 
-	const baseFlags = {
+	const baseFlags: Partial<ClaudeFlags> = {
 		settings: settingsJson,
 		"mcp-config": mcpConfigPath,
 		"append-system-prompt": systemPrompt,
-	} as const;
+		...(options.print ? { "output-format": "json" } : {}),
+	};
 
 	const flags = buildClaudeFlags({ ...baseFlags }, parsedArgs.values as ClaudeFlags);
 
@@ -366,6 +397,10 @@ Begin template generation now.
 	const initialPrompt = `Generate conversion templates for the ${options.entity} entity based on the analysis files in ${outputPath}. Include ViewModels for the UI layer.`;
 	const args = [...flags, initialPrompt];
 
+	if (options.print) {
+		return runScripted(options, outputPath, mode, args);
+	}
+
 	console.log(`
 ╔════════════════════════════════════════════════════════════════════════════╗
 ║              CONVERSION TEMPLATE GENERATOR (Interactive Mode)               ║
@@ -378,7 +413,7 @@ Begin template generation now.
 ╚════════════════════════════════════════════════════════════════════════════╝
 	`);
 
-	const child = spawn(["claude", ...args], {
+	const child = spawn([...getClaudeCommand(), ...args], {
 		stdin: "inherit",
 		stdout: "inherit",
 		stderr: "inherit",
@@ -403,9 +438,70 @@ Begin template generation now.
 	return child.exitCode ?? 0;
 }
 
+/**
+ * Run claude without user input, record its result envelope and check the expected files
+ */
+async function runScripted(
+	options: GeneratorOptions,
+	outputPath: string,
+	mode: TemplateMode,
+	args: string[],
+): Promise<number> {
+	console.log(
+		`[conversion-template-generator] Generating templates for ${options.entity} without user input (--print)`,
+	);
+	console.log(`[conversion-template-generator] Output: ${outputPath}`);
+
+	const child = spawn([...getClaudeCommand(), ...args], {
+		stdin: "ignore",
+		stdout: "pipe",
+		stderr: "inherit",
+		env: {
+			...process.env,
+			CLAUDE_PROJECT_DIR: projectRoot,
+			ENTITY_NAME: options.entity,
+			OUTPUT_PATH: outputPath,
+		},
+	});
+
+	const onExit = () => {
+		try {
+			child.kill("SIGTERM");
+		} catch {}
+	};
+
+	process.on("SIGINT", onExit);
+	process.on("SIGTERM", onExit);
+
+	const stdoutText = await new Response(child.stdout).text();
+	const exitCode = await child.exited;
+	await recordClaudeRun(outputPath, "conversion-template", stdoutText, exitCode);
+
+	if (exitCode !== 0) {
+		console.error(`[conversion-template-generator] claude exited with code ${exitCode}`);
+		return exitCode;
+	}
+
+	const expected = getExpectedTemplateFiles(options.entity, mode);
+	const missing = getMissingTemplateFiles(outputPath, options.entity, mode);
+	if (missing.length > 0) {
+		console.error(`\n❌ ${missing.length} of ${expected.length} expected files were not written:`);
+		for (const file of missing) {
+			console.error(`  - ${file.path} (${file.description})`);
+		}
+		console.error(`\nClaude's result is in ${outputPath}/.runs/conversion-template.json`);
+		return 1;
+	}
+
+	console.log(`\n✅ All ${expected.length} expected files written to ${outputPath}`);
+	return 0;
+}
+
 async function main() {
 	const options = parseOptions();
-	console.log(`[conversion-template-generator] Launching interactive template generator for ${options.entity}...`);
+	console.log(
+		`[conversion-template-generator] Launching ${options.print ? "scripted" : "interactive"} template generator for ${options.entity}...`,
+	);
 
 	const code = await runTemplateGenerator(options);
 	process.exit(code);
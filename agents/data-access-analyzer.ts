@@ -1,42 +1,41 @@
 #!/usr/bin/env -S bun run
 /**
  * DATA ACCESS PATTERN ANALYZER: Extract stored procedures and queries
+ *
+ * Usage:
+ *   bun run agents/data-access-analyzer.ts --entity "Facility"
+ *   bun run agents/data-access-analyzer.ts --entity "Facility" --interactive
  */
 
-import { spawn } from "bun";
-import { buildClaudeFlags, parsedArgs } from "../lib/flags";
-import type { ClaudeFlags } from "../lib/claude-flags.types";
-import { getProjectRoot, getListPathForPrompt, getAdminApiExamples, getCrewingApiExamples, getSharedExamples } from "../lib/paths";
-import dataAccessSettings from "../settings/data-access.settings.json" with { type: "json" };
+import { runAgentCli } from "../lib/agent-runner";
+import {
+	getAdminApiExamples,
+	getCrewingApiExamples,
+	getListPathForPrompt,
+	getSharedExamples,
+} from "../lib/paths";
+import { formatSourceIndexForPrompt } from "../lib/source-index";
 import dataAccessMcp from "../settings/data-access.mcp.json" with { type: "json" };
-import dataAccessAnalyzerPrompt from "../system-prompts/data-access-analyzer-prompt.md" with { type: "text" };
-
-const projectRoot = getProjectRoot(import.meta.url);
-const settingsJson = JSON.stringify(dataAccessSettings);
-const mcpJson = JSON.stringify(dataAccessMcp);
-
-async function main() {
-	const entity = parsedArgs.values.entity as string;
-	const interactive = parsedArgs.values.interactive === true;
-	const outputDir = parsedArgs.values.output as string;
-
-	if (!entity) {
-		console.error("Error: --entity parameter is required");
-		process.exit(1);
-	}
-
-	const outputPath = outputDir || `${projectRoot}output/${entity}`;
-
-	// Build context-specific prompt with entity details and paths
-	const contextPrompt = `
+import dataAccessSettings from "../settings/data-access.settings.json" with { type: "json" };
+import dataAccessAnalyzerPrompt from "../system-prompts/data-access-analyzer-prompt.md" with {
+	type: "text",
+};
+
+await runAgentCli({
+	name: "data-access-analyzer",
+	systemPrompt: dataAccessAnalyzerPrompt,
+	settings: dataAccessSettings,
+	mcp: dataAccessMcp,
+	outputFile: "data-access.json",
+	buildPrompt: async ({ entity, outputFilePath }) => `
 TASK: Extract data access patterns for ${entity}.
 
 TARGET FILES:
 - List class: ${getListPathForPrompt(entity)}
 - Business object CRUD methods
-
+${await formatSourceIndexForPrompt(entity)}
 OUTPUT:
-Generate a JSON file at: ${outputPath}/data-access.json
+Generate a JSON file at: ${outputFilePath}
 
 ARCHITECTURE REFERENCES:
 - Shared DTOs: ${getSharedExamples().dtos}
@@ -57,29 +56,5 @@ Extract stored procedure patterns from legacy VB.NET code, documenting that they
 - Child entities: sp_{Entity}{Child}_GetByParentID → {Entity}_GetRelated.sql
 
 Begin extraction.
-`;
-
-	const baseFlags = {
-		"append-system-prompt": dataAccessAnalyzerPrompt,
-		settings: settingsJson,
-		"mcp-config": mcpJson,
-		...(interactive ? {} : { print: true, "output-format": "json" }),
-	} as const;
-
-	const flags = buildClaudeFlags({ ...baseFlags }, parsedArgs.values as ClaudeFlags);
-	const child = spawn(["claude", ...flags, contextPrompt], {
-		stdin: "inherit",
-		stdout: interactive ? "inherit" : "pipe",
-		stderr: "inherit",
-		env: { ...process.env, CLAUDE_PROJECT_DIR: projectRoot },
-	});
-
-	const onExit = () => { try { child.kill("SIGTERM"); } catch {} };
-	process.on("SIGINT", onExit);
-	process.on("SIGTERM", onExit);
-
-	await child.exited;
-	process.exit(child.exitCode ?? 0);
-}
-
-await main();
+`,
+});
@@ -1,41 +1,27 @@
 #!/usr/bin/env -S bun run
 /**
  * DETAIL FORM TAB ANALYZER: Extract tab structure and related entities
+ *
+ * Usage:
+ *   bun run agents/detail-tab-analyzer.ts --entity "Facility"
+ *   bun run agents/detail-tab-analyzer.ts --entity "FuelPrices" --form-name "frmFuelPrices"
  */
 
-import { spawn } from "bun";
-import { buildClaudeFlags, parsedArgs } from "../lib/flags";
-import type { ClaudeFlags } from "../lib/claude-flags.types";
-import tabSettings from "../settings/tab-analyzer.settings.json" with { type: "json" };
+import { runAgentCli } from "../lib/agent-runner";
 import tabMcp from "../settings/tab-analyzer.mcp.json" with { type: "json" };
-import detailTabAnalyzerPrompt from "../system-prompts/detail-tab-analyzer-prompt.md" with { type: "text" };
-
-function resolvePath(relativeFromThisFile: string): string {
-	const url = new URL(relativeFromThisFile, import.meta.url);
-	return url.pathname;
-}
-
-const projectRoot = resolvePath("../");
-const settingsJson = JSON.stringify(tabSettings);
-const mcpJson = JSON.stringify(tabMcp);
-
-async function main() {
-	const entity = parsedArgs.values.entity as string;
-	const formName = parsedArgs.values["form-name"] as string;
-	const interactive = parsedArgs.values.interactive === true;
-	const outputDir = parsedArgs.values.output as string;
-
-	if (!entity) {
-		console.error("Error: --entity parameter is required");
-		process.exit(1);
-	}
-
-	const outputPath = outputDir || `${projectRoot}output/${entity}`;
-
-	// Build context-specific prompt with entity details and paths
-	const targetFormLabel = formName || `frm${entity}Detail`;
-	const contextPrompt = `
-TASK: Extract tab structure for ${targetFormLabel}.
+import tabSettings from "../settings/tab-analyzer.settings.json" with { type: "json" };
+import detailTabAnalyzerPrompt from "../system-prompts/detail-tab-analyzer-prompt.md" with {
+	type: "text",
+};
+
+await runAgentCli({
+	name: "detail-tab-analyzer",
+	systemPrompt: detailTabAnalyzerPrompt,
+	settings: tabSettings,
+	mcp: tabMcp,
+	outputFile: "tabs.json",
+	buildPrompt: ({ entity, formName, outputPath, outputFilePath }) => `
+TASK: Extract tab structure for ${formName || `frm${entity}Detail`}.
 
 EXTRACTION GOALS:
 1. Parse tab definitions from Designer file (if present)
@@ -45,35 +31,16 @@ EXTRACTION GOALS:
 5. Identify shared controls (submit/cancel)
 
 OUTPUT:
-Generate a JSON file at: ${outputPath}/tabs.json
+Generate a JSON file at: ${outputFilePath}
+
+INPUT FROM EARLIER STEPS (read whichever exist before opening the legacy sources):
+- ${outputPath}/form-structure-search.json
+- ${outputPath}/form-structure-detail.json
+- ${outputPath}/form-structure.json (single forms)
 
 IMPORTANT:
 - If the form has no tabs, still generate tabs.json with an empty tab list and note that it is a single-screen (no-tab) layout.
 
 Begin analysis.
-`;
-
-	const baseFlags = {
-		"append-system-prompt": detailTabAnalyzerPrompt,
-		settings: settingsJson,
-		"mcp-config": mcpJson,
-		...(interactive ? {} : { print: true, "output-format": "json" }),
-	} as const;
-
-	const flags = buildClaudeFlags({ ...baseFlags }, parsedArgs.values as ClaudeFlags);
-	const child = spawn(["claude", ...flags, contextPrompt], {
-		stdin: "inherit",
-		stdout: interactive ? "inherit" : "pipe",
-		stderr: "inherit",
-		env: { ...process.env, CLAUDE_PROJECT_DIR: projectRoot },
-	});
-
-	const onExit = () => { try { child.kill("SIGTERM"); } catch {} };
-	process.on("SIGINT", onExit);
-	process.on("SIGTERM", onExit);
-
-	await child.exited;
-	process.exit(child.exitCode ?? 0);
-}
-
-await main();
+`,
+});
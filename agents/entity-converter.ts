@@ -13,6 +13,7 @@
 
 import { spawn } from "bun";
 import type { ClaudeFlags } from "../lib/claude-flags.types";
+import { getClaudeCommand } from "../lib/config";
 import { buildClaudeFlags, getPositionals, parsedArgs, resolvePath } from "../lib/flags";
 import entityConversionSettings from "../settings/entity-converter.settings.json" with { type: "json" };
 import entityConversionPrompt from "../system-prompts/entity-conversion-prompt.md" with { type: "text" };
@@ -52,7 +53,7 @@ async function main() {
 
 	const args = [...flags, prompt];
 
-	const child = spawn(["claude", ...args], {
+	const child = spawn([...getClaudeCommand(), ...args], {
 		stdin: "inherit",
 		stdout: "inherit",
 		stderr: "inherit",
@@ -9,81 +9,113 @@
  * - Validation patterns
  * - Layout structure
  *
+ * Before Claude runs, the Designer file is parsed deterministically (lib/designer-parser.ts)
+ * into {output}/.baseline/; the agent enriches that baseline instead of starting from nothing.
+ *
  * Usage:
  *   bun run agents/form-structure-analyzer.ts --entity "Facility" --form-type "Search"
  *   bun run agents/form-structure-analyzer.ts --entity "Facility" --form-type "Detail" --interactive
  */
 
-import { spawn } from "bun";
-import { buildClaudeFlags, parsedArgs } from "../lib/flags";
-import type { ClaudeFlags } from "../lib/claude-flags.types";
+import { runAgentCli } from "../lib/agent-runner";
+import { buildFormStructureBaseline, writeFormStructureBaseline } from "../lib/designer-parser";
 import {
-	getProjectRoot,
+	getAdminUiExamples,
+	getCrewingUiExamples,
 	getFormDesignerPathByNameForPrompt,
 	getFormDesignerPathForPrompt,
 	getFormPathByNameForPrompt,
 	getFormPathForPrompt,
-	getCrewingUiPath,
-	getAdminUiPath,
-	getCrewingUiExamples,
-	getAdminUiExamples,
 	getSharedExamples,
 } from "../lib/paths";
-import formAnalyzerSettings from "../settings/form-analyzer.settings.json" with { type: "json" };
+import { formatSourceIndexForPrompt } from "../lib/source-index";
 import formAnalyzerMcp from "../settings/form-analyzer.mcp.json" with { type: "json" };
-import formStructureAnalyzerPrompt from "../system-prompts/form-structure-analyzer-prompt.md" with { type: "text" };
-
-const projectRoot = getProjectRoot(import.meta.url);
-const settingsJson = JSON.stringify(formAnalyzerSettings);
-const mcpJson = JSON.stringify(formAnalyzerMcp);
+import formAnalyzerSettings from "../settings/form-analyzer.settings.json" with { type: "json" };
+import formStructureAnalyzerPrompt from "../system-prompts/form-structure-analyzer-prompt.md" with {
+	type: "text",
+};
 
-interface AnalyzerOptions {
-	entity: string;
-	formType: "Search" | "Detail";
-	formName?: string;
-	interactive: boolean;
-	outputDir?: string;
+function getFormType(formType?: string): "Search" | "Detail" {
+	return (formType || "Search") as "Search" | "Detail";
 }
 
-function parseOptions(): AnalyzerOptions {
-	const entity = parsedArgs.values.entity as string;
-	const formType = (parsedArgs.values["form-type"] || "Search") as "Search" | "Detail";
-	const formName = parsedArgs.values["form-name"] as string;
-	const interactive = parsedArgs.values.interactive === true;
-	const outputDir = parsedArgs.values.output as string;
+/**
+ * Parse the Designer file without an LLM and return the prompt section pointing Claude at the baseline
+ */
+async function prepareBaseline(
+	designerPath: string,
+	formPath: string,
+	formLabel: string,
+	outputPath: string,
+	outputFileName: string,
+): Promise<string> {
+	try {
+		const baseline = await buildFormStructureBaseline(designerPath, formPath, formLabel);
+		if (!baseline) {
+			console.warn(
+				`[form-structure-analyzer] Designer file not found, no baseline: ${designerPath}`,
+			);
+			return "";
+		}
 
-	if (!entity) {
-		console.error("Error: --entity parameter is required");
-		process.exit(1);
+		const baselinePath = await writeFormStructureBaseline(outputPath, outputFileName, baseline);
+		console.log(
+			`[form-structure-analyzer] Baseline: ${baseline.controls.length} controls, ${baseline.eventHandlers.length} event handlers → ${baselinePath}`,
+		);
+
+		return `
+BASELINE (parsed from the Designer and code files without an LLM):
+${baselinePath}
+Read this file first and build on it. Control names, types, parent containers, locations, sizes,
+tab order, tabs, grid columns and event wiring in it are exact; keep all of them. Add what the
+Designer file cannot tell you (validation, business purpose, grid column meaning, modernization
+notes) and write the combined result to the output path above.
+`;
+	} catch (error) {
+		console.warn(`[form-structure-analyzer] Could not parse ${designerPath}: ${error}`);
+		return "";
 	}
-
-	return { entity, formType, formName, interactive, outputDir };
 }
 
-async function runFormAnalyzer(options: AnalyzerOptions): Promise<number> {
-	const outputPath = options.outputDir || `${projectRoot}output/${options.entity}`;
-	const isSingleForm = !!options.formName;
-	const outputFileName = isSingleForm ? "form-structure.json" : `form-structure-${options.formType.toLowerCase()}.json`;
-
-	// Build context-specific prompt with entity details and paths
-	const formLabel = isSingleForm ? options.formName! : `frm${options.entity}${options.formType}`;
-	const formPath = isSingleForm
-		? getFormPathByNameForPrompt(options.formName!)
-		: getFormPathForPrompt(options.entity, options.formType);
-	const designerPath = isSingleForm
-		? getFormDesignerPathByNameForPrompt(options.formName!)
-		: getFormDesignerPathForPrompt(options.entity, options.formType);
-
-	const contextPrompt = `
+await runAgentCli({
+	name: "form-structure-analyzer",
+	systemPrompt: formStructureAnalyzerPrompt,
+	settings: formAnalyzerSettings,
+	mcp: formAnalyzerMcp,
+	outputFile: ({ formName, formType }) =>
+		formName ? "form-structure.json" : `form-structure-${getFormType(formType).toLowerCase()}.json`,
+	startMessage: ({ entity, formName, formType }) =>
+		formName
+			? `Analyzing ${formName} (single form) ...`
+			: `Analyzing ${entity} ${getFormType(formType)} form...`,
+	env: ({ formName, formType }) => ({ FORM_TYPE: formName ? "Single" : getFormType(formType) }),
+	buildPrompt: async ({ entity, formName, formType, outputPath, outputFile, outputFilePath }) => {
+		// Build context-specific prompt with entity details and paths
+		const formLabel = formName || `frm${entity}${getFormType(formType)}`;
+		const formPath = formName
+			? getFormPathByNameForPrompt(formName)
+			: getFormPathForPrompt(entity, getFormType(formType));
+		const designerPath = formName
+			? getFormDesignerPathByNameForPrompt(formName)
+			: getFormDesignerPathForPrompt(entity, getFormType(formType));
+		const baselineSection = await prepareBaseline(
+			designerPath,
+			formPath,
+			formLabel,
+			outputPath,
+			outputFile,
+		);
+
+		return `
 TASK: Extract complete form structure from legacy VB.NET Windows Forms for ${formLabel}.
 
 TARGET FILES:
 - Form: ${formPath}
 - Designer: ${designerPath}
-
+${await formatSourceIndexForPrompt(entity, formLabel)}
 OUTPUT:
-Generate a JSON file at: ${outputPath}/${outputFileName}
-
+Generate a JSON file at: ${outputFilePath}
+${baselineSection}
 ARCHITECTURE REFERENCES:
 - Shared DTOs: ${getSharedExamples().dtos}
 - Crewing UI Controllers: ${getCrewingUiExamples().controllers}
@@ -109,64 +141,5 @@ Target patterns in BargeOps.Admin.UI:
 
 Begin analysis now.
 `;
-
-	const baseFlags = {
-		"append-system-prompt": formStructureAnalyzerPrompt,
-		settings: settingsJson,
-		"mcp-config": mcpJson,
-		...(options.interactive ? {} : { print: true, "output-format": "json" }),
-	} as const;
-
-	const flags = buildClaudeFlags({ ...baseFlags }, parsedArgs.values as ClaudeFlags);
-	const args = [...flags, contextPrompt];
-
-	const child = spawn(["claude", ...args], {
-		stdin: "inherit",
-		stdout: options.interactive ? "inherit" : "pipe",
-		stderr: "inherit",
-		env: {
-			...process.env,
-			CLAUDE_PROJECT_DIR: projectRoot,
-			ENTITY_NAME: options.entity,
-			FORM_TYPE: isSingleForm ? "Single" : options.formType,
-			OUTPUT_PATH: outputPath,
-		},
-	});
-
-	const onExit = () => {
-		try {
-			child.kill("SIGTERM");
-		} catch {}
-	};
-
-	process.on("SIGINT", onExit);
-	process.on("SIGTERM", onExit);
-
-	if (!options.interactive) {
-		const stdoutText = await new Response(child.stdout).text();
-		const exitCode = await child.exited;
-
-		if (exitCode === 0) {
-			console.log(`Form structure analysis complete. Output: ${outputPath}/${outputFileName}`);
-		}
-
-		return exitCode;
-	}
-
-	await child.exited;
-	return child.exitCode ?? 0;
-}
-
-async function main() {
-	const options = parseOptions();
-	if (options.formName) {
-		console.log(`[form-structure-analyzer] Analyzing ${options.formName} (single form) ...`);
-	} else {
-		console.log(`[form-structure-analyzer] Analyzing ${options.entity} ${options.formType} form...`);
-	}
-
-	const code = await runFormAnalyzer(options);
-	process.exit(code);
-}
-
-await main();
+	},
+});
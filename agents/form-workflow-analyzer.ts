@@ -1,38 +1,26 @@
 #!/usr/bin/env -S bun run
 /**
  * FORM WORKFLOW ANALYZER: Extract user flows and state management
+ *
+ * Usage:
+ *   bun run agents/form-workflow-analyzer.ts --entity "Facility"
+ *   bun run agents/form-workflow-analyzer.ts --entity "Facility" --interactive
  */
 
-import { spawn } from "bun";
-import { buildClaudeFlags, parsedArgs } from "../lib/flags";
-import type { ClaudeFlags } from "../lib/claude-flags.types";
-import workflowSettings from "../settings/workflow.settings.json" with { type: "json" };
+import { runAgentCli } from "../lib/agent-runner";
 import workflowMcp from "../settings/workflow.mcp.json" with { type: "json" };
-import formWorkflowAnalyzerPrompt from "../system-prompts/form-workflow-analyzer-prompt.md" with { type: "text" };
-
-function resolvePath(relativeFromThisFile: string): string {
-	const url = new URL(relativeFromThisFile, import.meta.url);
-	return url.pathname;
-}
-
-const projectRoot = resolvePath("../");
-const settingsJson = JSON.stringify(workflowSettings);
-const mcpJson = JSON.stringify(workflowMcp);
-
-async function main() {
-	const entity = parsedArgs.values.entity as string;
-	const interactive = parsedArgs.values.interactive === true;
-	const outputDir = parsedArgs.values.output as string;
-
-	if (!entity) {
-		console.error("Error: --entity parameter is required");
-		process.exit(1);
-	}
-
-	const outputPath = outputDir || `${projectRoot}output/${entity}`;
-
-	// Build context-specific prompt with entity details and paths
-	const contextPrompt = `
+import workflowSettings from "../settings/workflow.settings.json" with { type: "json" };
+import formWorkflowAnalyzerPrompt from "../system-prompts/form-workflow-analyzer-prompt.md" with {
+	type: "text",
+};
+
+await runAgentCli({
+	name: "form-workflow-analyzer",
+	systemPrompt: formWorkflowAnalyzerPrompt,
+	settings: workflowSettings,
+	mcp: workflowMcp,
+	outputFile: "workflow.json",
+	buildPrompt: ({ entity, outputPath, outputFilePath }) => `
 TASK: Extract user flows and state management for ${entity}.
 
 ANALYSIS GOALS:
@@ -43,32 +31,13 @@ ANALYSIS GOALS:
 5. Extract refresh/update triggers
 
 OUTPUT:
-Generate a JSON file at: ${outputPath}/workflow.json
-
-Begin analysis.
-`;
-
-	const baseFlags = {
-		"append-system-prompt": formWorkflowAnalyzerPrompt,
-		settings: settingsJson,
-		"mcp-config": mcpJson,
-		...(interactive ? {} : { print: true, "output-format": "json" }),
-	} as const;
+Generate a JSON file at: ${outputFilePath}
 
-	const flags = buildClaudeFlags({ ...baseFlags }, parsedArgs.values as ClaudeFlags);
-	const child = spawn(["claude", ...flags, contextPrompt], {
-		stdin: "inherit",
-		stdout: interactive ? "inherit" : "pipe",
-		stderr: "inherit",
-		env: { ...process.env, CLAUDE_PROJECT_DIR: projectRoot },
-	});
+INPUT FROM EARLIER STEPS (read whichever exist before opening the legacy sources):
+- ${outputPath}/form-structure-search.json
+- ${outputPath}/form-structure-detail.json
+- ${outputPath}/form-structure.json (single forms)
 
-	const onExit = () => { try { child.kill("SIGTERM"); } catch {} };
-	process.on("SIGINT", onExit);
-	process.on("SIGTERM", onExit);
-
-	await child.exited;
-	process.exit(child.exitCode ?? 0);
-}
-
-await main();
+Begin analysis.
+`,
+});
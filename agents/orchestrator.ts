@@ -2,8 +2,10 @@
 /**
  * ORCHESTRATOR: Master agent that runs analysis steps 1-10 (or 1-9 for single forms)
  *
- * This agent coordinates the execution of analysis agents in sequence,
- * passing data between them and orchestrating the complete analysis workflow.
+ * This agent coordinates the execution of analysis agents, passing data between
+ * them and orchestrating the complete analysis workflow. Each step declares the
+ * steps whose output it reads; independent steps run at the same time, up to the
+ * configured concurrency limit.
  *
  * Supports both Search/Detail form pairs and single standalone forms.
  * All agents run automatically to gather data.
@@ -20,14 +22,70 @@
  *   --resume              Resume from where conversion left off (runs pending and failed steps)
  *   --rerun-failed        Rerun only the steps that previously failed
  *
+ * Scheduling Options:
+ *   --concurrency <n>     Maximum number of agents running at once (default: config.json orchestrator.concurrency)
+ *
+ * Validation:
+ *   Each step's output file is checked against schemas/*.schema.json after the agent exits.
+ *   Missing or invalid output is retried with a repair prompt naming the problems, with
+ *   exponential backoff; the step fails when the retries run out.
+ *   --max-retries <n>     Retries per step (default: config.json orchestrator.maxRetries)
+ *   --skip-validation     Do not check output files (and never retry)
+ *
+ * Source check:
+ *   Before any agent runs, the legacy business object, base class and list files the steps
+ *   read are resolved with config.json legacyNaming; the run stops if one cannot be found.
+ *   --skip-source-check   Run the agents anyway
+ *
+ * Timeouts (seconds; defaults from config.json orchestrator, 0 disables a limit):
+ *   --step-timeout <s>    Limit for one agent run (default 45 min; per step in orchestrator.stepTimeouts)
+ *   --idle-timeout <s>    Stop an agent that printed nothing and did not change its output file for this long
+ *   --total-timeout <s>   Limit for the whole run; steps not started yet stay pending
+ *   A step that hits a limit is recorded as "timed-out" and is rerun by --resume and --rerun-failed.
+ *
+ * Events:
+ *   Run and step starts, finishes, skips, retries and failures are appended as JSON lines to
+ *   output/{Entity}/events.jsonl (see lib/events.ts).
+ *   --log-format json     Also write the events to stdout; all other output goes to stderr
+ *
+ * History:
+ *   When a run ends its step outputs are copied to output/{Entity}/history/{runId}/ (the
+ *   previous run's outputs too, if they were never saved), for comparison with diff-analysis.
+ *
  * Note: This runs analysis steps only. Template generation should be run separately:
  *       bun run generate-template --entity "Facility"
  */
 
 import { spawn } from "bun";
+import { AGENT_TIMEOUT_EXIT_CODE } from "../lib/agent-runner";
+import { validateArtifact } from "../lib/artifact-schemas";
+import {
+	createEventLog,
+	LOG_FORMATS,
+	type EventLog,
+	type LogFormat,
+	type RunMode,
+} from "../lib/events";
+import { readClaudeRun, getRunRecordPath } from "../lib/claude-result";
+import {
+	getOrchestratorConcurrency,
+	getOrchestratorRetryPolicy,
+	getOrchestratorTimeouts,
+} from "../lib/config";
 import { parsedArgs } from "../lib/flags";
-import { getProjectRoot, parseEntityFromFormName, getAvailableForms, getFormsDirectory, detectChildForms } from "../lib/paths";
-import { mkdir } from "fs/promises";
+import { buildRepairPrompt, findMisplacedOutput } from "../lib/repair-prompt";
+import { detectChildForms, getAvailableForms } from "../lib/source-index";
+import { createRunId, getRunSnapshotPath, snapshotRun } from "../lib/run-history";
+import {
+	getProjectRoot,
+	parseEntityFromFormName,
+	getFormsDirectory,
+	resolveLegacyFile,
+	LEGACY_FILE_LABELS,
+	type LegacyFileKind,
+	type LegacyFileResolution,
+} from "../lib/paths";
+import { mkdir, stat } from "fs/promises";
 import { existsSync } from "fs";
 import { createInterface } from "readline";
 
@@ -46,6 +104,14 @@ function normalizePath(path: string): string {
 
 const projectRoot = getProjectRoot(import.meta.url);
 
+// Reported when the agent exited cleanly but its output file is missing or fails schema validation
+const VALIDATION_FAILED_EXIT_CODE = 65;
+
+// Time an agent gets to stop claude and exit after SIGTERM before it is killed
+const AGENT_STOP_GRACE_MS = 15_000;
+
+type TimeoutReason = "step" | "idle" | "total";
+
 interface OrchestratorOptions {
 	entity: string;
 	formName?: string;
@@ -55,29 +121,74 @@ interface OrchestratorOptions {
 	childForms?: string[];
 	resume?: boolean;
 	rerunFailed?: boolean;
+	concurrency: number;
+	skipValidation?: boolean;
+	skipSourceCheck?: boolean;
+	maxRetries: number;
+	retryBackoffMs: number;
+	stepTimeoutMs: number;
+	stepTimeoutOverrideMs?: number; // --step-timeout; wins over per-step limits
+	stepTimeouts: Record<string, number>;
+	idleTimeoutMs: number;
+	totalTimeoutMs: number;
+	deadline?: number; // Epoch ms when --total-timeout runs out; set when the steps start
+	logFormat: LogFormat;
 }
 
 interface AgentStep {
+	id: string;
 	name: string;
 	script: string;
 	description: string;
 	outputFile: string;
 	interactive: boolean;
 	extraArgs?: string[];
+	dependsOn?: string[]; // ids of steps whose output this step reads
+	legacySources?: LegacyFileKind[]; // Legacy files the agent reads, checked before the run starts
+	timeoutMs?: number; // Overrides the default step timeout; config orchestrator.stepTimeouts wins
+}
+
+interface StepAttempt {
+	attempt: number;
+	startTime: string;
+	endTime?: string;
+	durationMs?: number;
+	exitCode?: number;
+	error?: string;
+	validationErrors?: string[];
+	repairPrompt?: string; // Follow-up prompt sent with this attempt (retries only)
+	timedOut?: TimeoutReason;
+	runFile?: string;
+	sessionId?: string;
+	costUsd?: number;
+	numTurns?: number;
+	isError?: boolean;
+	claudeDurationMs?: number;
 }
 
 interface StepStatus {
 	stepNumber: number;
+	stepId?: string;
 	name: string;
 	script: string;
 	description: string;
-	status: "pending" | "running" | "completed" | "failed" | "skipped";
+	status: "pending" | "running" | "completed" | "failed" | "timed-out" | "skipped";
 	startTime?: string;
 	endTime?: string;
 	durationMs?: number;
 	exitCode?: number;
 	error?: string;
 	outputFile?: string;
+	// From the claude result envelope saved under .runs/ (non-interactive steps only)
+	runFile?: string;
+	sessionId?: string;
+	costUsd?: number;
+	numTurns?: number;
+	isError?: boolean;
+	claudeDurationMs?: number;
+	validationErrors?: string[]; // Schema problems found in the step's output file
+	timedOut?: TimeoutReason; // Which limit stopped the step (status "timed-out")
+	attempts?: StepAttempt[]; // One entry per run of the agent, including retries
 }
 
 interface ConversionStatus {
@@ -91,9 +202,11 @@ interface ConversionStatus {
 	completedSteps: number;
 	failedSteps: number;
 	skippedSteps: number;
+	totalCostUsd?: number;
 	steps: StepStatus[];
 	childForms?: string[];
 	failedStepNumbers?: number[]; // Summary of failed step numbers for easy reference
+	runId?: string; // Id of the latest run; its outputs are saved under history/{runId}
 }
 
 /**
@@ -116,7 +229,9 @@ async function promptForForm(): Promise<string | null> {
 	return new Promise((resolve) => {
 		console.log("\nAvailable forms:");
 		forms.forEach((form, index) => {
-			console.log(`  ${index + 1}. ${form}`);
+			console.log(
+				`  ${index + 1}. ${form}${parseEntityFromFormName(form) ? "" : " (single form)"}`,
+			);
 		});
 		
 		rl.question("\nEnter the number or name of the form to convert: ", (answer) => {
@@ -140,6 +255,25 @@ async function promptForForm(): Promise<string | null> {
 	});
 }
 
+/**
+ * Read a timeout flag given in seconds; returns milliseconds, or undefined when the flag is absent
+ */
+function parseTimeoutFlag(
+	name: "step-timeout" | "idle-timeout" | "total-timeout",
+): number | undefined {
+	const value = parsedArgs.values[name] as string | undefined;
+	if (value === undefined) {
+		return undefined;
+	}
+
+	const seconds = Number(value);
+	if (!Number.isFinite(seconds) || seconds < 0) {
+		console.error(`Error: --${name} must be zero or a positive number of seconds (got "${value}")`);
+		process.exit(1);
+	}
+	return seconds * 1000;
+}
+
 async function parseOptions(): Promise<OrchestratorOptions> {
 	const rawEntity = parsedArgs.values.entity;
 	const rawFormName = parsedArgs.values["form-name"];
@@ -148,6 +282,40 @@ async function parseOptions(): Promise<OrchestratorOptions> {
 	const skipSteps = skipStepsStr ? skipStepsStr.split(",").map(Number) : [];
 	const resume = parsedArgs.values.resume as boolean;
 	const rerunFailed = parsedArgs.values["rerun-failed"] as boolean;
+	const skipValidation = parsedArgs.values["skip-validation"] === true;
+	const skipSourceCheck = parsedArgs.values["skip-source-check"] === true;
+	const retryPolicy = getOrchestratorRetryPolicy();
+	const maxRetriesStr = parsedArgs.values["max-retries"] as string | undefined;
+	const maxRetries = maxRetriesStr ? Number.parseInt(maxRetriesStr, 10) : retryPolicy.maxRetries;
+	const concurrencyStr = parsedArgs.values.concurrency as string | undefined;
+	const concurrency = concurrencyStr
+		? Number.parseInt(concurrencyStr, 10)
+		: getOrchestratorConcurrency();
+
+	if (!Number.isInteger(concurrency) || concurrency < 1) {
+		console.error(`Error: --concurrency must be a positive integer (got "${concurrencyStr}")`);
+		process.exit(1);
+	}
+
+	if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+		console.error(
+			`Error: --max-retries must be zero or a positive integer (got "${maxRetriesStr}")`,
+		);
+		process.exit(1);
+	}
+
+	const timeouts = getOrchestratorTimeouts();
+	const stepTimeoutOverrideMs = parseTimeoutFlag("step-timeout");
+	const idleTimeoutMs = parseTimeoutFlag("idle-timeout") ?? timeouts.idleTimeoutMs;
+	const totalTimeoutMs = parseTimeoutFlag("total-timeout") ?? timeouts.totalTimeoutMs;
+
+	const logFormat = (parsedArgs.values["log-format"] as string | undefined) ?? "text";
+	if (!LOG_FORMATS.includes(logFormat as LogFormat)) {
+		console.error(
+			`Error: --log-format must be one of ${LOG_FORMATS.join(", ")} (got "${logFormat}")`,
+		);
+		process.exit(1);
+	}
 
 	// Node's parseArgs can return string[] if an option is repeated; normalize to a single string.
 	const entity = Array.isArray(rawEntity) ? rawEntity[0] : rawEntity;
@@ -254,12 +422,36 @@ async function parseOptions(): Promise<OrchestratorOptions> {
 		}
 	}
 
-	return { entity: finalEntity, formName: finalFormName, outputDir, skipSteps, isSingleForm, childForms, resume, rerunFailed };
+	return {
+		entity: finalEntity,
+		formName: finalFormName,
+		outputDir,
+		skipSteps,
+		isSingleForm,
+		childForms,
+		resume,
+		rerunFailed,
+		concurrency,
+		skipValidation,
+		skipSourceCheck,
+		maxRetries,
+		retryBackoffMs: retryPolicy.backoffMs,
+		stepTimeoutMs: timeouts.stepTimeoutMs,
+		stepTimeoutOverrideMs,
+		stepTimeouts: timeouts.stepTimeouts,
+		idleTimeoutMs,
+		totalTimeoutMs,
+		logFormat: logFormat as LogFormat,
+	};
+}
+
+function isFailedStep(step: StepStatus): boolean {
+	return step.status === "failed" || step.status === "timed-out";
 }
 
 function getFailedSteps(status: ConversionStatus): number[] {
 	return status.steps
-		.filter(step => step.status === "failed")
+		.filter(isFailedStep)
 		.map(step => step.stepNumber)
 		.sort((a, b) => a - b);
 }
@@ -291,15 +483,27 @@ async function readConversionStatus(outputPath: string): Promise<ConversionStatu
 	return null;
 }
 
-async function writeConversionStatus(outputPath: string, status: ConversionStatus): Promise<void> {
+// Steps running in parallel all update the same status object. Each write takes a
+// snapshot immediately and is chained behind the previous one, so writes never
+// interleave and the file on disk always reflects the latest requested state.
+let statusWriteChain: Promise<void> = Promise.resolve();
+
+function writeConversionStatus(outputPath: string, status: ConversionStatus): Promise<void> {
 	const statusPath = `${outputPath}/conversion-status.json`;
-	try {
-		await Bun.write(statusPath, JSON.stringify(status, null, 2));
-	} catch (error) {
-		console.error(`Error writing conversion-status.json: ${error}`);
-	}
+	const snapshot = JSON.stringify(status, null, 2);
+	statusWriteChain = statusWriteChain.then(async () => {
+		try {
+			await Bun.write(statusPath, snapshot);
+		} catch (error) {
+			console.error(`Error writing conversion-status.json: ${error}`);
+		}
+	});
+	return statusWriteChain;
 }
 
+// Set by main once the output folder exists; steps report their progress through it
+let eventLog: EventLog | null = null;
+
 async function initializeConversionStatus(
 	outputPath: string,
 	entity: string,
@@ -331,6 +535,7 @@ function getAgentSteps(isSingleForm: boolean, formName?: string): AgentStep[] {
 	if (isSingleForm && formName) {
 		// For single forms, run the analyzer once with the specific form name
 		steps.push({
+			id: "form-structure",
 			name: `Form Structure Analyzer (${formName})`,
 			script: "form-structure-analyzer.ts",
 			description: `Extract ${formName} UI components`,
@@ -342,6 +547,7 @@ function getAgentSteps(isSingleForm: boolean, formName?: string): AgentStep[] {
 		// For standard Search/Detail pairs
 		steps.push(
 			{
+				id: "form-structure-search",
 				name: "Form Structure Analyzer (Search)",
 				script: "form-structure-analyzer.ts",
 				description: "Extract search form UI components",
@@ -350,6 +556,7 @@ function getAgentSteps(isSingleForm: boolean, formName?: string): AgentStep[] {
 				extraArgs: ["--form-type", "Search"],
 			},
 			{
+				id: "form-structure-detail",
 				name: "Form Structure Analyzer (Detail)",
 				script: "form-structure-analyzer.ts",
 				description: "Extract detail form UI components",
@@ -360,23 +567,31 @@ function getAgentSteps(isSingleForm: boolean, formName?: string): AgentStep[] {
 		);
 	}
 
+	// Steps that read the form structure output wait for whichever form analyzers exist
+	const formStructureSteps = steps.map((step) => step.id);
+
 	// Common steps for all forms
 	steps.push(
 		{
+			id: "business-logic",
 			name: "Business Logic Extractor",
 			script: "business-logic-extractor.ts",
 			description: "Extract business rules and validation",
 			outputFile: "business-logic.json",
 			interactive: false,
+			legacySources: ["businessObject", "businessObjectBase"],
 		},
 		{
+			id: "data-access",
 			name: "Data Access Pattern Analyzer",
 			script: "data-access-analyzer.ts",
 			description: "Extract stored procedures and queries",
 			outputFile: "data-access.json",
 			interactive: false,
+			legacySources: ["list"],
 		},
 		{
+			id: "security",
 			name: "Security & Authorization Extractor",
 			script: "security-extractor.ts",
 			description: "Extract permissions and authorization",
@@ -384,27 +599,34 @@ function getAgentSteps(isSingleForm: boolean, formName?: string): AgentStep[] {
 			interactive: false,
 		},
 		{
+			id: "ui-mapping",
 			name: "UI Component Mapper",
 			script: "ui-component-mapper.ts",
 			description: "Map legacy controls to modern equivalents",
 			outputFile: "ui-mapping.json",
 			interactive: false,
+			dependsOn: formStructureSteps,
 		},
 		{
+			id: "workflow",
 			name: "Form Workflow Analyzer",
 			script: "form-workflow-analyzer.ts",
 			description: "Extract user flows and state management",
 			outputFile: "workflow.json",
 			interactive: false,
+			dependsOn: formStructureSteps,
 		},
 		{
+			id: "tabs",
 			name: "Detail Form Tab Analyzer",
 			script: "detail-tab-analyzer.ts",
 			description: "Extract tab structure and related entities",
 			outputFile: "tabs.json",
 			interactive: false,
+			dependsOn: formStructureSteps,
 		},
 		{
+			id: "validation",
 			name: "Validation Rule Extractor",
 			script: "validation-extractor.ts",
 			description: "Extract all validation logic",
@@ -412,6 +634,7 @@ function getAgentSteps(isSingleForm: boolean, formName?: string): AgentStep[] {
 			interactive: false,
 		},
 		{
+			id: "related-entities",
 			name: "Related Entity Analyzer",
 			script: "related-entity-analyzer.ts",
 			description: "Extract entity relationships",
@@ -423,6 +646,206 @@ function getAgentSteps(isSingleForm: boolean, formName?: string): AgentStep[] {
 	return steps;
 }
 
+/**
+ * Effective limit for one run of a step: --step-timeout, then config orchestrator.stepTimeouts,
+ * then the step's own timeoutMs, then config orchestrator.stepTimeoutMs. 0 means no limit.
+ */
+function getStepTimeoutMs(step: AgentStep, options: OrchestratorOptions): number {
+	return (
+		options.stepTimeoutOverrideMs ??
+		options.stepTimeouts[step.id] ??
+		step.timeoutMs ??
+		options.stepTimeoutMs
+	);
+}
+
+/**
+ * Modification time of a file (0 while it does not exist)
+ */
+async function getModifiedTime(path: string): Promise<number> {
+	try {
+		return (await stat(path)).mtimeMs;
+	} catch {
+		return 0;
+	}
+}
+
+/**
+ * Copy a child's output stream to ours, calling onActivity for every chunk it writes
+ */
+async function forwardOutput(
+	stream: ReadableStream<Uint8Array>,
+	target: NodeJS.WriteStream,
+	onActivity: () => void,
+): Promise<void> {
+	for await (const chunk of stream) {
+		onActivity();
+		target.write(chunk);
+	}
+}
+
+// Agents currently running, stopped when the orchestrator itself is interrupted
+const runningAgents = new Set<ReturnType<typeof spawn>>();
+
+/**
+ * On SIGINT or SIGTERM (Ctrl+C, or batch-convert stopping its runs) stop the running agents
+ * and wait for them to exit before exiting, so no agent or the claude it started keeps writing
+ * to the output folder after the orchestrator is gone
+ */
+function stopAgentsOnInterrupt(): void {
+	let stopping = false;
+	const onSignal = async (signal: NodeJS.Signals) => {
+		if (stopping) return;
+		stopping = true;
+		const agents = [...runningAgents];
+		console.error(`\n⏹️  ${signal} received; stopping ${agents.length} running agent(s)`);
+		for (const agent of agents) agent.kill("SIGTERM");
+		const killTimer = setTimeout(() => {
+			for (const agent of agents) agent.kill("SIGKILL");
+		}, AGENT_STOP_GRACE_MS);
+		await Promise.all(agents.map((agent) => agent.exited));
+		clearTimeout(killTimer);
+		await statusWriteChain;
+		process.exit(signal === "SIGINT" ? 130 : 143);
+	};
+	process.on("SIGINT", onSignal);
+	process.on("SIGTERM", onSignal);
+}
+
+async function spawnAgent(
+	step: AgentStep,
+	options: OrchestratorOptions,
+	outputPath: string,
+	repairPrompt?: string,
+): Promise<{ exitCode: number; timedOut?: TimeoutReason }> {
+	const args = [
+		"run",
+		`${projectRoot}agents/${step.script}`,
+		"--entity",
+		options.entity,
+		"--output",
+		outputPath,
+	];
+
+	if (options.formName) {
+		args.push("--form-name", options.formName);
+	}
+
+	if (step.extraArgs) {
+		args.push(...step.extraArgs);
+	}
+
+	if (step.interactive) {
+		args.push("--interactive");
+	}
+
+	if (repairPrompt) {
+		args.push("--repair-prompt", repairPrompt);
+	}
+
+	// Interactive steps have a person at the keyboard; no limits apply
+	const stepTimeoutMs = step.interactive ? 0 : getStepTimeoutMs(step, options);
+	const idleTimeoutMs = step.interactive ? 0 : options.idleTimeoutMs;
+	const remainingMs =
+		step.interactive || !options.deadline ? 0 : Math.max(options.deadline - Date.now(), 1);
+
+	// The agent stops claude itself at the step timeout; the orchestrator only steps in if it does not
+	if (stepTimeoutMs > 0) {
+		args.push("--timeout", String(stepTimeoutMs / 1000));
+	}
+
+	// With --log-format json stdout carries only events, so agent output goes to stderr
+	const agentStdout = options.logFormat === "json" ? process.stderr : process.stdout;
+	const child = spawn(["bun", ...args], {
+		stdin: "inherit",
+		// The idle watchdog reads the agent's output as it passes through
+		stdout: idleTimeoutMs > 0 ? "pipe" : options.logFormat === "json" ? 2 : "inherit",
+		stderr: idleTimeoutMs > 0 ? "pipe" : "inherit",
+		env: {
+			...process.env,
+			CLAUDE_PROJECT_DIR: projectRoot,
+		},
+	});
+	runningAgents.add(child);
+
+	let timedOut: TimeoutReason | undefined;
+	let killTimer: ReturnType<typeof setTimeout> | undefined;
+	const stop = (reason: TimeoutReason, message: string) => {
+		if (timedOut) return;
+		timedOut = reason;
+		console.error(`\n⏱️  ${step.name}: ${message}; stopping the agent`);
+		child.kill("SIGTERM");
+		killTimer = setTimeout(() => child.kill("SIGKILL"), AGENT_STOP_GRACE_MS);
+	};
+
+	const timers: Array<ReturnType<typeof setTimeout>> = [];
+	if (stepTimeoutMs > 0) {
+		timers.push(
+			setTimeout(
+				() => stop("step", `no result after ${stepTimeoutMs / 1000}s`),
+				stepTimeoutMs + AGENT_STOP_GRACE_MS,
+			),
+		);
+	}
+	if (remainingMs > 0) {
+		timers.push(setTimeout(() => stop("total", "orchestrator time limit reached"), remainingMs));
+	}
+
+	// Activity is this step's own: its agent printing something or its output file changing.
+	// Other steps running in parallel and the orchestrator's status writes do not count.
+	let idleWatchdog: ReturnType<typeof setInterval> | undefined;
+	const forwarding: Promise<void>[] = [];
+	if (idleTimeoutMs > 0) {
+		let lastOutput = Date.now();
+		const onActivity = () => {
+			lastOutput = Date.now();
+		};
+		if (child.stdout instanceof ReadableStream && child.stderr instanceof ReadableStream) {
+			forwarding.push(
+				forwardOutput(child.stdout, agentStdout, onActivity),
+				forwardOutput(child.stderr, process.stderr, onActivity),
+			);
+		}
+
+		const outputFilePath = `${outputPath}/${step.outputFile}`;
+		idleWatchdog = setInterval(
+			async () => {
+				const lastActivity = Math.max(lastOutput, await getModifiedTime(outputFilePath));
+				if (Date.now() - lastActivity >= idleTimeoutMs) {
+					stop(
+						"idle",
+						`no output and no change to ${step.outputFile} for ${idleTimeoutMs / 1000}s`,
+					);
+				}
+			},
+			Math.min(Math.max(idleTimeoutMs / 4, 1000), 30_000),
+		);
+	}
+
+	await child.exited;
+	runningAgents.delete(child);
+	if (forwarding.length > 0) {
+		// A process the agent left behind can hold the pipes open; do not wait on it for long
+		let graceTimer: ReturnType<typeof setTimeout> | undefined;
+		await Promise.race([
+			Promise.all(forwarding),
+			new Promise((resolve) => {
+				graceTimer = setTimeout(resolve, AGENT_STOP_GRACE_MS);
+			}),
+		]);
+		clearTimeout(graceTimer);
+	}
+	for (const timer of timers) clearTimeout(timer);
+	clearInterval(idleWatchdog);
+	clearTimeout(killTimer);
+
+	const exitCode = child.exitCode ?? 0;
+	if (!timedOut && exitCode === AGENT_TIMEOUT_EXIT_CODE && stepTimeoutMs > 0) {
+		timedOut = "step";
+	}
+	return timedOut ? { exitCode: AGENT_TIMEOUT_EXIT_CODE, timedOut } : { exitCode };
+}
+
 async function runAgentStep(
 	step: AgentStep,
 	stepNumber: number,
@@ -436,21 +859,25 @@ async function runAgentStep(
 	console.log(`\n${"=".repeat(80)}`);
 	console.log(`STEP ${stepNumber}/${totalSteps}: ${step.name}`);
 	console.log(`Description: ${step.description}`);
+	if (step.dependsOn?.length) {
+		console.log(`Depends on: ${step.dependsOn.join(", ")}`);
+	}
 	console.log(`Started at: ${startTime}`);
 	console.log(`${"=".repeat(80)}\n`);
 
 	const outputPath = options.outputDir || `${projectRoot}output/${options.entity}`;
-	const scriptPath = `${projectRoot}agents/${step.script}`;
 
 	// Update status to running
 	const stepStatus: StepStatus = {
 		stepNumber,
+		stepId: step.id,
 		name: step.name,
 		script: step.script,
 		description: step.description,
 		status: "running",
 		startTime,
 		outputFile: step.outputFile,
+		attempts: [],
 	};
 
 	// Find existing step or add new one
@@ -461,58 +888,150 @@ async function runAgentStep(
 		status.steps.push(stepStatus);
 	}
 	await writeConversionStatus(outputPath, status);
+	await eventLog?.emit({
+		event: "step-start",
+		stepNumber,
+		stepId: step.id,
+		name: step.name,
+		dependsOn: step.dependsOn ?? [],
+	});
 
-	const args = [
-		"run",
-		scriptPath,
-		"--entity",
-		options.entity,
-		"--output",
-		outputPath,
-	];
+	// Only missing/invalid output is retried; interactive steps and --skip-validation run once
+	const validate = !step.interactive && !options.skipValidation;
+	const maxAttempts = validate ? options.maxRetries + 1 : 1;
+	let exitCode = 0;
+	let repairPrompt: string | undefined;
+
+	for (let attemptNumber = 1; ; attemptNumber++) {
+		const attemptStartTime = Date.now();
+		const attempt: StepAttempt = {
+			attempt: attemptNumber,
+			startTime: new Date(attemptStartTime).toISOString(),
+			...(repairPrompt ? { repairPrompt } : {}),
+		};
+		stepStatus.attempts?.push(attempt);
+		if (attemptNumber > 1) {
+			await writeConversionStatus(outputPath, status);
+		}
 
-	if (options.formName) {
-		args.push("--form-name", options.formName);
-	}
+		const result = await spawnAgent(step, options, outputPath, repairPrompt);
+		exitCode = result.exitCode;
+		attempt.endTime = new Date().toISOString();
+		attempt.durationMs = Date.now() - attemptStartTime;
+		attempt.exitCode = exitCode;
+		if (!step.interactive) {
+			await applyClaudeRun(attempt, step, outputPath, attemptStartTime);
+		}
 
-	if (step.extraArgs) {
-		args.push(...step.extraArgs);
-	}
+		// A timed-out run is not retried here; --resume and --rerun-failed pick it up
+		if (result.timedOut) {
+			attempt.timedOut = result.timedOut;
+			attempt.error = describeTimeout(result.timedOut, step, options);
+			break;
+		}
 
-	if (step.interactive) {
-		args.push("--interactive");
-	}
+		// Exit code 0 only means claude finished; the artifact must also exist and match its schema
+		if (exitCode === 0 && validate) {
+			const validation = await validateArtifact(outputPath, step.outputFile);
+			if (!validation.valid) {
+				attempt.validationErrors = validation.errors;
+				attempt.error = `Output validation failed: ${validation.errors[0]}`;
+				exitCode = VALIDATION_FAILED_EXIT_CODE;
+			}
+		}
 
-	const child = spawn(["bun", ...args], {
-		stdin: "inherit",
-		stdout: "inherit",
-		stderr: "inherit",
-		env: {
-			...process.env,
-			CLAUDE_PROJECT_DIR: projectRoot,
-		},
-	});
+		if (!attempt.validationErrors || attemptNumber >= maxAttempts) {
+			break;
+		}
+
+		const misplacedFile = await findMisplacedOutput(
+			projectRoot,
+			options.entity,
+			step.outputFile,
+			attemptStartTime,
+		);
+		repairPrompt = buildRepairPrompt({
+			outputFilePath: `${outputPath}/${step.outputFile}`,
+			problems: attempt.validationErrors,
+			misplacedFile,
+			attempt: attemptNumber + 1,
+		});
+
+		const delayMs = options.retryBackoffMs * 2 ** (attemptNumber - 1);
+		console.warn(
+			`\n🔁 Step ${stepNumber} output is missing or invalid (attempt ${attemptNumber}/${maxAttempts}):`,
+		);
+		for (const error of attempt.validationErrors.slice(0, 5)) {
+			console.warn(`   - ${error}`);
+		}
+		if (misplacedFile) {
+			console.warn(`   Found output written to ${misplacedFile}`);
+		}
+		console.warn(`   Retrying with a repair prompt in ${(delayMs / 1000).toFixed(1)}s...`);
+		await eventLog?.emit({
+			event: "step-retry",
+			stepNumber,
+			stepId: step.id,
+			attempt: attemptNumber,
+			maxAttempts,
+			delayMs,
+			validationErrors: attempt.validationErrors,
+		});
+		await Bun.sleep(delayMs);
+	}
 
-	await child.exited;
-	const exitCode = child.exitCode ?? 0;
 	const endTime = new Date().toISOString();
 	const durationMs = Date.now() - stepStartTime;
 
 	// Update status with result
-	stepStatus.status = exitCode === 0 ? "completed" : "failed";
 	stepStatus.endTime = endTime;
 	stepStatus.durationMs = durationMs;
-	stepStatus.exitCode = exitCode;
+	applyLastAttempt(stepStatus);
+	stepStatus.status = stepStatus.timedOut ? "timed-out" : exitCode === 0 ? "completed" : "failed";
+	if (!step.interactive) {
+		status.totalCostUsd = sumStepCosts(status);
+	}
 
-	if (exitCode !== 0) {
-		stepStatus.error = `Step failed with exit code ${exitCode}`;
+	const attemptsNote =
+		(stepStatus.attempts?.length ?? 1) > 1 ? ` after ${stepStatus.attempts?.length} attempts` : "";
+
+	if (stepStatus.timedOut) {
+		status.failedSteps++;
+		console.error(`\n⏱️  Step ${stepNumber} timed out: ${stepStatus.error}`);
+		console.error(`   Duration: ${(durationMs / 1000).toFixed(2)}s`);
+		console.error("   Rerun it with --resume or --rerun-failed");
+	} else if (stepStatus.validationErrors) {
+		status.failedSteps++;
+		console.error(
+			`\n❌ Step ${stepNumber} produced invalid output${attemptsNote}: ${outputPath}/${step.outputFile}`,
+		);
+		for (const error of stepStatus.validationErrors.slice(0, 10)) {
+			console.error(`   - ${error}`);
+		}
+		if (stepStatus.validationErrors.length > 10) {
+			console.error(`   ... and ${stepStatus.validationErrors.length - 10} more`);
+		}
+		console.error(`   Duration: ${(durationMs / 1000).toFixed(2)}s`);
+	} else if (exitCode !== 0) {
+		stepStatus.error ??= `Step failed with exit code ${exitCode}`;
 		status.failedSteps++;
 		console.error(`\n❌ Step ${stepNumber} failed with exit code ${exitCode}`);
 		console.error(`   Duration: ${(durationMs / 1000).toFixed(2)}s`);
+		if (stepStatus.runFile) {
+			console.error(`   Claude result: ${stepStatus.runFile}`);
+		}
+		if (stepStatus.sessionId) {
+			console.error(`   Continue the session: claude --resume ${stepStatus.sessionId}`);
+		}
 	} else {
 		status.completedSteps++;
-		console.log(`\n✅ Step ${stepNumber} completed successfully`);
+		console.log(`\n✅ Step ${stepNumber} completed successfully${attemptsNote}`);
 		console.log(`   Duration: ${(durationMs / 1000).toFixed(2)}s`);
+		if (stepStatus.costUsd !== undefined) {
+			console.log(
+				`   Cost: $${stepStatus.costUsd.toFixed(4)} (${stepStatus.numTurns ?? "?"} turns)`,
+			);
+		}
 		console.log(`   Output: ${outputPath}/${step.outputFile}\n`);
 	}
 
@@ -524,12 +1043,283 @@ async function runAgentStep(
 		status.steps.push(stepStatus);
 	}
 	await writeConversionStatus(outputPath, status);
+	await eventLog?.emit({
+		event: stepStatus.status === "completed" ? "step-finish" : "step-fail",
+		stepNumber,
+		stepId: step.id,
+		name: step.name,
+		status: stepStatus.status as "completed" | "failed" | "timed-out",
+		startTime,
+		endTime,
+		durationMs,
+		attempts: stepStatus.attempts?.length ?? 1,
+		exitCode,
+		error: stepStatus.error,
+		timedOut: stepStatus.timedOut,
+		validationErrors: stepStatus.validationErrors,
+		outputFile: step.outputFile,
+		costUsd: stepStatus.costUsd,
+	});
 
 	return exitCode;
 }
 
+function describeTimeout(
+	reason: TimeoutReason,
+	step: AgentStep,
+	options: OrchestratorOptions,
+): string {
+	switch (reason) {
+		case "step":
+			return `Step timeout of ${getStepTimeoutMs(step, options) / 1000}s reached`;
+		case "idle":
+			return `No agent output and no change to ${step.outputFile} for ${options.idleTimeoutMs / 1000}s`;
+		case "total":
+			return `Orchestrator time limit of ${options.totalTimeoutMs / 1000}s reached`;
+	}
+}
+
+/**
+ * Copy session id, cost and error state from the agent's saved claude result into the attempt.
+ * Results older than the attempt's start belong to an earlier run and are ignored.
+ */
+async function applyClaudeRun(
+	attempt: StepAttempt,
+	step: AgentStep,
+	outputPath: string,
+	attemptStartTime: number,
+): Promise<void> {
+	const runName = step.outputFile.replace(/\.json$/, "");
+	const record = await readClaudeRun(outputPath, runName);
+	if (!record || Date.parse(record.recordedAt) < attemptStartTime) {
+		return;
+	}
+
+	attempt.runFile = getRunRecordPath(outputPath, runName);
+	if (!record.summary) {
+		return;
+	}
+
+	attempt.sessionId = record.summary.sessionId;
+	attempt.costUsd = record.summary.costUsd;
+	attempt.numTurns = record.summary.numTurns;
+	attempt.isError = record.summary.isError;
+	attempt.claudeDurationMs = record.summary.durationMs;
+	if (record.summary.isError) {
+		attempt.error =
+			record.summary.result || `Claude returned ${record.summary.subtype ?? "an error"}`;
+	}
+}
+
+/**
+ * The step reports its last attempt; cost is the total over all attempts
+ */
+function applyLastAttempt(stepStatus: StepStatus): void {
+	const attempts = stepStatus.attempts ?? [];
+	const last = attempts.at(-1);
+	if (!last) {
+		return;
+	}
+
+	stepStatus.exitCode = last.exitCode;
+	stepStatus.error = last.error;
+	stepStatus.validationErrors = last.validationErrors;
+	stepStatus.timedOut = last.timedOut;
+	stepStatus.runFile = last.runFile;
+	stepStatus.sessionId = last.sessionId;
+	stepStatus.numTurns = last.numTurns;
+	stepStatus.isError = last.isError;
+	stepStatus.claudeDurationMs = last.claudeDurationMs;
+
+	const costs = attempts.filter((a) => a.costUsd !== undefined).map((a) => a.costUsd as number);
+	stepStatus.costUsd = costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) : undefined;
+}
+
+function sumStepCosts(status: ConversionStatus): number {
+	const total = status.steps.reduce((sum, s) => sum + (s.costUsd ?? 0), 0);
+	return Math.round(total * 1e6) / 1e6;
+}
+
+async function recordSkippedStep(
+	step: AgentStep,
+	stepNumber: number,
+	outputPath: string,
+	status: ConversionStatus,
+): Promise<void> {
+	const skipTime = new Date().toISOString();
+	console.log(`\n⏭️  Skipping Step ${stepNumber}: ${step.name}`);
+
+	// Record skipped step in status (check if it already exists)
+	const existingSkipIndex = status.steps.findIndex((s) => s.stepNumber === stepNumber);
+	const skippedStepStatus: StepStatus = {
+		stepNumber,
+		stepId: step.id,
+		name: step.name,
+		script: step.script,
+		description: step.description,
+		status: "skipped",
+		startTime: skipTime,
+		endTime: skipTime,
+		durationMs: 0,
+		outputFile: step.outputFile,
+	};
+
+	if (existingSkipIndex >= 0) {
+		status.steps[existingSkipIndex] = skippedStepStatus;
+	} else {
+		status.steps.push(skippedStepStatus);
+		status.skippedSteps++;
+	}
+	await writeConversionStatus(outputPath, status);
+	await eventLog?.emit({ event: "step-skip", stepNumber, stepId: step.id, name: step.name });
+}
+
+/**
+ * Run the selected steps as a dependency graph.
+ *
+ * A step starts once every step it depends on has completed or been skipped, and at
+ * most `options.concurrency` steps run at the same time. Steps that are not part of
+ * this run (resume/rerun-failed) count as satisfied dependencies. After the first
+ * failure no new steps are started; steps already running are allowed to finish.
+ * Once the --total-timeout deadline passes no new steps are started either; running
+ * steps are stopped by their own watchdog.
+ *
+ * Returns the first failed step (stepNumber 0 when the deadline stopped the run before
+ * any step failed), or null when every scheduled step succeeded.
+ */
+async function runStepGraph(
+	agentSteps: AgentStep[],
+	options: OrchestratorOptions,
+	totalSteps: number,
+	status: ConversionStatus,
+	stepsToRun: Set<number> | null,
+): Promise<{ stepNumber: number; exitCode: number } | null> {
+	const outputPath = options.outputDir || `${projectRoot}output/${options.entity}`;
+	const knownIds = new Set(agentSteps.map((step) => step.id));
+	const unfinished = new Set<string>();
+	const queue: Array<{ step: AgentStep; stepNumber: number }> = [];
+
+	for (const [index, step] of agentSteps.entries()) {
+		const stepNumber = index + 1;
+
+		// Skip if not in stepsToRun (for resume/rerun scenarios)
+		if (stepsToRun && !stepsToRun.has(stepNumber)) {
+			continue;
+		}
+
+		if (options.skipSteps?.includes(stepNumber)) {
+			await recordSkippedStep(step, stepNumber, outputPath, status);
+			continue;
+		}
+
+		unfinished.add(step.id);
+		queue.push({ step, stepNumber });
+	}
+
+	const isReady = (step: AgentStep) =>
+		(step.dependsOn ?? []).every((dep) => !knownIds.has(dep) || !unfinished.has(dep));
+
+	const running = new Map<
+		number,
+		Promise<{ stepNumber: number; stepId: string; exitCode: number }>
+	>();
+	let firstFailure: { stepNumber: number; exitCode: number } | null = null;
+	let deadlineReached = false;
+
+	while (queue.length > 0 || running.size > 0) {
+		if (
+			!deadlineReached &&
+			options.deadline &&
+			Date.now() >= options.deadline &&
+			queue.length > 0
+		) {
+			deadlineReached = true;
+			console.error(
+				`\n⏱️  Orchestrator time limit reached; ${queue.length} step(s) will not be started`,
+			);
+		}
+
+		if (!firstFailure && !deadlineReached) {
+			for (let i = 0; i < queue.length && running.size < options.concurrency; ) {
+				const { step, stepNumber } = queue[i];
+				if (!isReady(step)) {
+					i++;
+					continue;
+				}
+				queue.splice(i, 1);
+				running.set(
+					stepNumber,
+					runAgentStep(step, stepNumber, options, totalSteps, status).then((exitCode) => ({
+						stepNumber,
+						stepId: step.id,
+						exitCode,
+					})),
+				);
+			}
+		}
+
+		if (running.size === 0) {
+			// Nothing left that can start: either a failure stopped scheduling or the
+			// remaining steps depend on a step that did not complete.
+			if (!firstFailure && !deadlineReached && queue.length > 0) {
+				const blocked = queue
+					.map(({ stepNumber, step }) => `${stepNumber} (${step.name})`)
+					.join(", ");
+				console.error(`\n❌ Steps blocked by unfinished dependencies: ${blocked}`);
+			}
+			break;
+		}
+
+		const finished = await Promise.race(running.values());
+		running.delete(finished.stepNumber);
+
+		if (finished.exitCode === 0) {
+			unfinished.delete(finished.stepId);
+		} else if (!firstFailure) {
+			firstFailure = { stepNumber: finished.stepNumber, exitCode: finished.exitCode };
+			if (running.size > 0) {
+				console.error(
+					`\n⏳ Waiting for ${running.size} running step(s) to finish before stopping...`,
+				);
+			}
+		}
+	}
+
+	if (!firstFailure && deadlineReached) {
+		return { stepNumber: 0, exitCode: AGENT_TIMEOUT_EXIT_CODE };
+	}
+	return firstFailure;
+}
+
+/**
+ * Resolve the legacy source files read by the steps that will run; returns the ones
+ * for which no naming candidate exists
+ */
+function findMissingLegacySources(
+	agentSteps: AgentStep[],
+	options: OrchestratorOptions,
+): LegacyFileResolution[] {
+	const kinds = new Set<LegacyFileKind>();
+	agentSteps.forEach((step, index) => {
+		if (!options.skipSteps?.includes(index + 1)) {
+			for (const kind of step.legacySources ?? []) kinds.add(kind);
+		}
+	});
+
+	return [...kinds]
+		.map((kind) => resolveLegacyFile(options.entity, kind))
+		.filter((resolution) => resolution.path === null);
+}
+
 async function main() {
+	// In JSON mode stdout carries only events; everything written for people goes to stderr
+	if (parsedArgs.values["log-format"] === "json") {
+		console.log = console.error;
+		console.info = console.error;
+	}
+
 	const options = await parseOptions();
+	stopAgentsOnInterrupt();
 	const outputPath = options.outputDir || `${projectRoot}output/${options.entity}`;
 	const agentSteps = getAgentSteps(options.isSingleForm || false, options.formName);
 	const totalSteps = agentSteps.length;
@@ -570,11 +1360,29 @@ ${options.formName ? `║  Form Name: ${options.formName.padEnd(65, " ")}║\n`
 	if (options.skipSteps && options.skipSteps.length > 0) {
 		console.log(`   Skipping steps: ${skipStepsList}`);
 	}
+	console.log(
+		`   Running up to ${options.concurrency} agent(s) at a time (independent steps run in parallel)`,
+	);
 	console.log(`\nSteps 1-${totalSteps}: Automatic analysis and data extraction`);
 	console.log(`\nNote: Step ${totalSteps + 1} (Template Generation) should be run separately:`);
 	console.log(`   bun run generate-template --entity "${options.entity}"`);
 	console.log("   or: bun run agents/conversion-template-generator.ts --entity \"" + options.entity + "\"\n");
 
+	if (!options.skipSourceCheck) {
+		const missing = findMissingLegacySources(agentSteps, options);
+		if (missing.length > 0) {
+			console.error(`❌ Error: Legacy source files for "${options.entity}" not found:`);
+			for (const resolution of missing) {
+				console.error(`\n   ${LEGACY_FILE_LABELS[resolution.kind]} - tried:`);
+				for (const candidate of resolution.candidates) console.error(`     ${candidate}`);
+			}
+			console.error(
+				`\nAdd the file names to config.json legacyNaming.overrides["${options.entity}"], skip the steps that read them with --skip-steps, or run anyway with --skip-source-check.\n`,
+			);
+			process.exit(1);
+		}
+	}
+
 	// Ensure output directory exists
 	try {
 		const normalizedOutputPath = normalizePath(outputPath);
@@ -604,14 +1412,35 @@ ${options.formName ? `║  Form Name: ${options.formName.padEnd(65, " ")}║\n`
 		throw error;
 	}
 
+	// Save the previous run's outputs before this run overwrites them (runs from before
+	// history existed, or a run that was killed before it could save them)
+	const artifactFiles = agentSteps.map((step) => step.outputFile);
+	const previousStatus = await readConversionStatus(outputPath);
+	if (previousStatus) {
+		const previousRunId = previousStatus.runId ?? createRunId(new Date(previousStatus.startTime));
+		if (!existsSync(getRunSnapshotPath(outputPath, previousRunId))) {
+			await snapshotRun(
+				outputPath,
+				{
+					runId: previousRunId,
+					entity: previousStatus.entity,
+					formName: previousStatus.formName,
+					startTime: previousStatus.startTime,
+					endTime: previousStatus.endTime,
+					overallStatus: previousStatus.overallStatus,
+				},
+				artifactFiles,
+			);
+		}
+	}
+
 	// Handle resume/rerun-failed scenarios
 	let conversionStatus: ConversionStatus;
 	let stepsToRun: Set<number> | null = null;
 	let mainStartTime: number;
 
 	if (options.resume || options.rerunFailed) {
-		// Try to load existing status
-		const existingStatus = await readConversionStatus(outputPath);
+		const existingStatus = previousStatus;
 		
 		if (!existingStatus) {
 			console.error(`\n❌ Error: No existing conversion-status.json found at ${outputPath}/conversion-status.json`);
@@ -669,7 +1498,7 @@ ${options.formName ? `║  Form Name: ${options.formName.padEnd(65, " ")}║\n`
 		if (options.rerunFailed) {
 			conversionStatus.failedSteps = 0;
 			// Remove failed steps from status so they can be rerun
-			conversionStatus.steps = conversionStatus.steps.filter(s => s.status !== "failed");
+			conversionStatus.steps = conversionStatus.steps.filter((s) => !isFailedStep(s));
 		}
 
 		mainStartTime = Date.now();
@@ -687,65 +1516,99 @@ ${options.formName ? `║  Form Name: ${options.formName.padEnd(65, " ")}║\n`
 		mainStartTime = Date.now();
 	}
 
-	let currentStep = 1;
-	for (const step of agentSteps) {
-		// Skip if not in stepsToRun (for resume/rerun scenarios)
-		if (stepsToRun && !stepsToRun.has(currentStep)) {
-			currentStep++;
-			continue;
-		}
+	if (options.totalTimeoutMs > 0) {
+		options.deadline = mainStartTime + options.totalTimeoutMs;
+	}
 
-		if (options.skipSteps?.includes(currentStep)) {
-			const skipTime = new Date().toISOString();
-			console.log(`\n⏭️  Skipping Step ${currentStep}: ${step.name}`);
-			
-			// Record skipped step in status (check if it already exists)
-			const existingSkipIndex = conversionStatus.steps.findIndex(s => s.stepNumber === currentStep);
-			const skippedStepStatus: StepStatus = {
-				stepNumber: currentStep,
-				name: step.name,
-				script: step.script,
-				description: step.description,
-				status: "skipped",
-				startTime: skipTime,
-				endTime: skipTime,
-				durationMs: 0,
-				outputFile: step.outputFile,
-			};
-			
-			if (existingSkipIndex >= 0) {
-				conversionStatus.steps[existingSkipIndex] = skippedStepStatus;
-			} else {
-				conversionStatus.steps.push(skippedStepStatus);
-				conversionStatus.skippedSteps++;
-			}
-			await writeConversionStatus(outputPath, conversionStatus);
-			
-			currentStep++;
-			continue;
-		}
+	const runId = createRunId(new Date(mainStartTime));
+	conversionStatus.runId = runId;
+	const runSteps = agentSteps
+		.map((_, index) => index + 1)
+		.filter((stepNumber) => !stepsToRun || stepsToRun.has(stepNumber));
+	const saveRunSnapshot = () =>
+		snapshotRun(
+			outputPath,
+			{
+				runId,
+				entity: options.entity,
+				formName: options.formName,
+				startTime: new Date(mainStartTime).toISOString(),
+				endTime: conversionStatus.endTime,
+				overallStatus: conversionStatus.overallStatus,
+				stepsRun: runSteps.filter((stepNumber) => !options.skipSteps?.includes(stepNumber)),
+			},
+			artifactFiles,
+		);
 
-		const exitCode = await runAgentStep(step, currentStep, options, totalSteps, conversionStatus);
-		if (exitCode !== 0) {
-			const endTime = new Date().toISOString();
-			const durationMs = Date.now() - mainStartTime;
-			const failedSteps = getFailedSteps(conversionStatus);
-			conversionStatus.overallStatus = "failed";
-			conversionStatus.endTime = endTime;
-			conversionStatus.durationMs = durationMs;
-			conversionStatus.failedStepNumbers = failedSteps;
-			await writeConversionStatus(outputPath, conversionStatus);
-			
-			console.error(`\n💥 Orchestrator stopped at step ${currentStep} due to error`);
-			console.error(`Total duration: ${(durationMs / 1000).toFixed(2)}s`);
+	const runMode: RunMode = options.rerunFailed ? "rerun-failed" : options.resume ? "resume" : "new";
+	eventLog = createEventLog({
+		outputPath,
+		entity: options.entity,
+		formName: options.formName,
+		runId,
+		format: options.logFormat,
+	});
+	await eventLog.emit({
+		event: "run-start",
+		mode: runMode,
+		totalSteps,
+		steps: runSteps,
+		concurrency: options.concurrency,
+	});
+
+	const firstFailure = await runStepGraph(
+		agentSteps,
+		options,
+		totalSteps,
+		conversionStatus,
+		stepsToRun,
+	);
+	if (firstFailure) {
+		const endTime = new Date().toISOString();
+		const durationMs = Date.now() - mainStartTime;
+		const failedSteps = getFailedSteps(conversionStatus);
+		conversionStatus.overallStatus = "failed";
+		conversionStatus.endTime = endTime;
+		conversionStatus.durationMs = durationMs;
+		conversionStatus.failedStepNumbers = failedSteps;
+		await writeConversionStatus(outputPath, conversionStatus);
+		await eventLog.emit({
+			event: "run-finish",
+			status: "failed",
+			durationMs,
+			completedSteps: conversionStatus.completedSteps,
+			failedSteps: conversionStatus.failedSteps,
+			skippedSteps: conversionStatus.skippedSteps,
+			failedStepNumbers: failedSteps,
+			totalCostUsd: conversionStatus.totalCostUsd,
+			reason: firstFailure.stepNumber === 0 ? "total-timeout" : "step-failed",
+		});
+		await saveRunSnapshot();
+
+		if (firstFailure.stepNumber === 0) {
+			console.error(
+				`\n⏱️  Orchestrator stopped: total time limit of ${options.totalTimeoutMs / 1000}s reached`,
+			);
+		} else {
+			const stopped = conversionStatus.steps.find((s) => s.stepNumber === firstFailure.stepNumber);
+			console.error(
+				`\n💥 Orchestrator stopped after step ${firstFailure.stepNumber} ${stopped?.status === "timed-out" ? "timed out" : "failed"}`,
+			);
+		}
+		console.error(`Total duration: ${(durationMs / 1000).toFixed(2)}s`);
+		if (failedSteps.length > 0) {
 			console.error(`\nFailed steps: ${failedSteps.join(", ")}`);
-			console.error(`\nTo rerun failed steps:`);
-			console.error(`   bun run agents/orchestrator.ts --entity "${options.entity}" --rerun-failed`);
-			console.error(`\nStatus saved to: ${outputPath}/conversion-status.json\n`);
-			process.exit(exitCode);
+			console.error("\nTo rerun failed steps:");
+			console.error(
+				`   bun run agents/orchestrator.ts --entity "${options.entity}" --rerun-failed`,
+			);
 		}
-
-		currentStep++;
+		if (options.deadline && Date.now() >= options.deadline) {
+			console.error("\nTo run the remaining steps:");
+			console.error(`   bun run agents/orchestrator.ts --entity "${options.entity}" --resume`);
+		}
+		console.error(`\nStatus saved to: ${outputPath}/conversion-status.json\n`);
+		process.exit(firstFailure.exitCode);
 	}
 
 	// Check for failed steps before finalizing
@@ -764,6 +1627,17 @@ ${options.formName ? `║  Form Name: ${options.formName.padEnd(65, " ")}║\n`
 	conversionStatus.endTime = endTime;
 	conversionStatus.durationMs = durationMs;
 	await writeConversionStatus(outputPath, conversionStatus);
+	await eventLog.emit({
+		event: "run-finish",
+		status: conversionStatus.overallStatus === "completed" ? "completed" : "failed",
+		durationMs,
+		completedSteps: conversionStatus.completedSteps,
+		failedSteps: conversionStatus.failedSteps,
+		skippedSteps: conversionStatus.skippedSteps,
+		failedStepNumbers: failedSteps,
+		totalCostUsd: conversionStatus.totalCostUsd,
+	});
+	await saveRunSnapshot();
 
 	let childFormsMessage = "";
 	if (childFormsCount > 0) {
@@ -773,7 +1647,8 @@ ${options.formName ? `║  Form Name: ${options.formName.padEnd(65, " ")}║\n`
 	}
 
 	const totalDuration = conversionStatus.durationMs ? (conversionStatus.durationMs / 1000).toFixed(2) : "0.00";
-	const durationDisplay = `Total duration: ${totalDuration}s`;
+	const costDisplay = conversionStatus.totalCostUsd ? `, Claude cost: $${conversionStatus.totalCostUsd.toFixed(4)}` : "";
+	const durationDisplay = `Total duration: ${totalDuration}s${costDisplay}`;
 	
 	let failedStepsMessage = "";
 	if (failedSteps.length > 0) {
@@ -1,34 +1,27 @@
 #!/usr/bin/env -S bun run
 /**
  * UI COMPONENT MAPPER: Map legacy controls to modern equivalents
+ *
+ * Usage:
+ *   bun run agents/ui-component-mapper.ts --entity "Facility"
+ *   bun run agents/ui-component-mapper.ts --entity "Facility" --interactive
  */
 
-import { spawn } from "bun";
-import { buildClaudeFlags, parsedArgs } from "../lib/flags";
-import type { ClaudeFlags } from "../lib/claude-flags.types";
-import { getProjectRoot, getCrewingUiPath, getCrewingUiExamples, getAdminUiExamples } from "../lib/paths";
-import uiMapperSettings from "../settings/ui-mapper.settings.json" with { type: "json" };
+import { runAgentCli } from "../lib/agent-runner";
+import { getAdminUiExamples, getCrewingUiExamples } from "../lib/paths";
 import uiMapperMcp from "../settings/ui-mapper.mcp.json" with { type: "json" };
-import uiComponentMapperPrompt from "../system-prompts/ui-component-mapper-prompt.md" with { type: "text" };
-
-const projectRoot = getProjectRoot(import.meta.url);
-const settingsJson = JSON.stringify(uiMapperSettings);
-const mcpJson = JSON.stringify(uiMapperMcp);
-
-async function main() {
-	const entity = parsedArgs.values.entity as string;
-	const interactive = parsedArgs.values.interactive === true;
-	const outputDir = parsedArgs.values.output as string;
-
-	if (!entity) {
-		console.error("Error: --entity parameter is required");
-		process.exit(1);
-	}
-
-	const outputPath = outputDir || `${projectRoot}output/${entity}`;
-
-	// Build context-specific prompt with entity details and paths
-	const contextPrompt = `
+import uiMapperSettings from "../settings/ui-mapper.settings.json" with { type: "json" };
+import uiComponentMapperPrompt from "../system-prompts/ui-component-mapper-prompt.md" with {
+	type: "text",
+};
+
+await runAgentCli({
+	name: "ui-component-mapper",
+	systemPrompt: uiComponentMapperPrompt,
+	settings: uiMapperSettings,
+	mcp: uiMapperMcp,
+	outputFile: "ui-mapping.json",
+	buildPrompt: ({ entity, outputPath, outputFilePath }) => `
 TASK: Map legacy controls to modern equivalents for ${entity}.
 
 MAPPING GOALS:
@@ -40,7 +33,12 @@ MAPPING GOALS:
 6. Map CheckBox to Bootstrap Checkbox
 
 OUTPUT:
-Generate a JSON file at: ${outputPath}/ui-mapping.json
+Generate a JSON file at: ${outputFilePath}
+
+INPUT FROM EARLIER STEPS (read whichever exist before opening the legacy sources):
+- ${outputPath}/form-structure-search.json
+- ${outputPath}/form-structure-detail.json
+- ${outputPath}/form-structure.json (single forms)
 
 ARCHITECTURE REFERENCES:
 For UI component mapping patterns, reference BargeOps.Crewing.UI Admin screens:
@@ -56,29 +54,5 @@ Target patterns in BargeOps.Admin.UI:
 - Views: ${getAdminUiExamples().views}/BoatLocationSearch/Index.cshtml
 
 Begin mapping.
-`;
-
-	const baseFlags = {
-		"append-system-prompt": uiComponentMapperPrompt,
-		settings: settingsJson,
-		"mcp-config": mcpJson,
-		...(interactive ? {} : { print: true, "output-format": "json" }),
-	} as const;
-
-	const flags = buildClaudeFlags({ ...baseFlags }, parsedArgs.values as ClaudeFlags);
-	const child = spawn(["claude", ...flags, contextPrompt], {
-		stdin: "inherit",
-		stdout: interactive ? "inherit" : "pipe",
-		stderr: "inherit",
-		env: { ...process.env, CLAUDE_PROJECT_DIR: projectRoot },
-	});
-
-	const onExit = () => { try { child.kill("SIGTERM"); } catch {} };
-	process.on("SIGINT", onExit);
-	process.on("SIGTERM", onExit);
-
-	await child.exited;
-	process.exit(child.exitCode ?? 0);
-}
-
-await main();
+`,
+});
@@ -13,6 +13,7 @@
 
 import { spawn } from "bun";
 import type { ClaudeFlags } from "../lib/claude-flags.types";
+import { getClaudeCommand } from "../lib/config";
 import { buildClaudeFlags, getPositionals, parsedArgs, resolvePath } from "../lib/flags";
 import viewmodelGeneratorSettings from "../settings/viewmodel-creator.settings.json" with { type: "json" };
 import viewmodelGeneratorPrompt from "../system-prompts/viewmodel-generator-prompt.md" with { type: "text" };
@@ -61,7 +62,7 @@ async function main() {
 
 	const args = [...flags, prompt];
 
-	const child = spawn(["claude", ...args], {
+	const child = spawn([...getClaudeCommand(), ...args], {
 		stdin: "inherit",
 		stdout: "inherit",
 		stderr: "inherit",
@@ -0,0 +1,183 @@
+/**
+ * Shared runner for the analysis agents
+ *
+ * An agent is a declarative AgentDefinition (system prompt, settings, MCP config, prompt
+ * builder, output file); runAgentCli() parses the common options, spawns claude, forwards
+ * SIGINT/SIGTERM, applies the --timeout, records the result envelope and exits with
+ * claude's exit code.
+ *
+ * Usage (in agents/my-analyzer.ts):
+ *   await runAgentCli({
+ *     name: "my-analyzer",
+ *     systemPrompt: myPrompt,
+ *     settings: mySettings,
+ *     mcp: myMcp,
+ *     outputFile: "my-analysis.json",
+ *     buildPrompt: (context) => `TASK: ...\nGenerate a JSON file at: ${context.outputFilePath}`,
+ *   });
+ */
+
+import { spawn } from "bun";
+import type { ClaudeFlags } from "./claude-flags.types";
+import { recordClaudeRun } from "./claude-result";
+import { getClaudeCommand } from "./config";
+import { buildClaudeFlags, parsedArgs } from "./flags";
+import { getProjectRoot } from "./paths";
+import { appendRepairPrompt } from "./repair-prompt";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+// Same exit code as coreutils `timeout`, so callers can tell a timeout from a claude failure
+export const AGENT_TIMEOUT_EXIT_CODE = 124;
+
+// Time claude gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 5000;
+
+export interface AgentContext {
+	entity: string;
+	formName?: string;
+	formType?: string; // Raw --form-type value
+	interactive: boolean;
+	outputPath: string;
+	outputFile: string; // File name, e.g. data-access.json
+	outputFilePath: string;
+	projectRoot: string;
+}
+
+export interface AgentDefinition {
+	name: string; // Log prefix, e.g. "data-access-analyzer"
+	systemPrompt: string;
+	settings: unknown;
+	mcp: unknown;
+	outputFile: string | ((context: Omit<AgentContext, "outputFile" | "outputFilePath">) => string);
+	buildPrompt: (context: AgentContext) => string | Promise<string>;
+	startMessage?: (context: AgentContext) => string;
+	env?: (context: AgentContext) => Record<string, string>;
+	afterRun?: (context: AgentContext, exitCode: number) => Promise<void>;
+}
+
+function parseTimeoutMs(): number | undefined {
+	const value = parsedArgs.values.timeout;
+	if (value === undefined) return undefined;
+
+	const seconds = Number(value);
+	if (!Number.isFinite(seconds) || seconds <= 0) {
+		console.error(`Error: --timeout must be a positive number of seconds (got "${value}")`);
+		process.exit(1);
+	}
+	return seconds * 1000;
+}
+
+/**
+ * Read --entity, --form-name, --form-type, --interactive and --output; exits when --entity is missing
+ */
+export function parseAgentContext(definition: AgentDefinition): AgentContext {
+	const entity = parsedArgs.values.entity as string;
+	if (!entity) {
+		console.error("Error: --entity parameter is required");
+		process.exit(1);
+	}
+
+	const base = {
+		entity,
+		formName: (parsedArgs.values["form-name"] as string) || undefined,
+		formType: (parsedArgs.values["form-type"] as string) || undefined,
+		interactive: parsedArgs.values.interactive === true,
+		outputPath: (parsedArgs.values.output as string) || `${projectRoot}output/${entity}`,
+		projectRoot,
+	};
+	const outputFile =
+		typeof definition.outputFile === "function"
+			? definition.outputFile(base)
+			: definition.outputFile;
+
+	return { ...base, outputFile, outputFilePath: `${base.outputPath}/${outputFile}` };
+}
+
+/**
+ * Spawn claude for the agent and return its exit code (AGENT_TIMEOUT_EXIT_CODE on --timeout)
+ */
+export async function runAgent(
+	definition: AgentDefinition,
+	context: AgentContext,
+): Promise<number> {
+	const timeoutMs = parseTimeoutMs();
+	const contextPrompt = await definition.buildPrompt(context);
+
+	const baseFlags: Partial<ClaudeFlags> = {
+		"append-system-prompt": definition.systemPrompt,
+		settings: JSON.stringify(definition.settings),
+		"mcp-config": JSON.stringify(definition.mcp),
+		...(context.interactive ? {} : { print: true, "output-format": "json" }),
+	};
+
+	const flags = buildClaudeFlags({ ...baseFlags }, parsedArgs.values as ClaudeFlags);
+	const child = spawn([...getClaudeCommand(), ...flags, appendRepairPrompt(contextPrompt)], {
+		stdin: "inherit",
+		stdout: context.interactive ? "inherit" : "pipe",
+		stderr: "inherit",
+		env: {
+			...process.env,
+			CLAUDE_PROJECT_DIR: projectRoot,
+			ENTITY_NAME: context.entity,
+			OUTPUT_PATH: context.outputPath,
+			...definition.env?.(context),
+		},
+	});
+
+	const onExit = () => {
+		try {
+			child.kill("SIGTERM");
+		} catch {}
+	};
+	process.on("SIGINT", onExit);
+	process.on("SIGTERM", onExit);
+
+	if (context.interactive) {
+		await child.exited;
+		return child.exitCode ?? 0;
+	}
+
+	let timedOut = false;
+	let killTimer: ReturnType<typeof setTimeout> | undefined;
+	const timeoutTimer =
+		timeoutMs === undefined
+			? undefined
+			: setTimeout(() => {
+					timedOut = true;
+					console.error(
+						`[${definition.name}] Timed out after ${timeoutMs / 1000}s; stopping claude`,
+					);
+					onExit();
+					killTimer = setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_MS);
+				}, timeoutMs);
+
+	const stdoutText = await new Response(child.stdout).text();
+	const exitCode = await child.exited;
+	clearTimeout(timeoutTimer);
+	clearTimeout(killTimer);
+
+	const runName = context.outputFile.replace(/\.json$/, "");
+	await recordClaudeRun(context.outputPath, runName, stdoutText, exitCode);
+
+	if (timedOut) return AGENT_TIMEOUT_EXIT_CODE;
+	await definition.afterRun?.(context, exitCode);
+
+	if (exitCode === 0) {
+		console.log(`[${definition.name}] Complete. Output: ${context.outputFilePath}`);
+	} else {
+		console.error(`[${definition.name}] claude exited with code ${exitCode}`);
+	}
+	return exitCode;
+}
+
+/**
+ * Entry point for agent scripts: parse options, run the agent and exit with its code
+ */
+export async function runAgentCli(definition: AgentDefinition): Promise<never> {
+	const context = parseAgentContext(definition);
+	if (definition.startMessage) {
+		console.log(`[${definition.name}] ${definition.startMessage(context)}`);
+	}
+	process.exit(await runAgent(definition, context));
+}
@@ -0,0 +1,318 @@
+/**
+ * Semantic diff between two runs of an entity's analysis
+ *
+ * Compares the artifacts of two run snapshots (see lib/run-history.ts) item by item rather
+ * than line by line: controls, buttons, grids, grid columns and event handlers of the form
+ * structures, validation rules, business object properties, rules and methods, and stored
+ * procedures with their parameters and result columns. Items are matched by their name
+ * (or ruleName, control, property, column, ...), so reordering is not reported as a change.
+ * Every artifact also lists the top-level sections whose content changed at all.
+ *
+ * Usage:
+ *   const diff = await diffRunSnapshots(outputPath, from, to);
+ *   console.log(formatAnalysisDiff(diff));
+ */
+
+import { type JsonObject, isObject } from "./json-fields";
+import { type RunSnapshot, getRunSnapshotPath } from "./run-history";
+
+export interface ItemChange {
+	key: string;
+	fields: string[]; // Fields of the item whose value changed
+}
+
+export interface CollectionDiff {
+	name: string; // e.g. "controls", "stored procedures"
+	added: string[];
+	removed: string[];
+	changed: ItemChange[];
+}
+
+export interface ArtifactDiff {
+	file: string;
+	status: "added" | "removed" | "changed" | "unchanged";
+	changedSections: string[]; // Top-level keys whose value differs
+	collections: CollectionDiff[]; // Only collections with at least one difference
+}
+
+export interface AnalysisDiff {
+	entity: string;
+	from: RunSnapshot;
+	to: RunSnapshot;
+	artifacts: ArtifactDiff[];
+}
+
+// Fields that name an item in an array, in order of preference
+const ITEM_KEY_FIELDS = [
+	"name",
+	"ruleName",
+	"key",
+	"column",
+	"control",
+	"property",
+	"field",
+	"fileName",
+];
+
+function same(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Items of an array keyed by their name-like field, or the entries of an object keyed by
+ * property name. Array items without a name are left out; repeated names get " (2)", " (3)".
+ */
+function keyedItems(value: unknown, prefix = ""): Map<string, unknown> {
+	const items = new Map<string, unknown>();
+	const add = (key: string, item: unknown) => {
+		let unique = `${prefix}${key}`;
+		for (let n = 2; items.has(unique); n++) unique = `${prefix}${key} (${n})`;
+		items.set(unique, item);
+	};
+
+	if (Array.isArray(value)) {
+		for (const item of value) {
+			if (typeof item === "string") {
+				add(item, item);
+			} else if (isObject(item)) {
+				const key = ITEM_KEY_FIELDS.map((field) => item[field]).find(
+					(candidate): candidate is string => typeof candidate === "string" && candidate !== "",
+				);
+				if (key) add(key, item);
+			}
+		}
+	} else if (isObject(value)) {
+		for (const [key, item] of Object.entries(value)) add(key, item);
+	}
+	return items;
+}
+
+function mergeItems(...maps: Array<Map<string, unknown>>): Map<string, unknown> {
+	const merged = new Map<string, unknown>();
+	for (const map of maps) {
+		for (const [key, item] of map) {
+			if (!merged.has(key)) merged.set(key, item);
+		}
+	}
+	return merged;
+}
+
+/**
+ * Items of each nested collection, prefixed with the parent item's key
+ */
+function nestedItems(parents: Map<string, unknown>, field: string): Map<string, unknown> {
+	return mergeItems(
+		...[...parents].map(([key, parent]) =>
+			keyedItems(isObject(parent) ? parent[field] : undefined, `${key}.`),
+		),
+	);
+}
+
+/**
+ * Every named item in any array of the artifact, prefixed with the path of its array
+ */
+function itemsInAllArrays(value: unknown, path = ""): Map<string, unknown> {
+	if (!isObject(value)) return new Map();
+	return mergeItems(
+		...Object.entries(value).map(([key, child]) =>
+			Array.isArray(child)
+				? keyedItems(child, `${path}${key}: `)
+				: itemsInAllArrays(child, `${path}${key}.`),
+		),
+	);
+}
+
+type CollectionExtractor = (artifact: JsonObject) => Record<string, Map<string, unknown>>;
+
+function formStructureCollections(artifact: JsonObject): Record<string, Map<string, unknown>> {
+	const panels = keyedItems(artifact.panels);
+	const grids = keyedItems(artifact.grids);
+	const validation = isObject(artifact.validation) ? artifact.validation : {};
+	// Controls are described at the top level; panels usually list them by name only, and
+	// often include controls the top level leaves out
+	const controls = keyedItems(artifact.controls);
+	for (const panel of panels.values()) {
+		for (const name of keyedItems(isObject(panel) ? panel.controls : undefined).keys()) {
+			if (!controls.has(name)) controls.set(name, { name });
+		}
+	}
+
+	return {
+		controls,
+		buttons: keyedItems(artifact.buttons),
+		grids,
+		"grid columns": nestedItems(grids, "columns"),
+		"event handlers": keyedItems(artifact.eventHandlers),
+		"validation rules": keyedItems(validation.rules),
+	};
+}
+
+function validationCollections(artifact: JsonObject): Record<string, Map<string, unknown>> {
+	return { "validation rules": itemsInAllArrays(artifact) };
+}
+
+function businessLogicCollections(artifact: JsonObject): Record<string, Map<string, unknown>> {
+	return {
+		properties: keyedItems(artifact.properties),
+		"business rules": keyedItems(artifact.businessRules),
+		methods: keyedItems(artifact.methods),
+	};
+}
+
+function dataAccessCollections(artifact: JsonObject): Record<string, Map<string, unknown>> {
+	const procedures = keyedItems(artifact.storedProcedures);
+	return {
+		"stored procedures": procedures,
+		"stored procedure parameters": nestedItems(procedures, "parameters"),
+		"result columns": nestedItems(procedures, "resultColumns"),
+		"sql files": keyedItems(artifact.sqlFiles),
+	};
+}
+
+function getCollectionExtractor(file: string): CollectionExtractor | null {
+	if (file.startsWith("form-structure")) return formStructureCollections;
+	if (file === "validation.json") return validationCollections;
+	if (file === "business-logic.json") return businessLogicCollections;
+	if (file === "data-access.json") return dataAccessCollections;
+	return null;
+}
+
+function diffCollection(
+	name: string,
+	before: Map<string, unknown>,
+	after: Map<string, unknown>,
+): CollectionDiff {
+	const changed: ItemChange[] = [];
+	for (const [key, item] of after) {
+		if (!before.has(key) || same(before.get(key), item)) continue;
+		const previous = before.get(key);
+		const fields =
+			isObject(previous) && isObject(item)
+				? [...new Set([...Object.keys(previous), ...Object.keys(item)])].filter(
+						(field) => !same(previous[field], item[field]),
+					)
+				: ["value"];
+		changed.push({ key, fields });
+	}
+
+	return {
+		name,
+		added: [...after.keys()].filter((key) => !before.has(key)),
+		removed: [...before.keys()].filter((key) => !after.has(key)),
+		changed,
+	};
+}
+
+/**
+ * Compare two versions of one artifact; undefined means the file is not in that run
+ */
+export function diffArtifact(file: string, before: unknown, after: unknown): ArtifactDiff {
+	if (before === undefined || after === undefined) {
+		return {
+			file,
+			status: before === undefined ? "added" : "removed",
+			changedSections: [],
+			collections: [],
+		};
+	}
+	if (same(before, after)) {
+		return { file, status: "unchanged", changedSections: [], collections: [] };
+	}
+
+	const beforeObject = isObject(before) ? before : {};
+	const afterObject = isObject(after) ? after : {};
+	const changedSections = [
+		...new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)]),
+	].filter((key) => !same(beforeObject[key], afterObject[key]));
+
+	const extract = getCollectionExtractor(file);
+	const collections: CollectionDiff[] = [];
+	if (extract) {
+		const beforeCollections = extract(beforeObject);
+		const afterCollections = extract(afterObject);
+		for (const name of Object.keys(afterCollections)) {
+			const diff = diffCollection(name, beforeCollections[name], afterCollections[name]);
+			if (diff.added.length || diff.removed.length || diff.changed.length) collections.push(diff);
+		}
+	}
+
+	return { file, status: "changed", changedSections, collections };
+}
+
+async function readSnapshotArtifact(
+	outputPath: string,
+	run: RunSnapshot,
+	file: string,
+): Promise<unknown> {
+	if (!run.files.includes(file)) return undefined;
+	const text = await Bun.file(`${getRunSnapshotPath(outputPath, run.runId)}/${file}`).text();
+	try {
+		return JSON.parse(text);
+	} catch {
+		// Compared as a whole when the agent wrote invalid JSON
+		return text;
+	}
+}
+
+export async function diffRunSnapshots(
+	outputPath: string,
+	from: RunSnapshot,
+	to: RunSnapshot,
+): Promise<AnalysisDiff> {
+	const files = [...new Set([...from.files, ...to.files])].sort();
+	const artifacts: ArtifactDiff[] = [];
+	for (const file of files) {
+		artifacts.push(
+			diffArtifact(
+				file,
+				await readSnapshotArtifact(outputPath, from, file),
+				await readSnapshotArtifact(outputPath, to, file),
+			),
+		);
+	}
+	return { entity: to.entity, from, to, artifacts };
+}
+
+function describeRun(run: RunSnapshot): string {
+	const steps = run.stepsRun ? `, steps ${run.stepsRun.join(", ")}` : "";
+	return `${run.runId} (${run.overallStatus}${steps})`;
+}
+
+/**
+ * Markdown report of the differences
+ */
+export function formatAnalysisDiff(diff: AnalysisDiff): string {
+	const lines = [
+		`# Analysis diff: ${diff.entity}`,
+		"",
+		`- From: ${describeRun(diff.from)}`,
+		`- To:   ${describeRun(diff.to)}`,
+		"",
+	];
+
+	const differing = diff.artifacts.filter((artifact) => artifact.status !== "unchanged");
+	if (differing.length === 0) {
+		lines.push("No differences.", "");
+	}
+
+	for (const artifact of differing) {
+		lines.push(`## ${artifact.file} (${artifact.status})`, "");
+		if (artifact.changedSections.length > 0) {
+			lines.push(`Sections changed: ${artifact.changedSections.join(", ")}`, "");
+		}
+		for (const collection of artifact.collections) {
+			lines.push(`### ${collection.name}`, "");
+			for (const key of collection.added) lines.push(`- added: ${key}`);
+			for (const key of collection.removed) lines.push(`- removed: ${key}`);
+			for (const change of collection.changed)
+				lines.push(`- changed: ${change.key} (${change.fields.join(", ")})`);
+			lines.push("");
+		}
+	}
+
+	const unchanged = diff.artifacts.filter((artifact) => artifact.status === "unchanged");
+	if (unchanged.length > 0) {
+		lines.push(`Unchanged: ${unchanged.map((artifact) => artifact.file).join(", ")}`, "");
+	}
+	return lines.join("\n");
+}
@@ -0,0 +1,168 @@
+/**
+ * Validation of analysis artifacts against the JSON Schemas in schemas/
+ *
+ * Supports the subset of draft-07 the schemas use: type, required, properties,
+ * items, enum, anyOf, minItems and minLength.
+ */
+
+import { existsSync } from "node:fs";
+import businessLogicSchema from "../schemas/business-logic.schema.json" with { type: "json" };
+import dataAccessSchema from "../schemas/data-access.schema.json" with { type: "json" };
+import formStructureSchema from "../schemas/form-structure.schema.json" with { type: "json" };
+import relatedEntitiesSchema from "../schemas/related-entities.schema.json" with { type: "json" };
+import securitySchema from "../schemas/security.schema.json" with { type: "json" };
+import tabsSchema from "../schemas/tabs.schema.json" with { type: "json" };
+import uiMappingSchema from "../schemas/ui-mapping.schema.json" with { type: "json" };
+import validationSchema from "../schemas/validation.schema.json" with { type: "json" };
+import workflowSchema from "../schemas/workflow.schema.json" with { type: "json" };
+
+export interface JsonSchema {
+	type?: string | string[];
+	required?: string[];
+	properties?: Record<string, JsonSchema>;
+	items?: JsonSchema;
+	enum?: unknown[];
+	anyOf?: JsonSchema[];
+	minItems?: number;
+	minLength?: number;
+	[key: string]: unknown;
+}
+
+export interface ArtifactValidationResult {
+	file: string;
+	valid: boolean;
+	errors: string[];
+}
+
+const ARTIFACT_SCHEMAS: Record<string, JsonSchema> = {
+	"form-structure.json": formStructureSchema as JsonSchema,
+	"form-structure-search.json": formStructureSchema as JsonSchema,
+	"form-structure-detail.json": formStructureSchema as JsonSchema,
+	"business-logic.json": businessLogicSchema as JsonSchema,
+	"data-access.json": dataAccessSchema as JsonSchema,
+	"security.json": securitySchema as JsonSchema,
+	"ui-mapping.json": uiMappingSchema as JsonSchema,
+	"workflow.json": workflowSchema as JsonSchema,
+	"tabs.json": tabsSchema as JsonSchema,
+	"validation.json": validationSchema as JsonSchema,
+	"related-entities.json": relatedEntitiesSchema as JsonSchema,
+};
+
+/**
+ * Artifact file names that have a schema (e.g. "data-access.json")
+ */
+export function getArtifactFileNames(): string[] {
+	return Object.keys(ARTIFACT_SCHEMAS);
+}
+
+export function getArtifactSchema(outputFile: string): JsonSchema | null {
+	return ARTIFACT_SCHEMAS[outputFile] ?? null;
+}
+
+function typeOf(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+	return typeof value;
+}
+
+function matchesType(value: unknown, expected: string): boolean {
+	const actual = typeOf(value);
+	return actual === expected || (expected === "number" && actual === "integer");
+}
+
+/**
+ * Validate a value against a schema. Returns one message per problem, prefixed with
+ * the JSON path of the offending value ($ is the document root).
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+	const errors: string[] = [];
+
+	if (schema.type) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+		}
+	}
+
+	if (schema.enum && !schema.enum.some((option) => option === value)) {
+		errors.push(
+			`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+		);
+	}
+
+	if (
+		typeof value === "string" &&
+		schema.minLength !== undefined &&
+		value.length < schema.minLength
+	) {
+		errors.push(`${path}: must not be shorter than ${schema.minLength} character(s)`);
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push(`${path}: must have at least ${schema.minItems} item(s)`);
+		}
+		if (schema.items) {
+			value.forEach((item, index) => {
+				errors.push(
+					...validateAgainstSchema(item, schema.items as JsonSchema, `${path}[${index}]`),
+				);
+			});
+		}
+	}
+
+	if (value && typeof value === "object" && !Array.isArray(value)) {
+		const record = value as Record<string, unknown>;
+		for (const key of schema.required ?? []) {
+			if (!(key in record)) {
+				errors.push(`${path}: missing required property "${key}"`);
+			}
+		}
+		for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+			if (key in record) {
+				errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+			}
+		}
+	}
+
+	if (schema.anyOf) {
+		const branchErrors = schema.anyOf.map((branch) => validateAgainstSchema(value, branch, path));
+		if (!branchErrors.some((branch) => branch.length === 0)) {
+			errors.push(
+				`${path}: does not match any allowed shape (${branchErrors.map((branch) => branch[0]).join("; ")})`,
+			);
+		}
+	}
+
+	return errors;
+}
+
+/**
+ * Check that an artifact exists, parses as JSON and matches its schema
+ */
+export async function validateArtifact(
+	outputPath: string,
+	outputFile: string,
+): Promise<ArtifactValidationResult> {
+	const file = `${outputPath}/${outputFile}`;
+	const schema = getArtifactSchema(outputFile);
+
+	if (!existsSync(file)) {
+		return { file, valid: false, errors: [`${outputFile} was not written`] };
+	}
+
+	let data: unknown;
+	try {
+		data = JSON.parse(await Bun.file(file).text());
+	} catch (error) {
+		return {
+			file,
+			valid: false,
+			errors: [`${outputFile} is not valid JSON: ${(error as Error).message}`],
+		};
+	}
+
+	const errors = schema ? validateAgainstSchema(data, schema) : [];
+	return { file, valid: errors.length === 0, errors };
+}
@@ -0,0 +1,637 @@
+/**
+ * Static parser for legacy VB.NET business objects ({Entity}Location.vb, {Entity}LocationBase.vb)
+ *
+ * Extracts Property declarations (type, ReadOnly/WriteOnly, backing field), MaxLength
+ * constants, and the branches and BrokenRules.Assert calls of CheckBusinessRules, each
+ * with the file and line span it came from. The inventory is given to the business
+ * logic extractor as facts, and used to cite sources in business-logic.json.
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import { basename } from "node:path";
+
+export interface SourceSpan {
+	file: string; // File name, e.g. FacilityLocation.vb
+	startLine: number;
+	endLine: number;
+}
+
+export interface VbProperty {
+	name: string;
+	type: string;
+	access: "ReadOnly" | "WriteOnly" | "ReadWrite";
+	modifiers: string[]; // Public, Overridable, Overrides, Shared, ...
+	backingField?: string;
+	maxLength?: number | string; // Number when the constant resolves, otherwise the expression
+	span: SourceSpan;
+}
+
+export interface VbField {
+	name: string;
+	type: string;
+	initializer?: string;
+	span: SourceSpan;
+}
+
+export interface VbConstant {
+	name: string; // Qualified for nested classes, e.g. MaxLength.Name
+	type?: string;
+	value: string;
+	span: SourceSpan;
+}
+
+export interface RuleAssert {
+	ruleKey: string;
+	message: string;
+	condition: string;
+	properties: string[]; // Properties referenced by the assert
+	span: SourceSpan;
+}
+
+export interface RuleBranch {
+	kind: "If" | "ElseIf" | "Else" | "Case" | "Case Else";
+	condition: string;
+	depth: number;
+	parent?: number; // Index of the enclosing branch
+	span: SourceSpan;
+	asserts: RuleAssert[];
+}
+
+export interface CheckBusinessRulesInfo {
+	signature: string;
+	span: SourceSpan;
+	branches: RuleBranch[];
+	asserts: RuleAssert[]; // Asserts outside any branch
+}
+
+export interface VbClassInventory {
+	file: string;
+	path: string;
+	className?: string;
+	baseClass?: string;
+	namespace?: string;
+	properties: VbProperty[];
+	fields: VbField[];
+	constants: VbConstant[];
+	checkBusinessRules?: CheckBusinessRulesInfo;
+}
+
+export interface BusinessObjectInventory {
+	entity: string;
+	generatedBy: "business-object-parser";
+	classes: VbClassInventory[];
+	missingFiles: string[];
+}
+
+interface SourceLine {
+	text: string;
+	line: number;
+	endLine: number;
+}
+
+function toLogicalLines(source: string): SourceLine[] {
+	const physical = source.split(/\r?\n/);
+	const lines: SourceLine[] = [];
+	let buffer = "";
+	let startLine = 0;
+
+	physical.forEach((raw, index) => {
+		const trimmed = stripComment(raw).trim();
+		if (!buffer && trimmed === "") return;
+		if (!buffer) startLine = index + 1;
+
+		if (/\s_$/.test(trimmed)) {
+			buffer += `${trimmed.slice(0, -1).trim()} `;
+			return;
+		}
+
+		const text = `${buffer}${trimmed}`.replace(/^(?:<[^>]*>\s*)+/, "");
+		buffer = "";
+		if (text) lines.push({ text, line: startLine, endLine: index + 1 });
+	});
+
+	return lines;
+}
+
+/**
+ * Remove a trailing ' comment, ignoring apostrophes inside string literals
+ */
+function stripComment(line: string): string {
+	let inString = false;
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (char === '"') inString = !inString;
+		if (char === "'" && !inString) return line.slice(0, i);
+	}
+	return line;
+}
+
+/**
+ * Split call arguments on top-level commas
+ */
+function splitArguments(args: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let inString = false;
+	let current = "";
+
+	for (const char of args) {
+		if (char === '"') inString = !inString;
+		if (!inString) {
+			if (char === "(") depth++;
+			if (char === ")") depth--;
+			if (char === "," && depth === 0) {
+				parts.push(current.trim());
+				current = "";
+				continue;
+			}
+		}
+		current += char;
+	}
+	if (current.trim()) parts.push(current.trim());
+	return parts;
+}
+
+/**
+ * Return the text inside the parentheses that open at `openIndex`
+ */
+function readParenthesized(text: string, openIndex: number): string {
+	let depth = 0;
+	let inString = false;
+	for (let i = openIndex; i < text.length; i++) {
+		const char = text[i];
+		if (char === '"') inString = !inString;
+		if (inString) continue;
+		if (char === "(") depth++;
+		if (char === ")") {
+			depth--;
+			if (depth === 0) return text.slice(openIndex + 1, i);
+		}
+	}
+	return text.slice(openIndex + 1);
+}
+
+const PROPERTY_DECLARATION =
+	/^((?:(?:Public|Private|Protected|Friend|Overridable|Overrides|NotOverridable|MustOverride|Shadows|Shared|Overloads|Default|ReadOnly|WriteOnly)\s+)*)Property\s+(\w+)\s*(?:\([^)]*\))?\s+As\s+(?:New\s+)?([\w.]+(?:\(Of\s+[^)]+\))?)/i;
+const FIELD_DECLARATION =
+	/^(?:Private|Protected|Friend|Public|Dim)\s+(?:Shared\s+)?(?:ReadOnly\s+)?(?!Const\b|Sub\b|Function\b|Property\b|Class\b|Structure\b|Enum\b|Event\b|Overrides\b|Overridable\b|MustOverride\b|WithEvents\b)(\w+)\s+As\s+(?:New\s+)?([\w.]+(?:\(Of\s+[^)]+\))?)(?:\s*=\s*(.+))?$/i;
+const CONST_DECLARATION =
+	/^(?:(?:Public|Private|Protected|Friend|Shared)\s+)*Const\s+(\w+)(?:\s+As\s+([\w.]+))?\s*=\s*(.+)$/i;
+const BLOCK_START =
+	/^(?:(?:Public|Private|Protected|Friend|Partial|MustInherit|NotInheritable|Shadows)\s+)*(Class|Structure|Enum|Module)\s+(\w+)/i;
+
+/**
+ * Parse one VB.NET source file
+ */
+export function parseBusinessObjectSource(source: string, path: string): VbClassInventory {
+	const file = basename(path.replace(/\\/g, "/"));
+	const lines = toLogicalLines(source);
+	const inventory: VbClassInventory = { file, path, properties: [], fields: [], constants: [] };
+	const span = (startLine: number, endLine: number): SourceSpan => ({ file, startLine, endLine });
+
+	// Nested Class/Structure/Enum blocks qualify constants, e.g. Class MaxLength → MaxLength.Name
+	const typeStack: Array<{ kind: string; name: string }> = [];
+	let openProperty: { property: VbProperty; body: string[] } | null = null;
+	let openRules: { info: CheckBusinessRulesInfo; endKeyword: string; stack: BranchFrame[] } | null =
+		null;
+
+	for (let index = 0; index < lines.length; index++) {
+		const { text, line, endLine } = lines[index];
+
+		if (openProperty) {
+			if (/^End\s+Property$/i.test(text)) {
+				openProperty.property.span.endLine = endLine;
+				openProperty.property.backingField = findBackingField(openProperty.body);
+				openProperty = null;
+			} else {
+				openProperty.body.push(text);
+			}
+			continue;
+		}
+
+		if (openRules) {
+			if (new RegExp(`^End\\s+${openRules.endKeyword}$`, "i").test(text)) {
+				openRules.info.span.endLine = endLine;
+				openRules = null;
+			} else {
+				parseRulesLine(openRules.info, openRules.stack, text, line, endLine, span);
+			}
+			continue;
+		}
+
+		const namespaceMatch = text.match(/^Namespace\s+([\w.]+)/i);
+		if (namespaceMatch) {
+			inventory.namespace ??= namespaceMatch[1];
+			continue;
+		}
+
+		const blockMatch = text.match(BLOCK_START);
+		if (blockMatch) {
+			typeStack.push({ kind: blockMatch[1], name: blockMatch[2] });
+			if (typeStack.length === 1 && /^class$/i.test(blockMatch[1])) {
+				inventory.className ??= blockMatch[2];
+			}
+			continue;
+		}
+
+		if (/^End\s+(Class|Structure|Enum|Module)$/i.test(text)) {
+			typeStack.pop();
+			continue;
+		}
+
+		const inheritsMatch = text.match(/^Inherits\s+([\w.]+(?:\(Of\s+[^)]+\))?)/i);
+		if (inheritsMatch && typeStack.length === 1) {
+			inventory.baseClass ??= inheritsMatch[1];
+			continue;
+		}
+
+		// Enum members (MaxLength can be an Enum): Name = 50
+		const current = typeStack.at(-1);
+		if (current && /^enum$/i.test(current.kind)) {
+			const member = text.match(/^(\w+)\s*=\s*(.+)$/);
+			if (member) {
+				inventory.constants.push({
+					name: `${current.name}.${member[1]}`,
+					value: member[2].trim(),
+					span: span(line, endLine),
+				});
+			}
+			continue;
+		}
+
+		const constMatch = text.match(CONST_DECLARATION);
+		if (constMatch) {
+			const qualifier = typeStack.slice(1).map((type) => type.name);
+			inventory.constants.push({
+				name: [...qualifier, constMatch[1]].join("."),
+				type: constMatch[2],
+				value: constMatch[3].trim(),
+				span: span(line, endLine),
+			});
+			continue;
+		}
+
+		const propertyMatch = text.match(PROPERTY_DECLARATION);
+		if (propertyMatch) {
+			const modifiers = propertyMatch[1].trim().split(/\s+/).filter(Boolean);
+			const access = modifiers.some((m) => /^readonly$/i.test(m))
+				? "ReadOnly"
+				: modifiers.some((m) => /^writeonly$/i.test(m))
+					? "WriteOnly"
+					: "ReadWrite";
+			const property: VbProperty = {
+				name: propertyMatch[2],
+				type: propertyMatch[3],
+				access,
+				modifiers: modifiers.filter((m) => !/^(readonly|writeonly)$/i.test(m)),
+				span: span(line, endLine),
+			};
+			inventory.properties.push(property);
+
+			// MustOverride and auto-implemented properties have no body
+			const next = lines[index + 1]?.text ?? "";
+			const hasBody =
+				!modifiers.some((m) => /^mustoverride$/i.test(m)) && /^(Get|Set)\b/i.test(next);
+			if (hasBody) openProperty = { property, body: [] };
+			continue;
+		}
+
+		const rulesMatch = text.match(
+			/^(?:(?:Public|Private|Protected|Friend|Overrides|Overridable|Overloads)\s+)*(Sub|Function)\s+CheckBusinessRules\b/i,
+		);
+		if (rulesMatch) {
+			const info: CheckBusinessRulesInfo = {
+				signature: text,
+				span: span(line, endLine),
+				branches: [],
+				asserts: [],
+			};
+			inventory.checkBusinessRules = info;
+			openRules = { info, endKeyword: rulesMatch[1], stack: [] };
+			continue;
+		}
+
+		const fieldMatch = text.match(FIELD_DECLARATION);
+		if (fieldMatch && typeStack.length === 1) {
+			inventory.fields.push({
+				name: fieldMatch[1],
+				type: fieldMatch[2],
+				...(fieldMatch[3] ? { initializer: fieldMatch[3].trim() } : {}),
+				span: span(line, endLine),
+			});
+		}
+	}
+
+	return inventory;
+}
+
+function findBackingField(body: string[]): string | undefined {
+	for (const text of body) {
+		const returnMatch = text.match(/^Return\s+(?:Me\.)?(\w+)\s*$/i);
+		if (returnMatch) return returnMatch[1];
+	}
+	for (const text of body) {
+		const setMatch = text.match(/^(?:Me\.)?(\w+)\s*=\s*[Vv]alue\b/);
+		if (setMatch) return setMatch[1];
+	}
+	return undefined;
+}
+
+interface BranchFrame {
+	block: "If" | "Select";
+	selector?: string; // Select Case expression
+	branch?: number; // Index of the open branch in info.branches
+}
+
+function enclosingBranch(frames: BranchFrame[]): number | undefined {
+	return frames.findLast((frame) => frame.branch !== undefined)?.branch;
+}
+
+/**
+ * Track If/ElseIf/Else and Select Case branches inside CheckBusinessRules and collect
+ * BrokenRules.Assert calls into the innermost open branch
+ */
+function parseRulesLine(
+	info: CheckBusinessRulesInfo,
+	stack: BranchFrame[],
+	text: string,
+	line: number,
+	endLine: number,
+	span: (startLine: number, endLine: number) => SourceSpan,
+): void {
+	const openBranch = (
+		kind: RuleBranch["kind"],
+		condition: string,
+		parent: number | undefined,
+		depth: number,
+	) => {
+		info.branches.push({
+			kind,
+			condition,
+			depth,
+			...(parent !== undefined ? { parent } : {}),
+			span: span(line, endLine),
+			asserts: [],
+		});
+		return info.branches.length - 1;
+	};
+
+	// Open the next branch of the frame on top of the stack, closing its previous branch
+	const nextBranch = (kind: RuleBranch["kind"], condition: string) => {
+		const top = stack[stack.length - 1];
+		if (top.branch !== undefined) info.branches[top.branch].span.endLine = line - 1;
+		top.branch = openBranch(kind, condition, enclosingBranch(stack.slice(0, -1)), stack.length);
+	};
+
+	const closeFrame = (lastLine: number) => {
+		const frame = stack.pop();
+		if (frame?.branch !== undefined) info.branches[frame.branch].span.endLine = lastLine;
+	};
+
+	const top = stack[stack.length - 1];
+
+	const ifMatch = text.match(/^If\s+(.+?)\s+Then$/i);
+	if (ifMatch) {
+		stack.push({ block: "If" });
+		nextBranch("If", ifMatch[1]);
+		return;
+	}
+
+	const elseIfMatch = text.match(/^ElseIf\s+(.+?)\s+Then$/i);
+	if (elseIfMatch && top?.block === "If") {
+		nextBranch("ElseIf", elseIfMatch[1]);
+		return;
+	}
+
+	if (/^Else$/i.test(text) && top?.block === "If") {
+		nextBranch("Else", "");
+		return;
+	}
+
+	if (/^End\s+If$/i.test(text) && top?.block === "If") {
+		closeFrame(endLine);
+		return;
+	}
+
+	const selectMatch = text.match(/^Select\s+Case\s+(.+)$/i);
+	if (selectMatch) {
+		stack.push({ block: "Select", selector: selectMatch[1] });
+		return;
+	}
+
+	const caseMatch = text.match(/^Case\s+(.+)$/i);
+	if (caseMatch && top?.block === "Select") {
+		const isElse = /^Else$/i.test(caseMatch[1].trim());
+		nextBranch(isElse ? "Case Else" : "Case", isElse ? "" : `${top.selector} = ${caseMatch[1]}`);
+		return;
+	}
+
+	if (/^End\s+Select$/i.test(text) && top?.block === "Select") {
+		closeFrame(line - 1);
+		return;
+	}
+
+	// Single-line If: If cond Then BrokenRules.Assert(...)
+	const inlineIf = text.match(/^If\s+(.+?)\s+Then\s+(.+)$/i);
+	const statement = inlineIf ? inlineIf[2] : text;
+	const assertIndex = statement.search(/(?:Me\.)?BrokenRules\.Assert\s*\(/i);
+	if (assertIndex < 0) return;
+
+	const args = splitArguments(readParenthesized(statement, statement.indexOf("(", assertIndex)));
+	const assert: RuleAssert = {
+		ruleKey: args[0] ?? "",
+		message: args[1] ?? "",
+		condition: args.slice(2).join(", "),
+		properties: [],
+		span: span(line, endLine),
+	};
+
+	const enclosing = enclosingBranch(stack);
+	if (inlineIf) {
+		const branch = openBranch("If", inlineIf[1], enclosing, stack.length + 1);
+		info.branches[branch].asserts.push(assert);
+	} else if (enclosing !== undefined) {
+		info.branches[enclosing].asserts.push(assert);
+	} else {
+		info.asserts.push(assert);
+	}
+}
+
+/**
+ * Resolve MaxLength constants, backing fields and assert → property references across files
+ */
+function linkInventory(classes: VbClassInventory[]): void {
+	const constants = new Map<string, string>();
+	for (const cls of classes) {
+		for (const constant of cls.constants)
+			constants.set(constant.name.toLowerCase(), constant.value);
+	}
+
+	const properties = classes.flatMap((cls) => cls.properties);
+	const byField = new Map<string, string>();
+	for (const property of properties) {
+		if (property.backingField) byField.set(property.backingField.toLowerCase(), property.name);
+	}
+	const byName = new Map(
+		properties.map((property) => [property.name.toLowerCase(), property.name]),
+	);
+
+	for (const property of properties) {
+		const value = constants.get(`maxlength.${property.name.toLowerCase()}`);
+		if (value !== undefined) {
+			property.maxLength = /^\d+$/.test(value) ? Number(value) : value;
+		}
+	}
+
+	// An assert refers to a property through its backing field (p_Name), its display-name
+	// variable (p_dispName), MaxLength.Name or the property itself; string literals are ignored
+	const referencedProperties = (assert: RuleAssert): string[] => {
+		const found = new Set<string>();
+		const code = `${assert.ruleKey} ${assert.message} ${assert.condition}`.replace(/"[^"]*"/g, "");
+		for (const match of code.matchAll(/\w+/g)) {
+			const word = match[0].toLowerCase();
+			const name = byField.get(word) ?? byName.get(word.replace(/^p_disp/, "")) ?? byName.get(word);
+			if (name) found.add(name);
+		}
+		return Array.from(found);
+	};
+
+	for (const cls of classes) {
+		const rules = cls.checkBusinessRules;
+		if (!rules) continue;
+		for (const assert of [
+			...rules.asserts,
+			...rules.branches.flatMap((branch) => branch.asserts),
+		]) {
+			assert.properties = referencedProperties(assert);
+		}
+	}
+}
+
+/**
+ * Parse the business object files that exist; missing ones are listed in `missingFiles`
+ */
+export async function buildBusinessObjectInventory(
+	entity: string,
+	paths: string[],
+): Promise<BusinessObjectInventory> {
+	const classes: VbClassInventory[] = [];
+	const missingFiles: string[] = [];
+
+	for (const path of paths) {
+		if (!existsSync(path)) {
+			missingFiles.push(path);
+			continue;
+		}
+		classes.push(parseBusinessObjectSource(await Bun.file(path).text(), path));
+	}
+
+	linkInventory(classes);
+	return { entity, generatedBy: "business-object-parser", classes, missingFiles };
+}
+
+export async function writeBusinessObjectInventory(
+	outputPath: string,
+	inventory: BusinessObjectInventory,
+): Promise<string> {
+	const inventoryPath = `${outputPath}/.baseline/business-object.json`;
+	await mkdir(`${outputPath}/.baseline`, { recursive: true });
+	await Bun.write(inventoryPath, JSON.stringify(inventory, null, 2));
+	return inventoryPath;
+}
+
+/**
+ * Compact, line-cited text version of the inventory for agent prompts
+ */
+export function formatInventoryForPrompt(inventory: BusinessObjectInventory): string {
+	const lines: string[] = [];
+
+	for (const cls of inventory.classes) {
+		lines.push(
+			`${cls.file}: Class ${cls.className ?? "?"}${cls.baseClass ? ` Inherits ${cls.baseClass}` : ""}`,
+		);
+		for (const property of cls.properties) {
+			const details = [
+				property.access,
+				property.backingField ? `backing ${property.backingField}` : null,
+				property.maxLength !== undefined ? `MaxLength ${property.maxLength}` : null,
+			].filter(Boolean);
+			lines.push(
+				`  - Property ${property.name} As ${property.type} (${details.join(", ")}) @ ${cls.file}:${property.span.startLine}-${property.span.endLine}`,
+			);
+		}
+
+		const rules = cls.checkBusinessRules;
+		if (rules) {
+			lines.push(
+				`  CheckBusinessRules @ ${cls.file}:${rules.span.startLine}-${rules.span.endLine}`,
+			);
+			for (const assert of rules.asserts) {
+				lines.push(
+					`    - Assert ${assert.ruleKey} when ${assert.condition} @ line ${assert.span.startLine}`,
+				);
+			}
+			for (const branch of rules.branches) {
+				const indent = "  ".repeat(branch.depth);
+				lines.push(
+					`  ${indent}- ${branch.kind}${branch.condition ? ` ${branch.condition}` : ""} @ lines ${branch.span.startLine}-${branch.span.endLine}`,
+				);
+				for (const assert of branch.asserts) {
+					lines.push(
+						`  ${indent}    Assert ${assert.ruleKey} when ${assert.condition} @ line ${assert.span.startLine}`,
+					);
+				}
+			}
+		}
+	}
+
+	if (inventory.missingFiles.length > 0) {
+		lines.push(`Not found: ${inventory.missingFiles.join(", ")}`);
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Add sourceFile/lineStart/lineEnd to properties in business-logic.json that lack a citation.
+ * Returns the number of properties cited from the inventory.
+ */
+export async function citePropertySources(
+	businessLogicPath: string,
+	inventory: BusinessObjectInventory,
+): Promise<number> {
+	if (!existsSync(businessLogicPath)) return 0;
+
+	let document: { properties?: Array<Record<string, unknown>> };
+	try {
+		document = JSON.parse(await Bun.file(businessLogicPath).text());
+	} catch {
+		return 0;
+	}
+	if (!Array.isArray(document.properties)) return 0;
+
+	const spans = new Map<string, SourceSpan>();
+	for (const cls of inventory.classes) {
+		for (const property of cls.properties) {
+			if (!spans.has(property.name.toLowerCase()))
+				spans.set(property.name.toLowerCase(), property.span);
+		}
+	}
+
+	let cited = 0;
+	for (const property of document.properties) {
+		if (typeof property.name !== "string" || (property.sourceFile && property.lineStart)) continue;
+		const found = spans.get(property.name.toLowerCase());
+		if (!found) continue;
+		property.sourceFile = found.file;
+		property.lineStart = found.startLine;
+		property.lineEnd = found.endLine;
+		cited++;
+	}
+
+	if (cited > 0) {
+		await Bun.write(businessLogicPath, JSON.stringify(document, null, 2));
+	}
+	return cited;
+}
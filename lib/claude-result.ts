@@ -0,0 +1,142 @@
+/**
+ * Claude result envelopes from non-interactive runs
+ *
+ * `claude --print --output-format json` writes a single JSON object (or, with
+ * --verbose, an array of messages ending in one) to stdout. Agents save it to
+ * {outputPath}/.runs/{runName}.json so the orchestrator can record the session id,
+ * cost and error state of each step in conversion-status.json.
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+
+export interface ClaudeRunSummary {
+	sessionId?: string;
+	costUsd?: number;
+	durationMs?: number;
+	durationApiMs?: number;
+	numTurns?: number;
+	isError: boolean;
+	subtype?: string;
+	result?: string;
+}
+
+export interface ClaudeRunRecord {
+	runName: string;
+	exitCode: number;
+	recordedAt: string;
+	summary: ClaudeRunSummary | null;
+	envelope?: unknown;
+	stdout?: string; // Raw stdout, only kept when it could not be parsed
+}
+
+type Envelope = Record<string, unknown>;
+
+function pickResultMessage(parsed: unknown): Envelope | null {
+	if (Array.isArray(parsed)) {
+		const results = parsed.filter(
+			(message) => message && typeof message === "object" && message.type === "result",
+		);
+		return (results.at(-1) as Envelope) ?? null;
+	}
+	if (parsed && typeof parsed === "object") {
+		return parsed as Envelope;
+	}
+	return null;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+	return typeof value === "number" ? value : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+	return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Parse claude's JSON stdout into a summary; returns null when stdout is not JSON
+ */
+export function parseClaudeResult(
+	stdoutText: string,
+): { summary: ClaudeRunSummary; envelope: Envelope } | null {
+	const text = stdoutText.trim();
+	if (!text) return null;
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return null;
+	}
+
+	const envelope = pickResultMessage(parsed);
+	if (!envelope) return null;
+
+	return {
+		envelope,
+		summary: {
+			sessionId: optionalString(envelope.session_id),
+			costUsd: optionalNumber(envelope.total_cost_usd ?? envelope.cost_usd),
+			durationMs: optionalNumber(envelope.duration_ms),
+			durationApiMs: optionalNumber(envelope.duration_api_ms),
+			numTurns: optionalNumber(envelope.num_turns),
+			isError: envelope.is_error === true,
+			subtype: optionalString(envelope.subtype),
+			result: optionalString(envelope.result),
+		},
+	};
+}
+
+export function getRunRecordPath(outputPath: string, runName: string): string {
+	return `${outputPath}/.runs/${runName}.json`;
+}
+
+/**
+ * Save the result of a non-interactive claude run and report errors claude returned.
+ * Call with the agent's output file name without extension (e.g. "data-access").
+ */
+export async function recordClaudeRun(
+	outputPath: string,
+	runName: string,
+	stdoutText: string,
+	exitCode: number,
+): Promise<ClaudeRunRecord> {
+	const parsed = parseClaudeResult(stdoutText);
+	const record: ClaudeRunRecord = {
+		runName,
+		exitCode,
+		recordedAt: new Date().toISOString(),
+		summary: parsed?.summary ?? null,
+		...(parsed ? { envelope: parsed.envelope } : { stdout: stdoutText }),
+	};
+
+	try {
+		await mkdir(`${outputPath}/.runs`, { recursive: true });
+		await Bun.write(getRunRecordPath(outputPath, runName), JSON.stringify(record, null, 2));
+	} catch (error) {
+		console.error(`Warning: Could not save claude result for ${runName}: ${error}`);
+	}
+
+	if (record.summary?.isError) {
+		console.error(
+			`Claude reported an error (${record.summary.subtype ?? "unknown"}): ${record.summary.result ?? ""}`,
+		);
+	} else if (!record.summary && exitCode !== 0 && stdoutText.trim()) {
+		console.error(stdoutText.trim());
+	}
+
+	return record;
+}
+
+export async function readClaudeRun(
+	outputPath: string,
+	runName: string,
+): Promise<ClaudeRunRecord | null> {
+	const recordPath = getRunRecordPath(outputPath, runName);
+	if (!existsSync(recordPath)) return null;
+	try {
+		return (await Bun.file(recordPath).json()) as ClaudeRunRecord;
+	} catch {
+		return null;
+	}
+}
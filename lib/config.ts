@@ -0,0 +1,96 @@
+/**
+ * Runtime settings from config.json that are not file system paths
+ *
+ * Keys read here are optional so that older local config.json files keep working;
+ * every accessor falls back to a sensible default.
+ */
+
+import config from "../config.json" with { type: "json" };
+
+interface OrchestratorConfig {
+	concurrency?: number;
+	maxRetries?: number;
+	retryBackoffMs?: number;
+	stepTimeoutMs?: number;
+	stepTimeouts?: Record<string, number>;
+	idleTimeoutMs?: number;
+	totalTimeoutMs?: number;
+}
+
+interface RuntimeConfig {
+	orchestrator?: OrchestratorConfig;
+	claudeBinary?: string;
+}
+
+const runtimeConfig = config as RuntimeConfig;
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BACKOFF_MS = 5000;
+const DEFAULT_CLAUDE_BINARY = "claude";
+const DEFAULT_STEP_TIMEOUT_MS = 45 * 60 * 1000;
+
+/**
+ * Maximum number of analysis agents the orchestrator runs at the same time
+ */
+export function getOrchestratorConcurrency(): number {
+	const value = runtimeConfig.orchestrator?.concurrency;
+	return typeof value === "number" && value >= 1 ? Math.floor(value) : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Retries for a step whose output is missing or invalid. The delay before retry n
+ * is backoffMs * 2^(n-1).
+ */
+export function getOrchestratorRetryPolicy(): { maxRetries: number; backoffMs: number } {
+	const maxRetries = runtimeConfig.orchestrator?.maxRetries;
+	const backoffMs = runtimeConfig.orchestrator?.retryBackoffMs;
+	return {
+		maxRetries:
+			typeof maxRetries === "number" && maxRetries >= 0
+				? Math.floor(maxRetries)
+				: DEFAULT_MAX_RETRIES,
+		backoffMs:
+			typeof backoffMs === "number" && backoffMs >= 0 ? backoffMs : DEFAULT_RETRY_BACKOFF_MS,
+	};
+}
+
+export interface OrchestratorTimeouts {
+	stepTimeoutMs: number; // Default limit for one run of an agent; 0 disables it
+	stepTimeouts: Record<string, number>; // Per step id, overrides the step's own limit
+	idleTimeoutMs: number; // Stop an agent that printed nothing and did not change its output file for this long; 0 disables it
+	totalTimeoutMs: number; // Limit for the whole orchestrator run; 0 disables it
+}
+
+function nonNegative(value: unknown, fallback: number): number {
+	return typeof value === "number" && value >= 0 ? value : fallback;
+}
+
+/**
+ * Time limits for hung or runaway agents. Only the step timeout is on by default.
+ */
+export function getOrchestratorTimeouts(): OrchestratorTimeouts {
+	const orchestrator = runtimeConfig.orchestrator;
+	const stepTimeouts: Record<string, number> = {};
+	for (const [stepId, value] of Object.entries(orchestrator?.stepTimeouts ?? {})) {
+		if (typeof value === "number" && value >= 0) stepTimeouts[stepId] = value;
+	}
+
+	return {
+		stepTimeoutMs: nonNegative(orchestrator?.stepTimeoutMs, DEFAULT_STEP_TIMEOUT_MS),
+		stepTimeouts,
+		idleTimeoutMs: nonNegative(orchestrator?.idleTimeoutMs, 0),
+		totalTimeoutMs: nonNegative(orchestrator?.totalTimeoutMs, 0),
+	};
+}
+
+/**
+ * Command the agents spawn in place of the claude CLI: the CLAUDE_BIN environment variable,
+ * then config.json claudeBinary, then "claude" on the PATH. TypeScript and JavaScript files
+ * (such as tests/fake-claude.ts) are run with the current Bun executable.
+ */
+export function getClaudeCommand(): string[] {
+	const configured = process.env.CLAUDE_BIN?.trim() || runtimeConfig.claudeBinary?.trim();
+	const binary = configured || DEFAULT_CLAUDE_BINARY;
+	return /\.(ts|js|mjs)$/i.test(binary) ? [process.execPath, binary] : [binary];
+}
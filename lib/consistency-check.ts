@@ -0,0 +1,462 @@
+/**
+ * Cross-artifact consistency checks for one entity's analysis
+ *
+ * Each analysis agent writes its own file, and they regularly disagree: validation.json
+ * names controls that form-structure-detail.json does not have, security.json lists
+ * buttons workflow.json never mentions, data-access.json returns columns with no matching
+ * business object property. This loads every analysis file in an entity's output folder
+ * and reports each reference that has no counterpart:
+ *
+ * - control:        control and button names used in validation, tabs, workflow and
+ *                   security must be defined in a form-structure*.json
+ * - button:         buttons in security.json must appear in workflow.json
+ * - column:         stored procedure result columns in data-access.json must map to a
+ *                   property in business-logic.json
+ * - property:       properties named by validation and related-entities must exist in
+ *                   business-logic.json
+ * - related-entity: relationships in related-entities.json, business-logic.json and the
+ *                   child entities in data-access.json must match each other
+ *
+ * Names are compared case-insensitively (the legacy code is VB). A check is skipped
+ * when an artifact it needs is missing.
+ *
+ * Usage:
+ *   const report = await checkConsistency("output/Barge", "Barge");
+ *   await Bun.write("output/Barge/consistency-report.md", formatConsistencyReport(report));
+ */
+
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { getArtifactFileNames } from "./artifact-schemas";
+import { type JsonObject, asArray, isObject, stringField } from "./json-fields";
+
+export type ConsistencyCheckId = "control" | "button" | "column" | "property" | "related-entity";
+
+export interface ConsistencyFinding {
+	check: ConsistencyCheckId;
+	source: string; // Artifact holding the reference
+	path: string; // Where in the artifact, e.g. formValidation.validatorControls[2].control
+	reference: string;
+	expectedIn: string; // Artifact(s) that should define it
+	message: string;
+}
+
+export interface ConsistencyCheckSummary {
+	id: ConsistencyCheckId;
+	description: string;
+	references: number; // References checked
+	dangling: number;
+	skipped?: string; // Why the check did not run
+}
+
+export interface ConsistencyReport {
+	entity: string;
+	generatedAt: string;
+	outputPath: string;
+	artifacts: string[]; // Analysis files that were loaded
+	checks: ConsistencyCheckSummary[];
+	findings: ConsistencyFinding[];
+}
+
+const CHECK_DESCRIPTIONS: Record<ConsistencyCheckId, string> = {
+	control:
+		"Controls and buttons referenced outside the form structure exist in form-structure*.json",
+	button: "Buttons in security.json appear in workflow.json",
+	column:
+		"Stored procedure result columns in data-access.json map to business-logic.json properties",
+	property:
+		"Properties named by validation.json and related-entities.json exist in business-logic.json",
+	"related-entity":
+		"Relationships agree across related-entities.json, business-logic.json and data-access.json",
+};
+
+// Keys whose values name a control; "controls" holds a list of names or of { name } objects
+const CONTROL_REFERENCE_KEYS = new Set([
+	"control",
+	"button",
+	"buttonName",
+	"focusedControl",
+	"defaultFocus",
+	"gridName",
+]);
+
+// Legacy control names carry a lowercase type prefix (txtBargeNum, cboFleetID, btnFind)
+const CONTROL_NAME = /^(?!frm)[a-z]{2,5}[A-Z][A-Za-z0-9_]*$/;
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Visit every key/value pair in a JSON value with its path
+ */
+function walk(
+	value: unknown,
+	visit: (key: string, value: unknown, path: string) => void,
+	path = "",
+): void {
+	if (Array.isArray(value)) {
+		value.forEach((item, index) => walk(item, visit, `${path}[${index}]`));
+	} else if (isObject(value)) {
+		for (const [key, child] of Object.entries(value)) {
+			const childPath = path ? `${path}.${key}` : key;
+			visit(key, child, childPath);
+			walk(child, visit, childPath);
+		}
+	}
+}
+
+interface Reference {
+	name: string;
+	path: string;
+}
+
+/**
+ * Control names referenced in an artifact
+ */
+function findControlReferences(artifact: unknown): Reference[] {
+	const references: Reference[] = [];
+	walk(artifact, (key, value, path) => {
+		if (CONTROL_REFERENCE_KEYS.has(key) && typeof value === "string" && CONTROL_NAME.test(value)) {
+			references.push({ name: value, path });
+		} else if (key === "controls" && Array.isArray(value)) {
+			value.forEach((item, index) => {
+				const name = typeof item === "string" ? item : stringField(item, "name");
+				if (name && CONTROL_NAME.test(name)) references.push({ name, path: `${path}[${index}]` });
+			});
+		}
+	});
+	return references;
+}
+
+/**
+ * Control names a form structure defines: any control-like "name", and the names panels list
+ */
+function findDefinedControls(formStructure: unknown): string[] {
+	const names: string[] = [];
+	walk(formStructure, (key, value) => {
+		if (key === "name" && typeof value === "string" && CONTROL_NAME.test(value)) {
+			names.push(value);
+		} else if (key === "controls" && Array.isArray(value)) {
+			for (const item of value) {
+				if (typeof item === "string") names.push(item);
+			}
+		} else if (key === "controls" && isObject(value)) {
+			names.push(...Object.keys(value));
+		}
+	});
+	return names;
+}
+
+function findKeyReferences(artifact: unknown, keys: string[], pattern = IDENTIFIER): Reference[] {
+	const references: Reference[] = [];
+	walk(artifact, (key, value, path) => {
+		if (keys.includes(key) && typeof value === "string" && pattern.test(value)) {
+			references.push({ name: value, path });
+		}
+	});
+	return references;
+}
+
+function lowerSet(names: Iterable<string>): Set<string> {
+	return new Set([...names].map((name) => name.toLowerCase()));
+}
+
+async function loadArtifacts(outputPath: string): Promise<Map<string, unknown>> {
+	const artifacts = new Map<string, unknown>();
+	if (!existsSync(outputPath)) return artifacts;
+
+	const known = getArtifactFileNames();
+	const files = (await readdir(outputPath)).filter((file) => known.includes(file));
+	for (const file of files.sort()) {
+		try {
+			artifacts.set(file, JSON.parse(await Bun.file(`${outputPath}/${file}`).text()));
+		} catch {
+			// Invalid JSON is reported by validate-output
+		}
+	}
+	return artifacts;
+}
+
+export async function checkConsistency(
+	outputPath: string,
+	entity: string,
+): Promise<ConsistencyReport> {
+	const artifacts = await loadArtifacts(outputPath);
+	const findings: ConsistencyFinding[] = [];
+	const checks: ConsistencyCheckSummary[] = [];
+
+	const run = (
+		id: ConsistencyCheckId,
+		required: string[],
+		body: (report: (finding: Omit<ConsistencyFinding, "check">) => void) => number,
+	) => {
+		const missing = required.filter((file) =>
+			file === "form-structure*.json"
+				? ![...artifacts.keys()].some((name) => name.startsWith("form-structure"))
+				: !artifacts.has(file),
+		);
+		if (missing.length > 0) {
+			checks.push({
+				id,
+				description: CHECK_DESCRIPTIONS[id],
+				references: 0,
+				dangling: 0,
+				skipped: `missing ${missing.join(", ")}`,
+			});
+			return;
+		}
+
+		const before = findings.length;
+		const references = body((finding) => findings.push({ check: id, ...finding }));
+		checks.push({
+			id,
+			description: CHECK_DESCRIPTIONS[id],
+			references,
+			dangling: findings.length - before,
+		});
+	};
+
+	const formStructureFiles = [...artifacts.keys()].filter((file) =>
+		file.startsWith("form-structure"),
+	);
+	const businessLogic = artifacts.get("business-logic.json");
+	const propertyNames = lowerSet(
+		asArray(isObject(businessLogic) ? businessLogic.properties : undefined)
+			.map((property) =>
+				typeof property === "string" ? property : stringField(property, "name", "property"),
+			)
+			.filter((name): name is string => name !== undefined),
+	);
+	const businessRelationships = asArray(
+		isObject(businessLogic) ? businessLogic.relationships : undefined,
+	);
+
+	run("control", ["form-structure*.json"], (report) => {
+		const defined = lowerSet(
+			formStructureFiles.flatMap((file) => findDefinedControls(artifacts.get(file))),
+		);
+		const expectedIn = formStructureFiles.join(", ");
+		let count = 0;
+		for (const source of ["validation.json", "tabs.json", "workflow.json", "security.json"]) {
+			if (!artifacts.has(source)) continue;
+			const seen = new Set<string>();
+			for (const reference of findControlReferences(artifacts.get(source))) {
+				count++;
+				const key = reference.name.toLowerCase();
+				if (defined.has(key) || seen.has(key)) continue;
+				seen.add(key);
+				report({
+					source,
+					path: reference.path,
+					reference: reference.name,
+					expectedIn,
+					message: `${source} references control ${reference.name}, which is not in ${expectedIn}`,
+				});
+			}
+		}
+		return count;
+	});
+
+	run("button", ["security.json", "workflow.json"], (report) => {
+		const workflowText = JSON.stringify(artifacts.get("workflow.json")).toLowerCase();
+		const seen = new Set<string>();
+		let count = 0;
+		for (const reference of findKeyReferences(
+			artifacts.get("security.json"),
+			["button", "buttonName"],
+			CONTROL_NAME,
+		)) {
+			const key = reference.name.toLowerCase();
+			if (seen.has(key)) continue;
+			seen.add(key);
+			count++;
+			if (!workflowText.includes(key)) {
+				report({
+					source: "security.json",
+					path: reference.path,
+					reference: reference.name,
+					expectedIn: "workflow.json",
+					message: `security.json secures ${reference.name}, but workflow.json never mentions it`,
+				});
+			}
+		}
+		return count;
+	});
+
+	run("column", ["data-access.json", "business-logic.json"], (report) => {
+		const dataAccess = artifacts.get("data-access.json");
+		const procedures = asArray(isObject(dataAccess) ? dataAccess.storedProcedures : undefined);
+		const unmatched = new Map<string, { path: string; procedures: string[] }>();
+		let count = 0;
+		procedures.forEach((procedure, procedureIndex) => {
+			const procedureName = stringField(procedure, "name") ?? `#${procedureIndex + 1}`;
+			asArray(isObject(procedure) ? procedure.resultColumns : undefined).forEach(
+				(column, columnIndex) => {
+					const name =
+						typeof column === "string" ? column : stringField(column, "property", "column", "name");
+					if (!name) return;
+					count++;
+					if (propertyNames.has(name.toLowerCase())) return;
+					const entry = unmatched.get(name) ?? {
+						path: `storedProcedures[${procedureIndex}].resultColumns[${columnIndex}]`,
+						procedures: [],
+					};
+					entry.procedures.push(procedureName);
+					unmatched.set(name, entry);
+				},
+			);
+		});
+		for (const [name, entry] of unmatched) {
+			report({
+				source: "data-access.json",
+				path: entry.path,
+				reference: name,
+				expectedIn: "business-logic.json",
+				message: `Column ${name} returned by ${entry.procedures.join(", ")} has no business-logic.json property`,
+			});
+		}
+		return count;
+	});
+
+	run("property", ["business-logic.json"], (report) => {
+		let count = 0;
+		for (const source of ["validation.json", "related-entities.json"]) {
+			if (!artifacts.has(source)) continue;
+			const seen = new Set<string>();
+			for (const reference of findKeyReferences(artifacts.get(source), ["property"])) {
+				count++;
+				const key = reference.name.toLowerCase();
+				if (propertyNames.has(key) || seen.has(key)) continue;
+				seen.add(key);
+				report({
+					source,
+					path: reference.path,
+					reference: reference.name,
+					expectedIn: "business-logic.json",
+					message: `${source} refers to property ${reference.name}, which business-logic.json does not define`,
+				});
+			}
+		}
+		return count;
+	});
+
+	run("related-entity", ["related-entities.json"], (report) => {
+		const related = artifacts.get("related-entities.json");
+		const relationships = asArray(isObject(related) ? related.relationships : undefined);
+		const relatedNames = lowerSet(
+			relationships.flatMap((relationship) =>
+				[
+					stringField(relationship, "parentProperty"),
+					stringField(relationship, "relatedEntity"),
+				].filter((name): name is string => name !== undefined),
+			),
+		);
+		const businessNames = lowerSet(
+			businessRelationships.flatMap((relationship) =>
+				[
+					stringField(relationship, "property", "name"),
+					stringField(relationship, "relatedEntity"),
+				].filter((name): name is string => name !== undefined),
+			),
+		);
+		let count = 0;
+
+		if (businessLogic !== undefined) {
+			relationships.forEach((relationship, index) => {
+				const property = stringField(relationship, "parentProperty");
+				const relatedEntity = stringField(relationship, "relatedEntity");
+				if (!property && !relatedEntity) return;
+				count++;
+				const names = [property, relatedEntity].filter(
+					(name): name is string => name !== undefined,
+				);
+				if (
+					names.some(
+						(name) =>
+							businessNames.has(name.toLowerCase()) || propertyNames.has(name.toLowerCase()),
+					)
+				) {
+					return;
+				}
+				report({
+					source: "related-entities.json",
+					path: `relationships[${index}]`,
+					reference: property ?? (relatedEntity as string),
+					expectedIn: "business-logic.json",
+					message: `Relationship ${names.join(" / ")} is not among business-logic.json relationships or properties`,
+				});
+			});
+		}
+
+		const dataAccess = artifacts.get("data-access.json");
+		asArray(isObject(dataAccess) ? dataAccess.childEntities : undefined).forEach((child, index) => {
+			const name = typeof child === "string" ? child : stringField(child, "name", "entity");
+			if (!name) return;
+			count++;
+			// Child collections are often plural (BargeCharters) while the related entity is not
+			const singular = name.replace(/(es|s)$/i, "");
+			const candidates = [name, singular, `${singular}e`].map((candidate) =>
+				candidate.toLowerCase(),
+			);
+			if (
+				candidates.some((candidate) => relatedNames.has(candidate) || businessNames.has(candidate))
+			)
+				return;
+			report({
+				source: "data-access.json",
+				path: `childEntities[${index}]`,
+				reference: name,
+				expectedIn: "related-entities.json",
+				message: `Child entity ${name} loaded by data-access.json has no relationship in related-entities.json`,
+			});
+		});
+		return count;
+	});
+
+	return {
+		entity,
+		generatedAt: new Date().toISOString(),
+		outputPath,
+		artifacts: [...artifacts.keys()],
+		checks,
+		findings,
+	};
+}
+
+/**
+ * Markdown version of the report, grouped by check and source artifact
+ */
+export function formatConsistencyReport(report: ConsistencyReport): string {
+	const lines = [
+		`# ${report.entity} Analysis Consistency Report`,
+		"",
+		`**Generated:** ${report.generatedAt}`,
+		`**Artifacts:** ${report.artifacts.join(", ") || "none"}`,
+		"",
+		"| Check | References | Dangling | Notes |",
+		"| --- | ---: | ---: | --- |",
+	];
+	for (const check of report.checks) {
+		lines.push(
+			`| ${check.description} | ${check.references} | ${check.dangling} | ${check.skipped ? `skipped: ${check.skipped}` : ""} |`,
+		);
+	}
+	lines.push("");
+
+	if (report.findings.length === 0) {
+		lines.push("No dangling references found.", "");
+		return lines.join("\n");
+	}
+
+	for (const check of report.checks.filter((c) => c.dangling > 0)) {
+		lines.push(`## ${check.id} (${check.dangling})`, "");
+		const findings = report.findings.filter((finding) => finding.check === check.id);
+		for (const source of [...new Set(findings.map((finding) => finding.source))]) {
+			lines.push(`### ${source}`, "");
+			for (const finding of findings.filter((f) => f.source === source)) {
+				lines.push(`- ${finding.message} (\`${finding.path}\`)`);
+			}
+			lines.push("");
+		}
+	}
+	return lines.join("\n");
+}
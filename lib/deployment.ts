@@ -0,0 +1,517 @@
+/**
+ * Template deployments into the target monorepo, with backups and rollback
+ *
+ * deploy-templates plans one copy per template file (see getTemplateDeployTargets()). A
+ * target that already exists with different content is a conflict: it is overwritten,
+ * skipped, or merged with `git merge-file` (using the copy an earlier deployment wrote as
+ * the base, so hand edits made since then are kept). Every deployment gets a folder
+ * output/{Entity}/deployments/{deploymentId}/ with
+ *
+ *   manifest.json   What happened to each file (source, target and hashes), the configured
+ *                   target project paths and the git HEAD of the monorepo
+ *   backup/         The targets as they were before they were overwritten or merged
+ *   files/          The content that was written
+ *
+ * and rollbackDeployment() restores exactly that: created files are removed, replaced files
+ * are restored from backup/, and the lines added to Program.cs and .csproj files are removed.
+ * Files changed again after the deployment are left alone, and getDeploymentStatus() reports
+ * them (hash drift) for deploy-status. Deployments are rolled back newest first.
+ *
+ * Usage:
+ *   const plan = planDeployment(templatesPath);
+ *   const manifest = await readDeploymentManifest(outputPath, "latest");
+ *   const result = await rollbackDeployment(outputPath, manifest);
+ */
+
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { copyFile, mkdir, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { type NamespaceRewrite, rewriteNamespaces } from "./namespaces";
+import {
+	getAdminApiPath,
+	getAdminUiPath,
+	getMonorepoPath,
+	getSharedProjectPath,
+	getTemplateDeployTargets,
+} from "./paths";
+import { type ProjectEdit, revertProjectEdit } from "./project-wiring";
+
+export type ConflictResolution = "overwrite" | "skip" | "merge";
+
+export const CONFLICT_RESOLUTIONS: ConflictResolution[] = ["overwrite", "skip", "merge"];
+
+export type DeployAction = "create" | "unchanged" | ConflictResolution;
+
+export interface PlannedFile {
+	template: string; // Relative to templates/, e.g. api/Controllers/BargeController.cs
+	source: string;
+	target: string;
+	content: Buffer; // What is deployed: the template with namespaces rewritten
+	rewrites: NamespaceRewrite[];
+	exists: boolean;
+	identical: boolean; // Target already has exactly this content
+}
+
+export interface DeploymentPlan {
+	files: PlannedFile[];
+	warnings: string[]; // Namespaces that could not be checked
+}
+
+export interface DeployedFile {
+	template: string;
+	source: string;
+	target: string;
+	action: DeployAction;
+	rewrites?: NamespaceRewrite[];
+	sourceSha256: string; // Of the template as generated, before namespace rewrites
+	targetSha256?: string; // Of the target right after the deployment; absent when skipped
+	sha256?: string; // Of the content written (create, overwrite, merge)
+	backup?: string; // Relative to the deployment folder
+	mergeConflicts?: number; // Conflict blocks left in a merged file
+	rolledBack?: boolean; // Undone by a rollback that left other files as is
+}
+
+export interface TargetProjectPaths {
+	monorepo: string;
+	adminApi: string;
+	adminUi: string;
+	shared: string;
+}
+
+export interface DeploymentManifest {
+	deploymentId: string;
+	entity: string;
+	createdAt: string;
+	templatesPath: string;
+	targetProjects: TargetProjectPaths; // config.json paths at deploy time
+	monorepoHead: string | null; // git HEAD of the monorepo, null when it is not a git checkout
+	files: DeployedFile[];
+	edits?: ProjectEdit[]; // DI registrations and .csproj entries (lib/project-wiring.ts)
+	revertedEdits?: number[]; // Indexes into edits already reverted by a partial rollback
+	rolledBackAt?: string; // Set once nothing of the deployment is left to undo
+}
+
+export type DeployedFileState = "clean" | "modified" | "missing";
+
+export interface DeployedFileStatus {
+	template: string;
+	target: string;
+	deploymentId: string;
+	state: DeployedFileState; // modified: changed by hand since the deployment
+	templateChanged: boolean; // The template was regenerated since the deployment
+}
+
+export interface DeploymentStatus {
+	entity: string;
+	deployments: number; // Not rolled back
+	lastDeployment: Pick<DeploymentManifest, "deploymentId" | "createdAt" | "monorepoHead"> | null;
+	files: DeployedFileStatus[];
+}
+
+export interface RollbackResult {
+	restored: string[];
+	removed: string[];
+	reverted: string[]; // Files whose registrations or .csproj entries were removed again
+	undone: Array<{ target: string; reason: string }>; // Already undone by hand, e.g. deleted
+	kept: Array<{ target: string; reason: string }>; // Not touched, e.g. changed since the deployment
+}
+
+export function getDeploymentsPath(outputPath: string): string {
+	return `${outputPath}/deployments`;
+}
+
+export function getDeploymentPath(outputPath: string, deploymentId: string): string {
+	return `${getDeploymentsPath(outputPath)}/${deploymentId}`;
+}
+
+export function hashText(text: string | Uint8Array): string {
+	return new Bun.CryptoHasher("sha256").update(text).digest("hex");
+}
+
+export async function hashFile(path: string): Promise<string | null> {
+	if (!existsSync(path)) return null;
+	return hashText(new Uint8Array(await Bun.file(path).arrayBuffer()));
+}
+
+function listFilesRecursive(dir: string): string[] {
+	return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+		const path = join(dir, entry.name);
+		return entry.isDirectory() ? listFilesRecursive(path) : entry.isFile() ? [path] : [];
+	});
+}
+
+/**
+ * Every template file with the target it deploys to, in deploy order (shared, api, ui). The
+ * namespaces of .cs files are rewritten to match their target projects (lib/namespaces.ts).
+ */
+export function planDeployment(templatesPath: string): DeploymentPlan {
+	const files: PlannedFile[] = [];
+	for (const mapping of getTemplateDeployTargets()) {
+		const templateDir = `${templatesPath}/${mapping.template}`;
+		if (!existsSync(templateDir)) continue;
+
+		for (const source of listFilesRecursive(templateDir).sort()) {
+			const relativePath = source.slice(templateDir.length + 1);
+			files.push({
+				template: `${mapping.template}/${relativePath}`,
+				source,
+				target: join(mapping.target, relativePath),
+				content: readFileSync(source),
+				rewrites: [],
+				exists: false,
+				identical: false,
+			});
+		}
+	}
+
+	const csharpFiles = files.filter((file) => file.template.endsWith(".cs"));
+	const rewritten = rewriteNamespaces(
+		csharpFiles.map((file) => ({ target: file.target, content: file.content.toString("utf8") })),
+	);
+	csharpFiles.forEach((file, index) => {
+		const { content, rewrites } = rewritten.files[index];
+		if (rewrites.length === 0) return;
+		file.content = Buffer.from(content, "utf8");
+		file.rewrites = rewrites;
+	});
+
+	for (const file of files) {
+		file.exists = existsSync(file.target);
+		file.identical = file.exists && file.content.equals(readFileSync(file.target));
+	}
+	return { files, warnings: rewritten.warnings };
+}
+
+/**
+ * Run a command on temporary copies of the given contents; the folder is removed afterwards
+ */
+function withTempFiles<T>(
+	contents: Record<string, string | Uint8Array>,
+	run: (paths: Record<string, string>) => T,
+): T {
+	const dir = mkdtempSync(join(tmpdir(), "deploy-"));
+	try {
+		const paths: Record<string, string> = {};
+		for (const [name, content] of Object.entries(contents)) {
+			paths[name] = join(dir, name);
+			writeFileSync(paths[name], content);
+		}
+		return run(paths);
+	} finally {
+		rmSync(dir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Unified diff from the current target to the content being deployed (git diff --no-index)
+ */
+export function diffFiles(currentPath: string, file: PlannedFile): string {
+	return withTempFiles({ template: file.content }, (paths) => {
+		const result = Bun.spawnSync(
+			["git", "diff", "--no-index", "--no-color", "--", currentPath, paths.template],
+			{
+				stdout: "pipe",
+				stderr: "pipe",
+			},
+		);
+		// Exit code 1 means the files differ
+		if (result.exitCode !== 0 && result.exitCode !== 1) {
+			return `(diff unavailable: ${result.stderr.toString().trim() || `git exited with ${result.exitCode}`})`;
+		}
+		return result.stdout.toString().replaceAll(paths.template, `/templates/${file.template}`);
+	});
+}
+
+/**
+ * Three-way merge of the current target and the content being deployed. Without a base
+ * every difference becomes a conflict block.
+ */
+export function mergeFiles(
+	currentPath: string,
+	basePath: string | null,
+	file: PlannedFile,
+): { text: string; conflicts: number } {
+	return withTempFiles(
+		{ base: basePath ? readFileSync(basePath) : "", template: file.content },
+		(paths) => {
+			const result = Bun.spawnSync(
+				[
+					"git",
+					"merge-file",
+					"-p",
+					"-L",
+					"current",
+					"-L",
+					"last deployed",
+					"-L",
+					"template",
+					currentPath,
+					paths.base,
+					paths.template,
+				],
+				{ stdout: "pipe", stderr: "pipe" },
+			);
+
+			// git merge-file exits with the number of conflicts, or a negative (255) value on error
+			if (result.exitCode === null || result.exitCode > 127) {
+				throw new Error(`git merge-file failed: ${result.stderr.toString().trim()}`);
+			}
+			return { text: result.stdout.toString(), conflicts: result.exitCode };
+		},
+	);
+}
+
+export function getTargetProjectPaths(): TargetProjectPaths {
+	return {
+		monorepo: getMonorepoPath(),
+		adminApi: getAdminApiPath(),
+		adminUi: getAdminUiPath(),
+		shared: getSharedProjectPath(),
+	};
+}
+
+/**
+ * Commit checked out in the monorepo; null when it is missing or not a git checkout
+ */
+export function getMonorepoHead(monorepoPath = getMonorepoPath()): string | null {
+	if (!existsSync(monorepoPath)) return null;
+	const result = Bun.spawnSync(["git", "-C", monorepoPath, "rev-parse", "HEAD"], {
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	return result.exitCode === 0 ? result.stdout.toString().trim() : null;
+}
+
+export async function writeDeploymentManifest(
+	outputPath: string,
+	manifest: DeploymentManifest,
+): Promise<string> {
+	const path = `${getDeploymentPath(outputPath, manifest.deploymentId)}/manifest.json`;
+	await Bun.write(path, JSON.stringify(manifest, null, 2));
+	return path;
+}
+
+/**
+ * Deployments of an entity, oldest first
+ */
+export async function listDeployments(outputPath: string): Promise<DeploymentManifest[]> {
+	const deploymentsPath = getDeploymentsPath(outputPath);
+	if (!existsSync(deploymentsPath)) return [];
+
+	const manifests: DeploymentManifest[] = [];
+	for (const entry of await readdir(deploymentsPath, { withFileTypes: true })) {
+		const manifestFile = Bun.file(`${deploymentsPath}/${entry.name}/manifest.json`);
+		if (entry.isDirectory() && (await manifestFile.exists())) {
+			manifests.push((await manifestFile.json()) as DeploymentManifest);
+		}
+	}
+	return manifests.sort((a, b) => a.deploymentId.localeCompare(b.deploymentId));
+}
+
+/**
+ * Find a deployment by id or "latest" (the newest one not rolled back)
+ */
+export async function readDeploymentManifest(
+	outputPath: string,
+	ref: string,
+): Promise<DeploymentManifest | null> {
+	const deployments = await listDeployments(outputPath);
+	if (ref === "latest") return deployments.filter((d) => !d.rolledBackAt).at(-1) ?? null;
+	return deployments.find((deployment) => deployment.deploymentId === ref) ?? null;
+}
+
+/**
+ * Deployments after the given one that are still in effect, oldest first
+ */
+export async function findNewerDeployments(
+	outputPath: string,
+	deploymentId: string,
+): Promise<DeploymentManifest[]> {
+	return (await listDeployments(outputPath)).filter(
+		(d) => !d.rolledBackAt && d.deploymentId.localeCompare(deploymentId) > 0,
+	);
+}
+
+/**
+ * The content an earlier, still active deployment wrote to a target; the base for merges
+ */
+export async function findLastDeployedCopy(
+	outputPath: string,
+	target: string,
+): Promise<string | null> {
+	const deployments = (await listDeployments(outputPath)).filter((d) => !d.rolledBackAt).reverse();
+	for (const deployment of deployments) {
+		const file = deployment.files.find((f) => f.target === target && f.sha256 && !f.rolledBack);
+		if (!file) continue;
+		const copy = `${getDeploymentPath(outputPath, deployment.deploymentId)}/files/${file.template}`;
+		if (existsSync(copy)) return copy;
+	}
+	return null;
+}
+
+/**
+ * Copy a target into the deployment's backup/ folder; returns the path relative to the deployment
+ */
+export async function backupTarget(
+	outputPath: string,
+	deploymentId: string,
+	file: PlannedFile,
+): Promise<string> {
+	const backup = `backup/${file.template}`;
+	const backupPath = `${getDeploymentPath(outputPath, deploymentId)}/${backup}`;
+	await mkdir(dirname(backupPath), { recursive: true });
+	await copyFile(file.target, backupPath);
+	return backup;
+}
+
+/**
+ * Write a target and keep a copy under files/; returns the hash of the content
+ */
+export async function writeDeployedFile(
+	outputPath: string,
+	deploymentId: string,
+	file: PlannedFile,
+	content: string | Uint8Array,
+): Promise<string> {
+	await mkdir(dirname(file.target), { recursive: true });
+	await Bun.write(file.target, content);
+	await Bun.write(`${getDeploymentPath(outputPath, deploymentId)}/files/${file.template}`, content);
+	return hashText(content);
+}
+
+/**
+ * Compare each deployed target with the hash recorded by the last deployment (not rolled back)
+ * that put it there, and each template with the hash it had when deployed
+ */
+export async function getDeploymentStatus(
+	outputPath: string,
+	entity: string,
+): Promise<DeploymentStatus> {
+	const deployments = (await listDeployments(outputPath)).filter((d) => !d.rolledBackAt);
+	const latest = new Map<string, { deploymentId: string; file: DeployedFile }>();
+	for (const deployment of deployments) {
+		for (const file of deployment.files) {
+			// Manifests from before targetSha256 only hashed what they wrote
+			const targetSha256 = file.targetSha256 ?? file.sha256;
+			if (!targetSha256 || file.rolledBack) continue;
+			latest.set(file.target, {
+				deploymentId: deployment.deploymentId,
+				file: { ...file, targetSha256 },
+			});
+		}
+	}
+
+	const files: DeployedFileStatus[] = [];
+	for (const { deploymentId, file } of latest.values()) {
+		const currentHash = await hashFile(file.target);
+		const sourceHash = file.source ? await hashFile(file.source) : null;
+		files.push({
+			template: file.template,
+			target: file.target,
+			deploymentId,
+			state:
+				currentHash === null ? "missing" : currentHash === file.targetSha256 ? "clean" : "modified",
+			templateChanged: Boolean(file.sourceSha256) && sourceHash !== file.sourceSha256,
+		});
+	}
+
+	const last = deployments.at(-1);
+	return {
+		entity,
+		deployments: deployments.length,
+		lastDeployment: last
+			? {
+					deploymentId: last.deploymentId,
+					createdAt: last.createdAt,
+					monorepoHead: last.monorepoHead ?? null,
+				}
+			: null,
+		files,
+	};
+}
+
+/**
+ * Undo a deployment: revert its project edits, remove the files it created and restore the
+ * ones it replaced. A target whose content is no longer what the deployment wrote is kept and
+ * reported; a created file or edit already removed by hand counts as undone. What was undone
+ * is recorded in the manifest, and the deployment only counts as rolled back once nothing was
+ * kept, so the rollback can be run again after fixing the rest.
+ *
+ * Only the newest deployment in effect can be rolled back: a later one may rely on the files
+ * and registrations it made (recording them as unchanged), so later ones are undone first.
+ */
+export async function rollbackDeployment(
+	outputPath: string,
+	manifest: DeploymentManifest,
+	dryRun = false,
+): Promise<RollbackResult> {
+	const newer = await findNewerDeployments(outputPath, manifest.deploymentId);
+	if (newer.length > 0) {
+		throw new Error(
+			`Deployment ${manifest.deploymentId} is followed by ${newer.map((d) => d.deploymentId).join(", ")}, still in effect; roll those back first`,
+		);
+	}
+
+	const result: RollbackResult = { restored: [], removed: [], reverted: [], undone: [], kept: [] };
+	const deploymentPath = getDeploymentPath(outputPath, manifest.deploymentId);
+	const edits = manifest.edits ?? [];
+	const revertedEdits = new Set(manifest.revertedEdits);
+	const files = manifest.files.map((file) => ({ ...file }));
+
+	for (let index = edits.length - 1; index >= 0; index--) {
+		if (revertedEdits.has(index)) continue;
+		const edit = edits[index];
+		const { state, reason = "" } = revertProjectEdit(edit, dryRun);
+		if (state === "kept") {
+			result.kept.push({ target: edit.target, reason });
+			continue;
+		}
+		if (state === "reverted") result.reverted.push(edit.target);
+		else result.undone.push({ target: edit.target, reason });
+		revertedEdits.add(index);
+	}
+
+	for (const file of [...files].reverse()) {
+		if (!file.sha256 || file.rolledBack) continue;
+
+		const currentHash = await hashFile(file.target);
+		if (currentHash === null) {
+			if (file.action === "create") {
+				result.undone.push({ target: file.target, reason: "no longer exists" });
+				file.rolledBack = true;
+			} else {
+				result.kept.push({ target: file.target, reason: "no longer exists" });
+			}
+			continue;
+		}
+		if (currentHash !== file.sha256) {
+			result.kept.push({ target: file.target, reason: "changed since the deployment" });
+			continue;
+		}
+
+		if (file.action === "create") {
+			if (!dryRun) await rm(file.target);
+			result.removed.push(file.target);
+		} else if (file.backup) {
+			const backupPath = `${deploymentPath}/${file.backup}`;
+			if (!existsSync(backupPath)) {
+				result.kept.push({ target: file.target, reason: `backup missing: ${backupPath}` });
+				continue;
+			}
+			if (!dryRun) await copyFile(backupPath, file.target);
+			result.restored.push(file.target);
+		}
+		file.rolledBack = true;
+	}
+
+	if (!dryRun) {
+		await writeDeploymentManifest(outputPath, {
+			...manifest,
+			files,
+			revertedEdits: revertedEdits.size > 0 ? [...revertedEdits].sort((a, b) => a - b) : undefined,
+			rolledBackAt: result.kept.length === 0 ? new Date().toISOString() : undefined,
+		});
+	}
+	return result;
+}
@@ -0,0 +1,599 @@
+/**
+ * Deterministic parser for VB.NET WinForms Designer files
+ *
+ * Reads the InitializeComponent code of a frm*.Designer.vb file (and the Handles
+ * clauses of the matching code-behind file) and produces a baseline form structure:
+ * every control with its type, parent container, location/size, tab order and text,
+ * Infragistics tabs and grid columns, and the event wiring. No LLM is involved, so
+ * the same source always gives the same baseline.
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+
+export type ControlCategory = "button" | "grid" | "container" | "tab" | "label" | "input" | "other";
+
+export interface DesignerControl {
+	name: string;
+	type: string; // Short type name, e.g. UltraTextEditor
+	fullType: string; // As declared, e.g. Infragistics.Win.UltraWinEditors.UltraTextEditor
+	category: ControlCategory;
+	parent: string; // Containing control, or the form name for top-level controls
+	location?: { x: number; y: number };
+	size?: { width: number; height: number };
+	tabIndex?: number;
+	text?: string;
+	properties: Record<string, string | number | boolean | null>;
+	line: number;
+}
+
+export interface DesignerTab {
+	tabControl: string;
+	key?: string;
+	text?: string;
+	tabPage?: string; // Page control holding the tab's controls
+}
+
+export interface DesignerGridColumn {
+	grid: string;
+	key: string;
+	caption?: string;
+	hidden?: boolean;
+	width?: number;
+	format?: string;
+}
+
+export interface DesignerEventHandler {
+	control: string; // Control name, or the form name for MyBase/Me events
+	event: string;
+	handler: string;
+	wiring: "Handles" | "AddHandler";
+	file: "designer" | "code";
+	line: number;
+}
+
+export interface FormStructureBaseline {
+	formName: string;
+	formTitle?: string;
+	inherits?: string;
+	implements: string[];
+	generatedBy: "designer-parser";
+	sourceFiles: { designer: string; code?: string };
+	clientSize?: { width: number; height: number };
+	controls: DesignerControl[];
+	tabOrder: string[];
+	tabs: DesignerTab[];
+	gridColumns: DesignerGridColumn[];
+	eventHandlers: DesignerEventHandler[];
+	buttons: string[];
+	grids: string[];
+	panels: string[];
+	labels: string[];
+}
+
+interface SourceLine {
+	text: string;
+	line: number; // 1-based line of the first physical line
+}
+
+interface LocalObject {
+	type: string;
+	ctorArgs: string;
+	properties: Record<string, string | number | boolean | null>;
+}
+
+type VbValue =
+	| string
+	| number
+	| boolean
+	| null
+	| { x: number; y: number }
+	| { width: number; height: number };
+
+const BUTTON_TYPES = new Set(["Button", "UltraButton"]);
+const GRID_TYPES = new Set(["UltraGrid", "DataGridView", "DataGrid"]);
+const TAB_TYPES = new Set([
+	"UltraTabControl",
+	"TabControl",
+	"UltraTabPageControl",
+	"UltraTabSharedControlsPage",
+	"TabPage",
+]);
+const CONTAINER_TYPES = new Set([
+	"Panel",
+	"UltraPanel",
+	"GroupBox",
+	"UltraGroupBox",
+	"UltraExpandableGroupBox",
+	"UltraExpandableGroupBoxPanel",
+	"SplitContainer",
+	"SplitterPanel",
+	"FlowLayoutPanel",
+	"TableLayoutPanel",
+]);
+const LABEL_TYPES = new Set(["Label", "UltraLabel", "LinkLabel"]);
+const INPUT_TYPES = new Set([
+	"TextBox",
+	"UltraTextEditor",
+	"UltraMaskedEdit",
+	"UltraNumericEditor",
+	"UltraCurrencyEditor",
+	"UltraDateTimeEditor",
+	"UltraCombo",
+	"UltraComboEditor",
+	"ComboBox",
+	"CheckBox",
+	"UltraCheckEditor",
+	"RadioButton",
+	"UltraOptionSet",
+	"DateTimePicker",
+	"NumericUpDown",
+	"RichTextBox",
+	"ListBox",
+	"CheckedListBox",
+]);
+
+function shortTypeName(fullType: string): string {
+	return fullType.split(".").at(-1) ?? fullType;
+}
+
+function categorize(type: string): ControlCategory {
+	if (BUTTON_TYPES.has(type)) return "button";
+	if (GRID_TYPES.has(type)) return "grid";
+	if (TAB_TYPES.has(type)) return "tab";
+	if (CONTAINER_TYPES.has(type)) return "container";
+	if (LABEL_TYPES.has(type)) return "label";
+	if (INPUT_TYPES.has(type)) return "input";
+	return "other";
+}
+
+/**
+ * Join VB line continuations (" _" at end of line) and drop comments/blank lines
+ */
+function toLogicalLines(source: string): SourceLine[] {
+	const physical = source.split(/\r?\n/);
+	const lines: SourceLine[] = [];
+	let buffer = "";
+	let startLine = 0;
+
+	physical.forEach((raw, index) => {
+		const trimmed = raw.trim();
+		if (!buffer && (trimmed === "" || trimmed.startsWith("'"))) return;
+		if (!buffer) startLine = index + 1;
+
+		if (/\s_$/.test(trimmed)) {
+			buffer += `${trimmed.slice(0, -1).trim()} `;
+			return;
+		}
+
+		// Attributes such as <DebuggerStepThrough()> are joined onto the declaration they decorate
+		lines.push({ text: `${buffer}${trimmed}`.replace(/^(?:<[^>]*>\s*)+/, ""), line: startLine });
+		buffer = "";
+	});
+
+	if (buffer) lines.push({ text: buffer.trim(), line: startLine });
+	return lines;
+}
+
+function parseVbValue(raw: string): VbValue {
+	const value = raw.trim();
+
+	const stringMatch = value.match(/^"((?:[^"]|"")*)"$/);
+	if (stringMatch) return stringMatch[1].replace(/""/g, '"');
+
+	const pointMatch = value.match(
+		/^New\s+(?:System\.Drawing\.)?Point\(\s*(-?\d+)\s*,\s*(-?\d+)\s*\)$/i,
+	);
+	if (pointMatch) return { x: Number(pointMatch[1]), y: Number(pointMatch[2]) };
+
+	const sizeMatch = value.match(
+		/^New\s+(?:System\.Drawing\.)?Size\(\s*(-?\d+)\s*,\s*(-?\d+)\s*\)$/i,
+	);
+	if (sizeMatch) return { width: Number(sizeMatch[1]), height: Number(sizeMatch[2]) };
+
+	if (/^-?\d+(\.\d+)?[!#@DFRS]?$/i.test(value)) return Number.parseFloat(value);
+	if (/^true$/i.test(value)) return true;
+	if (/^false$/i.test(value)) return false;
+	if (/^nothing$/i.test(value)) return null;
+
+	return value;
+}
+
+function isScalar(value: VbValue): value is string | number | boolean | null {
+	return value === null || typeof value !== "object";
+}
+
+function extractMeReferences(text: string): string[] {
+	return Array.from(text.matchAll(/Me\.(\w+)/g), (match) => match[1]);
+}
+
+/**
+ * Parse the designer source. `formName` defaults to the Partial Class name.
+ */
+export function parseDesignerSource(
+	source: string,
+	formName?: string,
+): Omit<FormStructureBaseline, "implements" | "sourceFiles"> {
+	const lines = toLogicalLines(source);
+	const declaredTypes = new Map<string, { fullType: string; line: number }>();
+	const controls = new Map<string, DesignerControl>();
+	const locals = new Map<string, LocalObject>();
+	const formProperties: Record<string, VbValue> = {};
+	const tabLists: Array<{ tabControl: string; tabs: string[] }> = [];
+	const bandColumns = new Map<string, string[]>();
+	const gridBands: Array<{ grid: string; band: string }> = [];
+	const eventHandlers: DesignerEventHandler[] = [];
+	let className: string | undefined;
+	let inherits: string | undefined;
+
+	// Declarations first: WithEvents fields usually sit after InitializeComponent
+	for (const { text, line } of lines) {
+		const classMatch = text.match(
+			/^(?:Partial\s+)?(?:(?:Public|Friend|Private)\s+)?(?:Partial\s+)?Class\s+(\w+)/i,
+		);
+		if (classMatch && !className) className = classMatch[1];
+
+		const inheritsMatch = text.match(/^Inherits\s+([\w.]+)/i);
+		if (inheritsMatch && !inherits) inherits = inheritsMatch[1];
+
+		const fieldMatch = text.match(
+			/^(?:Friend|Private|Protected|Public)\s+(?:WithEvents\s+)?(\w+)\s+As\s+(?:New\s+)?([\w.]+)/i,
+		);
+		if (fieldMatch && !/^(Sub|Function|Property)$/i.test(fieldMatch[1])) {
+			declaredTypes.set(fieldMatch[1], { fullType: fieldMatch[2], line });
+		}
+	}
+
+	const resolvedFormName = formName ?? className ?? "";
+
+	const ensureControl = (name: string, line: number, fullType?: string): DesignerControl => {
+		let control = controls.get(name);
+		if (!control) {
+			const type = fullType ?? declaredTypes.get(name)?.fullType ?? "Unknown";
+			control = {
+				name,
+				type: shortTypeName(type),
+				fullType: type,
+				category: categorize(shortTypeName(type)),
+				parent: resolvedFormName,
+				properties: {},
+				line: declaredTypes.get(name)?.line ?? line,
+			};
+			controls.set(name, control);
+		}
+		return control;
+	};
+
+	for (const { text, line } of lines) {
+		// Me.txtName = New Infragistics.Win.UltraWinEditors.UltraTextEditor()
+		const newControl = text.match(/^Me\.(\w+)\s*=\s*New\s+([\w.]+)\s*\(/i);
+		if (newControl && declaredTypes.has(newControl[1]) && newControl[1] !== "components") {
+			const control = ensureControl(newControl[1], line, newControl[2]);
+			control.fullType = newControl[2];
+			control.type = shortTypeName(newControl[2]);
+			control.category = categorize(control.type);
+			continue;
+		}
+
+		// Dim UltraTab1 As Infragistics.Win.UltraWinTabControl.UltraTab = New ...UltraTab("General")
+		const localMatch = text.match(
+			/^Dim\s+(\w+)\s+As\s+([\w.]+)(?:\s*=\s*New\s+[\w.]+\s*\((.*)\))?/i,
+		);
+		if (localMatch) {
+			locals.set(localMatch[1], {
+				type: shortTypeName(localMatch[2]),
+				ctorArgs: localMatch[3] ?? "",
+				properties: {},
+			});
+			continue;
+		}
+
+		// Me.pnlSearch.Controls.Add(Me.txtName) / .ClientArea.Controls.AddRange(...)
+		const addMatch = text.match(
+			/^Me\.(\w+)(?:\.ClientArea|\.Panel[12])?\.Controls\.Add(?:Range)?\((.*)\)$/i,
+		);
+		if (addMatch) {
+			for (const child of extractMeReferences(addMatch[2])) {
+				ensureControl(child, line).parent = addMatch[1];
+			}
+			continue;
+		}
+
+		// Me.Controls.Add(Me.pnlSearch): top-level control on the form
+		if (/^Me\.Controls\.Add(?:Range)?\(/i.test(text)) {
+			for (const child of extractMeReferences(text.replace(/^Me\.Controls/i, ""))) {
+				ensureControl(child, line).parent = resolvedFormName;
+			}
+			continue;
+		}
+
+		// Me.tabMain.Tabs.AddRange(New UltraTab() {UltraTab1, UltraTab2})
+		const tabsMatch = text.match(/^Me\.(\w+)\.Tabs\.AddRange\(.*\{(.*)\}\s*\)$/i);
+		if (tabsMatch) {
+			tabLists.push({
+				tabControl: tabsMatch[1],
+				tabs: tabsMatch[2]
+					.split(",")
+					.map((tab) => tab.trim())
+					.filter(Boolean),
+			});
+			continue;
+		}
+
+		// Me.grdResults.DisplayLayout.BandsSerializer.Add(UltraGridBand1)
+		const bandMatch = text.match(/^Me\.(\w+)\.DisplayLayout\.BandsSerializer\.Add\((\w+)\)$/i);
+		if (bandMatch) {
+			gridBands.push({ grid: bandMatch[1], band: bandMatch[2] });
+			continue;
+		}
+
+		// UltraGridBand1.Columns.AddRange(New Object() {UltraGridColumn1, UltraGridColumn2})
+		const columnsMatch = text.match(/^(\w+)\.Columns\.AddRange\(.*\{(.*)\}\s*\)$/i);
+		if (columnsMatch) {
+			bandColumns.set(
+				columnsMatch[1],
+				columnsMatch[2]
+					.split(",")
+					.map((column) => column.trim())
+					.filter(Boolean),
+			);
+			continue;
+		}
+
+		// AddHandler Me.btnSearch.Click, AddressOf Me.btnSearch_Click
+		const addHandler = text.match(
+			/^AddHandler\s+Me\.(\w+)\.(\w+)\s*,\s*AddressOf\s+(?:Me\.)?(\w+)/i,
+		);
+		if (addHandler) {
+			eventHandlers.push({
+				control: addHandler[1],
+				event: addHandler[2],
+				handler: addHandler[3],
+				wiring: "AddHandler",
+				file: "designer",
+				line,
+			});
+			continue;
+		}
+
+		// Me.txtName.TabIndex = 1 (top-level properties only; nested paths like DisplayLayout.* are skipped)
+		const controlProperty = text.match(/^Me\.(\w+)\.(\w+)\s*=\s*(.+)$/);
+		if (
+			controlProperty &&
+			(controls.has(controlProperty[1]) || declaredTypes.has(controlProperty[1]))
+		) {
+			const control = ensureControl(controlProperty[1], line);
+			const value = parseVbValue(controlProperty[3]);
+			switch (controlProperty[2]) {
+				case "Location":
+					if (value && typeof value === "object" && "x" in value) control.location = value;
+					break;
+				case "Size":
+					if (value && typeof value === "object" && "width" in value) control.size = value;
+					break;
+				case "TabIndex":
+					if (typeof value === "number") control.tabIndex = value;
+					break;
+				case "Text":
+					if (typeof value === "string") control.text = value;
+					break;
+				case "Name":
+					break;
+				default:
+					if (isScalar(value)) control.properties[controlProperty[2]] = value;
+			}
+			continue;
+		}
+
+		// Me.Text = "Barge Search" / Me.ClientSize = New System.Drawing.Size(800, 600)
+		const formProperty = text.match(/^Me\.(\w+)\s*=\s*(.+)$/);
+		if (formProperty && !controls.has(formProperty[1])) {
+			formProperties[formProperty[1]] = parseVbValue(formProperty[2]);
+			continue;
+		}
+
+		// UltraTab1.Text = "General" / UltraGridColumn1.Header.Caption = "Name"
+		const localProperty = text.match(/^(\w+)\.([\w.]+)\s*=\s*(.+)$/);
+		if (localProperty && locals.has(localProperty[1])) {
+			const value = parseVbValue(localProperty[3].replace(/^Me\./, ""));
+			const local = locals.get(localProperty[1]) as LocalObject;
+			if (isScalar(value)) local.properties[localProperty[2]] = value;
+		}
+	}
+
+	const tabs: DesignerTab[] = tabLists.flatMap(({ tabControl, tabs }) =>
+		tabs.map((tabName) => {
+			const local = locals.get(tabName);
+			const ctorKey = local?.ctorArgs.match(/^"([^"]*)"/)?.[1];
+			return {
+				tabControl,
+				key: (local?.properties.Key as string | undefined) ?? ctorKey,
+				text: local?.properties.Text as string | undefined,
+				tabPage: local?.properties.TabPage as string | undefined,
+			};
+		}),
+	);
+
+	const gridColumns: DesignerGridColumn[] = gridBands.flatMap(({ grid, band }) =>
+		(bandColumns.get(band) ?? []).map((columnName) => {
+			const local = locals.get(columnName);
+			const key = local?.ctorArgs.match(/^"([^"]*)"/)?.[1] ?? columnName;
+			const properties = local?.properties ?? {};
+			return {
+				grid,
+				key,
+				caption: properties["Header.Caption"] as string | undefined,
+				hidden: properties.Hidden as boolean | undefined,
+				width: properties.Width as number | undefined,
+				format: properties.Format as string | undefined,
+			};
+		}),
+	);
+
+	const controlList = Array.from(controls.values()).sort((a, b) => a.line - b.line);
+	const namesBy = (category: ControlCategory) =>
+		controlList.filter((c) => c.category === category).map((c) => c.name);
+	const clientSize = formProperties.ClientSize;
+
+	return {
+		formName: resolvedFormName,
+		formTitle: typeof formProperties.Text === "string" ? formProperties.Text : undefined,
+		inherits,
+		generatedBy: "designer-parser",
+		clientSize:
+			clientSize && typeof clientSize === "object" && "width" in clientSize
+				? clientSize
+				: undefined,
+		controls: controlList,
+		tabOrder: computeTabOrder(controlList, resolvedFormName),
+		tabs,
+		gridColumns,
+		eventHandlers,
+		buttons: namesBy("button"),
+		grids: namesBy("grid"),
+		panels: [...namesBy("container"), ...namesBy("tab")],
+		labels: namesBy("label"),
+	};
+}
+
+/**
+ * Order focusable controls the way WinForms tabs through them: by TabIndex within
+ * each container, containers in their own TabIndex order.
+ */
+function computeTabOrder(controls: DesignerControl[], formName: string): string[] {
+	const byName = new Map(controls.map((control) => [control.name, control]));
+	const tabPath = (control: DesignerControl): number[] => {
+		const path: number[] = [];
+		const seen = new Set<string>();
+		for (let current: DesignerControl | undefined = control; current && !seen.has(current.name); ) {
+			seen.add(current.name);
+			path.unshift(current.tabIndex ?? Number.MAX_SAFE_INTEGER);
+			current = current.parent === formName ? undefined : byName.get(current.parent);
+		}
+		return path;
+	};
+
+	const comparePaths = (a: number[], b: number[]): number => {
+		for (let i = 0; i < Math.min(a.length, b.length); i++) {
+			if (a[i] !== b[i]) return a[i] - b[i];
+		}
+		return a.length - b.length;
+	};
+
+	return controls
+		.filter(
+			(control) =>
+				control.tabIndex !== undefined && ["input", "button", "grid"].includes(control.category),
+		)
+		.map((control) => ({ name: control.name, path: tabPath(control) }))
+		.sort((a, b) => comparePaths(a.path, b.path))
+		.map((entry) => entry.name);
+}
+
+/**
+ * Parse Handles clauses and AddHandler statements from a form's code-behind file
+ */
+export function parseEventWiring(
+	codeSource: string,
+	formName: string,
+): {
+	eventHandlers: DesignerEventHandler[];
+	implements: string[];
+} {
+	const eventHandlers: DesignerEventHandler[] = [];
+	const implementsList: string[] = [];
+
+	for (const { text, line } of toLogicalLines(codeSource)) {
+		const implementsMatch = text.match(/^Implements\s+(.+)$/i);
+		if (implementsMatch) {
+			implementsList.push(
+				...implementsMatch[1]
+					.split(",")
+					.map((name) => name.trim())
+					.filter(Boolean),
+			);
+			continue;
+		}
+
+		const handlesMatch = text.match(
+			/^(?:(?:Private|Protected|Public|Friend|Overrides|Overloads)\s+)*Sub\s+(\w+)\s*\(.*\)\s+Handles\s+(.+)$/i,
+		);
+		if (handlesMatch) {
+			for (const target of handlesMatch[2].split(",")) {
+				const parts = target.trim().split(".");
+				if (parts.length < 2) continue;
+				const event = parts.at(-1) as string;
+				const owner = parts.at(-2) as string;
+				const control = /^(Me|MyBase|MyClass)$/i.test(owner) ? formName : owner;
+				eventHandlers.push({
+					control,
+					event,
+					handler: handlesMatch[1],
+					wiring: "Handles",
+					file: "code",
+					line,
+				});
+			}
+			continue;
+		}
+
+		const addHandler = text.match(
+			/^AddHandler\s+(?:Me\.)?(\w+)\.(\w+)\s*,\s*AddressOf\s+(?:Me\.)?(\w+)/i,
+		);
+		if (addHandler) {
+			eventHandlers.push({
+				control: addHandler[1],
+				event: addHandler[2],
+				handler: addHandler[3],
+				wiring: "AddHandler",
+				file: "code",
+				line,
+			});
+		}
+	}
+
+	return { eventHandlers, implements: implementsList };
+}
+
+/**
+ * Build the baseline for a form from its Designer file and (if present) code-behind.
+ * Returns null when the Designer file does not exist.
+ */
+export async function buildFormStructureBaseline(
+	designerPath: string,
+	codePath: string,
+	formName: string,
+): Promise<FormStructureBaseline | null> {
+	if (!existsSync(designerPath)) return null;
+
+	const designer = parseDesignerSource(await Bun.file(designerPath).text(), formName);
+	let implementsList: string[] = [];
+	const hasCode = existsSync(codePath);
+
+	if (hasCode) {
+		const wiring = parseEventWiring(await Bun.file(codePath).text(), formName);
+		designer.eventHandlers.push(...wiring.eventHandlers);
+		implementsList = wiring.implements;
+	}
+
+	return {
+		...designer,
+		implements: implementsList,
+		sourceFiles: { designer: designerPath, ...(hasCode ? { code: codePath } : {}) },
+	};
+}
+
+export function getBaselinePath(outputPath: string, outputFileName: string): string {
+	return `${outputPath}/.baseline/${outputFileName}`;
+}
+
+export async function writeFormStructureBaseline(
+	outputPath: string,
+	outputFileName: string,
+	baseline: FormStructureBaseline,
+): Promise<string> {
+	const baselinePath = getBaselinePath(outputPath, outputFileName);
+	await mkdir(`${outputPath}/.baseline`, { recursive: true });
+	await Bun.write(baselinePath, JSON.stringify(baseline, null, 2));
+	return baselinePath;
+}
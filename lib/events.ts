@@ -0,0 +1,148 @@
+/**
+ * Structured progress events from the orchestrator
+ *
+ * Every orchestrator run appends one JSON object per line to output/{Entity}/events.jsonl:
+ * the run starting and finishing, and each step starting, being retried, skipped,
+ * completing or failing, with timings. With --log-format json the same lines are written
+ * to stdout, so CI jobs, dashboards and notifiers can follow a run without parsing the
+ * console banners.
+ *
+ * Usage:
+ *   const events = createEventLog({ outputPath, entity: "Barge", runId, format: "json" });
+ *   await events.emit({ event: "step-skip", stepNumber: 2, stepId: "form-structure-detail", name: "..." });
+ */
+
+import { appendFile } from "node:fs/promises";
+
+export type LogFormat = "text" | "json";
+
+export const LOG_FORMATS: LogFormat[] = ["text", "json"];
+
+export type RunMode = "new" | "resume" | "rerun-failed";
+
+export type StepOutcome = "completed" | "failed" | "timed-out";
+
+export type RunStartEvent = {
+	event: "run-start";
+	mode: RunMode;
+	totalSteps: number;
+	steps: number[]; // Step numbers this run will start or skip
+	concurrency: number;
+};
+
+export type StepStartEvent = {
+	event: "step-start";
+	stepNumber: number;
+	stepId: string;
+	name: string;
+	dependsOn: string[];
+};
+
+export type StepRetryEvent = {
+	event: "step-retry";
+	stepNumber: number;
+	stepId: string;
+	attempt: number; // Attempt that produced the invalid output
+	maxAttempts: number;
+	delayMs: number;
+	validationErrors: string[];
+};
+
+export type StepSkipEvent = {
+	event: "step-skip";
+	stepNumber: number;
+	stepId: string;
+	name: string;
+};
+
+export type StepFinishEvent = {
+	event: "step-finish" | "step-fail";
+	stepNumber: number;
+	stepId: string;
+	name: string;
+	status: StepOutcome;
+	startTime: string;
+	endTime: string;
+	durationMs: number;
+	attempts: number;
+	exitCode?: number;
+	error?: string;
+	timedOut?: string;
+	validationErrors?: string[];
+	outputFile: string;
+	costUsd?: number;
+};
+
+export type RunFinishEvent = {
+	event: "run-finish";
+	status: "completed" | "failed";
+	durationMs: number;
+	completedSteps: number;
+	failedSteps: number;
+	skippedSteps: number;
+	failedStepNumbers: number[];
+	totalCostUsd?: number;
+	reason?: "step-failed" | "total-timeout"; // Why the run stopped early
+};
+
+export type OrchestratorEventBody =
+	| RunStartEvent
+	| StepStartEvent
+	| StepRetryEvent
+	| StepSkipEvent
+	| StepFinishEvent
+	| RunFinishEvent;
+
+export type OrchestratorEvent = OrchestratorEventBody & {
+	timestamp: string;
+	runId: string;
+	entity: string;
+	formName?: string;
+};
+
+export interface EventLog {
+	path: string;
+	emit(event: OrchestratorEventBody): Promise<void>;
+}
+
+export function getEventLogPath(outputPath: string): string {
+	return `${outputPath}/events.jsonl`;
+}
+
+export function createEventLog(options: {
+	outputPath: string;
+	entity: string;
+	formName?: string;
+	runId: string;
+	format: LogFormat;
+}): EventLog {
+	const path = getEventLogPath(options.outputPath);
+
+	// Appends are chained so lines keep their order when parallel steps finish together
+	let writeChain: Promise<void> = Promise.resolve();
+
+	return {
+		path,
+		emit(body) {
+			const event: OrchestratorEvent = {
+				timestamp: new Date().toISOString(),
+				runId: options.runId,
+				entity: options.entity,
+				...(options.formName ? { formName: options.formName } : {}),
+				...body,
+			};
+			const line = `${JSON.stringify(event)}\n`;
+			if (options.format === "json") {
+				process.stdout.write(line);
+			}
+			writeChain = writeChain.then(async () => {
+				try {
+					await appendFile(path, line, "utf8");
+				} catch (error) {
+					console.error(`Error writing ${path}: ${error}`);
+				}
+			});
+			return writeChain;
+		},
+	};
+}
@@ -21,6 +21,28 @@ export const parsedArgs = parseArgs({
 		resume: { type: "boolean" },
 		"rerun-failed": { type: "boolean" },
 		"dry-run": { type: "boolean" },
+		concurrency: { type: "string" },
+		"step-concurrency": { type: "string" },
+		entities: { type: "string" },
+		forms: { type: "string" },
+		glob: { type: "string" },
+		index: { type: "string" },
+		"skip-validation": { type: "boolean" },
+		"skip-source-check": { type: "boolean" },
+		"max-retries": { type: "string" },
+		"repair-prompt": { type: "string" },
+		timeout: { type: "string" },
+		"step-timeout": { type: "string" },
+		"idle-timeout": { type: "string" },
+		"total-timeout": { type: "string" },
+		port: { type: "string" },
+		host: { type: "string" },
+		"log-format": { type: "string" },
+		from: { type: "string" },
+		to: { type: "string" },
+		"on-conflict": { type: "string" },
+		rollback: { type: "string" },
+		force: { type: "boolean" },
 	},
 	strict: false,
 	allowPositionals: true,
@@ -53,7 +75,7 @@ export function buildClaudeFlags(
 	const merged = { ...baseFlags, ...userFlags };
 
 	// Filter out custom agent-specific flags that shouldn't be passed to Claude
-	const customFlags = ["entity", "form-name", "form-type", "output", "skip-steps", "resume", "rerun-failed"];
+	const customFlags = ["entity", "form-name", "form-type", "output", "skip-steps", "resume", "rerun-failed", "concurrency", "step-concurrency", "entities", "forms", "glob", "index", "skip-validation", "skip-source-check", "max-retries", "repair-prompt", "timeout", "step-timeout", "idle-timeout", "total-timeout", "port", "host", "log-format", "from", "to", "on-conflict", "rollback", "force"];
 	const claudeFlags: ClaudeFlags = {};
 
 	for (const [key, value] of Object.entries(merged)) {
@@ -0,0 +1,131 @@
+/**
+ * Navigation graph of the legacy forms
+ *
+ * Built from the source index: one node per form and one edge per place a form opens
+ * another (New frmX, frmX.Show/ShowDialog), labeled with the event handler that does it
+ * (e.g. btnDraftDetail_Click). The graph can be cut down to the screens reachable from a
+ * root form and exported as JSON, Mermaid or Graphviz DOT.
+ *
+ * Usage:
+ *   const graph = buildFormGraph(await loadSourceIndex());
+ *   const barge = getReachableSubgraph(graph, ["frmBargeSearch"]);
+ *   await Bun.write("barge.mmd", formatFormGraphMermaid(barge));
+ */
+
+import type { IndexedFormKind, SourceIndex } from "./source-index";
+
+export interface FormGraphNode {
+	id: string; // Form name, e.g. frmBargeSearch
+	kind: IndexedFormKind;
+	entity: string;
+	file: string; // Relative to inputDirectory
+}
+
+export interface FormGraphEdge {
+	from: string;
+	to: string;
+	label: string; // Calling handler, or "(declaration)" for field initializers
+	line: number; // Line in the calling form's .vb file
+}
+
+export interface FormGraph {
+	generatedAt: string;
+	inputDirectory: string;
+	roots?: string[]; // Set when the graph was cut down with getReachableSubgraph
+	nodes: FormGraphNode[];
+	edges: FormGraphEdge[];
+}
+
+// Edge label for references outside any Sub or Function
+const DECLARATION_LABEL = "(declaration)";
+
+export function buildFormGraph(index: SourceIndex): FormGraph {
+	const nodes = index.forms.map((form) => ({
+		id: form.name,
+		kind: form.kind,
+		entity: form.entity,
+		file: form.file,
+	}));
+
+	const edges = index.forms.flatMap((form) =>
+		form.navigations.map((navigation) => ({
+			from: form.name,
+			to: navigation.form,
+			label: navigation.handler ?? DECLARATION_LABEL,
+			line: navigation.line,
+		})),
+	);
+
+	return {
+		generatedAt: new Date().toISOString(),
+		inputDirectory: index.inputDirectory,
+		nodes,
+		edges,
+	};
+}
+
+/**
+ * Forms reachable from the roots by following edges forward, with the edges between them
+ */
+export function getReachableSubgraph(graph: FormGraph, roots: string[]): FormGraph {
+	const byLowerName = new Map(graph.nodes.map((node) => [node.id.toLowerCase(), node.id]));
+	const start = roots
+		.map((root) => byLowerName.get(root.toLowerCase()))
+		.filter((id): id is string => id !== undefined);
+
+	const reached = new Set(start);
+	const pending = [...start];
+	while (pending.length > 0) {
+		const current = pending.pop();
+		for (const edge of graph.edges) {
+			if (edge.from === current && !reached.has(edge.to)) {
+				reached.add(edge.to);
+				pending.push(edge.to);
+			}
+		}
+	}
+
+	return {
+		...graph,
+		roots: start,
+		nodes: graph.nodes.filter((node) => reached.has(node.id)),
+		edges: graph.edges.filter((edge) => reached.has(edge.from) && reached.has(edge.to)),
+	};
+}
+
+function quote(text: string): string {
+	return `"${text.replaceAll('"', "'")}"`;
+}
+
+function nodeLabel(node: FormGraphNode): string {
+	return node.kind === "Single" ? node.id : `${node.id} (${node.kind})`;
+}
+
+/**
+ * Mermaid flowchart (without the ``` fence)
+ */
+export function formatFormGraphMermaid(graph: FormGraph): string {
+	const lines = ["flowchart TB"];
+	for (const node of graph.nodes) {
+		lines.push(`  ${node.id}[${quote(nodeLabel(node))}]`);
+	}
+	lines.push("");
+	for (const edge of graph.edges) {
+		lines.push(`  ${edge.from} -->|${quote(edge.label)}| ${edge.to}`);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+export function formatFormGraphDot(graph: FormGraph): string {
+	const lines = ["digraph forms {", "  rankdir=LR;", "  node [shape=box];", ""];
+	for (const node of graph.nodes) {
+		const style = graph.roots?.includes(node.id) ? ", style=bold" : "";
+		lines.push(`  ${quote(node.id)} [label=${quote(nodeLabel(node))}${style}];`);
+	}
+	lines.push("");
+	for (const edge of graph.edges) {
+		lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.label)}];`);
+	}
+	lines.push("}");
+	return `${lines.join("\n")}\n`;
+}
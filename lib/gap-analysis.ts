@@ -0,0 +1,488 @@
+/**
+ * Gap analysis between an entity's generated templates and its analysis
+ *
+ * Step 11 writes C# templates from the analysis JSON, and what it leaves out has so far
+ * been found by reading both side by side (output/Barge/GAPS_ANALYSIS.md). This parses
+ * the generated files and measures how much of the analysis they cover:
+ *
+ * - dto-properties:   business-logic.json properties present on templates/.../{Entity}Dto.cs
+ * - search-criteria:  search criteria controls of form-structure-search.json with a field on
+ *                     {Entity}SearchRequest.cs (txtBargeNum -> BargeNum, cboOperatorID -> OperatorID)
+ * - sql-columns:      data-access.json result columns used in the SQL of the api repositories,
+ *                     DataAccess classes and .sql files
+ * - authorization:    security.json API auth attribute and endpoints on the api controllers,
+ *                     and UI permissions referenced by the ui controllers
+ *
+ * The C# is matched with regular expressions, not compiled, which is enough for the
+ * shapes the generator produces. A check is skipped when its template or analysis file
+ * does not exist.
+ *
+ * Usage:
+ *   const report = await analyzeTemplateGaps("output/Barge", "Barge");
+ *   await Bun.write("output/Barge/gap-report.md", formatGapReport(report));
+ */
+
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { relative } from "node:path";
+import { type JsonObject, asArray, isObject, stringField } from "./json-fields";
+
+export type GapCheckId = "dto-properties" | "search-criteria" | "sql-columns" | "authorization";
+
+export interface GapCheck {
+	id: GapCheckId;
+	description: string;
+	analysis: string[]; // Analysis files the expected items come from
+	templates: string[]; // Template files searched, relative to templates/
+	expected: number;
+	covered: string[];
+	missing: string[];
+	extra: string[]; // In the templates but not in the analysis (informational)
+	coverage: number | null; // Percentage of expected items covered; null when nothing is expected
+	skipped?: string;
+}
+
+export interface GapReport {
+	entity: string;
+	generatedAt: string;
+	templatesPath: string;
+	checks: GapCheck[];
+	coverage: number | null; // Over all expected items of the checks that ran
+}
+
+const CHECK_DESCRIPTIONS: Record<GapCheckId, string> = {
+	"dto-properties": "business-logic.json properties on the entity DTO",
+	"search-criteria": "Search criteria controls with a SearchRequest field",
+	"sql-columns": "data-access.json result columns in repository SQL",
+	authorization: "security.json authorization on the controllers",
+};
+
+// Control prefixes that are not search criteria
+const NON_CRITERIA_PREFIXES = [
+	"btn",
+	"lbl",
+	"grd",
+	"grp",
+	"pnl",
+	"tab",
+	"ugb",
+	"ug",
+	"frm",
+	"tlb",
+	"spl",
+];
+
+const HTTP_METHODS = ["Get", "Post", "Put", "Delete", "Patch"];
+
+function unique(values: string[]): string[] {
+	const seen = new Set<string>();
+	return values.filter((value) => {
+		const key = value.toLowerCase();
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
+
+function percentage(covered: number, expected: number): number | null {
+	return expected === 0 ? null : Math.round((covered / expected) * 1000) / 10;
+}
+
+async function readJson(path: string): Promise<JsonObject | null> {
+	if (!existsSync(path)) return null;
+	try {
+		const value = JSON.parse(await Bun.file(path).text());
+		return isObject(value) ? value : null;
+	} catch {
+		return null;
+	}
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+	if (!existsSync(dir)) return [];
+	const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+	return entries
+		.filter((entry) => entry.isFile())
+		.map((entry) => `${entry.parentPath}/${entry.name}`)
+		.sort();
+}
+
+/**
+ * Names of the public auto-properties of a C# class file
+ */
+export function parseCSharpProperties(source: string): string[] {
+	const properties: string[] = [];
+	for (const match of source.matchAll(
+		/public\s+(?:(?:virtual|override|required|new)\s+)*[\w<>[\]?,.\s]+?\s+(\w+)\s*\{\s*get\b/g,
+	)) {
+		properties.push(match[1]);
+	}
+	return properties;
+}
+
+/**
+ * Contents of the string literals of a C# file: raw ("""), verbatim (@"") and regular strings
+ */
+export function extractCSharpStrings(source: string): string[] {
+	const strings: string[] = [];
+	let rest = source.replace(/"""([\s\S]*?)"""/g, (_, text: string) => {
+		strings.push(text);
+		return "";
+	});
+	rest = rest.replace(/(?:\$@|@\$|@)"((?:[^"]|"")*)"/g, (_, text: string) => {
+		strings.push(text.replace(/""/g, '"'));
+		return "";
+	});
+	for (const match of rest.matchAll(/\$?"((?:[^"\\\n]|\\.)*)"/g)) {
+		strings.push(match[1]);
+	}
+	return strings;
+}
+
+/**
+ * Field name a legacy control most likely maps to: txtBargeNum -> BargeNum
+ */
+function controlFieldName(control: string): string {
+	return control.replace(/^[a-z]+(?=[A-Z])/, "");
+}
+
+/**
+ * Loose key for matching search fields: case, an "Is" or "Search" prefix and an "ID" suffix
+ * are ignored
+ */
+function fieldKey(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(/^(is|search)(?=[a-z])/, "")
+		.replace(/id$/, "");
+}
+
+function searchCriteriaControls(formStructure: JsonObject): string[] {
+	const controls = asArray(formStructure.controls);
+	const categorized = controls.filter((control) =>
+		["SearchCriteria", "AdvancedSearch"].includes(stringField(control, "category") ?? ""),
+	);
+	if (categorized.length > 0) {
+		return unique(
+			categorized.map((control) => stringField(control, "name")).filter((n): n is string => !!n),
+		);
+	}
+
+	// Older analyses do not categorize controls; fall back to the inputs the panels list
+	const names = [
+		...controls.map((control) => stringField(control, "name")),
+		...asArray(formStructure.panels).flatMap((panel) =>
+			asArray(isObject(panel) ? panel.controls : undefined).map((control) =>
+				typeof control === "string" ? control : stringField(control, "name"),
+			),
+		),
+	].filter((name): name is string => !!name && /^[a-z]{2,5}[A-Z]/.test(name));
+	return unique(
+		names.filter((name) => !NON_CRITERIA_PREFIXES.some((prefix) => name.startsWith(prefix))),
+	);
+}
+
+interface ControllerAction {
+	name: string;
+	verb: string;
+	route: string;
+}
+
+/**
+ * HTTP actions of a controller: the method name, verb and route template
+ */
+function parseControllerActions(source: string): ControllerAction[] {
+	const actions: ControllerAction[] = [];
+	const pattern =
+		/((?:\s*\[[^\]]*(?:\([^)]*\))?[^\]]*\])+)\s*public\s+(?:async\s+)?[\w<>[\]?,\s]+?\s+(\w+)\s*\(/g;
+	for (const match of source.matchAll(pattern)) {
+		const attributes = match[1];
+		const verbMatch = attributes.match(
+			new RegExp(`\\[Http(${HTTP_METHODS.join("|")})(?:\\("([^"]*)"\\))?`),
+		);
+		if (!verbMatch) continue;
+		actions.push({ name: match[2], verb: verbMatch[1].toUpperCase(), route: verbMatch[2] ?? "" });
+	}
+	return actions;
+}
+
+/**
+ * Route relative to the controller with parameter names dropped: "api/Barge/{id}/charters" -> "{}/charters"
+ */
+function routeKey(route: string): string {
+	return route
+		.replace(/^\/?api\/[^/]+\/?/i, "")
+		.replace(/\{[^}]*\}/g, "{}")
+		.replace(/^\/|\/$/g, "")
+		.toLowerCase();
+}
+
+function relativeTo(templatesPath: string, files: string[]): string[] {
+	return files.map((file) => relative(templatesPath, file));
+}
+
+export async function analyzeTemplateGaps(outputPath: string, entity: string): Promise<GapReport> {
+	const templatesPath = `${outputPath}/templates`;
+	const files = await listFiles(templatesPath);
+	const byName = (name: string) => files.filter((file) => file.endsWith(`/${name}`));
+	const under = (folder: string, extension = ".cs") =>
+		files.filter((file) => file.includes(`/${folder}/`) && file.endsWith(extension));
+
+	const businessLogic = await readJson(`${outputPath}/business-logic.json`);
+	const searchForm = await readJson(`${outputPath}/form-structure-search.json`);
+	const dataAccess = await readJson(`${outputPath}/data-access.json`);
+	const security = await readJson(`${outputPath}/security.json`);
+
+	const checks: GapCheck[] = [];
+	const check = (
+		id: GapCheckId,
+		analysis: string[],
+		templates: string[],
+		result: { expected: string[]; covered: string[]; extra?: string[] } | string,
+	) => {
+		const base = {
+			id,
+			description: CHECK_DESCRIPTIONS[id],
+			analysis,
+			templates: relativeTo(templatesPath, templates),
+		};
+		if (typeof result === "string") {
+			checks.push({
+				...base,
+				expected: 0,
+				covered: [],
+				missing: [],
+				extra: [],
+				coverage: null,
+				skipped: result,
+			});
+			return;
+		}
+		const covered = new Set(result.covered);
+		checks.push({
+			...base,
+			expected: result.expected.length,
+			covered: result.expected.filter((item) => covered.has(item)),
+			missing: result.expected.filter((item) => !covered.has(item)),
+			extra: result.extra ?? [],
+			coverage: percentage(covered.size, result.expected.length),
+		});
+	};
+
+	// DTO properties
+	const dtoFiles = byName(`${entity}Dto.cs`);
+	if (!businessLogic) {
+		check("dto-properties", ["business-logic.json"], dtoFiles, "missing business-logic.json");
+	} else if (dtoFiles.length === 0) {
+		check("dto-properties", ["business-logic.json"], dtoFiles, `missing ${entity}Dto.cs`);
+	} else {
+		const expected = unique(
+			asArray(businessLogic.properties)
+				.map((property) =>
+					typeof property === "string" ? property : stringField(property, "name", "property"),
+				)
+				.filter((name): name is string => !!name),
+		);
+		const dtoProperties = unique(
+			(await Promise.all(dtoFiles.map((file) => Bun.file(file).text()))).flatMap(
+				parseCSharpProperties,
+			),
+		);
+		const dtoKeys = new Set(dtoProperties.map((name) => name.toLowerCase()));
+		const expectedKeys = new Set(expected.map((name) => name.toLowerCase()));
+		check("dto-properties", ["business-logic.json"], dtoFiles, {
+			expected,
+			covered: expected.filter((name) => dtoKeys.has(name.toLowerCase())),
+			extra: dtoProperties.filter((name) => !expectedKeys.has(name.toLowerCase())),
+		});
+	}
+
+	// Search criteria
+	const searchRequestFiles = byName(`${entity}SearchRequest.cs`);
+	if (!searchForm) {
+		check(
+			"search-criteria",
+			["form-structure-search.json"],
+			searchRequestFiles,
+			"missing form-structure-search.json",
+		);
+	} else if (searchRequestFiles.length === 0) {
+		check(
+			"search-criteria",
+			["form-structure-search.json"],
+			searchRequestFiles,
+			`missing ${entity}SearchRequest.cs`,
+		);
+	} else {
+		const controls = searchCriteriaControls(searchForm);
+		const fields = unique(
+			(await Promise.all(searchRequestFiles.map((file) => Bun.file(file).text()))).flatMap(
+				parseCSharpProperties,
+			),
+		);
+		const fieldKeys = new Set(fields.map(fieldKey));
+		const controlKeys = new Set(controls.map((control) => fieldKey(controlFieldName(control))));
+		check("search-criteria", ["form-structure-search.json"], searchRequestFiles, {
+			expected: controls,
+			covered: controls.filter((control) => fieldKeys.has(fieldKey(controlFieldName(control)))),
+			extra: fields.filter((field) => !controlKeys.has(fieldKey(field))),
+		});
+	}
+
+	// SQL columns
+	const sqlFiles = [
+		...under("Repositories"),
+		...under("DataAccess"),
+		...files.filter((file) => file.includes("/api/") && file.endsWith(".sql")),
+	].filter((file) => file.includes("/api/"));
+	const procedures = asArray(dataAccess?.storedProcedures);
+	if (!dataAccess) {
+		check("sql-columns", ["data-access.json"], sqlFiles, "missing data-access.json");
+	} else if (procedures.length === 0) {
+		check("sql-columns", ["data-access.json"], sqlFiles, "no storedProcedures in data-access.json");
+	} else if (sqlFiles.length === 0) {
+		check("sql-columns", ["data-access.json"], sqlFiles, "no api repository or .sql templates");
+	} else {
+		const expected = unique(
+			procedures.flatMap((procedure) =>
+				asArray(isObject(procedure) ? procedure.resultColumns : undefined)
+					.map((column) =>
+						typeof column === "string" ? column : stringField(column, "column", "name"),
+					)
+					.filter((name): name is string => !!name),
+			),
+		);
+		const sql = (
+			await Promise.all(
+				sqlFiles.map(async (file) => {
+					const text = await Bun.file(file).text();
+					return file.endsWith(".sql") ? text : extractCSharpStrings(text).join("\n");
+				}),
+			)
+		).join("\n");
+		const words = new Set((sql.match(/[A-Za-z_]\w*/g) ?? []).map((word) => word.toLowerCase()));
+		check("sql-columns", ["data-access.json"], sqlFiles, {
+			expected,
+			covered: expected.filter((column) => words.has(column.toLowerCase())),
+		});
+	}
+
+	// Authorization
+	const apiControllers = under("api/Controllers");
+	const uiControllers = under("ui/Controllers");
+	const modern = isObject(security?.modern) ? security.modern : null;
+	if (!security) {
+		check("authorization", ["security.json"], [], "missing security.json");
+	} else if (!modern) {
+		check("authorization", ["security.json"], [], "security.json has no modern section");
+	} else if (apiControllers.length + uiControllers.length === 0) {
+		check("authorization", ["security.json"], [], "no controller templates");
+	} else {
+		const expected: string[] = [];
+		const covered: string[] = [];
+		const apiSource = (await Promise.all(apiControllers.map((file) => Bun.file(file).text()))).join(
+			"\n",
+		);
+		const uiSource = (await Promise.all(uiControllers.map((file) => Bun.file(file).text()))).join(
+			"\n",
+		);
+		const api = isObject(modern.api) ? modern.api : {};
+		const ui = isObject(modern.ui) ? modern.ui : {};
+
+		// e.g. "[ApiKey]" -> ApiKey
+		const apiAttribute = stringField(api, "attributePattern")?.match(/^\[?(\w+)/)?.[1];
+		if (apiAttribute && apiControllers.length > 0) {
+			const item = `api controllers use [${apiAttribute}]`;
+			expected.push(item);
+			if (new RegExp(`\\[${apiAttribute}\\b`).test(apiSource)) covered.push(item);
+		}
+
+		const actions = parseControllerActions(apiSource);
+		if (apiControllers.length > 0) {
+			for (const endpoint of asArray(api.endpoints)) {
+				const method = stringField(endpoint, "method")?.toUpperCase();
+				const route = stringField(endpoint, "route") ?? "";
+				const name = stringField(endpoint, "action");
+				if (!method) continue;
+				const item = `${method} ${route}${name ? ` (${name})` : ""}`;
+				expected.push(item);
+				const found = actions.some(
+					(action) =>
+						action.verb === method &&
+						(action.name.toLowerCase() === name?.toLowerCase() ||
+							routeKey(action.route) === routeKey(route)),
+				);
+				if (found) covered.push(item);
+			}
+		}
+
+		if (uiControllers.length > 0) {
+			for (const permission of asArray(ui.permissions)) {
+				const name = stringField(permission, "name");
+				if (!name) continue;
+				const item = `ui permission ${name}`;
+				expected.push(item);
+				if (new RegExp(`\\b${name}\\b`).test(uiSource)) covered.push(item);
+			}
+		}
+
+		check("authorization", ["security.json"], [...apiControllers, ...uiControllers], {
+			expected,
+			covered,
+		});
+	}
+
+	const ran = checks.filter((c) => !c.skipped);
+	const totalExpected = ran.reduce((sum, c) => sum + c.expected, 0);
+	const totalCovered = ran.reduce((sum, c) => sum + c.covered.length, 0);
+
+	return {
+		entity,
+		generatedAt: new Date().toISOString(),
+		templatesPath,
+		checks,
+		coverage: percentage(totalCovered, totalExpected),
+	};
+}
+
+function formatCoverage(coverage: number | null): string {
+	return coverage === null ? "n/a" : `${coverage}%`;
+}
+
+/**
+ * Markdown version of the report: a coverage table, then the missing items of each check
+ */
+export function formatGapReport(report: GapReport): string {
+	const lines = [
+		`# ${report.entity} Template Gap Analysis`,
+		"",
+		`**Generated:** ${report.generatedAt}`,
+		`**Overall coverage:** ${formatCoverage(report.coverage)}`,
+		"",
+		"| Check | Covered | Coverage | Notes |",
+		"| --- | ---: | ---: | --- |",
+	];
+	for (const check of report.checks) {
+		lines.push(
+			check.skipped
+				? `| ${check.description} | - | - | skipped: ${check.skipped} |`
+				: `| ${check.description} | ${check.covered.length}/${check.expected} | ${formatCoverage(check.coverage)} | |`,
+		);
+	}
+	lines.push("");
+
+	for (const check of report.checks.filter((c) => !c.skipped)) {
+		if (check.missing.length === 0 && check.extra.length === 0) continue;
+		lines.push(`## ${check.id}`, "");
+		lines.push(`Templates: ${check.templates.join(", ")}`, "");
+		if (check.missing.length > 0) {
+			lines.push(`Missing (${check.missing.length}):`, "");
+			for (const item of check.missing) lines.push(`- ${item}`);
+			lines.push("");
+		}
+		if (check.extra.length > 0) {
+			lines.push(`Not in the analysis (${check.extra.length}): ${check.extra.join(", ")}`, "");
+		}
+	}
+	return lines.join("\n");
+}
@@ -0,0 +1,31 @@
+/**
+ * Field access for analysis artifacts
+ *
+ * Artifacts are written by agents, so their shape varies: a list may be an array or an
+ * object keyed by name, and the same field may go by several names (name, propertyName).
+ * These helpers read them without trusting the shape.
+ */
+
+export type JsonObject = Record<string, unknown>;
+
+export function isObject(value: unknown): value is JsonObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Items of an array, or the values of an object keyed by name; [] for anything else
+ */
+export function asArray(value: unknown): unknown[] {
+	if (Array.isArray(value)) return value;
+	return isObject(value) ? Object.values(value) : [];
+}
+
+/**
+ * First of the fields that holds a non-empty string
+ */
+export function stringField(value: unknown, ...fields: string[]): string | undefined {
+	if (!isObject(value)) return undefined;
+	return fields
+		.map((field) => value[field])
+		.find((v): v is string => typeof v === "string" && v !== "");
+}
@@ -0,0 +1,167 @@
+/**
+ * C# namespaces for deployed templates, derived from the target projects
+ *
+ * The generator writes namespaces from its prompt (Admin.Infrastructure.Repositories,
+ * BargeOpsAdmin.ViewModels), while the files land wherever getTemplateDeployTargets()
+ * puts them. The namespace a file should have follows the .NET convention: the
+ * RootNamespace of the nearest .csproj above it (the project file name when it has none)
+ * plus the folders between the project and the file. rewriteNamespaces() sets each
+ * file's `namespace` declaration to that, and rewrites `using` lines of the other
+ * deployed files that import a namespace that moved.
+ *
+ * Usage:
+ *   const { files, warnings } = rewriteNamespaces([{ target, content }, ...]);
+ */
+
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import { basename, dirname, join, relative, sep } from "node:path";
+
+export interface NamespaceRewrite {
+	kind: "namespace" | "using";
+	from: string;
+	to: string;
+}
+
+export interface ProjectNamespace {
+	projectFile: string;
+	rootNamespace: string;
+	namespace: string; // Expected namespace for a file in the folder
+}
+
+export interface NamespaceSource {
+	target: string; // Absolute path the file is deployed to
+	content: string;
+}
+
+export interface RewrittenSource {
+	content: string;
+	rewrites: NamespaceRewrite[];
+}
+
+const NAMESPACE_DECLARATION = /^([ \t]*)namespace[ \t]+([\w.]+)([ \t]*[;{]|[ \t]*\r?$)/gm;
+
+/**
+ * Nearest .csproj in the folder or one of its parents
+ */
+export function findProjectFile(folder: string): string | null {
+	if (existsSync(folder)) {
+		const csproj = readdirSync(folder)
+			.filter((name) => name.endsWith(".csproj"))
+			.sort()[0];
+		if (csproj) return join(folder, csproj);
+	}
+	return dirname(folder) !== folder ? findProjectFile(dirname(folder)) : null;
+}
+
+/**
+ * <RootNamespace> of a project, or the project file name as MSBuild defaults it
+ */
+export function readRootNamespace(projectFile: string): string {
+	const match = readFileSync(projectFile, "utf8").match(
+		/<RootNamespace>\s*([^<]+?)\s*<\/RootNamespace>/,
+	);
+	return match && !match[1].includes("$(") ? match[1] : basename(projectFile, ".csproj");
+}
+
+/**
+ * Folder name as MSBuild turns it into a namespace segment
+ */
+function toNamespaceSegment(folder: string): string {
+	const segment = folder.replace(/[^\w]/g, "_");
+	return /^\d/.test(segment) ? `_${segment}` : segment;
+}
+
+/**
+ * Namespace a file deployed to the path should declare; null when no .csproj is above it
+ */
+export function getExpectedNamespace(targetPath: string): ProjectNamespace | null {
+	const projectFile = findProjectFile(dirname(targetPath));
+	if (!projectFile) return null;
+
+	const rootNamespace = readRootNamespace(projectFile);
+	const folders = relative(dirname(projectFile), dirname(targetPath))
+		.split(sep)
+		.filter((folder) => folder !== "");
+	return {
+		projectFile,
+		rootNamespace,
+		namespace: [rootNamespace, ...folders.map(toNamespaceSegment)].join("."),
+	};
+}
+
+export function getDeclaredNamespaces(source: string): string[] {
+	return [...source.matchAll(NAMESPACE_DECLARATION)].map((match) => match[2]);
+}
+
+/**
+ * Rewrite the namespace declarations of the files to match their target folders, then the
+ * using directives that import a rewritten namespace. A namespace that moved to several
+ * namespaces gets one using line for each; its own using line stays while another file still
+ * declares it.
+ */
+export function rewriteNamespaces(sources: NamespaceSource[]): {
+	files: RewrittenSource[];
+	warnings: string[];
+} {
+	const warnings: string[] = [];
+	const moved = new Map<string, Set<string>>();
+
+	const files: RewrittenSource[] = sources.map((source) => {
+		const declared = getDeclaredNamespaces(source.content);
+		if (declared.length === 0) return { content: source.content, rewrites: [] };
+		if (declared.length > 1) {
+			warnings.push(`${source.target}: ${declared.length} namespace declarations; left as is`);
+			return { content: source.content, rewrites: [] };
+		}
+
+		const expected = getExpectedNamespace(source.target);
+		if (!expected) {
+			warnings.push(
+				`${source.target}: no .csproj found above the target folder; namespace left as is`,
+			);
+			return { content: source.content, rewrites: [] };
+		}
+		if (declared[0] === expected.namespace) return { content: source.content, rewrites: [] };
+
+		const targets = moved.get(declared[0]) ?? new Set<string>();
+		targets.add(expected.namespace);
+		moved.set(declared[0], targets);
+
+		return {
+			content: source.content.replace(
+				NAMESPACE_DECLARATION,
+				(_, indent: string, _name: string, end: string) =>
+					`${indent}namespace ${expected.namespace}${end}`,
+			),
+			rewrites: [{ kind: "namespace", from: declared[0], to: expected.namespace }],
+		};
+	});
+
+	if (moved.size === 0) return { files, warnings };
+
+	const usingPattern = /^([ \t]*(?:global[ \t]+)?using[ \t]+)([\w.]+)([ \t]*;)([ \t]*\r?\n)?/gm;
+	const stillDeclared = new Set(files.flatMap((file) => getDeclaredNamespaces(file.content)));
+	for (const file of files) {
+		const ownNamespace = getDeclaredNamespaces(file.content)[0];
+		const eol = file.content.includes("\r\n") ? "\r\n" : "\n";
+		const imported = new Set([...file.content.matchAll(usingPattern)].map((match) => match[2]));
+		file.content = file.content.replace(
+			usingPattern,
+			(line, prefix: string, name: string, end: string, newline: string | undefined) => {
+				const targets = moved.get(name);
+				if (!targets) return line;
+				for (const target of targets) file.rewrites.push({ kind: "using", from: name, to: target });
+				// A file in the new namespace, or already importing it, needs no using for it
+				const replacements = [...targets].filter(
+					(target) => target !== ownNamespace && !imported.has(target),
+				);
+				for (const target of replacements) imported.add(target);
+				const names = stillDeclared.has(name) ? [name, ...replacements] : replacements;
+				if (names.length === 0) return "";
+				return `${names.map((target) => `${prefix}${target}${end}`).join(eol)}${newline ?? ""}`;
+			},
+		);
+	}
+
+	return { files, warnings };
+}
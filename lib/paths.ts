@@ -3,7 +3,6 @@
  */
 
 import config from "../config.json" with { type: "json" };
-import { readdir } from "fs/promises";
 import { existsSync } from "fs";
 
 export function resolvePath(relativeFromImportMeta: string, importMetaUrl: string): string {
@@ -49,31 +48,117 @@ export function getFormDesignerPath(entity: string, formType: "Search" | "Detail
 	return `${inputDir}/${formsPath}/frm${entity}${formType}.Designer.vb`;
 }
 
+export type LegacyFileKind = "businessObject" | "businessObjectBase" | "list";
+
+type LegacyNamingPatterns = Partial<Record<LegacyFileKind, string | string[]>>;
+
+interface LegacyNamingConfig extends LegacyNamingPatterns {
+	overrides?: Record<string, LegacyNamingPatterns>;
+}
+
+export interface LegacyFileResolution {
+	kind: LegacyFileKind;
+	entity: string;
+	path: string | null; // First candidate that exists on disk
+	candidates: string[]; // Every path tried, in order
+}
+
+// Used when config.json has no legacyNaming section (or no patterns for a kind)
+const DEFAULT_LEGACY_NAMING: Record<LegacyFileKind, string[]> = {
+	businessObject: ["{entity}Location.vb", "{entity}.vb"],
+	businessObjectBase: ["{entity}LocationBase.vb", "{entity}Base.vb"],
+	list: ["{entity}LocationSearch.vb", "{entity}Search.vb", "{entity}List.vb"],
+};
+
+export const LEGACY_FILE_LABELS: Record<LegacyFileKind, string> = {
+	businessObject: "Business object",
+	businessObjectBase: "Business object base class",
+	list: "List/search class",
+};
+
+function getLegacyFileDirectory(kind: LegacyFileKind): string {
+	switch (kind) {
+		case "businessObject":
+			return config.paths.businessObjects;
+		case "businessObjectBase":
+			return config.paths.businessObjectsBase;
+		case "list":
+			return config.paths.lists;
+	}
+}
+
+function toPatternList(value: string | string[] | undefined): string[] {
+	if (value === undefined) {
+		return [];
+	}
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * File name patterns for one kind of legacy file: the entity's entry in
+ * legacyNaming.overrides if it has one, otherwise legacyNaming.{kind}, otherwise the defaults.
+ * "{entity}" is replaced with the entity name; patterns are relative to the kind's folder in paths.
+ */
+export function getLegacyNamingPatterns(entity: string, kind: LegacyFileKind): string[] {
+	const naming = (config as { legacyNaming?: LegacyNamingConfig }).legacyNaming;
+	const override = toPatternList(naming?.overrides?.[entity]?.[kind]);
+	if (override.length > 0) {
+		return override;
+	}
+
+	const configured = toPatternList(naming?.[kind]);
+	return configured.length > 0 ? configured : DEFAULT_LEGACY_NAMING[kind];
+}
+
+/**
+ * Resolve a legacy source file to the first naming candidate that exists on disk
+ */
+export function resolveLegacyFile(entity: string, kind: LegacyFileKind): LegacyFileResolution {
+	const directory = `${getInputDirectory()}/${getLegacyFileDirectory(kind)}`;
+	const candidates = [
+		...new Set(
+			getLegacyNamingPatterns(entity, kind).map(
+				pattern => `${directory}/${pattern.replaceAll("{entity}", entity)}`,
+			),
+		),
+	];
+
+	return {
+		kind,
+		entity,
+		path: candidates.find(candidate => existsSync(candidate)) ?? null,
+		candidates,
+	};
+}
+
+/**
+ * Resolved path of a legacy source file; falls back to the first candidate when none exists
+ * so that prompts and error messages still name the expected file
+ */
+function getLegacyFilePath(entity: string, kind: LegacyFileKind): string {
+	const resolution = resolveLegacyFile(entity, kind);
+	return resolution.path ?? resolution.candidates[0];
+}
+
 /**
  * Get the full path to a business object file
  */
 export function getBusinessObjectPath(entity: string): string {
-	const inputDir = getInputDirectory();
-	const businessObjectsPath = config.paths.businessObjects;
-	return `${inputDir}/${businessObjectsPath}/${entity}Location.vb`;
+	return getLegacyFilePath(entity, "businessObject");
 }
 
 /**
  * Get the full path to a business object base class file
  */
 export function getBusinessObjectBasePath(entity: string): string {
-	const inputDir = getInputDirectory();
-	const basePath = config.paths.businessObjectsBase;
-	return `${inputDir}/${basePath}/${entity}LocationBase.vb`;
+	return getLegacyFilePath(entity, "businessObjectBase");
 }
 
 /**
  * Get the full path to a list/search class file
  */
 export function getListPath(entity: string): string {
-	const inputDir = getInputDirectory();
-	const listsPath = config.paths.lists;
-	return `${inputDir}/${listsPath}/${entity}LocationSearch.vb`;
+	return getLegacyFilePath(entity, "list");
 }
 
 /**
@@ -106,18 +191,15 @@ export function getFormDesignerPathByNameForPrompt(formName: string): string {
 }
 
 export function getBusinessObjectPathForPrompt(entity: string): string {
-	const businessObjectsPath = config.paths.businessObjects;
-	return `${getInputDirectory()}/${businessObjectsPath}/${entity}Location.vb`;
+	return getBusinessObjectPath(entity);
 }
 
 export function getBusinessObjectBasePathForPrompt(entity: string): string {
-	const basePath = config.paths.businessObjectsBase;
-	return `${getInputDirectory()}/${basePath}/${entity}LocationBase.vb`;
+	return getBusinessObjectBasePath(entity);
 }
 
 export function getListPathForPrompt(entity: string): string {
-	const listsPath = config.paths.lists;
-	return `${getInputDirectory()}/${listsPath}/${entity}LocationSearch.vb`;
+	return getListPath(entity);
 }
 
 /**
@@ -150,6 +232,13 @@ export function getReferenceProjectsForPrompt(): string {
 - BargeOps.Crewing.UI: ${getCrewingUiPath()}`;
 }
 
+/**
+ * Get the configured path to the BargeOps.Admin.Mono monorepo
+ */
+export function getMonorepoPath(): string {
+	return config.targetProjects.monorepo;
+}
+
 /**
  * Get the configured path to BargeOps.Admin.API target project
  */
@@ -171,6 +260,33 @@ export function getSharedProjectPath(): string {
 	return config.targetProjects.shared;
 }
 
+export interface TemplateDeployTarget {
+	template: string; // Folder relative to output/{Entity}/templates
+	target: string; // Folder it is copied into
+}
+
+/**
+ * Where deploy-templates copies each folder of the generated templates
+ */
+export function getTemplateDeployTargets(): TemplateDeployTarget[] {
+	const apiPath = getAdminApiPath();
+	const uiPath = getAdminUiPath();
+	return [
+		{ template: "shared", target: getSharedProjectPath() },
+		{ template: "api/Controllers", target: `${apiPath}/src/Admin.Api/Controllers` },
+		{ template: "api/Repositories", target: `${apiPath}/src/Admin.Infrastructure/Repositories` },
+		{ template: "api/Services", target: `${apiPath}/src/Admin.Infrastructure/Services` },
+		{ template: "api/Mapping", target: `${apiPath}/src/Admin.Infrastructure/Mapping` },
+		{ template: "api/DataAccess", target: `${apiPath}/src/Admin.Infrastructure/DataAccess` },
+		{ template: "api/Sql", target: `${apiPath}/src/Admin.Infrastructure/Sql` },
+		{ template: "ui/Controllers", target: `${uiPath}/Controllers` },
+		{ template: "ui/Services", target: `${uiPath}/Services` },
+		{ template: "ui/ViewModels", target: `${uiPath}/ViewModels` },
+		{ template: "ui/Views", target: `${uiPath}/Views` },
+		{ template: "ui/wwwroot", target: `${uiPath}/wwwroot` },
+	];
+}
+
 /**
  * Get target project paths for use in agent prompts
  */
@@ -195,86 +311,6 @@ export function parseEntityFromFormName(formName: unknown): string | null {
 	return null;
 }
 
-/**
- * Get all available form files in the Forms directory
- */
-export async function getAvailableForms(): Promise<string[]> {
-	const inputDir = getInputDirectory();
-	const formsPath = config.paths.forms;
-	const formsDir = `${inputDir}/${formsPath}`;
-
-	if (!existsSync(formsDir)) {
-		return [];
-	}
-
-	try {
-		const files = await readdir(formsDir);
-		// Filter for .vb files that start with "frm" and end with "Search" or "Detail"
-		const formFiles = files.filter(file =>
-			file.endsWith(".vb") &&
-			!file.endsWith(".Designer.vb") &&
-			file.match(/^frm.+?(Search|Detail)\.vb$/i)
-		);
-
-		// Extract form names (without .vb extension)
-		return formFiles.map(file => file.replace(/\.vb$/, ""));
-	} catch (error) {
-		console.error(`Error reading forms directory: ${error}`);
-		return [];
-	}
-}
-
-/**
- * Detect child forms opened by a parent form by analyzing the VB code
- */
-export async function detectChildForms(formName: string): Promise<string[]> {
-	const inputDir = getInputDirectory();
-	const formsPath = config.paths.forms;
-	const formFilePath = `${inputDir}/${formsPath}/${formName}.vb`;
-
-	if (!existsSync(formFilePath)) {
-		return [];
-	}
-
-	try {
-		const file = Bun.file(formFilePath);
-		const content = await file.text();
-
-		const childForms = new Set<string>();
-
-		// Pattern 1: Dim frm As New frmChildForm() or similar
-		const newFormPattern = /Dim\s+\w+\s+As\s+New\s+(frm\w+)/gi;
-		let match;
-		while ((match = newFormPattern.exec(content)) !== null) {
-			childForms.add(match[1]);
-		}
-
-		// Pattern 2: frmChildForm.Show() or frmChildForm.ShowDialog()
-		const showFormPattern = /(frm\w+)\.(Show|ShowDialog)\s*\(/gi;
-		while ((match = showFormPattern.exec(content)) !== null) {
-			childForms.add(match[1]);
-		}
-
-		// Pattern 3: Dim frm As frmChildForm = New frmChildForm()
-		const dimAsFormPattern = /Dim\s+\w+\s+As\s+(frm\w+)\s*=/gi;
-		while ((match = dimAsFormPattern.exec(content)) !== null) {
-			childForms.add(match[1]);
-		}
-
-		// Pattern 4: Direct instantiation: New frmChildForm()
-		const directNewPattern = /New\s+(frm\w+)\s*\(/gi;
-		while ((match = directNewPattern.exec(content)) !== null) {
-			childForms.add(match[1]);
-		}
-
-		// Filter out the parent form itself
-		return Array.from(childForms).filter(f => f !== formName);
-	} catch (error) {
-		console.error(`Error detecting child forms for ${formName}: ${error}`);
-		return [];
-	}
-}
-
 /**
  * Get the forms directory path
  */
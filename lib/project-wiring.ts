@@ -0,0 +1,407 @@
+/**
+ * DI registrations and csproj entries for deployed templates
+ *
+ * A deployed repository or service does nothing until it is registered, and an embedded SQL
+ * file is not embedded until the project says so. After copying the files, deploy-templates
+ * plans the edits that wire them up:
+ *
+ *   - AddScoped<IXRepository, XRepository>() / AddScoped<IXService, XService>() for each API
+ *     interface and implementation pair, AddHttpClient<IXService, XService>() for UI services,
+ *     in the IServiceCollection extension, Program.cs or Startup.cs of the API and UI projects
+ *   - <EmbeddedResource Include="..."/> for each deployed .sql file the .csproj does not
+ *     already embed (through a glob or an earlier entry)
+ *
+ * Registrations go inside a `#region Conversion registrations (deploy-templates)` block,
+ * created on first use, and .csproj entries inside a labeled ItemGroup. A registration or
+ * entry that already exists anywhere in the file is not added again. Each edit records the
+ * lines it inserted, so revertProjectEdit() can remove exactly those on rollback.
+ *
+ * Usage:
+ *   const { edits, warnings } = planProjectWiring(plan.files);
+ *   for (const { edit, content } of edits) await Bun.write(edit.target, content);
+ */
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, relative, sep } from "node:path";
+import type { PlannedFile } from "./deployment";
+import { findProjectFile, getDeclaredNamespaces } from "./namespaces";
+import { getAdminApiPath, getAdminUiPath } from "./paths";
+
+export interface ProjectEdit {
+	target: string; // Program.cs, extension file or .csproj
+	purpose: "registrations" | "embedded-sql";
+	inserted: string[]; // Lines added (trimmed), removed again on rollback
+	wrapper?: [string, string]; // Region or ItemGroup created around them, removed when left empty
+}
+
+export interface EditRevert {
+	state: "reverted" | "undone" | "kept"; // undone: the inserted lines were already gone
+	reason?: string; // Why it was already undone or kept
+}
+
+export interface PlannedEdit {
+	edit: ProjectEdit;
+	content: string; // The whole file after the edit
+}
+
+export interface Registration {
+	project: "api" | "ui";
+	method: "AddScoped" | "AddHttpClient";
+	service: string; // Interface, e.g. IBargeRepository
+	implementation: string;
+	namespaces: string[]; // Of the interface and implementation
+}
+
+const REGION_START = "#region Conversion registrations (deploy-templates)";
+const REGION_END = "#endregion";
+const ITEM_GROUP_START = '<ItemGroup Label="Embedded SQL (deploy-templates)">';
+const ITEM_GROUP_END = "</ItemGroup>";
+const USING_DIRECTIVE = /^\s*(?:global\s+)?using\s+([\w.]+)\s*;/;
+const SKIPPED_FOLDERS = /^(bin|obj|node_modules|\.git|\.vs)$|tests?$/i;
+
+function listCSharpFiles(dir: string): string[] {
+	if (!existsSync(dir)) return [];
+	return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+		const path = join(dir, entry.name);
+		if (entry.isDirectory()) return SKIPPED_FOLDERS.test(entry.name) ? [] : listCSharpFiles(path);
+		return entry.isFile() && entry.name.endsWith(".cs") ? [path] : [];
+	});
+}
+
+function leadingWhitespace(line: string): string {
+	return line.match(/^[ \t]*/)?.[0] ?? "";
+}
+
+/**
+ * Interface and implementation pairs among the deployed files that need a registration
+ */
+export function getRegistrations(files: PlannedFile[]): Registration[] {
+	const byTemplate = new Map(files.map((file) => [file.template, file]));
+	const registrations: Registration[] = [];
+
+	for (const file of files) {
+		const match = file.template.match(
+			/^(api|ui)\/(Repositories|Services)\/I([A-Z]\w*(?:Repository|Service))\.cs$/,
+		);
+		if (!match) continue;
+		const [, project, folder, implementation] = match;
+		const implementationFile = byTemplate.get(`${project}/${folder}/${implementation}.cs`);
+		if (!implementationFile) continue;
+
+		const namespaces = [file, implementationFile].flatMap((f) =>
+			getDeclaredNamespaces(f.content.toString("utf8")),
+		);
+		registrations.push({
+			project: project as Registration["project"],
+			method: project === "ui" && folder === "Services" ? "AddHttpClient" : "AddScoped",
+			service: `I${implementation}`,
+			implementation,
+			namespaces: [...new Set(namespaces)],
+		});
+	}
+	return registrations;
+}
+
+function isRegistered(content: string, registration: Registration): boolean {
+	return new RegExp(
+		`\\.Add(?:Scoped|Transient|Singleton|HttpClient)<\\s*${registration.service}\\s*,\\s*${registration.implementation}\\s*>`,
+	).test(content);
+}
+
+/**
+ * Where registrations can be added in a file without a region yet: before `return services;`
+ * of an IServiceCollection extension, before `builder.Build()` in Program.cs, or at the end of
+ * Startup.ConfigureServices
+ */
+function findRegistrationAnchor(
+	lines: string[],
+): { index: number; indent: string; receiver: string } | null {
+	const extension = lines.findIndex((line) => /this\s+IServiceCollection\s+\w+/.test(line));
+	if (extension >= 0) {
+		const receiver = lines[extension].match(/this\s+IServiceCollection\s+(\w+)/)?.[1] ?? "services";
+		const index = lines.findIndex(
+			(line, i) => i > extension && new RegExp(`^\\s*return\\s+${receiver}\\s*;`).test(line),
+		);
+		if (index >= 0) return { index, indent: leadingWhitespace(lines[index]), receiver };
+	}
+
+	const build = lines.findIndex((line) => /^\s*var\s+\w+\s*=\s*\w+\.Build\(\)\s*;/.test(line));
+	if (build >= 0) {
+		const builder = lines[build].match(/=\s*(\w+)\.Build\(\)/)?.[1] ?? "builder";
+		return {
+			index: build,
+			indent: leadingWhitespace(lines[build]),
+			receiver: `${builder}.Services`,
+		};
+	}
+
+	const configure = lines.findIndex((line) =>
+		/ConfigureServices\s*\(\s*IServiceCollection\s+\w+\s*\)/.test(line),
+	);
+	if (configure >= 0) {
+		const receiver = lines[configure].match(/IServiceCollection\s+(\w+)\s*\)/)?.[1] ?? "services";
+		let depth = 0;
+		let opened = false;
+		for (let i = configure; i < lines.length; i++) {
+			for (const char of lines[i]) {
+				if (char === "{") {
+					depth++;
+					opened = true;
+				} else if (char === "}") {
+					depth--;
+				}
+			}
+			if (opened && depth === 0) {
+				const body = lines
+					.slice(configure + 1, i)
+					.find((line) => line.trim() && line.trim() !== "{");
+				const closing = leadingWhitespace(lines[i]);
+				const indent =
+					body && leadingWhitespace(body).length > closing.length
+						? leadingWhitespace(body)
+						: `${closing}    `;
+				return { index: i, indent, receiver };
+			}
+		}
+	}
+	return null;
+}
+
+function getReceiver(lines: string[]): string {
+	return findRegistrationAnchor(lines)?.receiver ?? "services";
+}
+
+/**
+ * The file registrations of a project go to: the one with the region, else an
+ * IServiceCollection extension, else Program.cs, else Startup.cs
+ */
+export function findRegistrationFile(projectRoot: string): string | null {
+	const rank = (path: string, content: string): number => {
+		if (content.includes(REGION_START)) return 0;
+		if (/this\s+IServiceCollection/.test(content)) {
+			return /ServiceCollection|DependencyInjection/.test(basename(path)) ? 1 : 2;
+		}
+		if (basename(path) === "Program.cs") return 3;
+		if (basename(path) === "Startup.cs") return 4;
+		return 5;
+	};
+
+	const candidates = listCSharpFiles(projectRoot)
+		.sort()
+		.map((path) => {
+			const content = readFileSync(path, "utf8");
+			return { path, content, rank: rank(path, content) };
+		})
+		.filter(
+			(candidate) =>
+				candidate.rank === 0 ||
+				(candidate.rank < 5 && findRegistrationAnchor(candidate.content.split("\n")) !== null),
+		)
+		.sort((a, b) => a.rank - b.rank);
+	return candidates[0]?.path ?? null;
+}
+
+/**
+ * Add using directives for the namespaces after the existing ones at the top of the file;
+ * returns the directives added
+ */
+function addUsings(lines: string[], namespaces: string[], cr: string): string[] {
+	const ownNamespace = getDeclaredNamespaces(lines.join("\n"))[0];
+	const imported = new Set(
+		lines.map((line) => line.match(USING_DIRECTIVE)?.[1]).filter((name) => name !== undefined),
+	);
+	const missing = namespaces.filter(
+		(namespace) =>
+			!imported.has(namespace) &&
+			namespace !== ownNamespace &&
+			!ownNamespace?.startsWith(`${namespace}.`),
+	);
+	if (missing.length === 0) return [];
+
+	let insertAt = 0;
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+		if (USING_DIRECTIVE.test(lines[i])) insertAt = i + 1;
+		else if (line !== "" && !line.startsWith("//") && !line.startsWith("#")) break;
+	}
+	const directives = missing.sort().map((namespace) => `using ${namespace};`);
+	lines.splice(insertAt, 0, ...directives.map((directive) => `${directive}${cr}`));
+	return directives;
+}
+
+/**
+ * Add the registrations missing from a registration file
+ */
+export function planRegistrationEdit(
+	target: string,
+	registrations: Registration[],
+): PlannedEdit | null {
+	const content = readFileSync(target, "utf8");
+	const missing = registrations.filter((registration) => !isRegistered(content, registration));
+	if (missing.length === 0) return null;
+
+	const cr = content.includes("\r\n") ? "\r" : "";
+	const lines = content.split("\n");
+	const receiver = getReceiver(lines);
+	const statements = missing.map(
+		(r) => `${receiver}.${r.method}<${r.service}, ${r.implementation}>();`,
+	);
+	const edit: ProjectEdit = { target, purpose: "registrations", inserted: [...statements] };
+
+	const regionStart = lines.findIndex((line) => line.trim() === REGION_START);
+	const regionEnd = lines.findIndex(
+		(line, i) => i > regionStart && line.trim().startsWith(REGION_END),
+	);
+	if (regionStart >= 0 && regionEnd >= 0) {
+		const indent = leadingWhitespace(lines[regionStart]);
+		lines.splice(regionEnd, 0, ...statements.map((statement) => `${indent}${statement}${cr}`));
+	} else {
+		const anchor = findRegistrationAnchor(lines);
+		if (!anchor) return null;
+		const block = [REGION_START, ...statements, REGION_END];
+		lines.splice(anchor.index, 0, ...block.map((line) => `${anchor.indent}${line}${cr}`));
+		edit.wrapper = [REGION_START, REGION_END];
+	}
+
+	edit.inserted.push(...addUsings(lines, [...new Set(missing.flatMap((r) => r.namespaces))], cr));
+	return { edit, content: lines.join("\n") };
+}
+
+/**
+ * Whether an EmbeddedResource item of the project already covers the path (relative, with /)
+ */
+function isEmbedded(projectContent: string, relativePath: string): boolean {
+	return [...projectContent.matchAll(/<EmbeddedResource\s[^>]*Include="([^"]+)"/g)]
+		.flatMap((match) => match[1].split(";"))
+		.map((pattern) => pattern.trim().replaceAll("\\", "/"))
+		.some((pattern) => pattern && new Bun.Glob(pattern).match(relativePath));
+}
+
+/**
+ * Add EmbeddedResource items for the deployed .sql files a project does not embed yet
+ */
+export function planEmbeddedSqlEdit(projectFile: string, sqlTargets: string[]): PlannedEdit | null {
+	const content = readFileSync(projectFile, "utf8");
+	const missing = sqlTargets
+		.map((target) => relative(dirname(projectFile), target).split(sep).join("/"))
+		.filter((path) => !isEmbedded(content, path))
+		.sort();
+	if (missing.length === 0) return null;
+
+	const cr = content.includes("\r\n") ? "\r" : "";
+	const lines = content.split("\n");
+	const unit = leadingWhitespace(lines.find((line) => /^[ \t]+</.test(line)) ?? "  ") || "  ";
+	const items = missing.map(
+		(path) => `<EmbeddedResource Include="${path.replaceAll("/", "\\")}" />`,
+	);
+	const edit: ProjectEdit = { target: projectFile, purpose: "embedded-sql", inserted: items };
+
+	const groupStart = lines.findIndex((line) => line.trim() === ITEM_GROUP_START);
+	const groupEnd = lines.findIndex((line, i) => i > groupStart && line.trim() === ITEM_GROUP_END);
+	if (groupStart >= 0 && groupEnd >= 0) {
+		const indent = `${leadingWhitespace(lines[groupStart])}${unit}`;
+		lines.splice(groupEnd, 0, ...items.map((item) => `${indent}${item}${cr}`));
+	} else {
+		const projectEnd = lines.findLastIndex((line) => line.trim() === "</Project>");
+		if (projectEnd < 0) return null;
+		lines.splice(
+			projectEnd,
+			0,
+			`${unit}${ITEM_GROUP_START}${cr}`,
+			...items.map((item) => `${unit}${unit}${item}${cr}`),
+			`${unit}${ITEM_GROUP_END}${cr}`,
+		);
+		edit.wrapper = [ITEM_GROUP_START, ITEM_GROUP_END];
+	}
+	return { edit, content: lines.join("\n") };
+}
+
+/**
+ * Every edit needed to register and embed the deployed files. Warnings name what could not be
+ * wired automatically, with the lines to add by hand.
+ */
+export function planProjectWiring(files: PlannedFile[]): {
+	edits: PlannedEdit[];
+	warnings: string[];
+} {
+	const edits: PlannedEdit[] = [];
+	const warnings: string[] = [];
+	const registrations = getRegistrations(files);
+
+	for (const [project, root] of [
+		["api", getAdminApiPath()],
+		["ui", getAdminUiPath()],
+	] as const) {
+		const projectRegistrations = registrations.filter((r) => r.project === project);
+		if (projectRegistrations.length === 0) continue;
+
+		const target = findRegistrationFile(root);
+		if (!target) {
+			const lines = projectRegistrations.map(
+				(r) => `services.${r.method}<${r.service}, ${r.implementation}>();`,
+			);
+			warnings.push(
+				`No IServiceCollection extension, Program.cs or Startup.cs found under ${root}; register by hand: ${lines.join(" ")}`,
+			);
+			continue;
+		}
+		const planned = planRegistrationEdit(target, projectRegistrations);
+		if (planned) edits.push(planned);
+	}
+
+	const sqlByProject = new Map<string, string[]>();
+	for (const file of files.filter((f) => f.template.endsWith(".sql"))) {
+		const projectFile = findProjectFile(dirname(file.target));
+		if (!projectFile) {
+			warnings.push(
+				`${file.target}: no .csproj found above it; add it as an EmbeddedResource by hand`,
+			);
+			continue;
+		}
+		sqlByProject.set(projectFile, [...(sqlByProject.get(projectFile) ?? []), file.target]);
+	}
+	for (const [projectFile, targets] of sqlByProject) {
+		const planned = planEmbeddedSqlEdit(projectFile, targets);
+		if (planned) edits.push(planned);
+	}
+
+	return { edits, warnings };
+}
+
+/**
+ * Remove the lines an edit inserted, and its region or ItemGroup when nothing else is left in
+ * it. The file is only changed when every inserted line is still there; when none is (or the
+ * file is gone) the edit counts as already undone.
+ */
+export function revertProjectEdit(edit: ProjectEdit, dryRun = false): EditRevert {
+	if (!existsSync(edit.target)) return { state: "undone", reason: "no longer exists" };
+
+	const lines = readFileSync(edit.target, "utf8").split("\n");
+	const notFound: string[] = [];
+	for (const inserted of edit.inserted) {
+		const index = lines.findIndex((line) => line.trim() === inserted);
+		if (index < 0) {
+			notFound.push(inserted);
+			continue;
+		}
+		lines.splice(index, 1);
+	}
+	if (notFound.length === edit.inserted.length) {
+		return { state: "undone", reason: "inserted lines no longer present" };
+	}
+	if (notFound.length > 0) {
+		return { state: "kept", reason: `inserted lines no longer present: ${notFound.join(" ")}` };
+	}
+
+	if (edit.wrapper) {
+		const [start, end] = edit.wrapper;
+		const open = lines.findIndex((line) => line.trim() === start);
+		const close = lines.findIndex((line, i) => i > open && line.trim() === end);
+		if (open >= 0 && close >= 0 && lines.slice(open + 1, close).every((line) => !line.trim())) {
+			lines.splice(open, close - open + 1);
+		}
+	}
+
+	if (!dryRun) writeFileSync(edit.target, lines.join("\n"));
+	return { state: "reverted" };
+}
@@ -0,0 +1,101 @@
+/**
+ * Follow-up prompts for retrying an analysis step whose output was missing or invalid
+ *
+ * The orchestrator builds the prompt and passes it to the agent with --repair-prompt;
+ * agents append it to their task prompt with appendRepairPrompt().
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { parsedArgs } from "./flags";
+
+/**
+ * Names Claude has been seen using when it writes an artifact into .claude/tasks/
+ * instead of the requested output path
+ */
+export function getTaskFileCandidates(entity: string, outputFile: string): string[] {
+	switch (outputFile) {
+		case "business-logic.json":
+			return [`${entity}_business_logic.json`];
+		case "data-access.json":
+			return [`${entity}_data_access.json`];
+		case "security.json":
+			return [`${entity}_security.json`];
+		case "ui-mapping.json":
+			return [`${entity}_ui_mapping.json`];
+		case "tabs.json":
+			return [`${entity}_tabs.json`];
+		case "related-entities.json":
+			return [`${entity}_relationships.json`, `${entity}_related_entities.json`];
+		default:
+			return [];
+	}
+}
+
+/**
+ * Find a copy of the artifact that Claude wrote into .claude/tasks/ after `sinceMs`
+ */
+export async function findMisplacedOutput(
+	projectRoot: string,
+	entity: string,
+	outputFile: string,
+	sinceMs: number,
+): Promise<string | null> {
+	const tasksRoot = path.join(projectRoot, ".claude", "tasks");
+	for (const candidate of getTaskFileCandidates(entity, outputFile)) {
+		const candidatePath = path.join(tasksRoot, candidate);
+		try {
+			const stats = await fs.stat(candidatePath);
+			if (stats.mtimeMs >= sinceMs) return candidatePath;
+		} catch {
+			// Candidate does not exist
+		}
+	}
+	return null;
+}
+
+export interface RepairPromptInput {
+	outputFilePath: string;
+	problems: string[];
+	misplacedFile?: string | null;
+	attempt: number;
+}
+
+export function buildRepairPrompt(input: RepairPromptInput): string {
+	const lines = [
+		`RETRY (attempt ${input.attempt}): The previous run of this task did not produce a valid output file.`,
+		"",
+		"Problems found:",
+		...input.problems.slice(0, 20).map((problem) => `- ${problem}`),
+	];
+
+	if (input.problems.length > 20) {
+		lines.push(`- ... and ${input.problems.length - 20} more`);
+	}
+
+	if (input.misplacedFile) {
+		lines.push(
+			"",
+			`The analysis was written to ${input.misplacedFile} instead. Write it (corrected if needed) to the required path.`,
+		);
+	}
+
+	lines.push(
+		"",
+		`Write the complete JSON document to exactly this path: ${input.outputFilePath}`,
+		"The file must contain a single JSON object (no Markdown fences or commentary) that matches the Output Format in your instructions.",
+	);
+
+	return lines.join("\n");
+}
+
+/**
+ * Append the orchestrator's repair prompt (if any) to an agent's task prompt
+ */
+export function appendRepairPrompt(contextPrompt: string): string {
+	const repairPrompt = parsedArgs.values["repair-prompt"];
+	if (typeof repairPrompt !== "string" || !repairPrompt.trim()) {
+		return contextPrompt;
+	}
+	return `${contextPrompt}\n${repairPrompt}\n`;
+}
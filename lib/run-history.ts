@@ -0,0 +1,106 @@
+/**
+ * Per-run snapshots of an entity's analysis artifacts
+ *
+ * The orchestrator overwrites form-structure-*.json, validation.json and the other step
+ * outputs on every run. When a run ends it copies them to output/{Entity}/history/{runId}/
+ * with a run.json describing the run, so diff-analysis can compare two runs later.
+ * Artifacts left by a run from before snapshots existed are saved under that run's id
+ * before the next run overwrites them.
+ *
+ * Usage:
+ *   await snapshotRun(outputPath, { runId, ... }, ["form-structure-search.json", "validation.json"]);
+ *   const runs = await listRunSnapshots(outputPath);
+ *   const latest = await resolveRunSnapshot(outputPath, "latest");
+ */
+
+import { existsSync } from "node:fs";
+import { copyFile, mkdir, readdir } from "node:fs/promises";
+
+export interface RunSnapshot {
+	runId: string;
+	entity: string;
+	formName?: string;
+	startTime: string;
+	endTime?: string;
+	overallStatus: string;
+	stepsRun?: number[]; // Steps this run started; absent for runs saved after the fact
+	files: string[]; // Artifacts copied into the snapshot folder
+	snapshotAt: string;
+}
+
+/**
+ * Id for one orchestrator run, sortable by start time (e.g. 2025-12-17T23-43-39-013Z)
+ */
+export function createRunId(date = new Date()): string {
+	return date.toISOString().replace(/[:.]/g, "-");
+}
+
+export function getRunHistoryPath(outputPath: string): string {
+	return `${outputPath}/history`;
+}
+
+export function getRunSnapshotPath(outputPath: string, runId: string): string {
+	return `${getRunHistoryPath(outputPath)}/${runId}`;
+}
+
+/**
+ * Copy the artifacts that exist in the output folder into history/{runId}/. An existing
+ * snapshot of the same run is overwritten.
+ */
+export async function snapshotRun(
+	outputPath: string,
+	run: Omit<RunSnapshot, "files" | "snapshotAt">,
+	artifacts: string[],
+): Promise<RunSnapshot> {
+	const snapshotPath = getRunSnapshotPath(outputPath, run.runId);
+	await mkdir(snapshotPath, { recursive: true });
+
+	const files: string[] = [];
+	for (const file of [...new Set(artifacts)]) {
+		if (existsSync(`${outputPath}/${file}`)) {
+			await copyFile(`${outputPath}/${file}`, `${snapshotPath}/${file}`);
+			files.push(file);
+		}
+	}
+
+	const snapshot: RunSnapshot = { ...run, files, snapshotAt: new Date().toISOString() };
+	await Bun.write(`${snapshotPath}/run.json`, JSON.stringify(snapshot, null, 2));
+	return snapshot;
+}
+
+/**
+ * Snapshots recorded for an entity, oldest first
+ */
+export async function listRunSnapshots(outputPath: string): Promise<RunSnapshot[]> {
+	const historyPath = getRunHistoryPath(outputPath);
+	if (!existsSync(historyPath)) {
+		return [];
+	}
+
+	const snapshots: RunSnapshot[] = [];
+	for (const entry of await readdir(historyPath, { withFileTypes: true })) {
+		const runFile = Bun.file(`${historyPath}/${entry.name}/run.json`);
+		if (entry.isDirectory() && (await runFile.exists())) {
+			snapshots.push((await runFile.json()) as RunSnapshot);
+		}
+	}
+	return snapshots.sort((a, b) => a.runId.localeCompare(b.runId));
+}
+
+/**
+ * Find a snapshot by run id, a unique run id prefix (e.g. "2025-12-17"), "latest" or "previous"
+ */
+export async function resolveRunSnapshot(
+	outputPath: string,
+	ref: string,
+): Promise<RunSnapshot | null> {
+	const snapshots = await listRunSnapshots(outputPath);
+	if (ref === "latest") return snapshots.at(-1) ?? null;
+	if (ref === "previous") return snapshots.at(-2) ?? null;
+
+	const exact = snapshots.find((snapshot) => snapshot.runId === ref);
+	if (exact) return exact;
+
+	const matches = snapshots.filter((snapshot) => snapshot.runId.startsWith(ref));
+	return matches.length === 1 ? matches[0] : null;
+}
@@ -0,0 +1,508 @@
+/**
+ * Index of the legacy OnShore source tree
+ *
+ * Scans inputDirectory once and catalogs every form (with its Designer file), business
+ * object, base class and list class, plus the cross-references between them: child forms
+ * a form opens, classes a form uses and the class each class inherits from. The result
+ * is cached in output/_source-index.json and rebuilt when a .vb file is added, removed
+ * or changed (compared by path, size and modification time). The tree is checked once per
+ * process; later lookups use the index already in memory.
+ *
+ * Usage:
+ *   const index = await loadSourceIndex();
+ *   const forms = await getAvailableForms();
+ *   const children = await detectChildForms("frmBargeSearch");
+ */
+
+import { type Dirent, existsSync } from "node:fs";
+import { readdir, rename, stat } from "node:fs/promises";
+import config from "../config.json" with { type: "json" };
+import {
+	type LegacyFileKind,
+	getInputDirectory,
+	getProjectRoot,
+	parseEntityFromFormName,
+	resolveLegacyFile,
+} from "./paths";
+
+const SOURCE_INDEX_VERSION = 3;
+
+const LEGACY_FILE_KINDS: LegacyFileKind[] = ["businessObject", "businessObjectBase", "list"];
+
+// Build output and tooling folders that never hold legacy source
+const IGNORED_DIRECTORIES = new Set(["bin", "obj", ".git", ".vs", "node_modules"]);
+
+export type IndexedFormKind = "Search" | "Detail" | "Single";
+
+export interface IndexedForm {
+	name: string; // e.g. frmBargeSearch
+	kind: IndexedFormKind;
+	entity: string; // Barge for frmBargeSearch, FuelPrices for frmFuelPrices
+	file: string; // Relative to inputDirectory
+	designerFile?: string;
+	childForms: string[]; // Indexed forms this form opens
+	navigations: FormNavigation[]; // Where in the code each child form is opened
+	classes: string[]; // Indexed business object/list classes the form's code uses
+}
+
+export interface FormNavigation {
+	form: string; // Form that is opened
+	handler?: string; // Sub or Function that opens it, e.g. btnDraftDetail_Click; absent for field initializers
+	line: number;
+}
+
+export interface IndexedClass {
+	name: string;
+	kind: LegacyFileKind;
+	file: string; // Relative to inputDirectory
+	inherits?: string;
+	references: string[]; // Other indexed classes named in this class's file
+	usedByForms: string[];
+}
+
+export interface SourceIndex {
+	version: number;
+	inputDirectory: string;
+	generatedAt: string;
+	fingerprint: string; // Hash of every .vb path, size and mtime; a change triggers a rebuild
+	fileCount: number; // .vb files found under inputDirectory
+	forms: IndexedForm[];
+	classes: IndexedClass[];
+}
+
+interface SourceFile {
+	path: string; // Relative to inputDirectory, with forward slashes
+	size: number;
+	mtimeMs: number;
+}
+
+// Loaded or built by this process; trusted until it exits unless a refresh is asked for
+let cachedIndex: SourceIndex | null = null;
+
+export function getSourceIndexPath(): string {
+	return `${getProjectRoot(import.meta.url)}output/_source-index.json`;
+}
+
+async function listSourceFiles(inputDirectory: string): Promise<SourceFile[]> {
+	const files: SourceFile[] = [];
+
+	const walk = async (relativeDir: string) => {
+		let entries: Dirent[];
+		try {
+			entries = await readdir(`${inputDirectory}/${relativeDir}`, { withFileTypes: true });
+		} catch (error) {
+			console.error(`Error reading ${inputDirectory}/${relativeDir}: ${error}`);
+			return;
+		}
+
+		for (const entry of entries) {
+			const path = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) {
+				if (!IGNORED_DIRECTORIES.has(entry.name.toLowerCase())) {
+					await walk(path);
+				}
+			} else if (entry.isFile() && entry.name.toLowerCase().endsWith(".vb")) {
+				const stats = await stat(`${inputDirectory}/${path}`);
+				files.push({ path, size: stats.size, mtimeMs: Math.round(stats.mtimeMs) });
+			}
+		}
+	};
+
+	if (existsSync(inputDirectory)) {
+		await walk("");
+	}
+	return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function computeFingerprint(inputDirectory: string, files: SourceFile[]): string {
+	const lines = files.map((file) => `${file.path}:${file.size}:${file.mtimeMs}`);
+	return Bun.hash(`${SOURCE_INDEX_VERSION}\n${inputDirectory}\n${lines.join("\n")}`).toString(16);
+}
+
+function normalizeFolder(folder: string): string {
+	return folder.replaceAll("\\", "/").replace(/\/+$/, "");
+}
+
+function isInFolder(path: string, folder: string): boolean {
+	return path.toLowerCase().startsWith(`${normalizeFolder(folder).toLowerCase()}/`);
+}
+
+/**
+ * Which kind of class file lives at `path`, going by the folders in config.json paths.
+ * The base class folder sits inside the business objects folder, so it is checked first.
+ */
+function getClassKind(path: string): LegacyFileKind | null {
+	if (isInFolder(path, config.paths.businessObjectsBase)) return "businessObjectBase";
+	if (isInFolder(path, config.paths.businessObjects)) return "businessObject";
+	if (isInFolder(path, config.paths.lists)) return "list";
+	return null;
+}
+
+function getFormKind(formName: string): IndexedFormKind {
+	const match = formName.match(/(Search|Detail)$/i);
+	if (!match) return "Single";
+	return match[1].toLowerCase() === "search" ? "Search" : "Detail";
+}
+
+function getFormEntity(formName: string): string {
+	return parseEntityFromFormName(formName) ?? formName.replace(/^frm/i, "");
+}
+
+/**
+ * Form names referenced in form code: New frmX, frmX.Show/ShowDialog, Dim f As frmX
+ */
+export function findFormReferences(content: string): Set<string> {
+	const patterns = [
+		/Dim\s+\w+\s+As\s+New\s+(frm\w+)/gi,
+		/(frm\w+)\.(Show|ShowDialog)\s*\(/gi,
+		/Dim\s+\w+\s+As\s+(frm\w+)\s*=/gi,
+		/New\s+(frm\w+)\s*\(/gi,
+	];
+
+	const references = new Set<string>();
+	for (const pattern of patterns) {
+		for (const match of content.matchAll(pattern)) {
+			references.add(match[1]);
+		}
+	}
+	return references;
+}
+
+/**
+ * Child form references with the Sub/Function they sit in, one entry per form and handler
+ */
+function findFormNavigations(content: string): FormNavigation[] {
+	const navigations: FormNavigation[] = [];
+	let handler: string | undefined;
+
+	content.split(/\r?\n/).forEach((rawLine, index) => {
+		const line = rawLine.replace(/"[^"\n]*"/g, '""').replace(/'.*$/, "");
+
+		const method = line.match(
+			/^\s*(?:(?:Private|Public|Protected|Friend|Shared|Overrides|Overridable|Overloads|Async)\s+)*(?:Sub|Function)\s+(\w+)/i,
+		);
+		if (method) {
+			handler = method[1];
+		} else if (/^\s*End\s+(?:Sub|Function)\b/i.test(line)) {
+			handler = undefined;
+			return;
+		}
+
+		for (const form of findFormReferences(line)) {
+			if (
+				!navigations.some(
+					(navigation) => navigation.form === form && navigation.handler === handler,
+				)
+			) {
+				navigations.push({ form, handler, line: index + 1 });
+			}
+		}
+	});
+	return navigations;
+}
+
+/**
+ * Identifiers in VB source, lower-cased (VB names are case-insensitive), without comments
+ * and string literals
+ */
+function getIdentifiers(content: string): Set<string> {
+	const code = content.replace(/"[^"\n]*"/g, '""').replace(/'.*$/gm, "");
+	return new Set((code.match(/[A-Za-z_]\w*/g) ?? []).map((name) => name.toLowerCase()));
+}
+
+/**
+ * Top-level classes declared in a file (nested classes such as MaxLength are skipped)
+ */
+function parseClassDeclarations(content: string): Array<{ name: string; inherits?: string }> {
+	const declarations: Array<{ name: string; inherits?: string }> = [];
+	let current: { name: string; inherits?: string } | null = null;
+	let depth = 0;
+
+	for (const line of content.split(/\r?\n/)) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith("'")) continue;
+
+		if (/^End\s+Class\b/i.test(trimmed)) {
+			depth = Math.max(depth - 1, 0);
+			current = null;
+			continue;
+		}
+
+		const classMatch = trimmed.match(
+			/^(?:(?:Public|Friend|Private|Protected|MustInherit|NotInheritable|Partial)\s+)*Class\s+(\w+)/i,
+		);
+		if (classMatch) {
+			current = depth === 0 ? { name: classMatch[1] } : null;
+			if (current) declarations.push(current);
+			depth++;
+			continue;
+		}
+
+		// Inherits must be the first statement after the Class line; keep the last segment of qualified names
+		const inheritsMatch = trimmed.match(/^Inherits\s+([\w.]+)/i);
+		if (current && inheritsMatch) {
+			current.inherits = inheritsMatch[1].split(".").pop();
+		}
+		current = null;
+	}
+	return declarations;
+}
+
+/**
+ * Scan inputDirectory and build a fresh index (does not read or write the cache)
+ */
+export async function buildSourceIndex(): Promise<SourceIndex> {
+	const inputDirectory = getInputDirectory();
+	const files = await listSourceFiles(inputDirectory);
+	const formsFolder = config.paths.forms;
+
+	const readSource = (path: string) => Bun.file(`${inputDirectory}/${path}`).text();
+
+	// Forms and their Designer files, keyed by lower-cased name since VB names are
+	// case-insensitive (New frmbargedetail opens frmBargeDetail)
+	const designerFiles = new Map<string, string>();
+	const formFiles = new Map<string, { name: string; file: string }>();
+	for (const file of files) {
+		if (!isInFolder(file.path, formsFolder)) continue;
+		const fileName = file.path.split("/").pop() ?? file.path;
+		if (!/^frm/i.test(fileName)) continue;
+
+		if (/\.Designer\.vb$/i.test(fileName)) {
+			designerFiles.set(fileName.replace(/\.Designer\.vb$/i, "").toLowerCase(), file.path);
+		} else {
+			const name = fileName.replace(/\.vb$/i, "");
+			formFiles.set(name.toLowerCase(), { name, file: file.path });
+		}
+	}
+
+	// Business object, base and list classes
+	const classes: IndexedClass[] = [];
+	const classIdentifiers = new Map<string, Set<string>>();
+	for (const file of files) {
+		const kind = getClassKind(file.path);
+		if (!kind) continue;
+
+		const content = await readSource(file.path);
+		const identifiers = getIdentifiers(content);
+		for (const declaration of parseClassDeclarations(content)) {
+			classes.push({
+				name: declaration.name,
+				kind,
+				file: file.path,
+				inherits: declaration.inherits,
+				references: [],
+				usedByForms: [],
+			});
+			classIdentifiers.set(declaration.name, identifiers);
+		}
+	}
+	const classesByName = new Map(classes.map((indexed) => [indexed.name, indexed]));
+
+	for (const indexed of classes) {
+		const identifiers = classIdentifiers.get(indexed.name) ?? new Set<string>();
+		indexed.references = [...classesByName.keys()]
+			.filter((name) => name !== indexed.name && identifiers.has(name.toLowerCase()))
+			.sort();
+	}
+
+	const forms: IndexedForm[] = [];
+	for (const [key, { name, file }] of formFiles) {
+		const designerFile = designerFiles.get(key);
+		const content = await readSource(file);
+		const designerContent = designerFile ? await readSource(designerFile) : "";
+		const identifiers = getIdentifiers(`${content}\n${designerContent}`);
+
+		// Navigations name the child as the code spells it; record the form's own name
+		const navigations: FormNavigation[] = [];
+		for (const navigation of findFormNavigations(content)) {
+			const child = formFiles.get(navigation.form.toLowerCase());
+			if (!child || child.name === name) continue;
+			if (navigations.some((n) => n.form === child.name && n.handler === navigation.handler)) {
+				continue;
+			}
+			navigations.push({ ...navigation, form: child.name });
+		}
+		const childForms = [...new Set(navigations.map((navigation) => navigation.form))].sort();
+		const formClasses = [...classesByName.keys()]
+			.filter((className) => identifiers.has(className.toLowerCase()))
+			.sort();
+
+		for (const className of formClasses) {
+			classesByName.get(className)?.usedByForms.push(name);
+		}
+
+		forms.push({
+			name,
+			kind: getFormKind(name),
+			entity: getFormEntity(name),
+			file,
+			designerFile,
+			childForms,
+			navigations,
+			classes: formClasses,
+		});
+	}
+
+	return {
+		version: SOURCE_INDEX_VERSION,
+		inputDirectory,
+		generatedAt: new Date().toISOString(),
+		fingerprint: computeFingerprint(inputDirectory, files),
+		fileCount: files.length,
+		forms: forms.sort((a, b) => a.name.localeCompare(b.name)),
+		classes: classes.sort((a, b) => a.name.localeCompare(b.name)),
+	};
+}
+
+async function readCachedIndex(): Promise<SourceIndex | null> {
+	const indexPath = getSourceIndexPath();
+	if (!existsSync(indexPath)) return null;
+
+	try {
+		const index = JSON.parse(await Bun.file(indexPath).text()) as SourceIndex;
+		return index.version === SOURCE_INDEX_VERSION ? index : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Write the cache through a temporary file, so agents and orchestrator steps running in
+ * parallel never read a half-written index
+ */
+async function writeCachedIndex(index: SourceIndex): Promise<void> {
+	const indexPath = getSourceIndexPath();
+	const tempPath = `${indexPath}.${process.pid}.tmp`;
+	await Bun.write(tempPath, JSON.stringify(index, null, 2));
+	await rename(tempPath, indexPath);
+}
+
+/**
+ * The source index, from the cache when no .vb file under inputDirectory changed since it
+ * was built; otherwise the tree is rescanned and the cache rewritten. The tree is checked once
+ * per process: later calls reuse the index in memory. `refresh` forces a rescan.
+ */
+export async function loadSourceIndex(options: { refresh?: boolean } = {}): Promise<SourceIndex> {
+	const inputDirectory = getInputDirectory();
+	if (!options.refresh && cachedIndex?.inputDirectory === inputDirectory) return cachedIndex;
+
+	if (!options.refresh) {
+		const cached = await readCachedIndex();
+		if (cached && cached.inputDirectory === inputDirectory) {
+			const fingerprint = computeFingerprint(inputDirectory, await listSourceFiles(inputDirectory));
+			if (cached.fingerprint === fingerprint) {
+				cachedIndex = cached;
+				return cached;
+			}
+		}
+	}
+
+	const index = await buildSourceIndex();
+	await writeCachedIndex(index);
+	cachedIndex = index;
+	return index;
+}
+
+export function findIndexedForm(index: SourceIndex, formName: string): IndexedForm | undefined {
+	const lower = formName.toLowerCase();
+	return index.forms.find((form) => form.name.toLowerCase() === lower);
+}
+
+export function findIndexedClass(index: SourceIndex, className: string): IndexedClass | undefined {
+	return index.classes.find((indexed) => indexed.name === className);
+}
+
+/**
+ * All form names in the Forms directory: Search/Detail pairs and single forms
+ */
+export async function getAvailableForms(): Promise<string[]> {
+	const index = await loadSourceIndex();
+	return index.forms.map((form) => form.name);
+}
+
+/**
+ * Detect child forms opened by a parent form (forms that exist in the index only)
+ */
+export async function detectChildForms(formName: string): Promise<string[]> {
+	const index = await loadSourceIndex();
+	return findIndexedForm(index, formName)?.childForms ?? [];
+}
+
+/**
+ * Forms for an entity (or the one named form) and the indexed classes they use,
+ * including the classes those inherit from
+ */
+export function getEntitySources(
+	index: SourceIndex,
+	entity: string,
+	formName?: string,
+): { forms: IndexedForm[]; classes: IndexedClass[] } {
+	const forms = formName
+		? [findIndexedForm(index, formName)].filter((form): form is IndexedForm => form !== undefined)
+		: index.forms.filter((form) => form.entity.toLowerCase() === entity.toLowerCase());
+
+	// Classes the forms use, plus the entity's own files as resolved by legacyNaming
+	const classNames = new Set(forms.flatMap((form) => form.classes));
+	const legacyFiles = LEGACY_FILE_KINDS.map((kind) => resolveLegacyFile(entity, kind).path)
+		.filter((path): path is string => path !== null)
+		.map((path) => path.slice(index.inputDirectory.length + 1));
+	for (const indexed of index.classes) {
+		if (legacyFiles.includes(indexed.file)) {
+			classNames.add(indexed.name);
+		}
+	}
+
+	// Follow Inherits so the base classes come along
+	const pending = [...classNames];
+	while (pending.length > 0) {
+		const inherits = findIndexedClass(index, pending.pop() ?? "")?.inherits;
+		if (inherits && !classNames.has(inherits) && findIndexedClass(index, inherits)) {
+			classNames.add(inherits);
+			pending.push(inherits);
+		}
+	}
+
+	const classes = index.classes.filter((indexed) => classNames.has(indexed.name));
+	return { forms, classes };
+}
+
+/**
+ * Prompt section listing the legacy files that belong to an entity or form ("" when none are indexed)
+ */
+export async function formatSourceIndexForPrompt(
+	entity: string,
+	formName?: string,
+): Promise<string> {
+	let index: SourceIndex;
+	try {
+		index = await loadSourceIndex();
+	} catch (error) {
+		console.warn(`Could not load the source index: ${error}`);
+		return "";
+	}
+
+	const { forms, classes } = getEntitySources(index, entity, formName);
+	if (forms.length === 0 && classes.length === 0) {
+		return "";
+	}
+
+	const root = index.inputDirectory;
+	const lines = ["LEGACY SOURCE FILES (from the source index):"];
+	for (const form of forms) {
+		lines.push(`- Form ${form.name} (${form.kind}): ${root}/${form.file}`);
+		if (form.designerFile) {
+			lines.push(`  Designer: ${root}/${form.designerFile}`);
+		}
+		if (form.childForms.length > 0) {
+			lines.push(`  Opens: ${form.childForms.join(", ")}`);
+		}
+		if (form.classes.length > 0) {
+			lines.push(`  Uses: ${form.classes.join(", ")}`);
+		}
+	}
+	for (const indexed of classes) {
+		const inherits = indexed.inherits ? ` (Inherits ${indexed.inherits})` : "";
+		lines.push(`- ${indexed.name}${inherits}: ${root}/${indexed.file}`);
+	}
+	return `\n${lines.join("\n")}\n`;
+}
@@ -0,0 +1,646 @@
+/**
+ * Embedded SQL files and the repository that loads them, generated from data-access.json
+ *
+ * The data access analyzer records each legacy stored procedure with its operation,
+ * parameters, result columns and the embedded SQL file that replaces it
+ * ({Entity}_GetById.sql, {Entity}_SetActive.sql, ...). generateSqlTemplates() turns that into
+ * parameterized SQL without an LLM, so the same analysis always gives the same files:
+ *
+ *   GetById              SELECT the result columns WHERE key = @key
+ *   GetAll, List         SELECT the result columns
+ *   GetBy..., ListBy...  SELECT WHERE column = @parameter for each parameter
+ *   Search               SELECT with an optional filter per parameter that names a column
+ *   Insert / Update      INSERT / UPDATE of the parameters (the new identity is returned)
+ *   SetActive, Delete    UPDATE IsActive when the entity has it, else DELETE (a soft
+ *                        delete without IsActive stays an EXEC)
+ *   anything else        EXEC of the legacy procedure, to be rewritten by hand, returning
+ *                        a DTO named after the procedure when it has result columns
+ *
+ * The table's columns are the GetById result columns. Lists and searches select and filter
+ * only those; result columns the legacy procedure joined in from other tables (a location
+ * name, a customer) are left out of the SQL and listed in the warnings.
+ *
+ * and a Dapper repository that reads each file as an embedded resource (connection string
+ * from IConfiguration, as FacilityRepository does). Anything the analysis cannot answer,
+ * such as a parameter with no matching column, is left as a TODO comment in the SQL and
+ * listed in the warnings.
+ *
+ * Usage:
+ *   const result = generateSqlTemplates(dataAccess, "Barge");
+ *   for (const file of result.files) await Bun.write(`${templatesPath}/${file.path}`, file.content);
+ */
+
+import { type JsonObject, asArray, isObject, stringField } from "./json-fields";
+
+export type SqlStatementKind =
+	| "select-one"
+	| "select-many"
+	| "insert"
+	| "update"
+	| "set-active"
+	| "delete"
+	| "exec";
+
+export interface SqlParameter {
+	name: string; // Without the @
+	type: string; // C# type as the analysis gives it, e.g. int, string, decimal?
+	output: boolean;
+}
+
+export interface SqlColumn {
+	column: string;
+	property: string;
+	type: string;
+	isPrimaryKey: boolean;
+}
+
+export interface SqlProcedure {
+	name: string; // Legacy stored procedure
+	operation: string;
+	fileName: string; // Embedded SQL file, e.g. Barge_GetById.sql
+	parameters: SqlParameter[];
+	resultColumns: SqlColumn[];
+}
+
+export interface GeneratedSqlFile {
+	procedure: SqlProcedure;
+	kind: SqlStatementKind;
+	method: string; // Repository method, e.g. GetByIdAsync
+	sql: string;
+}
+
+export interface GeneratedTemplate {
+	path: string; // Relative to templates/
+	content: string;
+}
+
+export interface SqlGenerationResult {
+	table: string;
+	key: SqlColumn;
+	sqlFiles: GeneratedSqlFile[];
+	files: GeneratedTemplate[]; // The .sql files, then the repository interface and class
+	warnings: string[];
+}
+
+/** First line of generated repositories; files without it were written by hand or an LLM */
+export const GENERATED_MARKER = "// Generated by generate-sql from data-access.json";
+
+function sameName(a: string, b: string): boolean {
+	return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * "@BargeID int" or { name: "@BargeID", type: "int" }
+ */
+function parseParameter(value: unknown): SqlParameter | null {
+	if (typeof value === "string") {
+		const [name, ...type] = value.trim().split(/\s+/);
+		return name
+			? { name: name.replace(/^@/, ""), type: type.join(" ") || "object", output: false }
+			: null;
+	}
+	const name = stringField(value, "name");
+	if (!name) return null;
+	const direction = stringField(value, "direction") ?? "";
+	return {
+		name: name.replace(/^@/, ""),
+		type: stringField(value, "type", "dotNetType") ?? "object",
+		output: /output/i.test(direction),
+	};
+}
+
+function parseColumn(value: unknown): SqlColumn | null {
+	if (typeof value === "string") {
+		const [column, ...type] = value.trim().split(/\s+/);
+		return column
+			? { column, property: column, type: type.join(" ") || "object", isPrimaryKey: false }
+			: null;
+	}
+	const column = stringField(value, "column", "name");
+	if (!column) return null;
+	return {
+		column,
+		property: stringField(value, "property") ?? column,
+		type: stringField(value, "type") ?? "object",
+		isPrimaryKey: isObject(value) && value.isPrimaryKey === true,
+	};
+}
+
+function toPascalCase(text: string): string {
+	return text
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean)
+		.map((word) => word[0].toUpperCase() + word.slice(1))
+		.join("");
+}
+
+function toCamelCase(text: string): string {
+	const pascal = toPascalCase(text);
+	return pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+// C# keywords a camelCased SQL parameter could turn into; they need an @ as argument names
+const CSHARP_KEYWORDS = new Set([
+	"base",
+	"case",
+	"checked",
+	"class",
+	"decimal",
+	"default",
+	"double",
+	"event",
+	"fixed",
+	"float",
+	"in",
+	"int",
+	"is",
+	"lock",
+	"long",
+	"object",
+	"operator",
+	"out",
+	"params",
+	"ref",
+	"short",
+	"string",
+]);
+
+function argumentName(parameter: string): string {
+	const name = toCamelCase(parameter);
+	return CSHARP_KEYWORDS.has(name) ? `@${name}` : name;
+}
+
+function nullableType(type: string): string {
+	return type.endsWith("?") ? type : `${type}?`;
+}
+
+/**
+ * The stored procedures of data-access.json with the SQL file each one becomes
+ */
+export function readSqlProcedures(dataAccess: JsonObject, entity: string): SqlProcedure[] {
+	const sqlFiles = asArray(dataAccess.sqlFiles);
+	const used = new Set<string>();
+
+	return asArray(dataAccess.storedProcedures)
+		.filter(isObject)
+		.map((procedure) => {
+			const name = stringField(procedure, "name") ?? "Unknown";
+			const operation = stringField(procedure, "operation") ?? name;
+			const listed =
+				sqlFiles.find((file) => stringField(file, "legacyStoredProcedure") === name) ??
+				sqlFiles.find((file) => stringField(file, "operation") === operation);
+			let fileName =
+				stringField(procedure, "targetSqlFile") ??
+				stringField(listed, "fileName") ??
+				`${entity}_${toPascalCase(operation)}.sql`;
+			if (used.has(fileName)) fileName = `${entity}_${toPascalCase(name)}.sql`;
+			used.add(fileName);
+
+			return {
+				name,
+				operation,
+				fileName: fileName.endsWith(".sql") ? fileName : `${fileName}.sql`,
+				parameters: asArray(procedure.parameters)
+					.map(parseParameter)
+					.filter((p): p is SqlParameter => p !== null),
+				resultColumns: asArray(procedure.resultColumns)
+					.map(parseColumn)
+					.filter((c): c is SqlColumn => c !== null),
+			};
+		});
+}
+
+/**
+ * The primary key: a column marked isPrimaryKey, else {Entity}ID, else the GetById parameter
+ */
+function findKey(procedures: SqlProcedure[], entity: string): SqlColumn {
+	const columns = procedures.flatMap((p) => p.resultColumns);
+	const marked = columns.find((column) => column.isPrimaryKey);
+	if (marked) return marked;
+
+	const named = [...columns, ...procedures.flatMap((p) => p.parameters)].find((c) =>
+		sameName("column" in c ? c.column : c.name, `${entity}ID`),
+	);
+	if (named) {
+		const column = "column" in named ? named.column : named.name;
+		return { column, property: column, type: named.type, isPrimaryKey: true };
+	}
+
+	const getById = procedures.find((p) => sameName(p.operation, "GetById"));
+	if (getById?.parameters.length === 1) {
+		const [parameter] = getById.parameters;
+		return {
+			column: parameter.name,
+			property: parameter.name,
+			type: parameter.type,
+			isPrimaryKey: true,
+		};
+	}
+	return { column: `${entity}ID`, property: `${entity}ID`, type: "int", isPrimaryKey: true };
+}
+
+function statementKind(
+	procedure: SqlProcedure,
+	softDelete: boolean,
+	hasIsActive: boolean,
+): SqlStatementKind {
+	const operation = procedure.operation.toLowerCase().replace(/[^a-z]/g, "");
+	if (operation === "getbyid") return "select-one";
+	if (operation === "getall" || operation === "list" || operation.includes("search"))
+		return "select-many";
+	if (/^(get|list)by/.test(operation)) return "select-many";
+	if (operation === "insert") return "insert";
+	if (operation === "update") return "update";
+	if (operation === "setactive") return "set-active";
+	// A soft delete without an IsActive column (void status, ...) stays a procedure call
+	if (operation === "delete") return hasIsActive ? "set-active" : softDelete ? "exec" : "delete";
+	return "exec";
+}
+
+function indentList(items: string[], separator: string): string {
+	return items.map((item, i) => `    ${item}${i < items.length - 1 ? separator : ""}`).join("\n");
+}
+
+function buildSql(
+	procedure: SqlProcedure,
+	kind: SqlStatementKind,
+	table: string,
+	key: SqlColumn,
+	entityColumns: SqlColumn[],
+	hasIsActive: boolean,
+	warnings: string[],
+): string {
+	const header = [
+		`-- ${procedure.fileName}`,
+		`-- Generated from data-access.json: legacy procedure ${procedure.name} (${procedure.operation})`,
+	];
+	const keyParameter =
+		procedure.parameters.find((p) => sameName(p.name, key.column))?.name ?? key.column;
+	const columns = procedure.resultColumns.length > 0 ? procedure.resultColumns : entityColumns;
+	const selectFrom = (selected: SqlColumn[]) =>
+		selected.length > 0
+			? `SELECT\n${indentList(
+					selected.map((c) => c.column),
+					",",
+				)}\nFROM ${table}`
+			: `SELECT *\nFROM ${table}`;
+	const assignable = procedure.parameters.filter((p) => !p.output && !sameName(p.name, key.column));
+
+	switch (kind) {
+		case "select-one":
+			return [...header, selectFrom(columns), `WHERE ${key.column} = @${keyParameter};`].join("\n");
+
+		case "select-many": {
+			const lookup = /^(get|list)by/i.test(procedure.operation);
+			const tableColumns = entityColumns.length > 0 ? entityColumns : columns;
+			const joined = procedure.resultColumns.filter(
+				(c) => !tableColumns.some((t) => sameName(t.column, c.column)),
+			);
+			const selected = columns.filter((c) => !joined.includes(c));
+			const filters: string[] = [];
+			const todos: string[] = [];
+			if (joined.length > 0) {
+				const names = joined.map((c) => c.column).join(", ");
+				todos.push(`-- TODO: not columns of ${table}, add the joins by hand: ${names}`);
+				warnings.push(
+					`${procedure.fileName}: result columns not in ${table} left out (joined by ${procedure.name}): ${names}`,
+				);
+			}
+			for (const parameter of procedure.parameters.filter((p) => !p.output)) {
+				const column = tableColumns.find((c) => sameName(c.column, parameter.name));
+				if (sameName(parameter.name, "ActiveOnly") && hasIsActive) {
+					filters.push("(@ActiveOnly = 0 OR IsActive = 1)");
+				} else if (!column && lookup) {
+					// GetByBargeId and the like: the parameter is a column of the table, usually a foreign key
+					filters.push(`${parameter.name} = @${parameter.name}`);
+				} else if (!column) {
+					todos.push(
+						`-- TODO: @${parameter.name} matches no column of ${table}; add its filter by hand`,
+					);
+					warnings.push(`${procedure.fileName}: @${parameter.name} matches no column of ${table}`);
+				} else if (/^string/i.test(column.type)) {
+					filters.push(
+						`(@${parameter.name} IS NULL OR ${column.column} LIKE '%' + @${parameter.name} + '%')`,
+					);
+				} else {
+					filters.push(`(@${parameter.name} IS NULL OR ${column.column} = @${parameter.name})`);
+				}
+			}
+			const where = filters.length > 0 ? `\nWHERE ${filters.join("\n  AND ")}` : "";
+			const orderBy = selected.find((c) => sameName(c.column, "Name"))?.column ?? key.column;
+			return [
+				...header,
+				...todos,
+				`${selectFrom(selected.length > 0 ? selected : tableColumns)}${where}`,
+				`ORDER BY ${orderBy};`,
+			].join("\n");
+		}
+
+		case "insert":
+			return [
+				...header,
+				`INSERT INTO ${table} (\n${indentList(
+					assignable.map((p) => p.name),
+					",",
+				)}\n)`,
+				`VALUES (\n${indentList(
+					assignable.map((p) => `@${p.name}`),
+					",",
+				)}\n);`,
+				"",
+				`SELECT CAST(SCOPE_IDENTITY() AS int) AS ${key.column};`,
+			].join("\n");
+
+		case "update":
+			return [
+				...header,
+				`UPDATE ${table}`,
+				`SET\n${indentList(
+					assignable.map((p) => `${p.name} = @${p.name}`),
+					",",
+				)}`,
+				`WHERE ${key.column} = @${keyParameter};`,
+			].join("\n");
+
+		case "set-active": {
+			const isActive = procedure.parameters.some((p) => sameName(p.name, "IsActive"))
+				? "@IsActive"
+				: "0";
+			return [
+				...header,
+				`UPDATE ${table}`,
+				`SET IsActive = ${isActive}`,
+				`WHERE ${key.column} = @${keyParameter};`,
+			].join("\n");
+		}
+
+		case "delete":
+			return [...header, `DELETE FROM ${table}`, `WHERE ${key.column} = @${keyParameter};`].join(
+				"\n",
+			);
+
+		case "exec": {
+			warnings.push(
+				`${procedure.fileName}: no SQL pattern for operation "${procedure.operation}"; calls ${procedure.name}`,
+			);
+			const parameters = procedure.parameters.map(
+				(p) => `@${p.name} = @${p.name}${p.output ? " OUTPUT" : ""}`,
+			);
+			return [
+				...header,
+				`-- TODO: replace the call with the procedure's SQL`,
+				parameters.length > 0
+					? `EXEC ${procedure.name}\n${indentList(parameters, ",")};`
+					: `EXEC ${procedure.name};`,
+			].join("\n");
+		}
+	}
+}
+
+function repositoryMember(
+	file: GeneratedSqlFile,
+	entity: string,
+	key: SqlColumn,
+	warnings: string[],
+): { signature: string; body: string[] } {
+	const dto = `${entity}Dto`;
+	const keyType = key.type.replace(/\?$/, "") || "int";
+	const sqlName = file.procedure.fileName.replace(/\.sql$/, "");
+	const command = (parameters: string) =>
+		`new CommandDefinition(Sql("${sqlName}"), ${parameters}, cancellationToken: cancellationToken)`;
+	const token = "CancellationToken cancellationToken = default";
+	const hasResults = file.procedure.resultColumns.length > 0 || file.kind === "select-many";
+
+	switch (file.kind) {
+		case "select-one":
+			return {
+				signature: `Task<${dto}?> ${file.method}(${keyType} id, ${token})`,
+				body: [
+					`return await connection.QuerySingleOrDefaultAsync<${dto}>(${command(`new { ${key.column} = id }`)});`,
+				],
+			};
+		case "insert":
+			return {
+				signature: `Task<${keyType}> ${file.method}(${dto} ${toCamelCase(entity)}, ${token})`,
+				body: [
+					`return await connection.ExecuteScalarAsync<${keyType}>(${command(toCamelCase(entity))});`,
+				],
+			};
+		case "update":
+			return {
+				signature: `Task<bool> ${file.method}(${dto} ${toCamelCase(entity)}, ${token})`,
+				body: [`return await connection.ExecuteAsync(${command(toCamelCase(entity))}) > 0;`],
+			};
+		case "set-active":
+			return file.procedure.parameters.some((p) => sameName(p.name, "IsActive"))
+				? {
+						signature: `Task<bool> ${file.method}(${keyType} id, bool isActive, ${token})`,
+						body: [
+							`return await connection.ExecuteAsync(${command(`new { ${key.column} = id, IsActive = isActive }`)}) > 0;`,
+						],
+					}
+				: {
+						signature: `Task<bool> ${file.method}(${keyType} id, ${token})`,
+						body: [
+							`return await connection.ExecuteAsync(${command(`new { ${key.column} = id }`)}) > 0;`,
+						],
+					};
+		case "delete":
+			return {
+				signature: `Task<bool> ${file.method}(${keyType} id, ${token})`,
+				body: [
+					`return await connection.ExecuteAsync(${command(`new { ${key.column} = id }`)}) > 0;`,
+				],
+			};
+		default: {
+			// One argument per SQL parameter, so the SQL never references an unbound one. Search
+			// filters are skipped when null, so they take nullable types.
+			const lookup = /^(get|list)by/i.test(file.procedure.operation);
+			const inputs = file.procedure.parameters.filter((p) => !p.output);
+			const outputs = file.procedure.parameters.filter((p) => p.output);
+			const isFilter = (p: SqlParameter) =>
+				file.kind === "select-many" && !lookup && !sameName(p.name, "ActiveOnly");
+			const parameters = inputs
+				.map((p) => `${isFilter(p) ? nullableType(p.type) : p.type} ${argumentName(p.name)}, `)
+				.join("");
+			const values =
+				inputs.length > 0
+					? `new { ${inputs.map((p) => `${p.name} = ${argumentName(p.name)}`).join(", ")} }`
+					: "";
+			const setup =
+				outputs.length > 0
+					? [
+							`var parameters = new DynamicParameters(${values});`,
+							...outputs.map(
+								(p) => `parameters.Add("${p.name}", direction: ParameterDirection.Output);`,
+							),
+						]
+					: [];
+			const args = outputs.length > 0 ? "parameters" : values || "null";
+			// A legacy procedure's own result set need not look like the entity
+			const rowDto = file.kind === "exec" ? `${toPascalCase(file.procedure.name)}Dto` : dto;
+			if (hasResults && rowDto !== dto) {
+				warnings.push(
+					`${file.procedure.fileName}: ${file.method} returns ${rowDto}, which is not generated; create it from the result columns`,
+				);
+			}
+			return hasResults
+				? {
+						signature: `Task<IEnumerable<${rowDto}>> ${file.method}(${parameters}${token})`,
+						body: [...setup, `return await connection.QueryAsync<${rowDto}>(${command(args)});`],
+					}
+				: {
+						signature: `Task<int> ${file.method}(${parameters}${token})`,
+						body: [...setup, `return await connection.ExecuteAsync(${command(args)});`],
+					};
+		}
+	}
+}
+
+function methodName(procedure: SqlProcedure, kind: SqlStatementKind): string {
+	const names: Partial<Record<SqlStatementKind, string>> = {
+		insert: "CreateAsync",
+		update: "UpdateAsync",
+		delete: "DeleteAsync",
+	};
+	if (kind === "set-active" && !procedure.parameters.some((p) => sameName(p.name, "IsActive"))) {
+		return "DeleteAsync";
+	}
+	return names[kind] ?? `${toPascalCase(procedure.operation)}Async`;
+}
+
+function buildRepositoryInterface(entity: string, members: string[]): string {
+	return [
+		GENERATED_MARKER,
+		"using BargeOps.Shared.Dto;",
+		"",
+		"namespace Admin.Infrastructure.Repositories;",
+		"",
+		"/// <summary>",
+		`/// Data access for ${entity}; each method runs one embedded SQL file`,
+		"/// </summary>",
+		`public interface I${entity}Repository`,
+		"{",
+		members.map((signature) => `    ${signature};`).join("\n\n"),
+		"}",
+		"",
+	].join("\n");
+}
+
+function buildRepository(
+	entity: string,
+	members: Array<{ signature: string; body: string[] }>,
+): string {
+	const methods = members.map(({ signature, body }) =>
+		[
+			`    public async ${signature}`,
+			"    {",
+			"        using var connection = new SqlConnection(_connectionString);",
+			...body.map((line) => `        ${line}`),
+			"    }",
+		].join("\n"),
+	);
+
+	// Procedures with OUTPUT parameters bind them through DynamicParameters
+	const usesOutput = members.some(({ body }) =>
+		body.some((line) => line.includes("ParameterDirection")),
+	);
+
+	return [
+		GENERATED_MARKER,
+		"using System.Collections.Concurrent;",
+		...(usesOutput ? ["using System.Data;"] : []),
+		"using BargeOps.Shared.Dto;",
+		"using Dapper;",
+		"using Microsoft.Data.SqlClient;",
+		"using Microsoft.Extensions.Configuration;",
+		"",
+		"namespace Admin.Infrastructure.Repositories;",
+		"",
+		"/// <summary>",
+		`/// Repository for ${entity} operations using Dapper`,
+		"/// SQL lives in Sql/*.sql files compiled as embedded resources",
+		"/// Returns DTOs directly (no mapping needed)",
+		"/// </summary>",
+		`public class ${entity}Repository : I${entity}Repository`,
+		"{",
+		"    private static readonly ConcurrentDictionary<string, string> SqlCache = new();",
+		"",
+		"    private readonly string _connectionString;",
+		"",
+		`    public ${entity}Repository(IConfiguration configuration)`,
+		"    {",
+		'        _connectionString = configuration.GetConnectionString("DefaultConnection")',
+		"            ?? throw new ArgumentNullException(nameof(configuration));",
+		"    }",
+		"",
+		methods.join("\n\n"),
+		"",
+		"    /// <summary>",
+		"    /// Text of the embedded resource Sql/{name}.sql",
+		"    /// </summary>",
+		"    private static string Sql(string name) =>",
+		"        SqlCache.GetOrAdd(name, key =>",
+		"        {",
+		`            var assembly = typeof(${entity}Repository).Assembly;`,
+		"            var resource = assembly.GetManifestResourceNames()",
+		'                .SingleOrDefault(n => n.EndsWith($".Sql.{key}.sql", StringComparison.Ordinal))',
+		'                ?? throw new InvalidOperationException($"Embedded SQL resource Sql/{key}.sql not found");',
+		"            using var stream = assembly.GetManifestResourceStream(resource)!;",
+		"            using var reader = new StreamReader(stream);",
+		"            return reader.ReadToEnd();",
+		"        });",
+		"}",
+		"",
+	].join("\n");
+}
+
+/**
+ * The .sql files and repository for an entity's data-access.json
+ */
+export function generateSqlTemplates(dataAccess: JsonObject, entity: string): SqlGenerationResult {
+	const analysisEntity = stringField(dataAccess, "entity", "entityName") ?? entity;
+	const table =
+		stringField(dataAccess, "databaseTable", "actualTableName", "tableName", "primaryEntity") ??
+		analysisEntity;
+	const softDelete = dataAccess.softDelete === true;
+	const hasIsActive = dataAccess.hasIsActive === true;
+	const warnings: string[] = [];
+
+	const procedures = readSqlProcedures(dataAccess, analysisEntity);
+	const key = findKey(procedures, analysisEntity);
+	const entityColumns =
+		procedures.find((p) => sameName(p.operation, "GetById") && p.resultColumns.length > 0)
+			?.resultColumns ??
+		procedures.find((p) => p.resultColumns.length > 0)?.resultColumns ??
+		[];
+
+	const methods = new Set<string>();
+	const sqlFiles = procedures.map((procedure): GeneratedSqlFile => {
+		const kind = statementKind(procedure, softDelete, hasIsActive);
+		let method = methodName(procedure, kind);
+		if (methods.has(method)) method = `${toPascalCase(procedure.name)}Async`;
+		methods.add(method);
+		return {
+			procedure,
+			kind,
+			method,
+			sql: `${buildSql(procedure, kind, table, key, entityColumns, hasIsActive, warnings)}\n`,
+		};
+	});
+
+	const members = sqlFiles.map((file) => repositoryMember(file, entity, key, warnings));
+	const files: GeneratedTemplate[] = [
+		...sqlFiles.map((file) => ({ path: `api/Sql/${file.procedure.fileName}`, content: file.sql })),
+		{
+			path: `api/Repositories/I${entity}Repository.cs`,
+			content: buildRepositoryInterface(
+				entity,
+				members.map((member) => member.signature),
+			),
+		},
+		{ path: `api/Repositories/${entity}Repository.cs`, content: buildRepository(entity, members) },
+	];
+
+	return { table, key, sqlFiles, files, warnings };
+}
@@ -0,0 +1,83 @@
+/**
+ * Files the conversion template generator is expected to write
+ *
+ * The interactive generator decides file names with the user; the scripted --print mode
+ * is given this list in its prompt and checked against it afterwards, so a CI or overnight
+ * run fails when a template is missing instead of leaving a half-filled templates/ folder.
+ *
+ * Usage:
+ *   const missing = getMissingTemplateFiles(outputPath, "Barge", "search-detail");
+ */
+
+import { existsSync } from "node:fs";
+
+export type TemplateMode = "search-detail" | "single-form";
+
+export interface ExpectedTemplateFile {
+	path: string; // Relative to the entity output folder
+	description: string;
+}
+
+/**
+ * File name form of an entity for JavaScript files: BargeSeries -> barge-series
+ */
+export function toKebabCase(name: string): string {
+	return name
+		.replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+		.replace(/([A-Z])([A-Z][a-z])/g, "$1-$2")
+		.toLowerCase();
+}
+
+export function getExpectedTemplateFiles(
+	entity: string,
+	mode: TemplateMode,
+): ExpectedTemplateFile[] {
+	const search = mode === "search-detail";
+	const js = toKebabCase(entity);
+	const files: Array<ExpectedTemplateFile | false> = [
+		{ path: "conversion-plan.md", description: "Conversion plan" },
+		{ path: `templates/shared/Dto/${entity}Dto.cs`, description: "Entity DTO" },
+		search && {
+			path: `templates/shared/Dto/${entity}SearchRequest.cs`,
+			description: "Search criteria DTO",
+		},
+		{
+			path: `templates/api/Repositories/I${entity}Repository.cs`,
+			description: "Repository interface",
+		},
+		{ path: `templates/api/Repositories/${entity}Repository.cs`, description: "Dapper repository" },
+		{ path: `templates/api/Services/I${entity}Service.cs`, description: "API service interface" },
+		{ path: `templates/api/Services/${entity}Service.cs`, description: "API service" },
+		{ path: `templates/api/Controllers/${entity}Controller.cs`, description: "API controller" },
+		{ path: `templates/ui/Services/I${entity}Service.cs`, description: "UI API client interface" },
+		{ path: `templates/ui/Services/${entity}Service.cs`, description: "UI API client" },
+		{ path: `templates/ui/Controllers/${entity}Controller.cs`, description: "MVC controller" },
+		search && {
+			path: `templates/ui/ViewModels/${entity}SearchViewModel.cs`,
+			description: "Search ViewModel",
+		},
+		{ path: `templates/ui/ViewModels/${entity}EditViewModel.cs`, description: "Edit ViewModel" },
+		{
+			path: `templates/ui/ViewModels/${entity}DetailsViewModel.cs`,
+			description: "Details ViewModel",
+		},
+		search && { path: `templates/ui/Views/${entity}/Index.cshtml`, description: "Search view" },
+		{ path: `templates/ui/Views/${entity}/Edit.cshtml`, description: "Edit view" },
+		search && {
+			path: `templates/ui/wwwroot/js/${js}-search.js`,
+			description: "Search DataTables script",
+		},
+		{ path: `templates/ui/wwwroot/js/${js}-detail.js`, description: "Detail form script" },
+	];
+	return files.filter((file): file is ExpectedTemplateFile => file !== false);
+}
+
+export function getMissingTemplateFiles(
+	outputPath: string,
+	entity: string,
+	mode: TemplateMode,
+): ExpectedTemplateFile[] {
+	return getExpectedTemplateFiles(entity, mode).filter(
+		(file) => !existsSync(`${outputPath}/${file.path}`),
+	);
+}
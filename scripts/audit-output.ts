@@ -15,7 +15,7 @@ import path from "node:path";
 type StepStatus = {
 	stepNumber: number;
 	name: string;
-	status: "pending" | "running" | "completed" | "failed" | "skipped";
+	status: "pending" | "running" | "completed" | "failed" | "timed-out" | "skipped";
 	outputFile?: string;
 };
 
@@ -122,7 +122,9 @@ async function auditEntity(outputRoot: string, folder: string, statusPath: strin
 	const hasTemplatesFolder = await exists(path.join(outputFolderPath, "templates"));
 
 	const steps = status.steps ?? [];
-	const problemSteps = steps.filter((s) => s.status === "failed" || s.status === "pending");
+	const problemSteps = steps.filter(
+		(s) => s.status === "failed" || s.status === "timed-out" || s.status === "pending",
+	);
 
 	const missingStepOutputs: EntityAudit["missingStepOutputs"] = [];
 	for (const s of steps) {
@@ -0,0 +1,414 @@
+#!/usr/bin/env -S bun run
+/**
+ * BATCH CONVERT: Run the orchestrator for many entities/forms under one concurrency limit
+ *
+ * Items can be selected by entity name, by form name, by a glob over the available
+ * forms, or from a master plan index (e.g. output/Barge/master-barge-index.json).
+ * Search/Detail forms of the same entity collapse into a single orchestrator run.
+ *
+ * Progress for every item is written to one roll-up file (output/_batch-status.json),
+ * and each orchestrator run logs to output/_batch-logs/{Entity}.log. An interrupted
+ * batch can be continued with --resume: completed items are skipped and the others
+ * are rerun with the orchestrator's own --resume.
+ *
+ * Usage:
+ *   bun run scripts/batch-convert.ts --entities "Barge,BargeSeries,Vendor"
+ *   bun run scripts/batch-convert.ts --forms "frmBargeSearch,frmBargeDraft,frmFuelPrices"
+ *   bun run scripts/batch-convert.ts --glob "frmBarge*"
+ *   bun run scripts/batch-convert.ts --index output/Barge/master-barge-index.json
+ *   bun run scripts/batch-convert.ts --resume
+ *
+ * Options:
+ *   --concurrency <n>       Orchestrator runs at the same time (default: 2)
+ *   --step-concurrency <n>  Agents per orchestrator run (default: 1, so at most n agents run in total)
+ *   --dry-run               List the items that would run without starting them
+ */
+
+import { closeSync, existsSync, openSync } from "node:fs";
+import { mkdir } from "node:fs/promises";
+import { isAbsolute, join } from "node:path";
+import { Glob, spawn } from "bun";
+import { parsedArgs } from "../lib/flags";
+import { getProjectRoot, parseEntityFromFormName } from "../lib/paths";
+import { getAvailableForms } from "../lib/source-index";
+
+const projectRoot = getProjectRoot(import.meta.url);
+const outputRoot = `${projectRoot}output`;
+const batchStatusPath = `${outputRoot}/_batch-status.json`;
+const batchLogsPath = `${outputRoot}/_batch-logs`;
+
+const DEFAULT_BATCH_CONCURRENCY = 2;
+const DEFAULT_STEP_CONCURRENCY = 1;
+
+interface BatchItem {
+	entity: string;
+	formName?: string; // Only set for single (non-Search/Detail) forms
+	status: "pending" | "running" | "completed" | "failed" | "interrupted";
+	startTime?: string;
+	endTime?: string;
+	durationMs?: number;
+	exitCode?: number;
+	logFile?: string;
+}
+
+interface BatchStatus {
+	overallStatus: "running" | "completed" | "failed" | "interrupted";
+	startTime: string;
+	endTime?: string;
+	durationMs?: number;
+	concurrency: number;
+	stepConcurrency: number;
+	source: string;
+	totalItems: number;
+	completedItems: number;
+	failedItems: number;
+	items: BatchItem[];
+}
+
+interface BatchOptions {
+	entities: string[];
+	forms: string[];
+	glob?: string;
+	index?: string;
+	resume: boolean;
+	dryRun: boolean;
+	concurrency: number;
+	stepConcurrency: number;
+}
+
+interface MasterPlanIndex {
+	screens: Array<{ legacyForm: string }>;
+}
+
+function splitList(value: unknown): string[] {
+	if (typeof value !== "string") return [];
+	return value
+		.split(",")
+		.map((part) => part.trim())
+		.filter(Boolean);
+}
+
+function parsePositiveInt(name: string, value: unknown, fallback: number): number {
+	if (value === undefined) return fallback;
+	const parsed = Number.parseInt(String(value), 10);
+	if (!Number.isInteger(parsed) || parsed < 1) {
+		console.error(`Error: --${name} must be a positive integer (got "${value}")`);
+		process.exit(1);
+	}
+	return parsed;
+}
+
+function parseOptions(): BatchOptions {
+	const values = parsedArgs.values;
+	const options: BatchOptions = {
+		entities: splitList(values.entities),
+		forms: splitList(values.forms),
+		glob: typeof values.glob === "string" ? values.glob : undefined,
+		index: typeof values.index === "string" ? values.index : undefined,
+		resume: values.resume === true,
+		dryRun: values["dry-run"] === true,
+		concurrency: parsePositiveInt("concurrency", values.concurrency, DEFAULT_BATCH_CONCURRENCY),
+		stepConcurrency: parsePositiveInt(
+			"step-concurrency",
+			values["step-concurrency"],
+			DEFAULT_STEP_CONCURRENCY,
+		),
+	};
+
+	const hasSelection =
+		options.entities.length > 0 || options.forms.length > 0 || options.glob || options.index;
+	if (!hasSelection && !options.resume) {
+		console.error(
+			"Error: select items with --entities, --forms, --glob or --index (or continue with --resume)",
+		);
+		console.error('Usage: bun run scripts/batch-convert.ts --entities "Barge,Vendor"');
+		console.error('       bun run scripts/batch-convert.ts --glob "frmBarge*"');
+		console.error(
+			"       bun run scripts/batch-convert.ts --index output/Barge/master-barge-index.json",
+		);
+		console.error("       bun run scripts/batch-convert.ts --resume");
+		process.exit(1);
+	}
+
+	return options;
+}
+
+/**
+ * Map a form name to the orchestrator run that covers it.
+ * Search/Detail forms run as an entity pair; anything else is a single form.
+ */
+function itemFromFormName(formName: string): BatchItem | null {
+	const entity = parseEntityFromFormName(formName);
+	if (entity) {
+		return { entity, status: "pending" };
+	}
+	if (formName.toLowerCase().startsWith("frm") && formName.length > 3) {
+		return { entity: formName.substring(3), formName, status: "pending" };
+	}
+	console.warn(
+		`⚠️  Ignoring "${formName}": expected frm{Entity}Search, frm{Entity}Detail or frm{Entity}`,
+	);
+	return null;
+}
+
+async function collectItems(
+	options: BatchOptions,
+): Promise<{ items: BatchItem[]; source: string }> {
+	const formNames: string[] = [...options.forms];
+	const sources: string[] = [];
+
+	if (options.entities.length > 0) sources.push(`entities: ${options.entities.join(", ")}`);
+	if (options.forms.length > 0) sources.push(`forms: ${options.forms.join(", ")}`);
+
+	if (options.glob) {
+		const glob = new Glob(options.glob);
+		const matches = (await getAvailableForms()).filter((form) => glob.match(form));
+		if (matches.length === 0) {
+			console.warn(`⚠️  No available forms match "${options.glob}"`);
+		}
+		formNames.push(...matches);
+		sources.push(`glob: ${options.glob}`);
+	}
+
+	if (options.index) {
+		const indexPath = isAbsolute(options.index)
+			? options.index
+			: join(process.cwd(), options.index);
+		if (!existsSync(indexPath)) {
+			console.error(`Error: master plan index not found: ${indexPath}`);
+			process.exit(1);
+		}
+		const index = (await Bun.file(indexPath).json()) as MasterPlanIndex;
+		formNames.push(...(index.screens ?? []).map((screen) => screen.legacyForm));
+		sources.push(`index: ${options.index}`);
+	}
+
+	// One orchestrator run per output folder: entity pairs and single forms are keyed by entity
+	const byEntity = new Map<string, BatchItem>();
+	for (const entity of options.entities) {
+		byEntity.set(entity, { entity, status: "pending" });
+	}
+	for (const formName of formNames) {
+		const item = itemFromFormName(formName);
+		if (item && !byEntity.has(item.entity)) {
+			byEntity.set(item.entity, item);
+		}
+	}
+
+	return { items: Array.from(byEntity.values()), source: sources.join("; ") };
+}
+
+// Items finish concurrently; chain writes so the roll-up file is never written out of order.
+let batchWriteChain: Promise<void> = Promise.resolve();
+
+function writeBatchStatus(status: BatchStatus): Promise<void> {
+	status.completedItems = status.items.filter((item) => item.status === "completed").length;
+	status.failedItems = status.items.filter((item) => item.status === "failed").length;
+	const snapshot = JSON.stringify(status, null, 2);
+	batchWriteChain = batchWriteChain.then(async () => {
+		try {
+			await Bun.write(batchStatusPath, snapshot);
+		} catch (error) {
+			console.error(`Error writing ${batchStatusPath}: ${error}`);
+		}
+	});
+	return batchWriteChain;
+}
+
+async function readBatchStatus(): Promise<BatchStatus | null> {
+	if (!existsSync(batchStatusPath)) return null;
+	try {
+		return (await Bun.file(batchStatusPath).json()) as BatchStatus;
+	} catch (error) {
+		console.warn(`Warning: Could not read ${batchStatusPath}: ${error}`);
+		return null;
+	}
+}
+
+// Orchestrator processes still running, so an interrupt can stop them
+const runningChildren = new Set<ReturnType<typeof spawn>>();
+
+function itemLabel(item: BatchItem): string {
+	return item.formName ? `${item.entity} (${item.formName})` : item.entity;
+}
+
+async function runItem(item: BatchItem, status: BatchStatus, resumeItem: boolean): Promise<void> {
+	const outputPath = `${outputRoot}/${item.entity}`;
+	const logFile = `${batchLogsPath}/${item.entity}.log`;
+	const args = ["run", `${projectRoot}agents/orchestrator.ts`, "--entity", item.entity];
+
+	if (item.formName) {
+		args.push("--form-name", item.formName);
+	}
+	args.push("--concurrency", String(status.stepConcurrency));
+
+	// Continue an interrupted/failed entity from its own status file instead of starting over
+	if (resumeItem && existsSync(`${outputPath}/conversion-status.json`)) {
+		args.push("--resume");
+	}
+
+	const startedAt = Date.now();
+	item.status = "running";
+	item.startTime = new Date(startedAt).toISOString();
+	item.endTime = undefined;
+	item.durationMs = undefined;
+	item.exitCode = undefined;
+	item.logFile = logFile;
+	await writeBatchStatus(status);
+
+	console.log(`▶️  ${itemLabel(item)} started (log: ${logFile})`);
+
+	// One descriptor for both streams, so stderr is appended after stdout instead of over it
+	const logFd = openSync(logFile, "a");
+	const child = spawn(["bun", ...args], {
+		stdin: "ignore",
+		stdout: logFd,
+		stderr: logFd,
+		env: {
+			...process.env,
+			CLAUDE_PROJECT_DIR: projectRoot,
+		},
+	});
+	runningChildren.add(child);
+	const exitCode = await child.exited;
+	runningChildren.delete(child);
+	closeSync(logFd);
+
+	if (status.overallStatus === "interrupted") {
+		return;
+	}
+
+	item.exitCode = exitCode;
+	item.endTime = new Date().toISOString();
+	item.durationMs = Date.now() - startedAt;
+	item.status = exitCode === 0 ? "completed" : "failed";
+	await writeBatchStatus(status);
+
+	const seconds = (item.durationMs / 1000).toFixed(2);
+	if (exitCode === 0) {
+		console.log(`✅ ${itemLabel(item)} completed in ${seconds}s`);
+	} else {
+		console.error(
+			`❌ ${itemLabel(item)} failed with exit code ${exitCode} after ${seconds}s (see ${logFile})`,
+		);
+	}
+}
+
+async function runBatch(status: BatchStatus, resumeItems: boolean): Promise<void> {
+	const queue = status.items.filter((item) => item.status !== "completed");
+	const workers = Array.from({ length: Math.min(status.concurrency, queue.length) }, async () => {
+		for (let item = queue.shift(); item; item = queue.shift()) {
+			if (status.overallStatus === "interrupted") return;
+			await runItem(item, status, resumeItems);
+		}
+	});
+	await Promise.all(workers);
+}
+
+async function main() {
+	const options = parseOptions();
+	let status: BatchStatus;
+
+	if (options.resume) {
+		const existing = await readBatchStatus();
+		if (!existing) {
+			console.error(`\n❌ Error: No batch status found at ${batchStatusPath}`);
+			console.error("Start a batch with --entities, --forms, --glob or --index first.\n");
+			process.exit(1);
+		}
+		status = existing;
+		status.overallStatus = "running";
+		status.endTime = undefined;
+		status.durationMs = undefined;
+		if (parsedArgs.values.concurrency !== undefined) status.concurrency = options.concurrency;
+		if (parsedArgs.values["step-concurrency"] !== undefined)
+			status.stepConcurrency = options.stepConcurrency;
+
+		const remaining = status.items.filter((item) => item.status !== "completed");
+		if (remaining.length === 0) {
+			console.log("\n✅ All batch items already completed. Nothing to resume.");
+			process.exit(0);
+		}
+		console.log(
+			`\n🔄 Resuming batch: ${remaining.length} of ${status.items.length} item(s) remaining`,
+		);
+	} else {
+		const { items, source } = await collectItems(options);
+		if (items.length === 0) {
+			console.error("\n❌ Error: The selection did not match any entities or forms.\n");
+			process.exit(1);
+		}
+		status = {
+			overallStatus: "running",
+			startTime: new Date().toISOString(),
+			concurrency: options.concurrency,
+			stepConcurrency: options.stepConcurrency,
+			source,
+			totalItems: items.length,
+			completedItems: 0,
+			failedItems: 0,
+			items,
+		};
+	}
+
+	console.log(`\nBatch items (${status.items.length}):`);
+	for (const item of status.items) {
+		console.log(`  - ${itemLabel(item)} [${item.status}]`);
+	}
+	console.log(
+		`\nRunning ${status.concurrency} orchestrator(s) at a time, ${status.stepConcurrency} agent(s) each\n`,
+	);
+
+	if (options.dryRun) {
+		console.log("DRY RUN: no orchestrator runs started.\n");
+		return;
+	}
+
+	await mkdir(batchLogsPath, { recursive: true });
+	await writeBatchStatus(status);
+
+	const startedAt = Date.now();
+	const onInterrupt = async () => {
+		status.overallStatus = "interrupted";
+		for (const item of status.items) {
+			if (item.status === "running") item.status = "interrupted";
+		}
+		// Each orchestrator stops its agents before it exits
+		const children = [...runningChildren];
+		for (const child of children) {
+			try {
+				child.kill("SIGTERM");
+			} catch {}
+		}
+		await writeBatchStatus(status);
+		await Promise.all(children.map((child) => child.exited));
+		console.error(
+			"\n⏹️  Batch interrupted. Continue with: bun run scripts/batch-convert.ts --resume\n",
+		);
+		process.exit(130);
+	};
+	process.on("SIGINT", onInterrupt);
+	process.on("SIGTERM", onInterrupt);
+
+	await runBatch(status, options.resume);
+
+	const failed = status.items.filter((item) => item.status === "failed");
+	status.overallStatus = failed.length === 0 ? "completed" : "failed";
+	status.endTime = new Date().toISOString();
+	status.durationMs = Date.now() - startedAt;
+	await writeBatchStatus(status);
+
+	console.log(`\n${"=".repeat(80)}`);
+	console.log(`Batch finished in ${(status.durationMs / 1000).toFixed(2)}s`);
+	console.log(`  Completed: ${status.completedItems}/${status.totalItems}`);
+	if (failed.length > 0) {
+		console.log(`  Failed: ${failed.map(itemLabel).join(", ")}`);
+		console.log("\nTo retry the failed items:");
+		console.log("   bun run scripts/batch-convert.ts --resume");
+	}
+	console.log(`\nStatus saved to: ${batchStatusPath}\n`);
+
+	process.exit(failed.length === 0 ? 0 : 1);
+}
+
+await main();
@@ -0,0 +1,93 @@
+#!/usr/bin/env -S bun run
+/**
+ * CHECK CONSISTENCY: Cross-reference an entity's analysis artifacts (no LLM)
+ *
+ * Loads every analysis file in output/{Entity}/ and reports references with no
+ * counterpart in the other artifacts: controls used by validation, tabs, workflow or
+ * security that the form structure does not define, secured buttons workflow.json never
+ * mentions, stored procedure result columns and validated properties missing from
+ * business-logic.json, and relationships the artifacts disagree on. Writes
+ * consistency-report.json and consistency-report.md next to the artifacts.
+ *
+ * Without --entity every entity folder under output/ is checked.
+ *
+ * Usage:
+ *   bun run scripts/check-consistency.ts --entity "Barge"
+ *   bun run scripts/check-consistency.ts
+ *   bun run scripts/check-consistency.ts --entity "Barge" --print   (JSON, nothing written)
+ *   bun run scripts/check-consistency.ts --entity "Barge" --output "./custom/output/Barge"
+ */
+
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { checkConsistency, formatConsistencyReport } from "../lib/consistency-check";
+import { parsedArgs } from "../lib/flags";
+import { getOutputPath, getProjectRoot } from "../lib/paths";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+async function listEntities(): Promise<string[]> {
+	const outputRoot = `${projectRoot}/output`;
+	if (!existsSync(outputRoot)) return [];
+	const entries = await readdir(outputRoot, { withFileTypes: true });
+	return entries
+		.filter((entry) => entry.isDirectory() && !entry.name.startsWith("_"))
+		.map((entry) => entry.name)
+		.sort();
+}
+
+async function main() {
+	const entity = parsedArgs.values.entity as string | undefined;
+	const customOutput = parsedArgs.values.output as string | undefined;
+	const print = parsedArgs.values.print === true;
+
+	if (!entity && customOutput) {
+		console.error("Error: --output requires --entity");
+		process.exit(1);
+	}
+
+	const entities = entity ? [entity] : await listEntities();
+	if (entities.length === 0) {
+		console.error("No entity output folders found under output/");
+		process.exit(1);
+	}
+
+	let totalFindings = 0;
+	for (const name of entities) {
+		const outputPath = getOutputPath(projectRoot, name, customOutput);
+		if (!existsSync(outputPath)) {
+			console.error(`Error: Output folder not found: ${outputPath}`);
+			process.exit(1);
+		}
+
+		const report = await checkConsistency(outputPath, name);
+		totalFindings += report.findings.length;
+
+		if (print) {
+			console.log(JSON.stringify(report, null, 2));
+			continue;
+		}
+
+		if (report.artifacts.length === 0) {
+			console.log(`${name}: no analysis artifacts, skipped`);
+			continue;
+		}
+
+		await Bun.write(`${outputPath}/consistency-report.json`, JSON.stringify(report, null, 2));
+		await Bun.write(`${outputPath}/consistency-report.md`, formatConsistencyReport(report));
+
+		const counts = report.checks
+			.filter((check) => !check.skipped)
+			.map((check) => `${check.id} ${check.dangling}`)
+			.join(", ");
+		console.log(
+			`${name}: ${report.findings.length} dangling reference(s) (${counts || "no checks ran"}) -> ${outputPath}/consistency-report.md`,
+		);
+	}
+
+	if (!print && entities.length > 1) {
+		console.log(`\n${totalFindings} dangling reference(s) across ${entities.length} entities`);
+	}
+}
+
+await main();
@@ -0,0 +1,542 @@
+#!/usr/bin/env -S bun run
+/**
+ * DASHBOARD: Conversion progress in the browser (no LLM)
+ *
+ * Serves a local page built from every output/{Entity}/conversion-status.json, the last
+ * output/_audit-output.json and the master plan indexes: step progress and durations,
+ * failures, whether templates were generated and whether they are deployed to the target
+ * projects. The page re-reads the status every few seconds, so it follows a running
+ * orchestrator without a reload.
+ *
+ * Usage:
+ *   bun run scripts/dashboard.ts
+ *   bun run scripts/dashboard.ts --port 4000
+ *   bun run scripts/dashboard.ts --host 0.0.0.0   (listen on every interface, not just this machine)
+ *   bun run scripts/dashboard.ts --output "./custom/output"
+ *   bun run scripts/dashboard.ts --print   (write the JSON snapshot to stdout and exit)
+ *
+ * Endpoints:
+ *   /              Dashboard page
+ *   /api/status    JSON snapshot of all entities and master plans
+ */
+
+import { existsSync } from "node:fs";
+import { readFile, readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import { type PlannedFile, planDeployment } from "../lib/deployment";
+import { parsedArgs } from "../lib/flags";
+import { getProjectRoot, getTemplateDeployTargets } from "../lib/paths";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = "127.0.0.1";
+const REFRESH_MS = 2000;
+
+type StepState = "pending" | "running" | "completed" | "failed" | "timed-out" | "skipped";
+
+interface StepStatus {
+	stepNumber: number;
+	stepId?: string;
+	name: string;
+	status: StepState;
+	startTime?: string;
+	endTime?: string;
+	durationMs?: number;
+	error?: string;
+	timedOut?: string;
+	validationErrors?: string[];
+	attempts?: unknown[];
+}
+
+interface ConversionStatus {
+	entity: string;
+	formName?: string;
+	overallStatus: "running" | "completed" | "failed";
+	startTime: string;
+	endTime?: string;
+	durationMs?: number;
+	totalSteps: number;
+	completedSteps: number;
+	failedSteps: number;
+	skippedSteps: number;
+	totalCostUsd?: number;
+	steps: StepStatus[];
+}
+
+interface AuditEntry {
+	folder: string;
+	problemSteps: unknown[];
+	missingStepOutputs: unknown[];
+	missingForTemplateGen: string[];
+}
+
+type DeployState =
+	| "no-templates"
+	| "not-deployed"
+	| "partial"
+	| "modified"
+	| "deployed"
+	| "unavailable";
+
+interface DeployCheck {
+	state: DeployState;
+	files: number; // Template files that have a deploy target
+	identical: number;
+	changed: number; // Present in the target project with different content
+	missing: number;
+}
+
+interface DashboardEntity {
+	folder: string;
+	entity: string;
+	formName?: string;
+	overallStatus: ConversionStatus["overallStatus"];
+	startTime: string;
+	endTime?: string;
+	durationMs?: number;
+	totalSteps: number;
+	completedSteps: number;
+	failedSteps: number;
+	skippedSteps: number;
+	totalCostUsd?: number;
+	steps: Array<{
+		stepNumber: number;
+		stepId?: string;
+		name: string;
+		status: StepState;
+		startTime?: string;
+		durationMs?: number;
+		error?: string;
+		timedOut?: string;
+		validationErrors: number;
+		attempts: number;
+	}>;
+	templateFiles: number; // 0 when output/{Entity}/templates is missing
+	deploy: DeployCheck;
+	audit?: {
+		problemSteps: number;
+		missingStepOutputs: number;
+		missingForTemplateGen: string[];
+	};
+}
+
+interface DashboardMasterPlan {
+	family: string;
+	file: string;
+	generatedAt?: string;
+	roots: string[];
+	screens: Array<{ screenId: string; label: string; entityFolder?: string }>;
+}
+
+interface DashboardSnapshot {
+	generatedAt: string;
+	outputRoot: string;
+	auditGeneratedAt?: string;
+	entities: DashboardEntity[];
+	masterPlans: DashboardMasterPlan[];
+}
+
+// Last status that parsed, per file: the orchestrator rewrites these while it runs
+const lastGoodStatus = new Map<string, ConversionStatus>();
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+	try {
+		return JSON.parse(await readFile(filePath, "utf8")) as T;
+	} catch {
+		return null;
+	}
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+	if (!existsSync(dir)) return [];
+	const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+	return entries
+		.filter((entry) => entry.isFile())
+		.map((entry) => path.relative(dir, path.join(entry.parentPath, entry.name)));
+}
+
+// Deploy check per templates folder, reused while no template or target file changes: planning
+// reads every template and target and rewrites namespaces, too much for every page refresh
+const deployChecks = new Map<
+	string,
+	{ fingerprint: string; targets: string[]; check: DeployCheck }
+>();
+
+/**
+ * Hash of the size and modification time of each file (missing files included)
+ */
+async function fingerprintFiles(filePaths: string[]): Promise<string> {
+	const stamps = await Promise.all(
+		filePaths.map(async (filePath) => {
+			try {
+				const stats = await stat(filePath);
+				return `${filePath}:${stats.size}:${stats.mtimeMs}`;
+			} catch {
+				return `${filePath}:missing`;
+			}
+		}),
+	);
+	return Bun.hash(stamps.join("\n")).toString(16);
+}
+
+function summarizeDeploy(templatesPath: string, files: PlannedFile[]): DeployCheck {
+	const check: DeployCheck = {
+		state: "no-templates",
+		files: 0,
+		identical: 0,
+		changed: 0,
+		missing: 0,
+	};
+	const targetsFound = getTemplateDeployTargets().some(
+		({ template, target }) => existsSync(path.join(templatesPath, template)) && existsSync(target),
+	);
+	for (const file of files) {
+		check.files++;
+		if (!file.exists) check.missing++;
+		else if (file.identical) check.identical++;
+		else check.changed++;
+	}
+
+	if (check.files === 0) check.state = "no-templates";
+	else if (!targetsFound) check.state = "unavailable";
+	else if (check.missing === check.files) check.state = "not-deployed";
+	else if (check.changed > 0) check.state = "modified";
+	else if (check.missing > 0) check.state = "partial";
+	else check.state = "deployed";
+	return check;
+}
+
+async function checkDeploy(templatesPath: string): Promise<DeployCheck> {
+	if (!existsSync(templatesPath)) {
+		return { state: "no-templates", files: 0, identical: 0, changed: 0, missing: 0 };
+	}
+
+	const templates = (await listFiles(templatesPath)).map((file) => path.join(templatesPath, file));
+	const cached = deployChecks.get(templatesPath);
+	if (
+		cached &&
+		cached.fingerprint === (await fingerprintFiles([...templates, ...cached.targets]))
+	) {
+		return cached.check;
+	}
+
+	// Compared with the content deploy-templates would write, namespaces rewritten
+	const { files } = planDeployment(templatesPath);
+	const targets = files.map((file) => file.target);
+	const check = summarizeDeploy(templatesPath, files);
+	deployChecks.set(templatesPath, {
+		fingerprint: await fingerprintFiles([...templates, ...targets]),
+		targets,
+		check,
+	});
+	return check;
+}
+
+async function loadEntity(
+	outputRoot: string,
+	folder: string,
+	audits: Map<string, AuditEntry>,
+): Promise<DashboardEntity | null> {
+	const statusPath = path.join(outputRoot, folder, "conversion-status.json");
+	const status = (await readJson<ConversionStatus>(statusPath)) ?? lastGoodStatus.get(statusPath);
+	if (!status) return null;
+	lastGoodStatus.set(statusPath, status);
+
+	const templatesPath = path.join(outputRoot, folder, "templates");
+	const audit = audits.get(folder);
+
+	return {
+		folder,
+		entity: status.entity,
+		formName: status.formName,
+		overallStatus: status.overallStatus,
+		startTime: status.startTime,
+		endTime: status.endTime,
+		durationMs: status.durationMs,
+		totalSteps: status.totalSteps,
+		completedSteps: status.completedSteps,
+		failedSteps: status.failedSteps,
+		skippedSteps: status.skippedSteps,
+		totalCostUsd: status.totalCostUsd,
+		steps: (status.steps ?? []).map((step) => ({
+			stepNumber: step.stepNumber,
+			stepId: step.stepId,
+			name: step.name,
+			status: step.status,
+			startTime: step.startTime,
+			durationMs: step.durationMs,
+			error: step.error,
+			timedOut: step.timedOut,
+			validationErrors: step.validationErrors?.length ?? 0,
+			attempts: step.attempts?.length ?? 0,
+		})),
+		templateFiles: (await listFiles(templatesPath)).length,
+		deploy: await checkDeploy(templatesPath),
+		audit: audit && {
+			problemSteps: audit.problemSteps.length,
+			missingStepOutputs: audit.missingStepOutputs.length,
+			missingForTemplateGen: audit.missingForTemplateGen,
+		},
+	};
+}
+
+async function loadMasterPlans(
+	outputRoot: string,
+	folders: string[],
+): Promise<DashboardMasterPlan[]> {
+	const plans: DashboardMasterPlan[] = [];
+	for (const folder of folders) {
+		const files = await readdir(path.join(outputRoot, folder)).catch(() => []);
+		for (const file of files.filter((name) => /^master-.+-index\.json$/.test(name))) {
+			const index = await readJson<{
+				generatedAt?: string;
+				family?: string;
+				roots?: string[];
+				screens?: DashboardMasterPlan["screens"];
+			}>(path.join(outputRoot, folder, file));
+			if (!index) continue;
+			plans.push({
+				family: index.family ?? folder,
+				file: `${folder}/${file}`,
+				generatedAt: index.generatedAt,
+				roots: index.roots ?? [],
+				screens: (index.screens ?? []).map(({ screenId, label, entityFolder }) => ({
+					screenId,
+					label,
+					entityFolder,
+				})),
+			});
+		}
+	}
+	return plans;
+}
+
+async function buildSnapshot(outputRoot: string): Promise<DashboardSnapshot> {
+	const auditFile = await readJson<{ generatedAt?: string; audits?: AuditEntry[] }>(
+		path.join(outputRoot, "_audit-output.json"),
+	);
+	const audits = new Map((auditFile?.audits ?? []).map((audit) => [audit.folder, audit]));
+
+	const folders = existsSync(outputRoot)
+		? (await readdir(outputRoot, { withFileTypes: true }))
+				.filter((entry) => entry.isDirectory() && !entry.name.startsWith("_"))
+				.map((entry) => entry.name)
+				.sort((a, b) => a.localeCompare(b))
+		: [];
+
+	const entities: DashboardEntity[] = [];
+	for (const folder of folders) {
+		const entity = await loadEntity(outputRoot, folder, audits);
+		if (entity) entities.push(entity);
+	}
+
+	return {
+		generatedAt: new Date().toISOString(),
+		outputRoot,
+		auditGeneratedAt: auditFile?.generatedAt,
+		entities,
+		masterPlans: await loadMasterPlans(outputRoot, folders),
+	};
+}
+
+// Client code is kept free of template literals so it can live in this one
+const PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Conversion Dashboard</title>
+<style>
+	body { font: 14px/1.4 system-ui, sans-serif; margin: 24px; color: #1f2328; }
+	h1 { font-size: 20px; margin: 0 0 4px; }
+	h2 { font-size: 16px; margin: 28px 0 8px; }
+	.meta { color: #656d76; margin-bottom: 16px; }
+	.totals span { margin-right: 16px; }
+	table { border-collapse: collapse; width: 100%; }
+	th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #d0d7de; vertical-align: top; }
+	th { background: #f6f8fa; font-weight: 600; }
+	tr.entity { cursor: pointer; }
+	tr.entity:hover { background: #f6f8fa; }
+	tr.steps > td { background: #fbfcfd; padding: 4px 8px 12px 32px; }
+	.bar { width: 140px; height: 8px; background: #eaeef2; border-radius: 4px; overflow: hidden; display: inline-block; vertical-align: middle; margin-right: 6px; }
+	.bar > div { height: 100%; background: #1a7f37; }
+	.badge { display: inline-block; padding: 0 6px; border-radius: 10px; font-size: 12px; background: #eaeef2; }
+	.completed, .deployed { background: #dafbe1; color: #1a7f37; }
+	.running, .partial { background: #ddf4ff; color: #0969da; }
+	.failed, .timed-out, .modified { background: #ffebe9; color: #cf222e; }
+	.skipped, .pending, .not-deployed, .no-templates, .unavailable { background: #eaeef2; color: #656d76; }
+	.error { color: #cf222e; font-size: 12px; }
+	.muted { color: #656d76; }
+</style>
+</head>
+<body>
+<h1>Conversion Dashboard</h1>
+<div class="meta" id="meta">Loading...</div>
+<div class="totals" id="totals"></div>
+<h2>Entities</h2>
+<table>
+	<thead><tr><th>Entity</th><th>Status</th><th>Progress</th><th>Duration</th><th>Failures</th><th>Templates</th><th>Deploy</th><th>Audit</th></tr></thead>
+	<tbody id="entities"></tbody>
+</table>
+<div id="plans"></div>
+<script>
+const REFRESH_MS = ${REFRESH_MS};
+const expanded = new Set();
+
+function esc(value) {
+	return String(value ?? "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+}
+
+function formatDuration(ms) {
+	if (ms == null) return "";
+	const seconds = Math.round(ms / 1000);
+	if (seconds < 60) return seconds + "s";
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) return minutes + "m " + (seconds % 60) + "s";
+	return Math.floor(minutes / 60) + "h " + (minutes % 60) + "m";
+}
+
+function elapsed(startTime, durationMs) {
+	if (durationMs != null) return formatDuration(durationMs);
+	if (!startTime) return "";
+	return formatDuration(Date.now() - Date.parse(startTime)) + " so far";
+}
+
+function badge(text, cls) {
+	return '<span class="badge ' + esc(cls || text) + '">' + esc(text) + "</span>";
+}
+
+function deployCell(deploy) {
+	if (deploy.state === "no-templates") return '<span class="muted">-</span>';
+	const detail = deploy.identical + "/" + deploy.files + " identical" +
+		(deploy.changed ? ", " + deploy.changed + " changed" : "") +
+		(deploy.missing && deploy.state !== "not-deployed" ? ", " + deploy.missing + " missing" : "");
+	return badge(deploy.state) + (deploy.state === "unavailable" ? "" : ' <span class="muted">' + esc(detail) + "</span>");
+}
+
+function auditCell(audit) {
+	if (!audit) return '<span class="muted">-</span>';
+	const issues = audit.problemSteps + audit.missingStepOutputs + audit.missingForTemplateGen.length;
+	if (issues === 0) return badge("ok", "completed");
+	const title = audit.missingForTemplateGen.length ? "Missing: " + audit.missingForTemplateGen.join(", ") : "";
+	return '<span title="' + esc(title) + '">' + badge(issues + " issue(s)", "failed") + "</span>";
+}
+
+function stepsRow(entity) {
+	const rows = entity.steps.map((step) => {
+		const notes = [];
+		if (step.timedOut) notes.push(step.timedOut + " timeout");
+		if (step.attempts > 1) notes.push(step.attempts + " attempts");
+		if (step.validationErrors) notes.push(step.validationErrors + " validation error(s)");
+		return "<tr><td>" + step.stepNumber + "</td><td>" + esc(step.name) + "</td><td>" + badge(step.status) +
+			"</td><td>" + esc(step.status === "running" || step.durationMs != null ? elapsed(step.startTime, step.durationMs) : "") +
+			"</td><td>" + esc(notes.join(", ")) + (step.error ? '<div class="error">' + esc(step.error) + "</div>" : "") + "</td></tr>";
+	});
+	return '<tr class="steps"><td colspan="8"><table><thead><tr><th>#</th><th>Step</th><th>Status</th><th>Duration</th><th>Notes</th></tr></thead><tbody>' +
+		rows.join("") + "</tbody></table></td></tr>";
+}
+
+function render(snapshot) {
+	const running = snapshot.entities.filter((e) => e.overallStatus === "running").length;
+	const failed = snapshot.entities.filter((e) => e.overallStatus === "failed").length;
+	const deployed = snapshot.entities.filter((e) => e.deploy.state === "deployed").length;
+	document.getElementById("meta").textContent = snapshot.outputRoot + " - updated " +
+		new Date(snapshot.generatedAt).toLocaleTimeString() +
+		(snapshot.auditGeneratedAt ? " - audit from " + new Date(snapshot.auditGeneratedAt).toLocaleString() : " - no _audit-output.json yet");
+	document.getElementById("totals").innerHTML =
+		"<span>" + snapshot.entities.length + " entities</span><span>" + running + " running</span><span>" +
+		failed + " failed</span><span>" + deployed + " deployed</span>";
+
+	const rows = [];
+	for (const entity of snapshot.entities) {
+		const done = entity.completedSteps + entity.skippedSteps;
+		const percent = entity.totalSteps ? Math.round((done / entity.totalSteps) * 100) : 0;
+		rows.push('<tr class="entity" data-folder="' + esc(entity.folder) + '"><td><strong>' + esc(entity.folder) + "</strong>" +
+			(entity.formName ? ' <span class="muted">' + esc(entity.formName) + "</span>" : "") + "</td><td>" +
+			badge(entity.overallStatus) + "</td><td>" + '<span class="bar"><div style="width:' + percent + '%"></div></span>' +
+			done + "/" + entity.totalSteps + "</td><td>" + esc(elapsed(entity.startTime, entity.durationMs)) + "</td><td>" +
+			(entity.failedSteps ? badge(entity.failedSteps + " failed", "failed") : '<span class="muted">0</span>') + "</td><td>" +
+			(entity.templateFiles ? entity.templateFiles + " file(s)" : '<span class="muted">none</span>') + "</td><td>" +
+			deployCell(entity.deploy) + "</td><td>" + auditCell(entity.audit) + "</td></tr>");
+		if (expanded.has(entity.folder)) rows.push(stepsRow(entity));
+	}
+	document.getElementById("entities").innerHTML = rows.join("") ||
+		'<tr><td colspan="8" class="muted">No conversion-status.json files found.</td></tr>';
+
+	const byFolder = new Map(snapshot.entities.map((e) => [e.folder, e]));
+	document.getElementById("plans").innerHTML = snapshot.masterPlans.map((plan) => {
+		const screens = plan.screens.map((screen) => {
+			const entity = screen.entityFolder ? byFolder.get(screen.entityFolder) : undefined;
+			return "<tr><td>" + esc(screen.label) + "</td><td>" + esc(screen.entityFolder || "") + "</td><td>" +
+				(entity ? badge(entity.overallStatus) : badge("not started", "pending")) + "</td><td>" +
+				(entity ? deployCell(entity.deploy) : "") + "</td></tr>";
+		});
+		return "<h2>Master plan: " + esc(plan.family) + ' <span class="muted">(' + esc(plan.file) + ")</span></h2>" +
+			"<table><thead><tr><th>Screen</th><th>Output folder</th><th>Status</th><th>Deploy</th></tr></thead><tbody>" +
+			screens.join("") + "</tbody></table>";
+	}).join("");
+}
+
+document.getElementById("entities").addEventListener("click", (event) => {
+	const row = event.target.closest("tr.entity");
+	if (!row) return;
+	const folder = row.dataset.folder;
+	if (expanded.has(folder)) expanded.delete(folder);
+	else expanded.add(folder);
+	refresh();
+});
+
+async function refresh() {
+	try {
+		const response = await fetch("/api/status", { cache: "no-store" });
+		render(await response.json());
+	} catch (error) {
+		document.getElementById("meta").textContent = "Dashboard server not reachable: " + error;
+	}
+}
+
+refresh();
+setInterval(refresh, REFRESH_MS);
+</script>
+</body>
+</html>
+`;
+
+async function main() {
+	const outputRoot = path.resolve((parsedArgs.values.output as string) || `${projectRoot}output`);
+
+	if (parsedArgs.values.print === true) {
+		console.log(JSON.stringify(await buildSnapshot(outputRoot), null, 2));
+		return;
+	}
+
+	const port = Number.parseInt((parsedArgs.values.port as string) || String(DEFAULT_PORT), 10);
+	if (!Number.isInteger(port) || port < 0) {
+		console.error(`Error: --port must be a port number, got "${parsedArgs.values.port}"`);
+		process.exit(1);
+	}
+
+	const hostname = (parsedArgs.values.host as string) || DEFAULT_HOST;
+	const server = Bun.serve({
+		hostname,
+		port,
+		async fetch(request) {
+			const { pathname } = new URL(request.url);
+			if (pathname === "/") {
+				return new Response(PAGE, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+			}
+			if (pathname === "/api/status") {
+				return Response.json(await buildSnapshot(outputRoot), {
+					headers: { "Cache-Control": "no-store" },
+				});
+			}
+			return new Response("Not found", { status: 404 });
+		},
+	});
+
+	console.log(`\nConversion dashboard: http://${server.hostname}:${server.port}`);
+	console.log(`Reading: ${outputRoot}`);
+	console.log("Press Ctrl+C to stop.\n");
+}
+
+await main();
@@ -0,0 +1,103 @@
+#!/usr/bin/env -S bun run
+/**
+ * DEPLOY STATUS: Report which deployed files were changed by hand (no LLM)
+ *
+ * Reads the deployment manifests in output/{Entity}/deployments/ and compares every target
+ * the deployments still in effect wrote with the hash recorded at deploy time: clean,
+ * modified (hand-edited since the deployment) or missing. Templates regenerated since their
+ * deployment are flagged too, so a redeploy can be planned before it overwrites hand edits.
+ *
+ * Without --entity every entity with a deployments/ folder is reported.
+ *
+ * Usage:
+ *   bun run scripts/deploy-status.ts --entity "Barge"
+ *   bun run scripts/deploy-status.ts
+ *   bun run scripts/deploy-status.ts --entity "Barge" --print   (JSON)
+ *   bun run scripts/deploy-status.ts --entity "Barge" --output "./custom/output/Barge"
+ */
+
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { type DeploymentStatus, getDeploymentStatus, getDeploymentsPath } from "../lib/deployment";
+import { parsedArgs } from "../lib/flags";
+import { getOutputPath, getProjectRoot } from "../lib/paths";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+async function listDeployedEntities(): Promise<string[]> {
+	const outputRoot = `${projectRoot}/output`;
+	if (!existsSync(outputRoot)) return [];
+	const entries = await readdir(outputRoot, { withFileTypes: true });
+	return entries
+		.filter(
+			(entry) =>
+				entry.isDirectory() && existsSync(getDeploymentsPath(`${outputRoot}/${entry.name}`)),
+		)
+		.map((entry) => entry.name)
+		.sort();
+}
+
+function printStatus(status: DeploymentStatus): void {
+	if (!status.lastDeployment) {
+		console.log(`${status.entity}: not deployed (or every deployment was rolled back)`);
+		return;
+	}
+
+	const count = (state: string) => status.files.filter((file) => file.state === state).length;
+	const regenerated = status.files.filter((file) => file.templateChanged);
+	const head = status.lastDeployment.monorepoHead?.slice(0, 10) ?? "unknown";
+	console.log(
+		`${status.entity}: ${count("clean")} clean, ${count("modified")} modified, ${count("missing")} missing, ${regenerated.length} template(s) regenerated since`,
+	);
+	console.log(
+		`  Last deployment ${status.lastDeployment.deploymentId} (${status.deployments} in effect), monorepo HEAD ${head}`,
+	);
+
+	for (const file of status.files.filter((f) => f.state !== "clean")) {
+		console.log(`  ${file.state === "modified" ? "✎ Modified" : "✗ Missing"}: ${file.target}`);
+	}
+	for (const file of regenerated) {
+		console.log(`  ↻ Template regenerated: ${file.template}`);
+	}
+}
+
+async function main() {
+	const entity = parsedArgs.values.entity as string | undefined;
+	const customOutput = parsedArgs.values.output as string | undefined;
+	const print = parsedArgs.values.print === true;
+
+	if (!entity && customOutput) {
+		console.error("Error: --output requires --entity");
+		process.exit(1);
+	}
+
+	const entities = entity ? [entity] : await listDeployedEntities();
+	if (entities.length === 0) {
+		console.error("No deployments found under output/*/deployments");
+		process.exit(1);
+	}
+
+	const statuses: DeploymentStatus[] = [];
+	for (const name of entities) {
+		const outputPath = getOutputPath(projectRoot, name, customOutput);
+		statuses.push(await getDeploymentStatus(outputPath, name));
+	}
+
+	if (print) {
+		console.log(JSON.stringify(entity ? statuses[0] : statuses, null, 2));
+		return;
+	}
+
+	statuses.forEach(printStatus);
+
+	if (entities.length > 1) {
+		const drifted = statuses.filter((status) =>
+			status.files.some((file) => file.state !== "clean"),
+		);
+		console.log(
+			`\n${drifted.length} of ${entities.length} entities have hand-changed or missing files`,
+		);
+	}
+}
+
+await main();
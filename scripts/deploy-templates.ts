@@ -5,15 +5,60 @@
  * This script copies templates from output/{Entity}/templates/ to the target projects
  * in the MonoRepo, preserving directory structure and verifying paths.
  *
+ * A target file that already exists with different content is a conflict. Its unified diff
+ * is shown and it is overwritten, skipped or merged (git merge-file, conflict markers left
+ * in the file), as chosen per file at the prompt or for all files with --on-conflict.
+ * Without a terminal and without --on-conflict nothing is deployed while there are
+ * conflicts. Replaced files are backed up, and each deployment is recorded in
+ * output/{Entity}/deployments/{deploymentId}/manifest.json (see lib/deployment.ts) so
+ * --rollback can undo it.
+ *
+ * The namespace and using lines of .cs files are rewritten to the RootNamespace and folders
+ * of the project each file lands in (see lib/namespaces.ts); the rewrites are listed before
+ * deploying and recorded in the manifest.
+ *
+ * Deployed repositories and services are then registered (AddScoped for the API, AddHttpClient
+ * for the UI) in a marked region of the IServiceCollection extension, Program.cs or Startup.cs,
+ * and deployed .sql files are added to the .csproj as embedded resources (see
+ * lib/project-wiring.ts). These edits are recorded too and removed again by --rollback.
+ *
  * Usage:
  *   bun run scripts/deploy-templates.ts --entity "Vendor"
- *   bun run scripts/deploy-templates.ts --entity "Vendor" --dry-run  (preview only)
+ *   bun run scripts/deploy-templates.ts --entity "Vendor" --dry-run  (preview only, with diffs)
+ *   bun run scripts/deploy-templates.ts --entity "Vendor" --on-conflict skip|overwrite|merge
+ *   bun run scripts/deploy-templates.ts --entity "Vendor" --rollback 2025-12-18T09-12-44-120Z
+ *   bun run scripts/deploy-templates.ts --entity "Vendor" --rollback latest
  */
 
 import { parsedArgs } from "../lib/flags";
 import { getProjectRoot, getAdminApiPath, getAdminUiPath, getSharedProjectPath } from "../lib/paths";
-import { existsSync, mkdirSync, readdirSync, statSync, copyFileSync } from "fs";
-import { join, dirname, relative } from "path";
+import {
+	type ConflictResolution,
+	type DeployedFile,
+	type DeploymentManifest,
+	type PlannedFile,
+	CONFLICT_RESOLUTIONS,
+	backupTarget,
+	diffFiles,
+	findLastDeployedCopy,
+	findNewerDeployments,
+	getDeploymentPath,
+	getMonorepoHead,
+	getTargetProjectPaths,
+	hashFile,
+	hashText,
+	listDeployments,
+	mergeFiles,
+	planDeployment,
+	readDeploymentManifest,
+	rollbackDeployment,
+	writeDeployedFile,
+	writeDeploymentManifest,
+} from "../lib/deployment";
+import { type ProjectEdit, planProjectWiring } from "../lib/project-wiring";
+import { createRunId } from "../lib/run-history";
+import { existsSync } from "fs";
+import { createInterface } from "readline";
 
 const projectRoot = getProjectRoot(import.meta.url);
 
@@ -21,69 +66,123 @@ interface DeployOptions {
 	entity: string;
 	outputDir?: string;
 	dryRun?: boolean;
+	onConflict?: ConflictResolution;
+	rollback?: string;
 }
 
+const SECTIONS = [
+	{ prefix: "shared/", label: "Shared DTOs", name: "shared" },
+	{ prefix: "api/", label: "API templates", name: "API" },
+	{ prefix: "ui/", label: "UI templates", name: "UI" },
+];
+
 function parseOptions(): DeployOptions {
 	const entity = parsedArgs.values.entity as string;
 	const outputDir = parsedArgs.values.output as string;
 	const dryRun = parsedArgs.values["dry-run"] as boolean;
+	const onConflict = parsedArgs.values["on-conflict"] as string | undefined;
+	const rollback = parsedArgs.values.rollback;
 
 	if (!entity) {
 		console.error("Error: --entity parameter is required");
 		console.error("Usage: bun run scripts/deploy-templates.ts --entity \"Vendor\"");
 		console.error("       bun run scripts/deploy-templates.ts --entity \"Vendor\" --dry-run");
+		console.error("       bun run scripts/deploy-templates.ts --entity \"Vendor\" --rollback <deploymentId>");
+		process.exit(1);
+	}
+
+	if (onConflict !== undefined && !CONFLICT_RESOLUTIONS.includes(onConflict as ConflictResolution)) {
+		console.error(`Error: --on-conflict must be one of ${CONFLICT_RESOLUTIONS.join(", ")} (got "${onConflict}")`);
+		process.exit(1);
+	}
+
+	if (rollback !== undefined && typeof rollback !== "string") {
+		console.error("Error: --rollback needs a deployment id (or \"latest\")");
 		process.exit(1);
 	}
 
-	return { entity, outputDir, dryRun };
+	return { entity, outputDir, dryRun, onConflict: onConflict as ConflictResolution | undefined, rollback };
 }
 
-function copyDirectory(src: string, dest: string, dryRun: boolean): { files: number; errors: string[] } {
-	let filesCopied = 0;
-	const errors: string[] = [];
+/**
+ * Ask how to resolve one conflict; an uppercase answer applies to all remaining conflicts
+ */
+async function askResolution(file: PlannedFile): Promise<{ resolution: ConflictResolution; forAll: boolean }> {
+	const rl = createInterface({
+		input: process.stdin,
+		output: process.stdout,
+	});
+
+	return new Promise((resolve) => {
+		const ask = () => {
+			rl.question(`  ${file.template}: [o]verwrite, [s]kip, [m]erge (uppercase = all remaining)? `, (answer) => {
+				const choice = answer.trim();
+				const resolution = CONFLICT_RESOLUTIONS.find((r) => r[0] === choice.toLowerCase());
+				if (!resolution || choice.length !== 1) {
+					ask();
+					return;
+				}
+				rl.close();
+				resolve({ resolution, forAll: choice !== choice.toLowerCase() });
+			});
+		};
+		ask();
+	});
+}
 
-	if (!existsSync(src)) {
-		errors.push(`Source directory does not exist: ${src}`);
-		return { files: filesCopied, errors };
+async function deployFile(
+	outputPath: string,
+	deploymentId: string,
+	file: PlannedFile,
+	resolution: ConflictResolution | null,
+): Promise<DeployedFile> {
+	const record: DeployedFile = {
+		template: file.template,
+		source: file.source,
+		target: file.target,
+		action: "create",
+		sourceSha256: (await hashFile(file.source)) ?? "",
+	};
+	if (file.rewrites.length > 0) record.rewrites = file.rewrites;
+
+	if (!file.exists) {
+		record.sha256 = await writeDeployedFile(outputPath, deploymentId, file, file.content);
+		record.targetSha256 = record.sha256;
+		console.log(`  ✓ Created: ${file.template}`);
+		return record;
 	}
 
-	function copyRecursive(currentSrc: string, currentDest: string): void {
-		const entries = readdirSync(currentSrc, { withFileTypes: true });
+	if (file.identical) {
+		console.log(`  = Unchanged: ${file.template}`);
+		return { ...record, action: "unchanged", targetSha256: hashText(file.content) };
+	}
 
-		for (const entry of entries) {
-			const srcPath = join(currentSrc, entry.name);
-			const destPath = join(currentDest, entry.name);
+	if (!resolution || resolution === "skip") {
+		console.log(`  - Skipped: ${file.template}`);
+		return { ...record, action: "skip" };
+	}
 
-			if (entry.isDirectory()) {
-				if (!dryRun) {
-					if (!existsSync(destPath)) {
-						mkdirSync(destPath, { recursive: true });
-					}
-				}
-				copyRecursive(srcPath, destPath);
-			} else {
-				if (dryRun) {
-					console.log(`  [DRY RUN] Would copy: ${relative(src, srcPath)} → ${relative(dest, destPath)}`);
-				} else {
-					try {
-						// Ensure destination directory exists
-						const destDir = dirname(destPath);
-						if (!existsSync(destDir)) {
-							mkdirSync(destDir, { recursive: true });
-						}
-						copyFileSync(srcPath, destPath);
-						console.log(`  ✓ Copied: ${relative(src, srcPath)}`);
-					} catch (error: any) {
-						errors.push(`Failed to copy ${srcPath}: ${error.message}`);
-					}
-				}
-				filesCopied++;
-			}
-		}
+	record.action = resolution;
+	record.backup = await backupTarget(outputPath, deploymentId, file);
+
+	if (resolution === "overwrite") {
+		record.sha256 = await writeDeployedFile(outputPath, deploymentId, file, file.content);
+		record.targetSha256 = record.sha256;
+		console.log(`  ✓ Overwritten: ${file.template} (backup: ${record.backup})`);
+		return record;
 	}
 
-	copyRecursive(src, dest);
-	return { files: filesCopied, errors };
+	const base = await findLastDeployedCopy(outputPath, file.target);
+	const merged = mergeFiles(file.target, base, file);
+	record.sha256 = await writeDeployedFile(outputPath, deploymentId, file, merged.text);
+	record.targetSha256 = record.sha256;
+	record.mergeConflicts = merged.conflicts;
+	if (merged.conflicts > 0) {
+		console.log(`  ⚠️  Merged with ${merged.conflicts} conflict(s): ${file.template}${base ? "" : " (no earlier deployment to merge from)"}`);
+	} else {
+		console.log(`  ✓ Merged: ${file.template}`);
+	}
+	return record;
 }
 
 async function deployTemplates(options: DeployOptions): Promise<number> {
@@ -125,123 +224,207 @@ ${options.dryRun ? `║  Mode: DRY RUN (preview only)${" ".padEnd(50, " ")}║\n
 		}
 	}
 
-	let totalFiles = 0;
-	const allErrors: string[] = [];
+	const { files: plan, warnings } = planDeployment(templatesPath);
 
-	// Deploy Shared DTOs
-	const sharedTemplates = `${templatesPath}/shared`;
-	if (existsSync(sharedTemplates)) {
-		console.log(`\n📦 Deploying Shared DTOs to: ${sharedPath}`);
-		const sharedDtoPath = `${sharedPath}/Dto`;
-		if (!existsSync(sharedDtoPath)) {
-			if (!options.dryRun) {
-				mkdirSync(sharedDtoPath, { recursive: true });
-				console.log(`  ✓ Created directory: Dto/`);
-			} else {
-				console.log(`  [DRY RUN] Would create directory: Dto/`);
+	const rewritten = plan.filter((file) => file.rewrites.length > 0);
+	if (rewritten.length > 0) {
+		console.log(`\n🔤 Namespaces rewritten to match the target projects:`);
+		for (const file of rewritten) {
+			for (const rewrite of file.rewrites) {
+				console.log(`  ${file.template}: ${rewrite.kind} ${rewrite.from} → ${rewrite.to}`);
 			}
 		}
-		const result = copyDirectory(sharedTemplates, sharedPath, options.dryRun || false);
-		totalFiles += result.files;
-		allErrors.push(...result.errors);
-	} else {
-		console.log(`\n⚠️  No shared templates found at: ${sharedTemplates}`);
-	}
-
-	// Deploy API templates
-	const apiTemplates = `${templatesPath}/api`;
-	if (existsSync(apiTemplates)) {
-		console.log(`\n📦 Deploying API templates to: ${apiPath}`);
-		
-		// Map template subdirectories to API project structure
-		const apiMappings = [
-			{ src: "Controllers", dest: `${apiPath}/src/Admin.Api/Controllers` },
-			{ src: "Repositories", dest: `${apiPath}/src/Admin.Infrastructure/Repositories` },
-			{ src: "Services", dest: `${apiPath}/src/Admin.Infrastructure/Services` },
-			{ src: "Mapping", dest: `${apiPath}/src/Admin.Infrastructure/Mapping` },
-		];
-
-		for (const mapping of apiMappings) {
-			const srcPath = `${apiTemplates}/${mapping.src}`;
-			if (existsSync(srcPath)) {
-				const result = copyDirectory(srcPath, mapping.dest, options.dryRun || false);
-				totalFiles += result.files;
-				allErrors.push(...result.errors);
-			}
+	}
+	if (warnings.length > 0) {
+		console.log(`\n⚠️  Namespaces not checked:`);
+		warnings.forEach((warning) => console.log(`   - ${warning}`));
+	}
+
+	const conflicts = plan.filter((file) => file.exists && !file.identical);
+
+	if (conflicts.length > 0) {
+		console.log(`\n⚠️  ${conflicts.length} target file(s) already exist with different content:\n`);
+		for (const file of conflicts) {
+			console.log(diffFiles(file.target, file));
 		}
-	} else {
-		console.log(`\n⚠️  No API templates found at: ${apiTemplates}`);
-	}
-
-	// Deploy UI templates
-	const uiTemplates = `${templatesPath}/ui`;
-	if (existsSync(uiTemplates)) {
-		console.log(`\n📦 Deploying UI templates to: ${uiPath}`);
-		
-		// Map template subdirectories to UI project structure
-		const uiMappings = [
-			{ src: "Controllers", dest: `${uiPath}/Controllers` },
-			{ src: "Services", dest: `${uiPath}/Services` },
-			{ src: "ViewModels", dest: `${uiPath}/ViewModels` },
-			{ src: "Views", dest: `${uiPath}/Views` },
-			{ src: "wwwroot", dest: `${uiPath}/wwwroot` },
-		];
-
-		for (const mapping of uiMappings) {
-			const srcPath = `${uiTemplates}/${mapping.src}`;
-			if (existsSync(srcPath)) {
-				const result = copyDirectory(srcPath, mapping.dest, options.dryRun || false);
-				totalFiles += result.files;
-				allErrors.push(...result.errors);
+	}
+
+	let applyToAll = options.onConflict;
+	if (conflicts.length > 0 && !applyToAll && !options.dryRun && !process.stdin.isTTY) {
+		console.error(`\n❌ ${conflicts.length} conflict(s) and no terminal to ask; nothing was deployed.`);
+		conflicts.forEach((file) => console.error(`   - ${file.target}`));
+		console.error(`\nChoose how to resolve them with --on-conflict ${CONFLICT_RESOLUTIONS.join("|")}\n`);
+		return 1;
+	}
+
+	const deploymentId = createRunId();
+	const deployed: DeployedFile[] = [];
+	const edits: ProjectEdit[] = [];
+	const allErrors: string[] = [];
+
+	// Written before the first target and again after each file and edit, so an error, Ctrl+C
+	// or a closed prompt still leaves a manifest to roll back with
+	const manifest: DeploymentManifest = {
+		deploymentId,
+		entity: options.entity,
+		createdAt: new Date().toISOString(),
+		templatesPath,
+		targetProjects: getTargetProjectPaths(),
+		monorepoHead: getMonorepoHead(),
+		files: deployed,
+		edits,
+	};
+	const manifestPath = options.dryRun ? null : await writeDeploymentManifest(outputPath, manifest);
+
+	for (const section of SECTIONS) {
+		const files = plan.filter((file) => file.template.startsWith(section.prefix));
+		if (files.length === 0) {
+			console.log(`\n⚠️  No ${section.name} templates found at: ${templatesPath}/${section.prefix}`);
+			continue;
+		}
+
+		console.log(`\n📦 Deploying ${section.label}`);
+		for (const file of files) {
+			const conflict = file.exists && !file.identical;
+
+			if (options.dryRun) {
+				const action = !file.exists ? "create" : file.identical ? "leave unchanged" : (options.onConflict ?? "ask about");
+				console.log(`  [DRY RUN] Would ${action}: ${file.template} → ${file.target}`);
+				continue;
+			}
+
+			let resolution: ConflictResolution | null = null;
+			if (conflict) {
+				if (applyToAll) {
+					resolution = applyToAll;
+				} else {
+					const answer = await askResolution(file);
+					resolution = answer.resolution;
+					if (answer.forAll) applyToAll = answer.resolution;
+				}
 			}
+
+			try {
+				deployed.push(await deployFile(outputPath, deploymentId, file, resolution));
+			} catch (error: any) {
+				allErrors.push(`Failed to deploy ${file.source}: ${error.message}`);
+			}
+			await writeDeploymentManifest(outputPath, manifest);
+		}
+	}
+
+	// Register repositories and services, embed SQL files
+	const wiring = planProjectWiring(plan.filter((file) => options.dryRun || existsSync(file.target)));
+	if (wiring.edits.length > 0 || wiring.warnings.length > 0) {
+		console.log(`\n🔌 Wiring up the target projects`);
+	}
+	for (const { edit, content } of wiring.edits) {
+		const what = edit.purpose === "registrations" ? "DI registration(s)" : "embedded SQL resource(s)";
+		if (options.dryRun) {
+			console.log(`  [DRY RUN] Would add to ${edit.target}:`);
+			edit.inserted.forEach((line) => console.log(`     ${line}`));
+			continue;
+		}
+		try {
+			await Bun.write(edit.target, content);
+			edits.push(edit);
+			await writeDeploymentManifest(outputPath, manifest);
+			console.log(`  ✓ Added ${edit.inserted.length} line(s) for ${what}: ${edit.target}`);
+		} catch (error: unknown) {
+			allErrors.push(`Failed to edit ${edit.target}: ${error instanceof Error ? error.message : String(error)}`);
 		}
-	} else {
-		console.log(`\n⚠️  No UI templates found at: ${uiTemplates}`);
 	}
+	wiring.warnings.forEach((warning) => console.log(`  ⚠️  ${warning}`));
 
 	// Summary
 	console.log(`\n${"=".repeat(80)}`);
 	if (options.dryRun) {
-		console.log(`\n✅ DRY RUN Complete: Would deploy ${totalFiles} file(s)`);
+		console.log(`\n✅ DRY RUN Complete: Would deploy ${plan.length} file(s) (${conflicts.length} conflict(s))`);
 		console.log(`\nTo actually deploy, run without --dry-run:`);
 		console.log(`   bun run scripts/deploy-templates.ts --entity "${options.entity}"\n`);
-	} else {
-		if (allErrors.length > 0) {
-			console.error(`\n⚠️  Deployment completed with ${allErrors.length} error(s):`);
-			allErrors.forEach(err => console.error(`   - ${err}`));
-			console.log(`\n✅ Deployed ${totalFiles} file(s) (with errors)\n`);
-			return 1;
-		} else {
-			console.log(`\n✅ Deployment Complete: ${totalFiles} file(s) deployed successfully`);
-			console.log(`\n📝 Next Steps:`);
-			console.log(`   1. Review deployed files in MonoRepo`);
-			console.log(`   2. Verify namespaces match project structure`);
-			console.log(`   3. Add DI registration in Startup.cs/Program.cs`);
-			console.log(`   4. Update project references if needed\n`);
-		}
+		return 0;
 	}
 
-	return 0;
-}
-
-async function main() {
-	const options = parseOptions();
-	const code = await deployTemplates(options);
-	process.exit(code);
-}
-
-await main();
-
-
-
-
+	const count = (action: DeployedFile["action"]) => deployed.filter((file) => file.action === action).length;
+	const written = deployed.filter((file) => file.sha256).length;
+	console.log(`\n📝 Deployment ${deploymentId}: ${count("create")} created, ${count("overwrite")} overwritten, ${count("merge")} merged, ${count("skip")} skipped, ${count("unchanged")} unchanged`);
+	console.log(`   Manifest: ${manifestPath}`);
+	console.log(`   Undo with: bun run scripts/deploy-templates.ts --entity "${options.entity}" --rollback ${deploymentId}`);
+	console.log(`   Check for hand edits later with: bun run deploy-status --entity "${options.entity}"`);
+
+	const unresolved = deployed.filter((file) => (file.mergeConflicts ?? 0) > 0);
+	if (unresolved.length > 0) {
+		console.log(`\n⚠️  Resolve the conflict markers in:`);
+		unresolved.forEach((file) => console.log(`   - ${file.target}`));
+	}
 
+	if (allErrors.length > 0) {
+		console.error(`\n⚠️  Deployment completed with ${allErrors.length} error(s):`);
+		allErrors.forEach(err => console.error(`   - ${err}`));
+		console.log(`\n✅ Deployed ${written} file(s) (with errors)\n`);
+		return 1;
+	}
 
+	console.log(`\n✅ Deployment Complete: ${written} file(s) deployed successfully`);
+	console.log(`\n📝 Next Steps:`);
+	console.log(`   1. Review deployed files in MonoRepo`);
+	console.log(`   2. Update project references if needed\n`);
+	return 0;
+}
 
+async function rollback(options: DeployOptions, ref: string): Promise<number> {
+	const outputPath = options.outputDir || `${projectRoot}output/${options.entity}`;
+	const manifest = await readDeploymentManifest(outputPath, ref);
+
+	if (!manifest) {
+		console.error(`\n❌ Error: Deployment "${ref}" not found in ${outputPath}/deployments`);
+		const deployments = await listDeployments(outputPath);
+		if (deployments.length > 0) {
+			console.error("\nDeployments:");
+			for (const deployment of deployments) {
+				console.error(`  ${deployment.deploymentId}  ${deployment.files.filter((f) => f.sha256).length} file(s)${deployment.rolledBackAt ? "  (rolled back)" : ""}`);
+			}
+		}
+		return 1;
+	}
 
+	if (manifest.rolledBackAt) {
+		console.error(`\n❌ Deployment ${manifest.deploymentId} was already rolled back at ${manifest.rolledBackAt}\n`);
+		return 1;
+	}
 
+	const newer = await findNewerDeployments(outputPath, manifest.deploymentId);
+	if (newer.length > 0) {
+		console.error(`\n❌ Deployment ${manifest.deploymentId} is not the newest one in effect; roll these back first, newest first:`);
+		newer.reverse().forEach((deployment) => console.error(`  ${deployment.deploymentId}`));
+		console.error("");
+		return 1;
+	}
 
+	console.log(`\n↩️  Rolling back deployment ${manifest.deploymentId} of ${manifest.entity}${options.dryRun ? " (DRY RUN)" : ""}`);
+	const result = await rollbackDeployment(outputPath, manifest, options.dryRun);
+	const verb = options.dryRun ? "Would " : "";
 
+	result.removed.forEach((target) => console.log(`  ✓ ${verb}${verb ? "remove" : "Removed"}: ${target}`));
+	result.restored.forEach((target) => console.log(`  ✓ ${verb}${verb ? "restore" : "Restored"}: ${target}`));
+	result.reverted.forEach((target) => console.log(`  ✓ ${verb}${verb ? "revert edits to" : "Reverted edits to"}: ${target}`));
+	result.undone.forEach((file) => console.log(`  ✓ Already undone (${file.reason}): ${file.target}`));
+	result.kept.forEach((file) => console.log(`  ⚠️  Left as is (${file.reason}): ${file.target}`));
 
+	console.log(`\n${result.removed.length} removed, ${result.restored.length} restored, ${result.reverted.length} project edit(s) reverted, ${result.undone.length} already undone, ${result.kept.length} left as is`);
+	if (result.kept.length > 0 && !options.dryRun) {
+		console.log(`The deployment stays in effect; fix the files left as is and run --rollback ${manifest.deploymentId} again`);
+	}
+	if (!options.dryRun) {
+		console.log(`Backups remain in ${getDeploymentPath(outputPath, manifest.deploymentId)}/backup\n`);
+	}
+	return result.kept.length > 0 ? 1 : 0;
+}
 
+async function main() {
+	const options = parseOptions();
+	const code = options.rollback ? await rollback(options, options.rollback) : await deployTemplates(options);
+	process.exit(code);
+}
 
+await main();
@@ -0,0 +1,78 @@
+#!/usr/bin/env -S bun run
+/**
+ * DIFF ANALYSIS: Compare the analysis artifacts of two orchestrator runs (no LLM)
+ *
+ * Every orchestrator run saves its step outputs under output/{Entity}/history/{runId}/.
+ * This reports, per artifact, the controls, buttons, grid columns, validation rules,
+ * business properties and stored procedures (with parameters and result columns) that
+ * were added, removed or changed between two of those runs, to tell whether a legacy fix
+ * or a prompt change improved the extraction.
+ *
+ * Runs are given by id, by a unique id prefix, or as "latest" / "previous" (the defaults).
+ *
+ * Usage:
+ *   bun run scripts/diff-analysis.ts --entity "Barge"
+ *   bun run scripts/diff-analysis.ts --entity "Barge" --from "2025-12-17T23-43-39-013Z" --to latest
+ *   bun run scripts/diff-analysis.ts --entity "Barge" --from 2025-12-17 --print   (JSON)
+ *   bun run scripts/diff-analysis.ts --entity "Barge" --output "./custom/output/Barge"
+ */
+
+import { diffRunSnapshots, formatAnalysisDiff } from "../lib/analysis-diff";
+import { parsedArgs } from "../lib/flags";
+import { getOutputPath, getProjectRoot } from "../lib/paths";
+import { getRunHistoryPath, listRunSnapshots, resolveRunSnapshot } from "../lib/run-history";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+async function main() {
+	const entity = parsedArgs.values.entity as string | undefined;
+	if (!entity) {
+		console.error("Error: --entity parameter is required");
+		console.error(
+			'Usage: bun run scripts/diff-analysis.ts --entity "Barge" --from <run> --to <run>',
+		);
+		process.exit(1);
+	}
+
+	const outputPath = getOutputPath(
+		projectRoot,
+		entity,
+		parsedArgs.values.output as string | undefined,
+	);
+	const fromRef = (parsedArgs.values.from as string | undefined) || "previous";
+	const toRef = (parsedArgs.values.to as string | undefined) || "latest";
+
+	const [from, to] = await Promise.all([
+		resolveRunSnapshot(outputPath, fromRef),
+		resolveRunSnapshot(outputPath, toRef),
+	]);
+
+	if (!from || !to) {
+		const runs = await listRunSnapshots(outputPath);
+		console.error(
+			`Error: Run "${!from ? fromRef : toRef}" not found in ${getRunHistoryPath(outputPath)}`,
+		);
+		if (runs.length === 0) {
+			console.error(
+				"No runs have been saved yet; they are recorded when the orchestrator finishes a run.",
+			);
+		} else {
+			console.error("\nAvailable runs:");
+			for (const run of runs) {
+				console.error(
+					`  ${run.runId}  ${run.overallStatus}${run.stepsRun ? `  steps ${run.stepsRun.join(",")}` : ""}`,
+				);
+			}
+		}
+		process.exit(1);
+	}
+
+	const diff = await diffRunSnapshots(outputPath, from, to);
+	if (parsedArgs.values.print === true) {
+		console.log(JSON.stringify(diff, null, 2));
+		return;
+	}
+	console.log(formatAnalysisDiff(diff));
+}
+
+await main();
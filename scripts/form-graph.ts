@@ -0,0 +1,71 @@
+#!/usr/bin/env -S bun run
+/**
+ * FORM GRAPH: Navigation graph of every legacy form (no LLM)
+ *
+ * Runs child-form detection over all forms in the source index and writes the graph,
+ * with each edge labeled by the event handler that opens the child form, as JSON,
+ * Mermaid and Graphviz DOT. With --form-name/--forms only the screens reachable from
+ * those forms are kept.
+ *
+ * Usage:
+ *   bun run scripts/form-graph.ts
+ *   bun run scripts/form-graph.ts --form-name "frmBargeSearch"
+ *   bun run scripts/form-graph.ts --forms "frmBargeSearch,frmBargeEventSearch" --output "./custom/path"
+ *
+ * Output (default folder: output/_form-graph):
+ *   {name}.json   Nodes and edges
+ *   {name}.mmd    Mermaid flowchart
+ *   {name}.dot    Graphviz (render with: dot -Tsvg {name}.dot -o {name}.svg)
+ * where {name} is "form-graph", or the root form when a single one is given.
+ */
+
+import { mkdir } from "node:fs/promises";
+import { parsedArgs } from "../lib/flags";
+import {
+	buildFormGraph,
+	formatFormGraphDot,
+	formatFormGraphMermaid,
+	getReachableSubgraph,
+} from "../lib/form-graph";
+import { getProjectRoot } from "../lib/paths";
+import { loadSourceIndex } from "../lib/source-index";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+async function main() {
+	const roots = [
+		...((parsedArgs.values["form-name"] as string | undefined)?.split(",") ?? []),
+		...((parsedArgs.values.forms as string | undefined)?.split(",") ?? []),
+	]
+		.map((form) => form.trim())
+		.filter(Boolean);
+	const outputDir = (parsedArgs.values.output as string) || `${projectRoot}output/_form-graph`;
+
+	const index = await loadSourceIndex();
+	let graph = buildFormGraph(index);
+
+	if (roots.length > 0) {
+		graph = getReachableSubgraph(graph, roots);
+		const unknown = roots.filter(
+			(root) => !graph.roots?.some((id) => id.toLowerCase() === root.toLowerCase()),
+		);
+		if (unknown.length > 0) {
+			console.error(`Error: Form(s) not found in ${index.inputDirectory}: ${unknown.join(", ")}`);
+			process.exit(1);
+		}
+	}
+
+	const name = graph.roots?.length === 1 ? graph.roots[0] : "form-graph";
+	await mkdir(outputDir, { recursive: true });
+	await Bun.write(`${outputDir}/${name}.json`, JSON.stringify(graph, null, 2));
+	await Bun.write(`${outputDir}/${name}.mmd`, formatFormGraphMermaid(graph));
+	await Bun.write(`${outputDir}/${name}.dot`, formatFormGraphDot(graph));
+
+	const linked = new Set(graph.edges.flatMap((edge) => [edge.from, edge.to]));
+	console.log(
+		`\nForm graph: ${graph.nodes.length} forms (${linked.size} linked), ${graph.edges.length} navigation edges`,
+	);
+	console.log(`Written to: ${outputDir}/${name}.{json,mmd,dot}\n`);
+}
+
+await main();
@@ -0,0 +1,88 @@
+#!/usr/bin/env -S bun run
+/**
+ * GAP ANALYSIS: Measure how much of the analysis the generated templates cover (no LLM)
+ *
+ * Parses the C# under output/{Entity}/templates/ and compares it with the analysis JSON:
+ * DTO properties against business-logic.json, SearchRequest fields against the search
+ * criteria controls of form-structure-search.json, repository SQL columns against
+ * data-access.json, and controller authorization against security.json. Writes
+ * gap-report.json and gap-report.md with the coverage percentage of each check and the
+ * items that are missing.
+ *
+ * Without --entity every entity with a templates/ folder is checked.
+ *
+ * Usage:
+ *   bun run scripts/gap-analysis.ts --entity "Barge"
+ *   bun run scripts/gap-analysis.ts
+ *   bun run scripts/gap-analysis.ts --entity "Barge" --print   (JSON, nothing written)
+ *   bun run scripts/gap-analysis.ts --entity "Barge" --output "./custom/output/Barge"
+ */
+
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { parsedArgs } from "../lib/flags";
+import { analyzeTemplateGaps, formatGapReport } from "../lib/gap-analysis";
+import { getOutputPath, getProjectRoot } from "../lib/paths";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+async function listEntitiesWithTemplates(): Promise<string[]> {
+	const outputRoot = `${projectRoot}/output`;
+	if (!existsSync(outputRoot)) return [];
+	const entries = await readdir(outputRoot, { withFileTypes: true });
+	return entries
+		.filter((entry) => entry.isDirectory() && existsSync(`${outputRoot}/${entry.name}/templates`))
+		.map((entry) => entry.name)
+		.sort();
+}
+
+function formatPercent(coverage: number | null): string {
+	return coverage === null ? "n/a" : `${coverage}%`;
+}
+
+async function main() {
+	const entity = parsedArgs.values.entity as string | undefined;
+	const customOutput = parsedArgs.values.output as string | undefined;
+	const print = parsedArgs.values.print === true;
+
+	if (!entity && customOutput) {
+		console.error("Error: --output requires --entity");
+		process.exit(1);
+	}
+
+	const entities = entity ? [entity] : await listEntitiesWithTemplates();
+	if (entities.length === 0) {
+		console.error("No entity output folders with templates found under output/");
+		process.exit(1);
+	}
+
+	for (const name of entities) {
+		const outputPath = getOutputPath(projectRoot, name, customOutput);
+		if (!existsSync(`${outputPath}/templates`)) {
+			console.error(`Error: Templates not found: ${outputPath}/templates`);
+			console.error(
+				`Generate them first: bun run agents/conversion-template-generator.ts --entity "${name}"`,
+			);
+			process.exit(1);
+		}
+
+		const report = await analyzeTemplateGaps(outputPath, name);
+
+		if (print) {
+			console.log(JSON.stringify(report, null, 2));
+			continue;
+		}
+
+		await Bun.write(`${outputPath}/gap-report.json`, JSON.stringify(report, null, 2));
+		await Bun.write(`${outputPath}/gap-report.md`, formatGapReport(report));
+
+		const summary = report.checks
+			.map((check) => `${check.id} ${check.skipped ? "skipped" : formatPercent(check.coverage)}`)
+			.join(", ");
+		console.log(
+			`${name}: ${formatPercent(report.coverage)} covered (${summary}) -> ${outputPath}/gap-report.md`,
+		);
+	}
+}
+
+await main();
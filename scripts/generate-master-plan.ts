@@ -0,0 +1,346 @@
+#!/usr/bin/env -S bun run
+/**
+ * Generates a top-down master conversion plan for a family of screens.
+ *
+ * The screens are discovered from the legacy code: the root form(s), or every form whose
+ * name starts with frm{Entity}, plus everything they open (child-form detection over the
+ * source index). Each screen is joined with the conversion-status.json of its output folder.
+ *
+ * Usage:
+ *   bun run scripts/generate-master-plan.ts --entity "Barge"
+ *   bun run scripts/generate-master-plan.ts --form-name "frmBoatSearch"
+ *   bun run scripts/generate-master-plan.ts --forms "frmVendorSearch,frmVendorContacts" --output "./custom/path"
+ *
+ * Outputs (family = --entity, or the entity of the first root form):
+ * - output/{Family}/MASTER_{FAMILY}_SCREENS.md
+ * - output/{Family}/master-{family}-index.json   (input for batch-convert --index)
+ */
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { parsedArgs } from "../lib/flags";
+import {
+	type FormGraph,
+	buildFormGraph,
+	formatFormGraphMermaid,
+	getReachableSubgraph,
+} from "../lib/form-graph";
+import { loadSourceIndex } from "../lib/source-index";
+
+type EntityStatus = {
+	entity: string;
+	overallStatus?: string;
+	totalSteps?: number;
+	completedSteps?: number;
+	skippedSteps?: number;
+	failedSteps?: number;
+	startTime?: string;
+	endTime?: string;
+	steps?: Array<{ stepNumber: number; name: string; status: string; outputFile?: string }>;
+};
+
+type ChildFormsIndex = {
+	mainForm: string;
+	entity: string;
+	childForms: string[];
+	detectedAt?: string;
+};
+
+type Edge = {
+	from: string;
+	to: string;
+	label: string;
+};
+
+type ScreenIndex = {
+	screenId: string;
+	legacyForm: string;
+	label: string;
+	entityFolder?: string;
+	entityOutputPath?: string;
+	entityStatus?: EntityStatus;
+	requiredIncoming: Array<{ from: string; label: string }>;
+	requiredOutgoing: Array<{ to: string; label: string }>;
+	missingOutputFolder: boolean;
+	recommendedCommands: {
+		analyze: string[];
+		generateTemplates: string[];
+	};
+};
+
+async function fileExists(filePath: string): Promise<boolean> {
+	try {
+		await fs.access(filePath);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function readJsonIfExists<T>(filePath: string): Promise<T | undefined> {
+	if (!(await fileExists(filePath))) return undefined;
+	const raw = await fs.readFile(filePath, "utf8");
+	return JSON.parse(raw) as T;
+}
+
+async function buildChildFormToEntityFolderMap(outputRoot: string): Promise<Map<string, string>> {
+	const map = new Map<string, string>();
+	const entries = await fs.readdir(outputRoot, { withFileTypes: true });
+
+	for (const entry of entries) {
+		if (!entry.isDirectory()) continue;
+
+		const entityFolder = entry.name;
+		const childFormsPath = path.join(outputRoot, entityFolder, "child-forms.json");
+		const childIndex = await readJsonIfExists<ChildFormsIndex>(childFormsPath);
+		if (!childIndex?.childForms?.length) continue;
+
+		for (const childForm of childIndex.childForms) {
+			// First win to avoid flapping if multiple parents mention same child.
+			if (!map.has(childForm)) map.set(childForm, entityFolder);
+		}
+	}
+
+	return map;
+}
+
+function inferEntityFolderFromLegacyForm(legacyForm: string): string | undefined {
+	// Heuristic:
+	// - `frmBargeDraft` -> `BargeDraft`
+	// - `frmBargeDailyExpenseSearch` -> `BargeDailyExpense`
+	if (!legacyForm.startsWith("frm")) return undefined;
+	const searchDetailMatch = legacyForm.match(/^frm(.+?)(Search|Detail)$/);
+	const candidate = searchDetailMatch ? searchDetailMatch[1] : legacyForm.slice(3);
+	return candidate || undefined;
+}
+
+function formatCode(cmd: string): string {
+	return `\`${cmd.replaceAll("`", "\\`")}\``;
+}
+
+function analyzeCommands(entity: string, formNames: string[]): string[] {
+	return formNames.map(
+		(formName) => `bun run agents/orchestrator.ts --entity "${entity}" --form-name "${formName}"`,
+	);
+}
+
+function templateCommands(entity: string): string[] {
+	return [`bun run generate-template --entity "${entity}"`];
+}
+
+/**
+ * Screens in top-down order: breadth first from the roots (Search forms first)
+ */
+function orderScreens(graph: FormGraph): string[] {
+	const kindOrder = { Search: 0, Detail: 1, Single: 2 };
+	const roots = graph.nodes
+		.filter((node) => graph.roots?.includes(node.id))
+		.sort((a, b) => kindOrder[a.kind] - kindOrder[b.kind] || a.id.localeCompare(b.id))
+		.map((node) => node.id);
+
+	const ordered: string[] = [];
+	const queue = [...roots];
+	while (queue.length > 0) {
+		const current = queue.shift() as string;
+		if (ordered.includes(current)) continue;
+		ordered.push(current);
+		for (const edge of graph.edges) {
+			if (edge.from === current && !ordered.includes(edge.to)) queue.push(edge.to);
+		}
+	}
+	return ordered;
+}
+
+function parseRoots(): { family: string; roots: string[]; entityPrefix?: string } {
+	const entityPrefix = (parsedArgs.values.entity as string | undefined)?.trim();
+	const roots = [
+		...((parsedArgs.values["form-name"] as string | undefined)?.split(",") ?? []),
+		...((parsedArgs.values.forms as string | undefined)?.split(",") ?? []),
+	]
+		.map((form) => form.trim())
+		.filter(Boolean);
+
+	if (!entityPrefix && roots.length === 0) {
+		console.error("Error: --entity or --form-name is required");
+		console.error('Usage: bun run scripts/generate-master-plan.ts --entity "Barge"');
+		console.error('   or: bun run scripts/generate-master-plan.ts --form-name "frmBoatSearch"');
+		process.exit(1);
+	}
+
+	const family = entityPrefix || inferEntityFolderFromLegacyForm(roots[0]) || roots[0];
+	return { family, roots, entityPrefix };
+}
+
+async function main() {
+	const projectRoot = path.resolve(import.meta.dir, "..");
+	const outputRoot = path.join(projectRoot, "output");
+	const { family, roots, entityPrefix } = parseRoots();
+	const outFamilyDir = (parsedArgs.values.output as string) || path.join(outputRoot, family);
+	const childFormToEntityFolder = await buildChildFormToEntityFolderMap(outputRoot);
+
+	const index = await loadSourceIndex();
+	const prefix = entityPrefix ? `frm${entityPrefix}`.toLowerCase() : undefined;
+	const rootForms = [
+		...roots,
+		...index.forms
+			.filter((form) => prefix && form.name.toLowerCase().startsWith(prefix))
+			.map((form) => form.name),
+	];
+	const graph = getReachableSubgraph(buildFormGraph(index), rootForms);
+
+	if (graph.nodes.length === 0) {
+		console.error(
+			`Error: No legacy forms found for ${entityPrefix ? `frm${entityPrefix}*` : roots.join(", ")} in ${index.inputDirectory}`,
+		);
+		process.exit(1);
+	}
+
+	const edges: Edge[] = graph.edges.map(({ from, to, label }) => ({ from, to, label }));
+	const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+	const screens = orderScreens(graph);
+
+	// Precompute incoming/outgoing.
+	const incoming = new Map<string, Array<{ from: string; label: string }>>();
+	const outgoing = new Map<string, Array<{ to: string; label: string }>>();
+	for (const e of edges) {
+		incoming.set(e.to, [...(incoming.get(e.to) ?? []), { from: e.from, label: e.label }]);
+		outgoing.set(e.from, [...(outgoing.get(e.from) ?? []), { to: e.to, label: e.label }]);
+	}
+
+	const screenIndexes: ScreenIndex[] = [];
+	for (const legacyForm of screens) {
+		const node = nodesById.get(legacyForm);
+		const label = node && node.kind !== "Single" ? `${legacyForm} (${node.kind})` : legacyForm;
+		const inferredEntityFolder =
+			childFormToEntityFolder.get(legacyForm) ?? inferEntityFolderFromLegacyForm(legacyForm);
+		const entityFolder =
+			inferredEntityFolder && (await fileExists(path.join(outputRoot, inferredEntityFolder)))
+				? inferredEntityFolder
+				: undefined;
+
+		const entityOutputPath = entityFolder ? path.join(outputRoot, entityFolder) : undefined;
+		const statusPath = entityOutputPath
+			? path.join(entityOutputPath, "conversion-status.json")
+			: undefined;
+		const entityStatus = statusPath ? await readJsonIfExists<EntityStatus>(statusPath) : undefined;
+		const missingOutputFolder = !entityFolder;
+
+		const analyzeEntity = entityFolder ?? inferredEntityFolder ?? "<ENTITY>";
+		screenIndexes.push({
+			screenId: legacyForm,
+			legacyForm,
+			label,
+			entityFolder,
+			entityOutputPath: entityOutputPath ? path.relative(projectRoot, entityOutputPath) : undefined,
+			entityStatus,
+			requiredIncoming: incoming.get(legacyForm) ?? [],
+			requiredOutgoing: outgoing.get(legacyForm) ?? [],
+			missingOutputFolder,
+			recommendedCommands: {
+				analyze: analyzeCommands(analyzeEntity, [legacyForm]),
+				generateTemplates: templateCommands(analyzeEntity),
+			},
+		});
+	}
+
+	const command = entityPrefix
+		? `bun run master-plan --entity "${entityPrefix}"`
+		: `bun run master-plan --forms "${roots.join(",")}"`;
+
+	const mdLines: string[] = [];
+	mdLines.push(`# ${family} Screens - Master Conversion Plan (Top-Down)`);
+	mdLines.push("");
+	mdLines.push(`This file is generated by \`${command}\`.`);
+	mdLines.push("");
+	mdLines.push("## Flow map (legacy)");
+	mdLines.push("");
+	mdLines.push("Edges are labeled with the legacy event handler that opens the screen.");
+	mdLines.push("");
+	mdLines.push("```mermaid");
+	mdLines.push(formatFormGraphMermaid(graph).trimEnd());
+	mdLines.push("```");
+	mdLines.push("");
+	mdLines.push("## Screen inventory (top-down)");
+	mdLines.push("");
+
+	for (const idx of screenIndexes) {
+		mdLines.push(`### ${idx.label}`);
+		mdLines.push("");
+		mdLines.push(`- **legacy form**: \`${idx.legacyForm}\``);
+		mdLines.push(
+			`- **output folder**: ${idx.entityOutputPath ? `\`${idx.entityOutputPath}\`` : "_(unknown)_"}${idx.missingOutputFolder ? " (missing)" : ""}`,
+		);
+
+		if (idx.entityStatus) {
+			const st = idx.entityStatus;
+			mdLines.push(
+				`- **status**: \`${st.overallStatus ?? "unknown"}\` (steps: ${st.completedSteps ?? "?"}/${st.totalSteps ?? "?"}, skipped: ${st.skippedSteps ?? "?"}, failed: ${st.failedSteps ?? "?"})`,
+			);
+		} else {
+			mdLines.push("- **status**: _(unknown - no conversion-status.json found)_");
+		}
+
+		if (idx.missingOutputFolder) {
+			mdLines.push(
+				"- **notes**: No matching output/<Entity>/ folder found yet; will be flagged until generated.",
+			);
+		}
+
+		if (idx.requiredIncoming.length) {
+			mdLines.push("- **required incoming links**:");
+			for (const inc of idx.requiredIncoming) mdLines.push(`  - \`${inc.from}\` → (${inc.label})`);
+		}
+
+		if (idx.requiredOutgoing.length) {
+			mdLines.push("- **required outgoing links**:");
+			for (const out of idx.requiredOutgoing) mdLines.push(`  - (${out.label}) → \`${out.to}\``);
+		}
+
+		mdLines.push("- **commands**:");
+		mdLines.push(`  - analyze: ${idx.recommendedCommands.analyze.map(formatCode).join(" ")}`);
+		mdLines.push(
+			`  - templates: ${idx.recommendedCommands.generateTemplates.map(formatCode).join(" ")}`,
+		);
+		mdLines.push("");
+	}
+
+	mdLines.push("## Missing screens / next folders to generate");
+	mdLines.push("");
+	const missing = screenIndexes.filter((x) => x.missingOutputFolder);
+	if (!missing.length) {
+		mdLines.push("- None");
+	} else {
+		for (const m of missing) {
+			mdLines.push(
+				`- \`${m.legacyForm}\` (screenId: \`${m.screenId}\`) — no \`output/<Entity>/\` folder found yet`,
+			);
+		}
+	}
+	mdLines.push("");
+
+	const markdownPath = path.join(outFamilyDir, `MASTER_${family.toUpperCase()}_SCREENS.md`);
+	const indexPath = path.join(outFamilyDir, `master-${family.toLowerCase()}-index.json`);
+	await fs.mkdir(outFamilyDir, { recursive: true });
+	await fs.writeFile(markdownPath, mdLines.join("\n"), "utf8");
+	await fs.writeFile(
+		indexPath,
+		JSON.stringify(
+			{
+				generatedAt: new Date().toISOString(),
+				outputRoot: path.relative(projectRoot, outputRoot),
+				family,
+				roots: graph.roots,
+				screens: screenIndexes,
+				edges,
+			},
+			null,
+			2,
+		),
+		"utf8",
+	);
+
+	console.log(`\n${family}: ${screens.length} screen(s), ${edges.length} navigation edge(s)`);
+	console.log(`  ${markdownPath}`);
+	console.log(`  ${indexPath}\n`);
+}
+
+await main();
@@ -0,0 +1,119 @@
+#!/usr/bin/env -S bun run
+/**
+ * GENERATE SQL: Embedded SQL files and their repository from data-access.json (no LLM)
+ *
+ * Reads the stored procedures, parameters and result columns the data access analyzer
+ * recorded and writes one parameterized .sql file per procedure to
+ * output/{Entity}/templates/api/Sql/, plus I{Entity}Repository.cs and {Entity}Repository.cs
+ * under templates/api/Repositories/ that run them as embedded resources with Dapper (see
+ * lib/sql-generator.ts). The same analysis always gives the same files.
+ *
+ * A repository that was not written by this command (e.g. the template generator's, with
+ * inline SQL) is left alone unless --force is given; the .sql files are always written.
+ *
+ * Without --entity every entity with a data-access.json is generated.
+ *
+ * Usage:
+ *   bun run scripts/generate-sql.ts --entity "Barge"
+ *   bun run scripts/generate-sql.ts
+ *   bun run scripts/generate-sql.ts --entity "Barge" --force   (replace the existing repository)
+ *   bun run scripts/generate-sql.ts --entity "Barge" --print   (JSON, nothing written)
+ *   bun run scripts/generate-sql.ts --entity "Barge" --output "./custom/output/Barge"
+ */
+
+import { existsSync } from "node:fs";
+import { readdir } from "node:fs/promises";
+import { parsedArgs } from "../lib/flags";
+import { getOutputPath, getProjectRoot } from "../lib/paths";
+import { GENERATED_MARKER, generateSqlTemplates } from "../lib/sql-generator";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+async function listEntitiesWithDataAccess(): Promise<string[]> {
+	const outputRoot = `${projectRoot}/output`;
+	if (!existsSync(outputRoot)) return [];
+	const entries = await readdir(outputRoot, { withFileTypes: true });
+	return entries
+		.filter(
+			(entry) => entry.isDirectory() && existsSync(`${outputRoot}/${entry.name}/data-access.json`),
+		)
+		.map((entry) => entry.name)
+		.sort();
+}
+
+async function main() {
+	const entity = parsedArgs.values.entity as string | undefined;
+	const customOutput = parsedArgs.values.output as string | undefined;
+	const print = parsedArgs.values.print === true;
+	const force = parsedArgs.values.force === true;
+
+	if (!entity && customOutput) {
+		console.error("Error: --output requires --entity");
+		process.exit(1);
+	}
+
+	const entities = entity ? [entity] : await listEntitiesWithDataAccess();
+	if (entities.length === 0) {
+		console.error("No entity output folders with data-access.json found under output/");
+		process.exit(1);
+	}
+
+	for (const name of entities) {
+		const outputPath = getOutputPath(projectRoot, name, customOutput);
+		const dataAccessPath = `${outputPath}/data-access.json`;
+		if (!existsSync(dataAccessPath)) {
+			console.error(`Error: data-access.json not found: ${dataAccessPath}`);
+			console.error(
+				`Run the data access analyzer first: bun run agents/data-access-analyzer.ts --entity "${name}"`,
+			);
+			process.exit(1);
+		}
+
+		let dataAccess: Record<string, unknown>;
+		try {
+			dataAccess = await Bun.file(dataAccessPath).json();
+		} catch (error) {
+			console.error(`Error: Could not parse ${dataAccessPath}: ${error}`);
+			process.exit(1);
+		}
+
+		const result = generateSqlTemplates(dataAccess, name);
+
+		if (print) {
+			console.log(JSON.stringify(result, null, 2));
+			continue;
+		}
+
+		if (result.sqlFiles.length === 0) {
+			console.log(`${name}: no storedProcedures in data-access.json, skipped`);
+			continue;
+		}
+
+		const templatesPath = `${outputPath}/templates`;
+		const kept: string[] = [];
+		for (const file of result.files) {
+			const path = `${templatesPath}/${file.path}`;
+			if (file.path.endsWith(".cs") && existsSync(path) && !force) {
+				const existing = await Bun.file(path).text();
+				if (!existing.startsWith(GENERATED_MARKER)) {
+					kept.push(file.path);
+					continue;
+				}
+			}
+			await Bun.write(path, file.content);
+		}
+
+		const calls = result.sqlFiles.filter((file) => file.kind === "exec").length;
+		console.log(
+			`${name}: ${result.sqlFiles.length} SQL file(s) for table ${result.table} (key ${result.key.column}${calls > 0 ? `, ${calls} still calling the legacy procedure` : ""}) -> ${templatesPath}/api/Sql`,
+		);
+		for (const path of kept) {
+			console.log(`  Kept ${path} (not generated by generate-sql; use --force to replace it)`);
+		}
+		for (const warning of result.warnings) {
+			console.log(`  ⚠️  ${warning}`);
+		}
+	}
+}
+
+await main();
@@ -0,0 +1,58 @@
+#!/usr/bin/env -S bun run
+/**
+ * INDEX SOURCES: Catalog the legacy forms, business objects and lists (no LLM)
+ *
+ * Rescans inputDirectory and rewrites output/_source-index.json. The orchestrator, batch
+ * convert and the analysis agents read that index and rebuild it on their own when a .vb
+ * file changed, so running this is only needed to inspect it.
+ *
+ * Usage:
+ *   bun run scripts/index-sources.ts
+ *   bun run scripts/index-sources.ts --entity "Barge"
+ *   bun run scripts/index-sources.ts --form-name "frmBargeDraft"
+ *   bun run scripts/index-sources.ts --print
+ */
+
+import { parsedArgs } from "../lib/flags";
+import { parseEntityFromFormName } from "../lib/paths";
+import {
+	formatSourceIndexForPrompt,
+	getSourceIndexPath,
+	loadSourceIndex,
+} from "../lib/source-index";
+
+async function main() {
+	const index = await loadSourceIndex({ refresh: true });
+
+	if (parsedArgs.values.print === true) {
+		console.log(JSON.stringify(index, null, 2));
+		return;
+	}
+
+	const formName = parsedArgs.values["form-name"] as string | undefined;
+	const entity =
+		(parsedArgs.values.entity as string | undefined) ||
+		(formName ? (parseEntityFromFormName(formName) ?? formName.replace(/^frm/i, "")) : undefined);
+
+	if (entity) {
+		const section = await formatSourceIndexForPrompt(entity, formName);
+		console.log(section || `\nNo indexed files for ${formName || entity}.`);
+		return;
+	}
+
+	const countKind = (kind: string) => index.forms.filter((form) => form.kind === kind).length;
+	const countClasses = (kind: string) =>
+		index.classes.filter((indexed) => indexed.kind === kind).length;
+
+	console.log(`\nSource index for ${index.inputDirectory}`);
+	console.log(`  .vb files:         ${index.fileCount}`);
+	console.log(
+		`  Forms:             ${index.forms.length} (${countKind("Search")} Search, ${countKind("Detail")} Detail, ${countKind("Single")} single)`,
+	);
+	console.log(`  Business objects:  ${countClasses("businessObject")}`);
+	console.log(`  Base classes:      ${countClasses("businessObjectBase")}`);
+	console.log(`  List classes:      ${countClasses("list")}`);
+	console.log(`\nIndex written to: ${getSourceIndexPath()}\n`);
+}
+
+await main();
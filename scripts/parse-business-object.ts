@@ -0,0 +1,58 @@
+#!/usr/bin/env -S bun run
+/**
+ * PARSE BUSINESS OBJECT: Build a property and business-rule inventory from VB.NET business objects (no LLM)
+ *
+ * Parses {Entity}Location.vb and {Entity}LocationBase.vb and writes
+ * {output}/.baseline/business-object.json, the same file the business logic extractor
+ * hands to Claude.
+ *
+ * Usage:
+ *   bun run scripts/parse-business-object.ts --entity "Facility"
+ *   bun run scripts/parse-business-object.ts --entity "Facility" --output "./custom/path"
+ *   bun run scripts/parse-business-object.ts --entity "Facility" --print
+ */
+
+import {
+	buildBusinessObjectInventory,
+	formatInventoryForPrompt,
+	writeBusinessObjectInventory,
+} from "../lib/business-object-parser";
+import { parsedArgs } from "../lib/flags";
+import {
+	getBusinessObjectBasePathForPrompt,
+	getBusinessObjectPathForPrompt,
+	getProjectRoot,
+} from "../lib/paths";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+async function main() {
+	const entity = parsedArgs.values.entity as string | undefined;
+	if (!entity) {
+		console.error("Error: --entity parameter is required");
+		console.error('Usage: bun run scripts/parse-business-object.ts --entity "Facility"');
+		process.exit(1);
+	}
+
+	const outputPath = (parsedArgs.values.output as string) || `${projectRoot}output/${entity}`;
+	const inventory = await buildBusinessObjectInventory(entity, [
+		getBusinessObjectPathForPrompt(entity),
+		getBusinessObjectBasePathForPrompt(entity),
+	]);
+
+	if (inventory.classes.length === 0) {
+		console.error(`Error: Business object files not found: ${inventory.missingFiles.join(", ")}`);
+		process.exit(1);
+	}
+
+	if (parsedArgs.values.print === true) {
+		console.log(JSON.stringify(inventory, null, 2));
+		return;
+	}
+
+	const inventoryPath = await writeBusinessObjectInventory(outputPath, inventory);
+	console.log(`\n${formatInventoryForPrompt(inventory)}`);
+	console.log(`\nInventory written to: ${inventoryPath}\n`);
+}
+
+await main();
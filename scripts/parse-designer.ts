@@ -0,0 +1,69 @@
+#!/usr/bin/env -S bun run
+/**
+ * PARSE DESIGNER: Build a baseline form structure from a VB.NET Designer file (no LLM)
+ *
+ * Writes {output}/.baseline/form-structure-{search|detail}.json for Search/Detail forms
+ * and {output}/.baseline/form-structure.json for single forms, the same file the form
+ * structure analyzer hands to Claude.
+ *
+ * Usage:
+ *   bun run scripts/parse-designer.ts --form-name "frmBargeSearch"
+ *   bun run scripts/parse-designer.ts --form-name "frmFuelPrices" --output "./custom/path"
+ *   bun run scripts/parse-designer.ts --form-name "frmBargeDetail" --print
+ */
+
+import { buildFormStructureBaseline, writeFormStructureBaseline } from "../lib/designer-parser";
+import { parsedArgs } from "../lib/flags";
+import {
+	getFormDesignerPathByNameForPrompt,
+	getFormPathByNameForPrompt,
+	getProjectRoot,
+	parseEntityFromFormName,
+} from "../lib/paths";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+async function main() {
+	const formName = parsedArgs.values["form-name"] as string | undefined;
+	if (!formName) {
+		console.error("Error: --form-name parameter is required");
+		console.error('Usage: bun run scripts/parse-designer.ts --form-name "frmBargeSearch"');
+		process.exit(1);
+	}
+
+	const pairEntity = parseEntityFromFormName(formName);
+	const entity = pairEntity ?? formName.replace(/^frm/i, "");
+	const formType = pairEntity ? formName.slice(3 + pairEntity.length).toLowerCase() : null;
+	const outputFileName = formType ? `form-structure-${formType}.json` : "form-structure.json";
+	const outputPath = (parsedArgs.values.output as string) || `${projectRoot}output/${entity}`;
+
+	const designerPath = getFormDesignerPathByNameForPrompt(formName);
+	const baseline = await buildFormStructureBaseline(
+		designerPath,
+		getFormPathByNameForPrompt(formName),
+		formName,
+	);
+
+	if (!baseline) {
+		console.error(`Error: Designer file not found: ${designerPath}`);
+		process.exit(1);
+	}
+
+	if (parsedArgs.values.print === true) {
+		console.log(JSON.stringify(baseline, null, 2));
+		return;
+	}
+
+	const baselinePath = await writeFormStructureBaseline(outputPath, outputFileName, baseline);
+	console.log(`\n${formName}${baseline.formTitle ? ` ("${baseline.formTitle}")` : ""}`);
+	console.log(`  Controls:       ${baseline.controls.length}`);
+	console.log(`  Buttons:        ${baseline.buttons.length}`);
+	console.log(
+		`  Grids:          ${baseline.grids.length} (${baseline.gridColumns.length} designer columns)`,
+	);
+	console.log(`  Tabs:           ${baseline.tabs.length}`);
+	console.log(`  Event handlers: ${baseline.eventHandlers.length}`);
+	console.log(`\nBaseline written to: ${baselinePath}\n`);
+}
+
+await main();
@@ -10,6 +10,7 @@
 
 import { promises as fs } from "node:fs";
 import path from "node:path";
+import { getTaskFileCandidates } from "../lib/repair-prompt";
 
 async function exists(p: string): Promise<boolean> {
 	try {
@@ -28,29 +29,6 @@ async function copyIfMissing(src: string, dest: string): Promise<boolean> {
 	return true;
 }
 
-function taskFileCandidates(entity: string, desiredOutputFile: string): string[] {
-	// Map expected output filename -> potential `.claude/tasks` filenames.
-	// These names reflect what we see Claude producing in practice.
-	const base = entity;
-
-	switch (desiredOutputFile) {
-		case "business-logic.json":
-			return [`${base}_business_logic.json`];
-		case "data-access.json":
-			return [`${base}_data_access.json`];
-		case "security.json":
-			return [`${base}_security.json`];
-		case "ui-mapping.json":
-			return [`${base}_ui_mapping.json`];
-		case "tabs.json":
-			return [`${base}_tabs.json`];
-		case "related-entities.json":
-			return [`${base}_relationships.json`, `${base}_related_entities.json`];
-		default:
-			return [];
-	}
-}
-
 async function main() {
 	const projectRoot = path.resolve(import.meta.dir, "..");
 	const outputRoot = path.join(projectRoot, "output");
@@ -75,7 +53,7 @@ async function main() {
 		if (!a.missingForTemplateGen?.length) continue;
 
 		for (const missingFile of a.missingForTemplateGen) {
-			const candidates = taskFileCandidates(a.entity, missingFile);
+			const candidates = getTaskFileCandidates(a.entity, missingFile);
 			if (!candidates.length) continue;
 
 			for (const candidate of candidates) {
@@ -0,0 +1,133 @@
+#!/usr/bin/env -S bun run
+/**
+ * Validate analysis artifacts in /output against the JSON Schemas in /schemas
+ *
+ * Every entity folder is checked: each known artifact on disk must parse as JSON and
+ * match its schema, and output files of completed steps in conversion-status.json
+ * must exist.
+ *
+ * Usage:
+ *   bun run scripts/validate-output.ts
+ *   bun run scripts/validate-output.ts --entity "Barge"
+ */
+
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import {
+	type ArtifactValidationResult,
+	getArtifactFileNames,
+	validateArtifact,
+} from "../lib/artifact-schemas";
+import { parsedArgs } from "../lib/flags";
+
+type StepStatus = {
+	status: string;
+	outputFile?: string;
+};
+
+type EntityValidation = {
+	folder: string;
+	results: ArtifactValidationResult[];
+};
+
+async function exists(p: string): Promise<boolean> {
+	try {
+		await fs.access(p);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function findEntityFolders(outputRoot: string, entity?: string): Promise<string[]> {
+	const entries = await fs.readdir(outputRoot, { withFileTypes: true });
+	return entries
+		.filter(
+			(entry) => entry.isDirectory() && !entry.name.startsWith("_") && !entry.name.startsWith("."),
+		)
+		.map((entry) => entry.name)
+		.filter((folder) => !entity || folder === entity)
+		.sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Artifacts to check for one folder: known files on disk plus outputs of completed steps
+ */
+async function artifactsToCheck(folderPath: string): Promise<string[]> {
+	const files = new Set<string>();
+	for (const file of getArtifactFileNames()) {
+		if (await exists(path.join(folderPath, file))) files.add(file);
+	}
+
+	const statusPath = path.join(folderPath, "conversion-status.json");
+	if (await exists(statusPath)) {
+		try {
+			const status = JSON.parse(await fs.readFile(statusPath, "utf8")) as { steps?: StepStatus[] };
+			for (const step of status.steps ?? []) {
+				if (step.status === "completed" && step.outputFile) files.add(step.outputFile);
+			}
+		} catch {
+			// An unreadable status file is reported by audit-output; validate what is on disk
+		}
+	}
+
+	return Array.from(files).sort();
+}
+
+function printReport(validations: EntityValidation[]): number {
+	const invalid = validations.flatMap((v) =>
+		v.results.filter((r) => !r.valid).map((r) => ({ folder: v.folder, result: r })),
+	);
+	const checked = validations.reduce((total, v) => total + v.results.length, 0);
+
+	console.log("\n=== Output Validation Summary ===\n");
+	console.log(`Entities scanned: ${validations.length}`);
+	console.log(`Artifacts checked: ${checked}`);
+	console.log(`Invalid artifacts: ${invalid.length}\n`);
+
+	for (const v of validations) {
+		const failures = v.results.filter((r) => !r.valid);
+		if (failures.length === 0) continue;
+
+		console.log(`- ${v.folder}`);
+		for (const failure of failures) {
+			console.log(`  ✗ ${path.basename(failure.file)}`);
+			for (const error of failure.errors.slice(0, 5)) console.log(`    - ${error}`);
+			if (failure.errors.length > 5) console.log(`    - ... and ${failure.errors.length - 5} more`);
+		}
+		console.log("");
+	}
+
+	if (invalid.length === 0) {
+		console.log("All artifacts match their schemas.\n");
+	}
+
+	return invalid.length;
+}
+
+async function main() {
+	const projectRoot = path.resolve(import.meta.dir, "..");
+	const outputRoot = path.join(projectRoot, "output");
+	const entity = parsedArgs.values.entity as string | undefined;
+
+	const folders = await findEntityFolders(outputRoot, entity);
+	if (entity && folders.length === 0) {
+		console.error(`Error: No output folder found for entity "${entity}"`);
+		process.exit(1);
+	}
+
+	const validations: EntityValidation[] = [];
+	for (const folder of folders) {
+		const folderPath = path.join(outputRoot, folder);
+		const results: ArtifactValidationResult[] = [];
+		for (const file of await artifactsToCheck(folderPath)) {
+			results.push(await validateArtifact(folderPath, file));
+		}
+		if (results.length > 0) validations.push({ folder, results });
+	}
+
+	const invalidCount = printReport(validations);
+	process.exit(invalidCount === 0 ? 0 : 1);
+}
+
+await main();
@@ -0,0 +1,184 @@
+/**
+ * Tests for lib/analysis-diff.ts against artifacts and run snapshots written to a temp folder
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { diffArtifact, diffRunSnapshots, formatAnalysisDiff } from "../lib/analysis-diff";
+import { type RunSnapshot, getRunSnapshotPath } from "../lib/run-history";
+
+let outputPath: string;
+
+beforeEach(async () => {
+	outputPath = await mkdtemp(join(tmpdir(), "analysis-diff-test-"));
+});
+
+afterEach(async () => {
+	await rm(outputPath, { recursive: true, force: true });
+});
+
+async function snapshot(
+	runId: string,
+	overallStatus: string,
+	artifacts: Record<string, unknown>,
+	stepsRun?: number[],
+): Promise<RunSnapshot> {
+	for (const [file, content] of Object.entries(artifacts)) {
+		await Bun.write(`${getRunSnapshotPath(outputPath, runId)}/${file}`, JSON.stringify(content));
+	}
+	return {
+		runId,
+		entity: "Barge",
+		startTime: "2025-01-01T00:00:00.000Z",
+		overallStatus,
+		stepsRun,
+		files: Object.keys(artifacts),
+		snapshotAt: "2025-01-01T00:10:00.000Z",
+	};
+}
+
+describe("analysis diff", () => {
+	test("matches form items by name, so only real changes are reported", () => {
+		const diff = diffArtifact(
+			"form-structure-search.json",
+			{
+				title: "Barge Search",
+				controls: [
+					{ name: "txtBargeNum", type: "TextBox" },
+					{ name: "cboOperator", type: "ComboBox" },
+				],
+				panels: [{ name: "pnlCriteria", controls: ["txtBargeNum", "cboOperator"] }],
+				grids: [
+					{ name: "grdResults", columns: [{ key: "BargeNum" }, { key: "Draft", width: 80 }] },
+				],
+				buttons: ["btnSearch", "btnClear"],
+			},
+			{
+				title: "Barge Search",
+				controls: [
+					{ name: "cboOperator", type: "UltraCombo" },
+					{ name: "txtBargeNum", type: "TextBox" },
+				],
+				// chkActive is only listed by its panel
+				panels: [{ name: "pnlCriteria", controls: ["txtBargeNum", "cboOperator", "chkActive"] }],
+				grids: [
+					{
+						name: "grdResults",
+						columns: [{ key: "BargeNum" }, { key: "Draft", width: 100 }, { key: "Operator" }],
+					},
+				],
+				buttons: ["btnSearch"],
+			},
+		);
+
+		expect(diff.status).toBe("changed");
+		expect(diff.changedSections).toEqual(["controls", "panels", "grids", "buttons"]);
+		expect(diff.collections).toEqual([
+			{
+				name: "controls",
+				added: ["chkActive"],
+				removed: [],
+				changed: [{ key: "cboOperator", fields: ["type"] }],
+			},
+			{ name: "buttons", added: [], removed: ["btnClear"], changed: [] },
+			{
+				name: "grids",
+				added: [],
+				removed: [],
+				changed: [{ key: "grdResults", fields: ["columns"] }],
+			},
+			{
+				name: "grid columns",
+				added: ["grdResults.Operator"],
+				removed: [],
+				changed: [{ key: "grdResults.Draft", fields: ["width"] }],
+			},
+		]);
+	});
+
+	test("diffs procedure parameters and result columns, numbering repeated names", () => {
+		const diff = diffArtifact(
+			"data-access.json",
+			{
+				storedProcedures: [
+					{ name: "BargeSearch", parameters: [{ name: "@Name" }], resultColumns: ["BargeID"] },
+				],
+			},
+			{
+				storedProcedures: [
+					{
+						name: "BargeSearch",
+						parameters: [{ name: "@Name" }, { name: "@Name", type: "varchar" }],
+						resultColumns: ["BargeID", "Draft"],
+					},
+				],
+			},
+		);
+
+		expect(diff.collections).toEqual([
+			{
+				name: "stored procedures",
+				added: [],
+				removed: [],
+				changed: [{ key: "BargeSearch", fields: ["parameters", "resultColumns"] }],
+			},
+			{
+				name: "stored procedure parameters",
+				added: ["BargeSearch.@Name (2)"],
+				removed: [],
+				changed: [],
+			},
+			{ name: "result columns", added: ["BargeSearch.Draft"], removed: [], changed: [] },
+		]);
+	});
+
+	test("collects validation rules from every array of validation.json", () => {
+		const diff = diffArtifact(
+			"validation.json",
+			{ rules: { required: [{ property: "BargeNum" }] } },
+			{ rules: { required: [{ property: "BargeNum" }, { property: "Draft" }] } },
+		);
+
+		expect(diff.collections).toEqual([
+			{ name: "validation rules", added: ["rules.required: Draft"], removed: [], changed: [] },
+		]);
+	});
+
+	test("compares the artifacts of two snapshots and reports them in markdown", async () => {
+		const dataAccess = { storedProcedures: [{ name: "BargeSearch" }] };
+		const from = await snapshot(
+			"run-1",
+			"completed",
+			{ "data-access.json": dataAccess, "security.json": {} },
+			[1, 2],
+		);
+		const to = await snapshot("run-2", "failed", {
+			"business-logic.json": { properties: [] },
+			"data-access.json": dataAccess,
+		});
+
+		const diff = await diffRunSnapshots(outputPath, from, to);
+		expect(diff.artifacts.map((artifact) => [artifact.file, artifact.status])).toEqual([
+			["business-logic.json", "added"],
+			["data-access.json", "unchanged"],
+			["security.json", "removed"],
+		]);
+		expect(formatAnalysisDiff(diff)).toBe(
+			[
+				"# Analysis diff: Barge",
+				"",
+				"- From: run-1 (completed, steps 1, 2)",
+				"- To:   run-2 (failed)",
+				"",
+				"## business-logic.json (added)",
+				"",
+				"## security.json (removed)",
+				"",
+				"Unchanged: data-access.json",
+				"",
+			].join("\n"),
+		);
+	});
+});
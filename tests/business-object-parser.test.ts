@@ -0,0 +1,214 @@
+/**
+ * Tests for lib/business-object-parser.ts against the SampleLocation fixtures in
+ * tests/fixtures/legacy
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type BusinessObjectInventory,
+	type VbClassInventory,
+	buildBusinessObjectInventory,
+	citePropertySources,
+	formatInventoryForPrompt,
+	parseBusinessObjectSource,
+} from "../lib/business-object-parser";
+import { getProjectRoot } from "../lib/paths";
+
+const fixturesPath = `${getProjectRoot(import.meta.url)}tests/fixtures/legacy`;
+const locationPath = `${fixturesPath}/SampleLocation.vb`;
+const basePath = `${fixturesPath}/SampleLocationBase.vb`;
+const listPath = `${fixturesPath}/SampleList.vb`;
+
+let workDir: string;
+
+beforeEach(async () => {
+	workDir = await mkdtemp(join(tmpdir(), "business-object-test-"));
+});
+
+afterEach(async () => {
+	await rm(workDir, { recursive: true, force: true });
+});
+
+function buildInventory(): Promise<BusinessObjectInventory> {
+	return buildBusinessObjectInventory("Sample", [locationPath, basePath, listPath]);
+}
+
+function findClass(inventory: BusinessObjectInventory, file: string): VbClassInventory {
+	const found = inventory.classes.find((cls) => cls.file === file);
+	if (!found) throw new Error(`${file} was not parsed`);
+	return found;
+}
+
+describe("business object parser", () => {
+	test("parses the files that exist and lists the missing ones", async () => {
+		const inventory = await buildInventory();
+		expect(inventory.classes.map((cls) => cls.file)).toEqual([
+			"SampleLocation.vb",
+			"SampleLocationBase.vb",
+		]);
+		expect(inventory.missingFiles).toEqual([listPath]);
+
+		const base = findClass(inventory, "SampleLocationBase.vb");
+		expect(base).toMatchObject({
+			className: "SampleLocationBase",
+			baseClass: "BusinessBase",
+			namespace: "BusinessObjects",
+		});
+		expect(findClass(inventory, "SampleLocation.vb").baseClass).toBe("SampleLocationBase");
+	});
+
+	test("reads properties with access, backing field, MaxLength and line span", async () => {
+		const base = findClass(await buildInventory(), "SampleLocationBase.vb");
+		expect(base.properties).toEqual([
+			{
+				name: "SampleID",
+				type: "Integer",
+				access: "ReadOnly",
+				modifiers: ["Public"],
+				backingField: "p_SampleID",
+				span: { file: "SampleLocationBase.vb", startLine: 16, endLine: 20 },
+			},
+			{
+				name: "Name",
+				type: "String",
+				access: "ReadWrite",
+				modifiers: ["Public", "Overridable"],
+				backingField: "p_Name",
+				maxLength: 50,
+				span: { file: "SampleLocationBase.vb", startLine: 22, endLine: 29 },
+			},
+			{
+				name: "Description",
+				type: "String",
+				access: "ReadWrite",
+				modifiers: ["Public"],
+				backingField: "p_Description",
+				maxLength: 255,
+				span: { file: "SampleLocationBase.vb", startLine: 31, endLine: 38 },
+			},
+			{
+				name: "IsActive",
+				type: "Boolean",
+				access: "ReadWrite",
+				modifiers: ["Public", "MustOverride"],
+				span: { file: "SampleLocationBase.vb", startLine: 40, endLine: 40 },
+			},
+		]);
+	});
+
+	test("reads fields and qualifies constants of nested classes", async () => {
+		const base = findClass(await buildInventory(), "SampleLocationBase.vb");
+		expect(base.fields.map((field) => [field.name, field.initializer])).toEqual([
+			["p_SampleID", undefined],
+			["p_Name", '""'],
+			["p_dispName", '"Sample Name"'],
+			["p_Description", undefined],
+		]);
+		expect(base.constants).toEqual([
+			{
+				name: "MaxLength.Name",
+				type: "Integer",
+				value: "50",
+				span: { file: "SampleLocationBase.vb", startLine: 7, endLine: 7 },
+			},
+			{
+				name: "MaxLength.Description",
+				type: undefined,
+				value: "255",
+				span: { file: "SampleLocationBase.vb", startLine: 8, endLine: 8 },
+			},
+		]);
+	});
+
+	test("collects CheckBusinessRules branches and asserts with the properties they check", async () => {
+		const rules = findClass(await buildInventory(), "SampleLocation.vb").checkBusinessRules;
+		expect(rules?.signature).toBe("Protected Overrides Sub CheckBusinessRules()");
+		expect(rules?.span).toEqual({ file: "SampleLocation.vb", startLine: 17, endLine: 33 });
+
+		// A continued assert keeps the span of all its lines
+		expect(rules?.asserts).toEqual([
+			{
+				ruleKey: '"NameRequired"',
+				message: 'p_dispName & " is required"',
+				condition: "p_Name.Length = 0",
+				properties: ["Name"],
+				span: { file: "SampleLocation.vb", startLine: 18, endLine: 19 },
+			},
+		]);
+
+		const branches = rules?.branches ?? [];
+		expect(
+			branches.map((branch) => [
+				branch.kind,
+				branch.condition,
+				branch.depth,
+				branch.parent,
+				branch.span.startLine,
+				branch.span.endLine,
+			]),
+		).toEqual([
+			["If", "p_IsActive", 1, undefined, 21, 22],
+			["ElseIf", "p_Description Is Nothing", 1, undefined, 23, 24],
+			["Else", "", 1, undefined, 25, 32],
+			["Case", "p_SampleID = 0", 2, 2, 27, 28],
+			["Case Else", "", 2, 2, 29, 30],
+			["If", "Description.Length > MaxLength.Description", 3, 4, 30, 30],
+		]);
+
+		expect(branches[0].asserts[0]).toMatchObject({
+			ruleKey: '"NameLength"',
+			condition: "p_Name.Length > MaxLength.Name",
+			properties: ["Name"],
+			span: { startLine: 22, endLine: 22 },
+		});
+		expect(branches[1].asserts[0].ruleKey).toBe('"DescriptionRequired"');
+		expect(branches[3].asserts[0]).toMatchObject({
+			ruleKey: '"IdMissing"',
+			properties: ["SampleID"],
+		});
+		expect(branches[5].asserts[0].ruleKey).toBe('"DescriptionLength"');
+	});
+
+	test("cites the same lines for CRLF sources", async () => {
+		const source = await Bun.file(locationPath).text();
+		expect(parseBusinessObjectSource(source.replaceAll("\n", "\r\n"), locationPath)).toEqual(
+			parseBusinessObjectSource(source, locationPath),
+		);
+	});
+
+	test("formats a line-cited inventory for the prompt", async () => {
+		const text = formatInventoryForPrompt(await buildInventory());
+		expect(text).toContain("SampleLocation.vb: Class SampleLocation Inherits SampleLocationBase");
+		expect(text).toContain(
+			"  - Property Name As String (ReadWrite, backing p_Name, MaxLength 50) @ SampleLocationBase.vb:22-29",
+		);
+		expect(text).toContain("  CheckBusinessRules @ SampleLocation.vb:17-33");
+		expect(text).toContain('    - Assert "NameRequired" when p_Name.Length = 0 @ line 18');
+		expect(text).toContain(`Not found: ${listPath}`);
+	});
+
+	test("adds citations only to properties of business-logic.json that have none", async () => {
+		const businessLogicPath = join(workDir, "business-logic.json");
+		await Bun.write(
+			businessLogicPath,
+			JSON.stringify({
+				properties: [
+					{ name: "Name" },
+					{ name: "description", sourceFile: "Other.vb", lineStart: 3 },
+					{ name: "Unknown" },
+				],
+			}),
+		);
+
+		expect(await citePropertySources(businessLogicPath, await buildInventory())).toBe(1);
+		const document = await Bun.file(businessLogicPath).json();
+		expect(document.properties).toEqual([
+			{ name: "Name", sourceFile: "SampleLocationBase.vb", lineStart: 22, lineEnd: 29 },
+			{ name: "description", sourceFile: "Other.vb", lineStart: 3 },
+			{ name: "Unknown" },
+		]);
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for lib/consistency-check.ts against analysis files written to a temp folder
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { checkConsistency, formatConsistencyReport } from "../lib/consistency-check";
+
+let outputPath: string;
+
+beforeEach(async () => {
+	outputPath = await mkdtemp(join(tmpdir(), "consistency-check-test-"));
+});
+
+afterEach(async () => {
+	await rm(outputPath, { recursive: true, force: true });
+});
+
+async function write(file: string, content: unknown): Promise<void> {
+	await Bun.write(
+		join(outputPath, file),
+		typeof content === "string" ? content : JSON.stringify(content, null, 2),
+	);
+}
+
+async function writeBargeAnalysis(): Promise<void> {
+	await write("form-structure-detail.json", {
+		controls: [{ name: "txtBargeNum" }, { name: "txtDraft" }],
+		panels: [{ name: "pnlMain", controls: ["btnSave", "cboOperator"] }],
+	});
+	await write("validation.json", {
+		formValidation: {
+			validatorControls: [
+				{ control: "txtBargeNum", property: "BargeNum" },
+				{ control: "txtDRAFT", property: "Draft" },
+				{ control: "txtLength", property: "Length" },
+			],
+		},
+	});
+	await write("security.json", {
+		buttons: [
+			{ button: "btnSave", permission: "Edit" },
+			{ button: "btnDelete", permission: "Delete" },
+		],
+	});
+	await write("workflow.json", { steps: [{ trigger: "btnSave click" }] });
+	await write("business-logic.json", {
+		properties: [{ name: "BargeNum" }, { name: "Draft" }, { name: "OperatorID" }],
+		relationships: [{ property: "Charters", relatedEntity: "BargeCharter" }],
+	});
+	await write("data-access.json", {
+		storedProcedures: [
+			{ name: "BargeSelect", resultColumns: ["BargeNum", "Draft", "OperatorName"] },
+			{ name: "BargeSearch", resultColumns: [{ column: "OperatorName" }] },
+		],
+		childEntities: ["BargeCharters", "BargeNotes"],
+	});
+	await write("related-entities.json", {
+		relationships: [
+			{ parentProperty: "Charters", relatedEntity: "BargeCharter" },
+			{ parentProperty: "Fleet", relatedEntity: "Fleet" },
+		],
+	});
+}
+
+describe("consistency check", () => {
+	test("reports each reference with no counterpart in the other artifacts", async () => {
+		await writeBargeAnalysis();
+		const report = await checkConsistency(outputPath, "Barge");
+
+		expect(report.checks.map(({ id, references, dangling }) => [id, references, dangling])).toEqual(
+			[
+				["control", 5, 2],
+				["button", 2, 1],
+				["column", 4, 1],
+				["property", 3, 1],
+				["related-entity", 4, 2],
+			],
+		);
+		expect(
+			report.findings.map(({ check, source, path, reference }) => [check, source, path, reference]),
+		).toEqual([
+			["control", "validation.json", "formValidation.validatorControls[2].control", "txtLength"],
+			["control", "security.json", "buttons[1].button", "btnDelete"],
+			["button", "security.json", "buttons[1].button", "btnDelete"],
+			["column", "data-access.json", "storedProcedures[0].resultColumns[2]", "OperatorName"],
+			["property", "validation.json", "formValidation.validatorControls[2].property", "Length"],
+			["related-entity", "related-entities.json", "relationships[1]", "Fleet"],
+			["related-entity", "data-access.json", "childEntities[1]", "BargeNotes"],
+		]);
+		expect(report.findings[3].message).toBe(
+			"Column OperatorName returned by BargeSelect, BargeSearch has no business-logic.json property",
+		);
+	});
+
+	test("skips the checks whose artifacts are missing and ignores unreadable files", async () => {
+		await write("business-logic.json", { properties: ["BargeNum"] });
+		await write("tabs.json", "{ not json");
+		await write("notes.json", { controls: ["txtUnknown"] });
+		const report = await checkConsistency(outputPath, "Barge");
+
+		expect(report.artifacts).toEqual(["business-logic.json"]);
+		expect(report.checks.map((check) => [check.id, check.skipped])).toEqual([
+			["control", "missing form-structure*.json"],
+			["button", "missing security.json, workflow.json"],
+			["column", "missing data-access.json"],
+			["property", undefined],
+			["related-entity", "missing related-entities.json"],
+		]);
+		expect(formatConsistencyReport(report)).toContain("No dangling references found.");
+	});
+
+	test("groups the findings of each check by the artifact holding them", async () => {
+		await writeBargeAnalysis();
+		const markdown = formatConsistencyReport(await checkConsistency(outputPath, "Barge"));
+
+		expect(markdown).toContain("| Buttons in security.json appear in workflow.json | 2 | 1 |  |");
+		expect(markdown).toContain(
+			[
+				"## control (2)",
+				"",
+				"### validation.json",
+				"",
+				"- validation.json references control txtLength, which is not in form-structure-detail.json (`formValidation.validatorControls[2].control`)",
+				"",
+				"### security.json",
+				"",
+				"- security.json references control btnDelete, which is not in form-structure-detail.json (`buttons[1].button`)",
+				"",
+			].join("\n"),
+		);
+	});
+});
@@ -0,0 +1,361 @@
+/**
+ * Tests for lib/deployment.ts against templates and target projects in a temp folder
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, readFileSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import config from "../config.json" with { type: "json" };
+import {
+	type ConflictResolution,
+	type DeployedFile,
+	type DeploymentManifest,
+	type PlannedFile,
+	backupTarget,
+	findLastDeployedCopy,
+	findNewerDeployments,
+	getDeploymentPath,
+	getDeploymentStatus,
+	hashFile,
+	hashText,
+	mergeFiles,
+	planDeployment,
+	readDeploymentManifest,
+	rollbackDeployment,
+	writeDeployedFile,
+	writeDeploymentManifest,
+} from "../lib/deployment";
+import type { ProjectEdit } from "../lib/project-wiring";
+
+const configuredTargets = structuredClone(config.targetProjects);
+
+let workDir: string;
+let outputPath: string;
+let templatesPath: string;
+let shared: string;
+let ui: string;
+
+beforeEach(async () => {
+	workDir = await mkdtemp(join(tmpdir(), "deployment-test-"));
+	outputPath = join(workDir, "output", "Barge");
+	templatesPath = join(outputPath, "templates");
+	const monorepo = join(workDir, "mono");
+	shared = join(monorepo, "src", "BargeOps.Shared");
+	ui = join(monorepo, "src", "BargeOps.UI");
+	config.targetProjects = {
+		...configuredTargets,
+		monorepo,
+		adminApi: join(monorepo, "src", "BargeOps.API"),
+		adminUi: ui,
+		shared,
+	};
+});
+
+afterEach(async () => {
+	config.targetProjects = structuredClone(configuredTargets);
+	await rm(workDir, { recursive: true, force: true });
+});
+
+async function write(path: string, content: string): Promise<string> {
+	await Bun.write(path, content);
+	return path;
+}
+
+async function writeTemplate(template: string, content: string): Promise<string> {
+	return write(join(templatesPath, template), content);
+}
+
+function read(path: string): string {
+	return readFileSync(path, "utf8");
+}
+
+/**
+ * Deploy the templates the way deploy-templates does, resolving every conflict the same way
+ */
+async function deploy(
+	deploymentId: string,
+	resolution: ConflictResolution = "overwrite",
+	edits: ProjectEdit[] = [],
+): Promise<DeploymentManifest> {
+	const files: DeployedFile[] = [];
+	for (const file of planDeployment(templatesPath).files) {
+		const record: DeployedFile = {
+			template: file.template,
+			source: file.source,
+			target: file.target,
+			action: "create",
+			sourceSha256: (await hashFile(file.source)) ?? "",
+		};
+		if (!file.exists) {
+			record.sha256 = await writeDeployedFile(outputPath, deploymentId, file, file.content);
+		} else if (file.identical) {
+			record.action = "unchanged";
+			record.targetSha256 = hashText(file.content);
+		} else {
+			record.action = resolution;
+			record.backup = await backupTarget(outputPath, deploymentId, file);
+			const content =
+				resolution === "merge"
+					? mergeFiles(file.target, await findLastDeployedCopy(outputPath, file.target), file).text
+					: file.content;
+			record.sha256 = await writeDeployedFile(outputPath, deploymentId, file, content);
+		}
+		record.targetSha256 ??= record.sha256;
+		files.push(record);
+	}
+
+	const manifest: DeploymentManifest = {
+		deploymentId,
+		entity: "Barge",
+		createdAt: "2025-01-01T00:00:00.000Z",
+		templatesPath,
+		targetProjects: { monorepo: "", adminApi: "", adminUi: "", shared },
+		monorepoHead: null,
+		files,
+		edits,
+	};
+	await writeDeploymentManifest(outputPath, manifest);
+	return manifest;
+}
+
+/**
+ * A registration added to a file, recorded as deploy-templates records its edits
+ */
+async function register(target: string, line: string): Promise<ProjectEdit> {
+	await write(target, `${read(target)}${line}\n`);
+	return { target, purpose: "registrations", inserted: [line] };
+}
+
+describe("deployment", () => {
+	test("plans a target per template and rewrites namespaces to the target project", async () => {
+		await write(
+			join(shared, "BargeOps.Shared.csproj"),
+			'<Project Sdk="Microsoft.NET.Sdk">\n</Project>\n',
+		);
+		await writeTemplate(
+			"shared/Dto/BargeDto.cs",
+			"namespace Generated.Dto;\n\npublic class BargeDto { }\n",
+		);
+		await writeTemplate("ui/Views/Barge/Index.cshtml", "<h1>Barges</h1>\n");
+		await writeTemplate("ui/Views/Barge/Edit.cshtml", "<h1>Edit barge</h1>\n");
+		await write(join(ui, "Views", "Barge", "Index.cshtml"), "<h1>Barges</h1>\n");
+		await write(join(ui, "Views", "Barge", "Edit.cshtml"), "<h1>Edit</h1>\n");
+
+		const plan = planDeployment(templatesPath);
+		expect(
+			plan.files.map(({ template, target, exists, identical }) => [
+				template,
+				target,
+				exists,
+				identical,
+			]),
+		).toEqual([
+			["shared/Dto/BargeDto.cs", join(shared, "Dto", "BargeDto.cs"), false, false],
+			["ui/Views/Barge/Edit.cshtml", join(ui, "Views", "Barge", "Edit.cshtml"), true, false],
+			["ui/Views/Barge/Index.cshtml", join(ui, "Views", "Barge", "Index.cshtml"), true, true],
+		]);
+		expect(plan.files[0].rewrites).toEqual([
+			{ kind: "namespace", from: "Generated.Dto", to: "BargeOps.Shared.Dto" },
+		]);
+		expect(plan.files[0].content.toString()).toBe(
+			"namespace BargeOps.Shared.Dto;\n\npublic class BargeDto { }\n",
+		);
+		expect(plan.warnings).toEqual([]);
+	});
+
+	test("backs up a target under the deployment folder", async () => {
+		await writeTemplate("ui/Views/Barge/Edit.cshtml", "<h1>Edit barge</h1>\n");
+		const target = await write(join(ui, "Views", "Barge", "Edit.cshtml"), "<h1>Edit</h1>\n");
+		const [file] = planDeployment(templatesPath).files;
+
+		const backup = await backupTarget(outputPath, "d1", file);
+		expect(backup).toBe("backup/ui/Views/Barge/Edit.cshtml");
+		expect(read(`${getDeploymentPath(outputPath, "d1")}/${backup}`)).toBe(read(target));
+	});
+
+	test("merges hand edits made since the last deployment, and conflicts without a base", async () => {
+		const base = await write(
+			join(workDir, "base.cshtml"),
+			"<h1>Barges</h1>\n<p>List</p>\n<footer />\n",
+		);
+		const current = await write(
+			join(workDir, "current.cshtml"),
+			'<h1 class="title">Barges</h1>\n<p>List</p>\n<footer />\n',
+		);
+		const file = {
+			template: "ui/Views/Barge/Index.cshtml",
+			content: Buffer.from("<h1>Barges</h1>\n<p>List</p>\n<footer>Barge</footer>\n"),
+		} as PlannedFile;
+
+		expect(mergeFiles(current, base, file)).toEqual({
+			text: '<h1 class="title">Barges</h1>\n<p>List</p>\n<footer>Barge</footer>\n',
+			conflicts: 0,
+		});
+
+		const merged = mergeFiles(current, null, file);
+		expect(merged.conflicts).toBe(1);
+		expect(merged.text).toStartWith("<<<<<<< current\n");
+		expect(merged.text).toContain(">>>>>>> template\n");
+	});
+
+	test("rolls back created, replaced and registered files", async () => {
+		await writeTemplate("ui/Views/Barge/Index.cshtml", "<h1>Barges</h1>\n");
+		await writeTemplate("ui/Views/Barge/Edit.cshtml", "<h1>Edit barge</h1>\n");
+		const edited = await write(join(ui, "Views", "Barge", "Edit.cshtml"), "<h1>Edit</h1>\n");
+		const program = await write(
+			join(ui, "Program.cs"),
+			"var builder = WebApplication.CreateBuilder(args);\n",
+		);
+
+		const manifest = await deploy("d1", "overwrite", [
+			await register(program, "builder.Services.AddHttpClient<IBargeService, BargeService>();"),
+		]);
+		expect(manifest.files.map((file) => [file.template, file.action, file.backup])).toEqual([
+			["ui/Views/Barge/Edit.cshtml", "overwrite", "backup/ui/Views/Barge/Edit.cshtml"],
+			["ui/Views/Barge/Index.cshtml", "create", undefined],
+		]);
+		expect(read(edited)).toBe("<h1>Edit barge</h1>\n");
+
+		const result = await rollbackDeployment(outputPath, manifest);
+		expect(result).toEqual({
+			restored: [edited],
+			removed: [join(ui, "Views", "Barge", "Index.cshtml")],
+			reverted: [program],
+			undone: [],
+			kept: [],
+		});
+		expect(read(edited)).toBe("<h1>Edit</h1>\n");
+		expect(read(program)).toBe("var builder = WebApplication.CreateBuilder(args);\n");
+		expect(existsSync(join(ui, "Views", "Barge", "Index.cshtml"))).toBe(false);
+		expect((await readDeploymentManifest(outputPath, "d1"))?.rolledBackAt).toBeString();
+		expect(await readDeploymentManifest(outputPath, "latest")).toBeNull();
+	});
+
+	test("merges into a target edited since the last deployment and restores it on rollback", async () => {
+		const template = await writeTemplate(
+			"ui/Views/Barge/Index.cshtml",
+			"<h1>Barges</h1>\n<p>List</p>\n<footer />\n",
+		);
+		await deploy("2025-01-01T00-00-00-000Z");
+		const target = join(ui, "Views", "Barge", "Index.cshtml");
+		const handEdited = '<h1 class="title">Barges</h1>\n<p>List</p>\n<footer />\n';
+		await write(target, handEdited);
+		await write(template, "<h1>Barges</h1>\n<p>List</p>\n<footer>Barge</footer>\n");
+
+		const merged = await deploy("2025-01-02T00-00-00-000Z", "merge");
+		expect(merged.files.map((file) => [file.action, file.backup])).toEqual([
+			["merge", "backup/ui/Views/Barge/Index.cshtml"],
+		]);
+		expect(read(target)).toBe(
+			'<h1 class="title">Barges</h1>\n<p>List</p>\n<footer>Barge</footer>\n',
+		);
+
+		expect((await rollbackDeployment(outputPath, merged)).restored).toEqual([target]);
+		expect(read(target)).toBe(handEdited);
+	});
+
+	test("counts what was undone by hand and keeps the deployment until the rest is", async () => {
+		await writeTemplate("ui/Views/Barge/Index.cshtml", "<h1>Barges</h1>\n");
+		await writeTemplate("ui/Views/Barge/Edit.cshtml", "<h1>Edit barge</h1>\n");
+		const created = join(ui, "Views", "Barge", "Index.cshtml");
+		const edited = await write(join(ui, "Views", "Barge", "Edit.cshtml"), "<h1>Edit</h1>\n");
+		const program = await write(
+			join(ui, "Program.cs"),
+			"var builder = WebApplication.CreateBuilder(args);\n",
+		);
+		const manifest = await deploy("d1", "overwrite", [
+			await register(program, "builder.Services.AddHttpClient<IBargeService, BargeService>();"),
+		]);
+
+		await rm(created);
+		await write(program, "var builder = WebApplication.CreateBuilder(args);\n");
+		await write(edited, "<h1>Edit barge</h1>\n<p>By hand</p>\n");
+
+		const dryRun = await rollbackDeployment(outputPath, manifest, true);
+		expect(dryRun.kept).toEqual([{ target: edited, reason: "changed since the deployment" }]);
+		expect((await readDeploymentManifest(outputPath, "d1"))?.files.some((f) => f.rolledBack)).toBe(
+			false,
+		);
+
+		expect(await rollbackDeployment(outputPath, manifest)).toEqual({
+			restored: [],
+			removed: [],
+			reverted: [],
+			undone: [
+				{ target: program, reason: "inserted lines no longer present" },
+				{ target: created, reason: "no longer exists" },
+			],
+			kept: [{ target: edited, reason: "changed since the deployment" }],
+		});
+		const partial = await readDeploymentManifest(outputPath, "latest");
+		expect(partial?.rolledBackAt).toBeUndefined();
+		expect(partial?.revertedEdits).toEqual([0]);
+		expect(partial?.files.map((file) => [file.template, file.rolledBack])).toEqual([
+			["ui/Views/Barge/Edit.cshtml", undefined],
+			["ui/Views/Barge/Index.cshtml", true],
+		]);
+
+		// Once the hand edit is undone, the retry restores the backup and finishes the rollback
+		await write(edited, "<h1>Edit barge</h1>\n");
+		expect(await rollbackDeployment(outputPath, partial as DeploymentManifest)).toEqual({
+			restored: [edited],
+			removed: [],
+			reverted: [],
+			undone: [],
+			kept: [],
+		});
+		expect(read(edited)).toBe("<h1>Edit</h1>\n");
+		expect((await readDeploymentManifest(outputPath, "d1"))?.rolledBackAt).toBeString();
+	});
+
+	test("rolls back only the newest deployment still in effect", async () => {
+		await writeTemplate("ui/Views/Barge/Index.cshtml", "<h1>Barges</h1>\n");
+		const created = join(ui, "Views", "Barge", "Index.cshtml");
+		const first = await deploy("2025-01-01T00-00-00-000Z");
+		const second = await deploy("2025-01-02T00-00-00-000Z");
+		expect(second.files.map((file) => file.action)).toEqual(["unchanged"]);
+
+		expect(
+			(await findNewerDeployments(outputPath, first.deploymentId)).map((d) => d.deploymentId),
+		).toEqual([second.deploymentId]);
+		await expect(rollbackDeployment(outputPath, first)).rejects.toThrow(
+			"Deployment 2025-01-01T00-00-00-000Z is followed by 2025-01-02T00-00-00-000Z, still in effect; roll those back first",
+		);
+		expect(existsSync(created)).toBe(true);
+
+		// The newer deployment wrote nothing, so undoing it leaves the file to the first one
+		expect((await rollbackDeployment(outputPath, second)).removed).toEqual([]);
+		expect((await rollbackDeployment(outputPath, first)).removed).toEqual([created]);
+		expect(existsSync(created)).toBe(false);
+	});
+
+	test("reports targets changed or removed since they were deployed, and changed templates", async () => {
+		const index = await writeTemplate("ui/Views/Barge/Index.cshtml", "<h1>Barges</h1>\n");
+		await writeTemplate("ui/Views/Barge/Edit.cshtml", "<h1>Edit barge</h1>\n");
+		await writeTemplate("ui/Views/Barge/Details.cshtml", "<h1>Barge</h1>\n");
+		await deploy("2025-01-01T00-00-00-000Z");
+		await deploy("2025-01-02T00-00-00-000Z");
+
+		await write(join(ui, "Views", "Barge", "Edit.cshtml"), "<h1>Edit</h1>\n");
+		await rm(join(ui, "Views", "Barge", "Details.cshtml"));
+		await write(index, "<h1>All barges</h1>\n");
+
+		const status = await getDeploymentStatus(outputPath, "Barge");
+		expect(status.deployments).toBe(2);
+		expect(status.lastDeployment?.deploymentId).toBe("2025-01-02T00-00-00-000Z");
+		expect(
+			status.files.map(({ template, deploymentId, state, templateChanged }) => [
+				template,
+				deploymentId,
+				state,
+				templateChanged,
+			]),
+		).toEqual([
+			["ui/Views/Barge/Details.cshtml", "2025-01-02T00-00-00-000Z", "missing", false],
+			["ui/Views/Barge/Edit.cshtml", "2025-01-02T00-00-00-000Z", "modified", false],
+			["ui/Views/Barge/Index.cshtml", "2025-01-02T00-00-00-000Z", "clean", true],
+		]);
+	});
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for lib/designer-parser.ts against the frmSampleSearch fixture in tests/fixtures/legacy
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	type FormStructureBaseline,
+	buildFormStructureBaseline,
+	parseDesignerSource,
+	parseEventWiring,
+} from "../lib/designer-parser";
+import { getProjectRoot } from "../lib/paths";
+
+const fixturesPath = `${getProjectRoot(import.meta.url)}tests/fixtures/legacy`;
+const designerPath = `${fixturesPath}/frmSampleSearch.Designer.vb`;
+const codePath = `${fixturesPath}/frmSampleSearch.vb`;
+
+async function buildBaseline(): Promise<FormStructureBaseline> {
+	const baseline = await buildFormStructureBaseline(designerPath, codePath, "frmSampleSearch");
+	if (!baseline) throw new Error(`Fixture not found: ${designerPath}`);
+	return baseline;
+}
+
+describe("designer parser", () => {
+	test("reads the form's class, title and size", async () => {
+		const baseline = await buildBaseline();
+		expect(baseline.formName).toBe("frmSampleSearch");
+		expect(baseline.formTitle).toBe("Sample Search");
+		expect(baseline.inherits).toBe("BaseSearchForm");
+		expect(baseline.clientSize).toEqual({ width: 800, height: 600 });
+		expect(baseline.implements).toEqual(["ISearchForm", "IDisposable"]);
+		expect(baseline.sourceFiles).toEqual({ designer: designerPath, code: codePath });
+	});
+
+	test("lists every control with its type, container, layout and declaration line", async () => {
+		const baseline = await buildBaseline();
+		expect(baseline.controls.map((control) => control.name)).toEqual([
+			"pnlCriteria",
+			"lblName",
+			"txtName",
+			"chkActiveOnly",
+			"btnSearch",
+			"tabMain",
+			"grdResults",
+		]);
+
+		const txtName = baseline.controls.find((control) => control.name === "txtName");
+		expect(txtName).toMatchObject({
+			type: "UltraTextEditor",
+			fullType: "Infragistics.Win.UltraWinEditors.UltraTextEditor",
+			category: "input",
+			parent: "pnlCriteria",
+			location: { x: 80, y: 12 },
+			size: { width: 200, height: 21 },
+			tabIndex: 1,
+			properties: { MaxLength: 50 },
+			line: 105,
+		});
+
+		const chkActiveOnly = baseline.controls.find((control) => control.name === "chkActiveOnly");
+		expect(chkActiveOnly?.text).toBe('Active "only"');
+		expect(chkActiveOnly?.properties.Checked).toBe(true);
+		expect(baseline.controls.find((control) => control.name === "grdResults")?.parent).toBe(
+			"frmSampleSearch",
+		);
+
+		expect(baseline.buttons).toEqual(["btnSearch"]);
+		expect(baseline.grids).toEqual(["grdResults"]);
+		expect(baseline.labels).toEqual(["lblName"]);
+		expect(baseline.panels).toEqual(["pnlCriteria", "tabMain"]);
+	});
+
+	test("orders focusable controls by TabIndex within their containers", async () => {
+		const baseline = await buildBaseline();
+		expect(baseline.tabOrder).toEqual(["txtName", "chkActiveOnly", "btnSearch", "grdResults"]);
+	});
+
+	test("reads Infragistics tabs and grid columns, including continued lines", async () => {
+		const baseline = await buildBaseline();
+		expect(baseline.tabs).toEqual([
+			{ tabControl: "tabMain", key: "results", text: "Results", tabPage: undefined },
+			{ tabControl: "tabMain", key: "history", text: "History", tabPage: undefined },
+		]);
+		expect(baseline.gridColumns).toEqual([
+			{
+				grid: "grdResults",
+				key: "SampleID",
+				caption: "ID",
+				hidden: true,
+				width: undefined,
+				format: undefined,
+			},
+			{
+				grid: "grdResults",
+				key: "Name",
+				caption: "Sample Name",
+				hidden: undefined,
+				width: 250,
+				format: undefined,
+			},
+		]);
+	});
+
+	test("collects handlers from the designer's AddHandler and the code-behind", async () => {
+		const baseline = await buildBaseline();
+		expect(baseline.eventHandlers).toEqual([
+			{
+				control: "grdResults",
+				event: "DoubleClickRow",
+				handler: "grdResults_DoubleClickRow",
+				wiring: "AddHandler",
+				file: "designer",
+				line: 97,
+			},
+			{
+				control: "frmSampleSearch",
+				event: "Load",
+				handler: "frmSampleSearch_Load",
+				wiring: "Handles",
+				file: "code",
+				line: 4,
+			},
+			{
+				control: "btnSearch",
+				event: "Click",
+				handler: "btnSearch_Click",
+				wiring: "Handles",
+				file: "code",
+				line: 8,
+			},
+			{
+				control: "txtName",
+				event: "ValueChanged",
+				handler: "btnSearch_Click",
+				wiring: "Handles",
+				file: "code",
+				line: 8,
+			},
+			{
+				control: "chkActiveOnly",
+				event: "CheckedChanged",
+				handler: "btnSearch_Click",
+				wiring: "AddHandler",
+				file: "code",
+				line: 18,
+			},
+		]);
+	});
+
+	test("cites the same lines for CRLF sources", async () => {
+		const designer = await Bun.file(designerPath).text();
+		const code = await Bun.file(codePath).text();
+		const lf = parseDesignerSource(designer);
+		const crlf = parseDesignerSource(designer.replaceAll("\n", "\r\n"));
+		expect(crlf).toEqual(lf);
+		expect(parseEventWiring(code.replaceAll("\n", "\r\n"), "frmSampleSearch")).toEqual(
+			parseEventWiring(code, "frmSampleSearch"),
+		);
+	});
+
+	test("returns null when the Designer file does not exist", async () => {
+		expect(
+			await buildFormStructureBaseline(
+				`${fixturesPath}/frmMissing.Designer.vb`,
+				codePath,
+				"frmMissing",
+			),
+		).toBeNull();
+	});
+});
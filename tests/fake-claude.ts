@@ -0,0 +1,126 @@
+#!/usr/bin/env -S bun run
+/**
+ * FAKE CLAUDE: Offline stand-in for the claude CLI
+ *
+ * Reads the "Generate a JSON file at: <path>" line from the agent's prompt, writes the
+ * matching artifact from the fixtures directory to that path and prints a result envelope,
+ * so the orchestrator and agents can run end to end without a Claude account.
+ *
+ * The fixtures directory has the same layout as an output folder:
+ *   {fixtures}/{outputFile}            Artifact to write; {{entity}} is replaced with ENTITY_NAME
+ *   {fixtures}/.runs/{runName}.json    Recorded run (saved by lib/claude-result.ts) to replay
+ * so a real output/{Entity} folder can be used as fixtures as it is.
+ *
+ * Environment:
+ *   FAKE_CLAUDE_FIXTURES   Fixtures directory (default: tests/fixtures/Sample)
+ *   FAKE_CLAUDE_FAIL       Comma-separated run names to fail, e.g. "business-logic,security"
+ *   FAKE_CLAUDE_LOG        File that gets one line per invocation with the run name
+ *   FAKE_CLAUDE_DELAY_MS   Sleep before answering, to simulate a slow or hung run
+ *   FAKE_CLAUDE_DELAY_RUNS Comma-separated run names the delay applies to (default: every run)
+ *   FAKE_CLAUDE_INVALID    Comma-separated run names that write an invalid artifact unless the
+ *                          prompt carries the orchestrator's repair prompt (so only retries succeed)
+ *
+ * Usage:
+ *   CLAUDE_BIN=tests/fake-claude.ts bun run agents/orchestrator.ts --entity "Sample" --output /tmp/Sample
+ */
+
+import { existsSync } from "node:fs";
+import { appendFile, mkdir } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+import { getProjectRoot } from "../lib/paths";
+
+const projectRoot = getProjectRoot(import.meta.url);
+
+function getFixturesDir(): string {
+	return process.env.FAKE_CLAUDE_FIXTURES || `${projectRoot}tests/fixtures/Sample`;
+}
+
+function findOutputFile(args: string[]): string | null {
+	for (const arg of [...args].reverse()) {
+		const match = arg.match(/Generate a JSON file at: (.+?\.json)\s*$/m);
+		if (match) return match[1].trim();
+	}
+	return null;
+}
+
+function envelope(runName: string, isError: boolean, result: string): Record<string, unknown> {
+	return {
+		type: "result",
+		subtype: isError ? "error_during_execution" : "success",
+		is_error: isError,
+		duration_ms: 10,
+		duration_api_ms: 5,
+		num_turns: 1,
+		result,
+		session_id: `fake-${runName}`,
+		total_cost_usd: 0.01,
+	};
+}
+
+async function readRecordedEnvelope(runName: string): Promise<string | null> {
+	const recordPath = `${getFixturesDir()}/.runs/${runName}.json`;
+	if (!existsSync(recordPath)) return null;
+
+	const record = JSON.parse(await Bun.file(recordPath).text());
+	if (record.envelope) return JSON.stringify(record.envelope);
+	return typeof record.stdout === "string" ? record.stdout : null;
+}
+
+async function main(): Promise<number> {
+	const args = process.argv.slice(2);
+	const jsonOutput =
+		args.includes("--output-format") && args[args.indexOf("--output-format") + 1] === "json";
+	const outputFile = findOutputFile(args);
+	const runName = outputFile ? basename(outputFile, ".json") : "unknown";
+	const failRuns = (process.env.FAKE_CLAUDE_FAIL || "").split(",").map((name) => name.trim());
+	const invalidRuns = (process.env.FAKE_CLAUDE_INVALID || "").split(",").map((name) => name.trim());
+	const isRepairRun = args.some((arg) => arg.includes("RETRY (attempt "));
+
+	if (process.env.FAKE_CLAUDE_LOG) {
+		await appendFile(process.env.FAKE_CLAUDE_LOG, `${runName}\n`);
+	}
+
+	const delayMs = Number(process.env.FAKE_CLAUDE_DELAY_MS || 0);
+	const delayRuns = (process.env.FAKE_CLAUDE_DELAY_RUNS || "").split(",").filter(Boolean);
+	if (delayMs > 0 && (delayRuns.length === 0 || delayRuns.includes(runName))) {
+		await Bun.sleep(delayMs);
+	}
+
+	const print = (isError: boolean, result: string) => {
+		console.log(jsonOutput ? JSON.stringify(envelope(runName, isError, result)) : result);
+	};
+
+	if (failRuns.includes(runName)) {
+		print(true, `Fake failure for ${runName}`);
+		return 1;
+	}
+
+	if (!outputFile) {
+		print(false, "No output file requested; nothing to do.");
+		return 0;
+	}
+
+	const fixturePath = `${getFixturesDir()}/${basename(outputFile)}`;
+	if (!existsSync(fixturePath)) {
+		print(true, `No fixture for ${basename(outputFile)} in ${getFixturesDir()}`);
+		return 1;
+	}
+
+	const entity = process.env.ENTITY_NAME || "Sample";
+	const artifact =
+		invalidRuns.includes(runName) && !isRepairRun
+			? "Here is the analysis you asked for (not JSON)"
+			: (await Bun.file(fixturePath).text()).replaceAll("{{entity}}", entity);
+	await mkdir(dirname(outputFile), { recursive: true });
+	await Bun.write(outputFile, artifact);
+
+	const recorded = jsonOutput ? await readRecordedEnvelope(runName) : null;
+	if (recorded) {
+		console.log(recorded);
+	} else {
+		print(false, `Wrote ${outputFile}`);
+	}
+	return 0;
+}
+
+process.exit(await main());
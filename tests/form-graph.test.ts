@@ -0,0 +1,120 @@
+/**
+ * Tests for lib/form-graph.ts against a hand-built source index
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	buildFormGraph,
+	formatFormGraphDot,
+	formatFormGraphMermaid,
+	getReachableSubgraph,
+} from "../lib/form-graph";
+import type { IndexedForm, SourceIndex } from "../lib/source-index";
+
+function form(
+	name: string,
+	kind: IndexedForm["kind"],
+	entity: string,
+	opens: IndexedForm["navigations"] = [],
+): IndexedForm {
+	return {
+		name,
+		kind,
+		entity,
+		file: `Forms/${name}.vb`,
+		childForms: [...new Set(opens.map((navigation) => navigation.form))],
+		navigations: opens,
+		classes: [],
+	};
+}
+
+const index: SourceIndex = {
+	version: 3,
+	inputDirectory: "/legacy",
+	generatedAt: "2024-01-01T00:00:00.000Z",
+	fingerprint: "0",
+	fileCount: 4,
+	forms: [
+		form("frmBargeDetail", "Detail", "Barge", [{ form: "frmFuelPrices", line: 3 }]),
+		form("frmBargeSearch", "Search", "Barge", [
+			{ form: "frmBargeDetail", handler: "btnDetail_Click", line: 12 },
+			{ form: "frmBargeDetail", handler: "grdResults_DoubleClick", line: 30 },
+		]),
+		form("frmFuelPrices", "Single", "FuelPrices"),
+		form("frmMain", "Single", "Main", [
+			{ form: "frmBargeSearch", handler: "mnuBarges_Click", line: 8 },
+		]),
+	],
+	classes: [],
+};
+
+describe("form graph", () => {
+	test("has a node per form and an edge per handler that opens a form", () => {
+		const graph = buildFormGraph(index);
+
+		expect(graph.inputDirectory).toBe("/legacy");
+		expect(graph.roots).toBeUndefined();
+		expect(graph.nodes.map((node) => [node.id, node.kind, node.entity, node.file])).toEqual([
+			["frmBargeDetail", "Detail", "Barge", "Forms/frmBargeDetail.vb"],
+			["frmBargeSearch", "Search", "Barge", "Forms/frmBargeSearch.vb"],
+			["frmFuelPrices", "Single", "FuelPrices", "Forms/frmFuelPrices.vb"],
+			["frmMain", "Single", "Main", "Forms/frmMain.vb"],
+		]);
+		expect(graph.edges).toEqual([
+			{ from: "frmBargeDetail", to: "frmFuelPrices", label: "(declaration)", line: 3 },
+			{ from: "frmBargeSearch", to: "frmBargeDetail", label: "btnDetail_Click", line: 12 },
+			{ from: "frmBargeSearch", to: "frmBargeDetail", label: "grdResults_DoubleClick", line: 30 },
+			{ from: "frmMain", to: "frmBargeSearch", label: "mnuBarges_Click", line: 8 },
+		]);
+	});
+
+	test("keeps only the forms reachable from the roots", () => {
+		const subgraph = getReachableSubgraph(buildFormGraph(index), ["FRMBARGESEARCH", "frmMissing"]);
+
+		expect(subgraph.roots).toEqual(["frmBargeSearch"]);
+		expect(subgraph.nodes.map((node) => node.id)).toEqual([
+			"frmBargeDetail",
+			"frmBargeSearch",
+			"frmFuelPrices",
+		]);
+		expect(subgraph.edges.map((edge) => `${edge.from} -> ${edge.to}`)).toEqual([
+			"frmBargeDetail -> frmFuelPrices",
+			"frmBargeSearch -> frmBargeDetail",
+			"frmBargeSearch -> frmBargeDetail",
+		]);
+	});
+
+	test("exports a Mermaid flowchart", () => {
+		const subgraph = getReachableSubgraph(buildFormGraph(index), ["frmBargeDetail"]);
+
+		expect(formatFormGraphMermaid(subgraph)).toBe(
+			[
+				"flowchart TB",
+				'  frmBargeDetail["frmBargeDetail (Detail)"]',
+				'  frmFuelPrices["frmFuelPrices"]',
+				"",
+				'  frmBargeDetail -->|"(declaration)"| frmFuelPrices',
+				"",
+			].join("\n"),
+		);
+	});
+
+	test("exports Graphviz DOT with the roots in bold", () => {
+		const subgraph = getReachableSubgraph(buildFormGraph(index), ["frmBargeDetail"]);
+
+		expect(formatFormGraphDot(subgraph)).toBe(
+			[
+				"digraph forms {",
+				"  rankdir=LR;",
+				"  node [shape=box];",
+				"",
+				'  "frmBargeDetail" [label="frmBargeDetail (Detail)", style=bold];',
+				'  "frmFuelPrices" [label="frmFuelPrices"];',
+				"",
+				'  "frmBargeDetail" -> "frmFuelPrices" [label="(declaration)"];',
+				"}",
+				"",
+			].join("\n"),
+		);
+	});
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for lib/gap-analysis.ts against analysis files and templates written to a temp folder
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	analyzeTemplateGaps,
+	extractCSharpStrings,
+	formatGapReport,
+	parseCSharpProperties,
+} from "../lib/gap-analysis";
+
+let outputPath: string;
+
+beforeEach(async () => {
+	outputPath = await mkdtemp(join(tmpdir(), "gap-analysis-test-"));
+});
+
+afterEach(async () => {
+	await rm(outputPath, { recursive: true, force: true });
+});
+
+async function write(path: string, content: unknown): Promise<void> {
+	await Bun.write(
+		join(outputPath, path),
+		typeof content === "string" ? content : JSON.stringify(content, null, 2),
+	);
+}
+
+async function writeBargeOutput(): Promise<void> {
+	// Properties keyed by name rather than listed
+	await write("business-logic.json", {
+		properties: {
+			BargeNum: { name: "BargeNum" },
+			Draft: { name: "Draft" },
+			OperatorID: { name: "OperatorID" },
+		},
+	});
+	await write("form-structure-search.json", {
+		controls: [
+			{ name: "txtBargeNum", category: "SearchCriteria" },
+			{ name: "cboOperatorID", category: "SearchCriteria" },
+			{ name: "chkActiveOnly", category: "AdvancedSearch" },
+			{ name: "btnSearch", category: "Action" },
+		],
+	});
+	await write("data-access.json", {
+		storedProcedures: [
+			{ name: "BargeSearch", resultColumns: ["BargeID", "BargeNum", { column: "OperatorName" }] },
+		],
+	});
+	await write("security.json", {
+		modern: {
+			api: {
+				attributePattern: "[ApiKey]",
+				endpoints: [
+					{ method: "GET", route: "api/Barge/{id}", action: "GetById" },
+					{ method: "DELETE", route: "api/Barge/{id}" },
+				],
+			},
+			ui: { permissions: [{ name: "BargeEdit" }] },
+		},
+	});
+
+	await write(
+		"templates/shared/Dto/BargeDto.cs",
+		'public class BargeDto\n{\n    public int BargeID { get; set; }\n    public string BargeNum { get; set; } = "";\n    public decimal? Draft { get; init; }\n}\n',
+	);
+	await write(
+		"templates/shared/Dto/BargeSearchRequest.cs",
+		"public class BargeSearchRequest\n{\n    public string? BargeNum { get; set; }\n    public int? OperatorId { get; set; }\n    public int Page { get; set; }\n}\n",
+	);
+	await write(
+		"templates/api/Repositories/BargeRepository.cs",
+		'public class BargeRepository\n{\n    private const string Sql = @"SELECT BargeID, BargeNum FROM Barge"; // OperatorName\n}\n',
+	);
+	await write(
+		"templates/api/Controllers/BargeController.cs",
+		'[ApiKey]\n[Route("api/[controller]")]\npublic class BargeController : ControllerBase\n{\n    [HttpGet("{bargeId}")]\n    public async Task<IActionResult> Get(int bargeId) => Ok();\n}\n',
+	);
+	await write(
+		"templates/ui/Controllers/BargeController.cs",
+		'[Authorize(Policy = "BargeView")]\npublic class BargeController : Controller { }\n',
+	);
+}
+
+describe("gap analysis", () => {
+	test("reads auto-properties and string literals from C#", () => {
+		expect(
+			parseCSharpProperties(
+				"public required string Name { get; init; }\npublic virtual List<int>? Ids { get; set; }\npublic int Count => 1;",
+			),
+		).toEqual(["Name", "Ids"]);
+		expect(
+			extractCSharpStrings(
+				'var a = """\nSELECT 1\n"""; var b = @"say ""hi"""; var c = $"x\\"{y}";',
+			),
+		).toEqual(["\nSELECT 1\n", 'say "hi"', 'x\\"{y}']);
+	});
+
+	test("measures what the templates cover of the analysis", async () => {
+		await writeBargeOutput();
+		const report = await analyzeTemplateGaps(outputPath, "Barge");
+
+		expect(
+			report.checks.map(({ id, templates, covered, missing, extra, coverage }) => ({
+				id,
+				templates,
+				covered,
+				missing,
+				extra,
+				coverage,
+			})),
+		).toEqual([
+			{
+				id: "dto-properties",
+				templates: ["shared/Dto/BargeDto.cs"],
+				covered: ["BargeNum", "Draft"],
+				missing: ["OperatorID"],
+				extra: ["BargeID"],
+				coverage: 66.7,
+			},
+			{
+				id: "search-criteria",
+				templates: ["shared/Dto/BargeSearchRequest.cs"],
+				covered: ["txtBargeNum", "cboOperatorID"],
+				missing: ["chkActiveOnly"],
+				extra: ["Page"],
+				coverage: 66.7,
+			},
+			{
+				id: "sql-columns",
+				templates: ["api/Repositories/BargeRepository.cs"],
+				covered: ["BargeID", "BargeNum"],
+				missing: ["OperatorName"],
+				extra: [],
+				coverage: 66.7,
+			},
+			{
+				id: "authorization",
+				templates: ["api/Controllers/BargeController.cs", "ui/Controllers/BargeController.cs"],
+				covered: ["api controllers use [ApiKey]", "GET api/Barge/{id} (GetById)"],
+				missing: ["DELETE api/Barge/{id}", "ui permission BargeEdit"],
+				extra: [],
+				coverage: 50,
+			},
+		]);
+		expect(report.coverage).toBe(61.5);
+	});
+
+	test("skips the checks whose files do not exist", async () => {
+		await write("business-logic.json", { properties: ["BargeNum"] });
+		await write("security.json", { legacy: {} });
+		const report = await analyzeTemplateGaps(outputPath, "Barge");
+
+		expect(report.checks.map((check) => [check.id, check.skipped])).toEqual([
+			["dto-properties", "missing BargeDto.cs"],
+			["search-criteria", "missing form-structure-search.json"],
+			["sql-columns", "missing data-access.json"],
+			["authorization", "security.json has no modern section"],
+		]);
+		expect(report.coverage).toBeNull();
+	});
+
+	test("reports coverage in a table and lists what is missing", async () => {
+		await writeBargeOutput();
+		const markdown = formatGapReport(await analyzeTemplateGaps(outputPath, "Barge"));
+
+		expect(markdown).toContain("**Overall coverage:** 61.5%");
+		expect(markdown).toContain(
+			"| Search criteria controls with a SearchRequest field | 2/3 | 66.7% | |",
+		);
+		expect(markdown).toContain(
+			[
+				"## authorization",
+				"",
+				"Templates: api/Controllers/BargeController.cs, ui/Controllers/BargeController.cs",
+				"",
+				"Missing (2):",
+				"",
+				"- DELETE api/Barge/{id}",
+				"- ui permission BargeEdit",
+			].join("\n"),
+		);
+	});
+});
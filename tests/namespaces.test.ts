@@ -0,0 +1,165 @@
+/**
+ * Tests for lib/namespaces.ts against target projects created in a temp folder
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getExpectedNamespace, rewriteNamespaces } from "../lib/namespaces";
+
+let workDir: string;
+let infrastructure: string;
+let api: string;
+
+beforeEach(async () => {
+	workDir = await mkdtemp(join(tmpdir(), "namespaces-test-"));
+	infrastructure = join(workDir, "Admin.Infrastructure");
+	api = join(workDir, "Admin.Api");
+	await mkdir(join(infrastructure, "Repositories"), { recursive: true });
+	await mkdir(join(infrastructure, "2024 Data"), { recursive: true });
+	await mkdir(join(api, "Controllers"), { recursive: true });
+	await writeFile(
+		join(infrastructure, "Admin.Infrastructure.csproj"),
+		'<Project Sdk="Microsoft.NET.Sdk">\n</Project>\n',
+	);
+	await writeFile(
+		join(api, "Admin.Api.csproj"),
+		'<Project Sdk="Microsoft.NET.Sdk.Web">\n  <PropertyGroup>\n    <RootNamespace>BargeOps.Admin.Api</RootNamespace>\n  </PropertyGroup>\n</Project>\n',
+	);
+});
+
+afterEach(async () => {
+	await rm(workDir, { recursive: true, force: true });
+});
+
+function repository(namespace: string): string {
+	return `using System;\n\nnamespace ${namespace}\n{\n    public class BargeRepository { }\n}\n`;
+}
+
+function controller(...usings: string[]): string {
+	return `${usings.map((name) => `using ${name};`).join("\n")}\n\nnamespace BargeOps.Admin.Api.Controllers;\n\npublic class BargeController { }\n`;
+}
+
+describe("namespaces", () => {
+	test("derives the namespace from the project and the folders below it", () => {
+		expect(
+			getExpectedNamespace(join(infrastructure, "Repositories", "BargeRepository.cs")),
+		).toEqual({
+			projectFile: join(infrastructure, "Admin.Infrastructure.csproj"),
+			rootNamespace: "Admin.Infrastructure",
+			namespace: "Admin.Infrastructure.Repositories",
+		});
+		expect(getExpectedNamespace(join(infrastructure, "2024 Data", "Seed.cs"))?.namespace).toBe(
+			"Admin.Infrastructure._2024_Data",
+		);
+		expect(getExpectedNamespace(join(api, "Controllers", "BargeController.cs"))?.namespace).toBe(
+			"BargeOps.Admin.Api.Controllers",
+		);
+		expect(getExpectedNamespace(join(tmpdir(), "no-project", "File.cs"))).toBeNull();
+	});
+
+	test("rewrites the declaration and the using lines that import it", () => {
+		const { files, warnings } = rewriteNamespaces([
+			{
+				target: join(infrastructure, "Repositories", "BargeRepository.cs"),
+				content: repository("Admin.Repositories"),
+			},
+			{
+				target: join(api, "Controllers", "BargeController.cs"),
+				content: controller("System", "Admin.Repositories"),
+			},
+		]);
+
+		expect(warnings).toEqual([]);
+		expect(files[0].content).toBe(repository("Admin.Infrastructure.Repositories"));
+		expect(files[0].rewrites).toEqual([
+			{ kind: "namespace", from: "Admin.Repositories", to: "Admin.Infrastructure.Repositories" },
+		]);
+		expect(files[1].content).toBe(controller("System", "Admin.Infrastructure.Repositories"));
+		expect(files[1].rewrites).toEqual([
+			{ kind: "using", from: "Admin.Repositories", to: "Admin.Infrastructure.Repositories" },
+		]);
+	});
+
+	test("keeps CRLF line endings", () => {
+		const crlf = (text: string) => text.replaceAll("\n", "\r\n");
+		const { files } = rewriteNamespaces([
+			{
+				target: join(infrastructure, "Repositories", "BargeRepository.cs"),
+				content: crlf(repository("Admin.Repositories")),
+			},
+			{
+				target: join(infrastructure, "2024 Data", "Seed.cs"),
+				content: crlf(repository("Admin.Repositories")),
+			},
+			{
+				target: join(api, "Controllers", "BargeController.cs"),
+				content: crlf(controller("Admin.Repositories")),
+			},
+		]);
+
+		expect(files[0].content).toBe(crlf(repository("Admin.Infrastructure.Repositories")));
+		expect(files[2].content).toBe(
+			crlf(controller("Admin.Infrastructure.Repositories", "Admin.Infrastructure._2024_Data")),
+		);
+	});
+
+	test("imports every namespace a moved namespace went to, once", () => {
+		const { files } = rewriteNamespaces([
+			{
+				target: join(infrastructure, "Repositories", "BargeRepository.cs"),
+				content: repository("Admin.Data"),
+			},
+			{
+				target: join(infrastructure, "2024 Data", "Seed.cs"),
+				content: repository("Admin.Data"),
+			},
+			{
+				target: join(api, "Controllers", "BargeController.cs"),
+				content: controller("Admin.Data", "Admin.Infrastructure.Repositories"),
+			},
+		]);
+
+		// Admin.Infrastructure.Repositories was already imported
+		expect(files[2].content).toBe(
+			controller("Admin.Infrastructure._2024_Data", "Admin.Infrastructure.Repositories"),
+		);
+		expect(files[2].rewrites.map((rewrite) => rewrite.to)).toEqual([
+			"Admin.Infrastructure.Repositories",
+			"Admin.Infrastructure._2024_Data",
+		]);
+	});
+
+	test("keeps the using line of a namespace another file still declares", () => {
+		const { files, warnings } = rewriteNamespaces([
+			{
+				target: join(infrastructure, "Repositories", "BargeRepository.cs"),
+				content: repository("Admin.Data"),
+			},
+			{
+				target: join(workDir, "Loose", "Helpers.cs"),
+				content: repository("Admin.Data"),
+			},
+			{
+				target: join(api, "Controllers", "BargeController.cs"),
+				content: controller("Admin.Data"),
+			},
+		]);
+
+		expect(warnings).toEqual([
+			`${join(workDir, "Loose", "Helpers.cs")}: no .csproj found above the target folder; namespace left as is`,
+		]);
+		expect(files[1].content).toBe(repository("Admin.Data"));
+		expect(files[2].content).toBe(controller("Admin.Data", "Admin.Infrastructure.Repositories"));
+	});
+
+	test("leaves files with several namespace declarations as they are", () => {
+		const content = `${repository("Admin.One")}\n${repository("Admin.Two")}`;
+		const target = join(infrastructure, "Repositories", "Both.cs");
+		const { files, warnings } = rewriteNamespaces([{ target, content }]);
+
+		expect(files).toEqual([{ content, rewrites: [] }]);
+		expect(warnings).toEqual([`${target}: 2 namespace declarations; left as is`]);
+	});
+});
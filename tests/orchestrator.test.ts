@@ -0,0 +1,419 @@
+/**
+ * End-to-end tests for agents/orchestrator.ts, run against tests/fake-claude.ts instead of
+ * the claude CLI (selected with CLAUDE_BIN)
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getProjectRoot } from "../lib/paths";
+import { listRunSnapshots } from "../lib/run-history";
+
+const projectRoot = getProjectRoot(import.meta.url);
+const TEST_TIMEOUT_MS = 120_000;
+
+interface StepAttempt {
+	attempt: number;
+	startTime: string;
+	endTime?: string;
+	repairPrompt?: string;
+	validationErrors?: string[];
+}
+
+interface StepStatus {
+	stepNumber: number;
+	name: string;
+	status: string;
+	sessionId?: string;
+	isError?: boolean;
+	costUsd?: number;
+	timedOut?: string;
+	attempts?: StepAttempt[];
+}
+
+interface ConversionStatus {
+	entity: string;
+	overallStatus: string;
+	steps: StepStatus[];
+	failedStepNumbers?: number[];
+	totalCostUsd?: number;
+	runId?: string;
+}
+
+let workDir: string;
+let outputPath: string;
+let logPath: string;
+
+beforeEach(async () => {
+	workDir = await mkdtemp(join(tmpdir(), "orchestrator-test-"));
+	outputPath = join(workDir, "Sample");
+	logPath = join(workDir, "claude-calls.log");
+});
+
+afterEach(async () => {
+	await rm(workDir, { recursive: true, force: true });
+});
+
+interface OrchestratorEvent {
+	event: string;
+	runId: string;
+	stepNumber?: number;
+	stepId?: string;
+	status?: string;
+	startTime?: string;
+	endTime?: string;
+	durationMs?: number;
+	delayMs?: number;
+	concurrency?: number;
+}
+
+/**
+ * Start the orchestrator for entity "Sample" against the fake claude. Retries are off unless
+ * extraArgs sets --max-retries.
+ */
+async function startOrchestrator(
+	extraArgs: string[],
+	env: Record<string, string>,
+): Promise<Bun.Subprocess<"ignore", "pipe", "pipe">> {
+	await Bun.write(logPath, "");
+
+	return Bun.spawn(
+		[
+			process.execPath,
+			"run",
+			`${projectRoot}agents/orchestrator.ts`,
+			"--entity",
+			"Sample",
+			"--output",
+			outputPath,
+			...(extraArgs.includes("--max-retries") ? [] : ["--max-retries", "0"]),
+			"--concurrency",
+			"4",
+			// The fake claude does not read the legacy sources
+			"--skip-source-check",
+			...extraArgs,
+		],
+		{
+			cwd: projectRoot,
+			stdin: "ignore",
+			stdout: "pipe",
+			stderr: "pipe",
+			env: {
+				...process.env,
+				CLAUDE_BIN: `${projectRoot}tests/fake-claude.ts`,
+				FAKE_CLAUDE_LOG: logPath,
+				FAKE_CLAUDE_FAIL: "",
+				...env,
+			},
+		},
+	);
+}
+
+async function readInvoked(): Promise<string[]> {
+	return (await Bun.file(logPath).text()).split("\n").filter(Boolean);
+}
+
+/**
+ * Run the orchestrator and return its exit code, its stdout and the run names the fake claude
+ * was invoked for
+ */
+async function runOrchestrator(
+	extraArgs: string[] = [],
+	env: Record<string, string> = {},
+): Promise<{ exitCode: number; invoked: string[]; stdout: string }> {
+	const child = await startOrchestrator(extraArgs, env);
+
+	// Drain the pipes so a chatty run cannot block on a full buffer
+	const [stdout] = await Promise.all([
+		new Response(child.stdout).text(),
+		new Response(child.stderr).text(),
+	]);
+	const exitCode = await child.exited;
+	return { exitCode, invoked: await readInvoked(), stdout };
+}
+
+async function readStatus(): Promise<ConversionStatus> {
+	return JSON.parse(await Bun.file(join(outputPath, "conversion-status.json")).text());
+}
+
+function parseEvents(jsonLines: string): OrchestratorEvent[] {
+	return jsonLines
+		.split("\n")
+		.filter(Boolean)
+		.map((line) => JSON.parse(line));
+}
+
+function stepByName(status: ConversionStatus, name: string): StepStatus | undefined {
+	return status.steps.find((step) => step.name === name);
+}
+
+describe("orchestrator", () => {
+	test(
+		"completes every step and records the claude runs",
+		async () => {
+			const { exitCode, invoked } = await runOrchestrator();
+			expect(exitCode).toBe(0);
+			expect(invoked).toHaveLength(10);
+
+			const status = await readStatus();
+			expect(status.overallStatus).toBe("completed");
+			expect(status.steps).toHaveLength(10);
+			expect(status.steps.every((step) => step.status === "completed")).toBe(true);
+			expect(stepByName(status, "Business Logic Extractor")?.sessionId).toBe("fake-business-logic");
+			expect(status.totalCostUsd).toBeCloseTo(0.1);
+
+			const businessLogic = await Bun.file(join(outputPath, "business-logic.json")).json();
+			expect(businessLogic.businessObject).toBe("SampleLocation");
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"retries a step with invalid output using a repair prompt",
+		async () => {
+			const { exitCode, invoked, stdout } = await runOrchestrator(
+				["--max-retries", "1", "--log-format", "json"],
+				{ FAKE_CLAUDE_INVALID: "business-logic" },
+			);
+			expect(exitCode).toBe(0);
+			expect(invoked.filter((name) => name === "business-logic")).toHaveLength(2);
+
+			const status = await readStatus();
+			expect(status.overallStatus).toBe("completed");
+			const step = stepByName(status, "Business Logic Extractor");
+			expect(step?.status).toBe("completed");
+			expect(step?.attempts).toHaveLength(2);
+
+			const [first, retry] = step?.attempts ?? [];
+			expect(first.repairPrompt).toBeUndefined();
+			expect(first.validationErrors?.length).toBeGreaterThan(0);
+			expect(retry.repairPrompt).toContain("RETRY (attempt 2)");
+			expect(retry.repairPrompt).toContain(join(outputPath, "business-logic.json"));
+			expect(retry.validationErrors).toBeUndefined();
+
+			// The retry waits for the backoff the step-retry event announced
+			const retryEvent = parseEvents(stdout).find((e) => e.event === "step-retry");
+			expect(retryEvent).toMatchObject({ stepNumber: 3 });
+			const waitedMs = Date.parse(retry.startTime) - Date.parse(first.endTime as string);
+			expect(waitedMs).toBeGreaterThanOrEqual(retryEvent?.delayMs ?? Number.POSITIVE_INFINITY);
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"stops and records the failed step when claude fails",
+		async () => {
+			const { exitCode, invoked } = await runOrchestrator([], {
+				FAKE_CLAUDE_FAIL: "business-logic",
+			});
+			expect(exitCode).not.toBe(0);
+			expect(invoked).toContain("business-logic");
+
+			const status = await readStatus();
+			expect(status.overallStatus).toBe("failed");
+			expect(status.failedStepNumbers).toEqual([3]);
+
+			const failed = stepByName(status, "Business Logic Extractor");
+			expect(failed?.status).toBe("failed");
+			expect(failed?.isError).toBe(true);
+			expect(failed?.sessionId).toBe("fake-business-logic");
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"--rerun-failed runs only the failed steps",
+		async () => {
+			await runOrchestrator([], { FAKE_CLAUDE_FAIL: "business-logic" });
+
+			const { exitCode, invoked } = await runOrchestrator(["--rerun-failed"]);
+			expect(exitCode).toBe(0);
+			expect(invoked).toEqual(["business-logic"]);
+
+			const status = await readStatus();
+			expect(stepByName(status, "Business Logic Extractor")?.status).toBe("completed");
+			expect(status.steps.some((step) => step.status === "failed")).toBe(false);
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"--resume runs failed and pending steps and skips completed ones",
+		async () => {
+			await runOrchestrator([], { FAKE_CLAUDE_FAIL: "business-logic" });
+			const before = await readStatus();
+			const completedBefore = before.steps.filter((step) => step.status === "completed").length;
+
+			const { exitCode, invoked } = await runOrchestrator(["--resume"]);
+			expect(exitCode).toBe(0);
+			expect(invoked).toContain("business-logic");
+			expect(invoked).not.toContain("form-structure-search");
+			expect(invoked).toHaveLength(10 - completedBefore);
+
+			const status = await readStatus();
+			expect(status.overallStatus).toBe("completed");
+			expect(status.steps).toHaveLength(10);
+			expect(status.steps.every((step) => step.status === "completed")).toBe(true);
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"starts a step after the steps it depends on and runs at most --concurrency at once",
+		async () => {
+			const { exitCode, stdout } = await runOrchestrator(
+				["--log-format", "json", "--concurrency", "2"],
+				{ FAKE_CLAUDE_DELAY_MS: "300" },
+			);
+			expect(exitCode).toBe(0);
+
+			const events = parseEvents(stdout);
+			expect(events.find((e) => e.event === "run-start")?.concurrency).toBe(2);
+			const position = (event: string, stepId: string) =>
+				events.findIndex((e) => e.event === event && e.stepId === stepId);
+			for (const stepId of ["ui-mapping", "workflow", "tabs"]) {
+				for (const dependency of ["form-structure-search", "form-structure-detail"]) {
+					expect(position("step-start", stepId)).toBeGreaterThan(
+						position("step-finish", dependency),
+					);
+				}
+			}
+
+			const runs = events
+				.filter((e) => e.event === "step-finish")
+				.map((e) => ({ start: Date.parse(e.startTime ?? ""), end: Date.parse(e.endTime ?? "") }));
+			expect(runs).toHaveLength(10);
+			const runningAt = (time: number) =>
+				runs.filter((run) => run.start <= time && time < run.end).length;
+			expect(Math.max(...runs.map((run) => runningAt(run.start)))).toBe(2);
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"records a hung step as timed-out and reruns it with --rerun-failed",
+		async () => {
+			const first = await runOrchestrator(["--step-timeout", "1"], {
+				FAKE_CLAUDE_DELAY_MS: "10000",
+			});
+			expect(first.exitCode).toBe(124);
+
+			const before = await readStatus();
+			const timedOut = before.steps.filter((step) => step.status === "timed-out");
+			expect(timedOut.length).toBeGreaterThan(0);
+			expect(before.failedStepNumbers).toEqual(timedOut.map((step) => step.stepNumber));
+
+			const { exitCode, invoked } = await runOrchestrator(["--rerun-failed"]);
+			expect(exitCode).toBe(0);
+			expect(invoked).toHaveLength(timedOut.length);
+
+			const status = await readStatus();
+			expect(status.steps.some((step) => step.status === "timed-out")).toBe(false);
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"stops a step that stays silent past the idle timeout",
+		async () => {
+			const { exitCode } = await runOrchestrator(["--idle-timeout", "2"], {
+				FAKE_CLAUDE_DELAY_MS: "30000",
+				FAKE_CLAUDE_DELAY_RUNS: "business-logic",
+			});
+			expect(exitCode).toBe(124);
+
+			const status = await readStatus();
+			const hung = stepByName(status, "Business Logic Extractor");
+			expect(hung?.status).toBe("timed-out");
+			expect(hung?.timedOut).toBe("idle");
+			expect(status.steps.filter((step) => step.status === "timed-out")).toHaveLength(1);
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"streams step events with --log-format json and appends them to events.jsonl",
+		async () => {
+			const { exitCode, stdout } = await runOrchestrator(
+				["--log-format", "json", "--skip-steps", "2"],
+				{
+					FAKE_CLAUDE_FAIL: "business-logic",
+				},
+			);
+			expect(exitCode).not.toBe(0);
+
+			// Every stdout line is an event; banners and agent output went to stderr
+			const streamed = parseEvents(stdout);
+			expect(streamed.at(0)?.event).toBe("run-start");
+			expect(streamed.at(-1)).toMatchObject({ event: "run-finish", status: "failed" });
+			expect(streamed.find((e) => e.event === "step-skip")?.stepNumber).toBe(2);
+			expect(streamed.find((e) => e.event === "step-fail")).toMatchObject({
+				stepNumber: 3,
+				status: "failed",
+			});
+			expect(streamed.find((e) => e.event === "step-finish")?.durationMs).toBeGreaterThan(0);
+
+			const recorded = parseEvents(await Bun.file(join(outputPath, "events.jsonl")).text());
+			expect(recorded).toEqual(streamed);
+
+			// A second run appends under its own run id
+			await runOrchestrator(["--rerun-failed"]);
+			const runs = new Set(
+				parseEvents(await Bun.file(join(outputPath, "events.jsonl")).text()).map((e) => e.runId),
+			);
+			expect(runs.size).toBe(2);
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"saves each run's step outputs under history/{runId}",
+		async () => {
+			await runOrchestrator([], { FAKE_CLAUDE_FAIL: "business-logic" });
+			await runOrchestrator(["--rerun-failed"]);
+
+			const runs = await listRunSnapshots(outputPath);
+			expect(runs.map((run) => run.overallStatus)).toEqual(["failed", "completed"]);
+			expect(runs[1].runId).toBe((await readStatus()).runId as string);
+			expect(runs[1].stepsRun).toEqual([3]);
+			expect(runs[1].files).toContain("business-logic.json");
+			expect(runs[0].files).not.toContain("business-logic.json");
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"stops its running agents and their claude runs when terminated",
+		async () => {
+			const child = await startOrchestrator([], { FAKE_CLAUDE_DELAY_MS: "3000" });
+			const drained = Promise.all([
+				new Response(child.stdout).text(),
+				new Response(child.stderr).text(),
+			]);
+			while ((await readInvoked()).length === 0) await Bun.sleep(100);
+			child.kill("SIGTERM");
+
+			expect(await child.exited).toBe(143);
+			await drained;
+			const invoked = await readInvoked();
+
+			// An agent left running would let its fake claude write the artifact after the delay
+			await Bun.sleep(4000);
+			for (const runName of invoked) {
+				expect(await Bun.file(join(outputPath, `${runName}.json`)).exists()).toBe(false);
+			}
+		},
+		TEST_TIMEOUT_MS,
+	);
+
+	test(
+		"--resume without a status file exits with an error",
+		async () => {
+			const { exitCode, invoked } = await runOrchestrator(["--resume"]);
+			expect(exitCode).toBe(1);
+			expect(invoked).toHaveLength(0);
+		},
+		TEST_TIMEOUT_MS,
+	);
+});
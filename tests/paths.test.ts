@@ -0,0 +1,94 @@
+/**
+ * Tests for the legacy file resolution in lib/paths.ts against tests/fixtures/source-tree
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import config from "../config.json" with { type: "json" };
+import {
+	getBusinessObjectPath,
+	getLegacyNamingPatterns,
+	getProjectRoot,
+	resolveLegacyFile,
+} from "../lib/paths";
+
+const fixtureTree = `${getProjectRoot(import.meta.url)}tests/fixtures/source-tree`;
+const businessObjects = `${fixtureTree}/BusinessLogic/Business Objects`;
+const lists = `${fixtureTree}/BusinessLogic/Lists`;
+
+const configuredInputDirectory = config.inputDirectory;
+const configuredNaming = structuredClone(config.legacyNaming);
+
+beforeEach(() => {
+	config.inputDirectory = fixtureTree;
+});
+
+afterEach(() => {
+	config.inputDirectory = configuredInputDirectory;
+	config.legacyNaming = structuredClone(configuredNaming);
+});
+
+describe("legacy file resolution", () => {
+	test("uses the first candidate that exists", () => {
+		expect(resolveLegacyFile("Widget", "businessObject")).toEqual({
+			kind: "businessObject",
+			entity: "Widget",
+			path: `${businessObjects}/Widget.vb`,
+			candidates: [`${businessObjects}/WidgetLocation.vb`, `${businessObjects}/Widget.vb`],
+		});
+		expect(resolveLegacyFile("Widget", "businessObjectBase").path).toBe(
+			`${businessObjects}/Base Classes/WidgetBase.vb`,
+		);
+		expect(resolveLegacyFile("Widget", "list")).toEqual({
+			kind: "list",
+			entity: "Widget",
+			path: `${lists}/WidgetList.vb`,
+			candidates: [
+				`${lists}/WidgetLocationSearch.vb`,
+				`${lists}/WidgetSearch.vb`,
+				`${lists}/WidgetList.vb`,
+			],
+		});
+	});
+
+	test("names the first candidate when none exists", () => {
+		const resolution = resolveLegacyFile("Gadget", "businessObject");
+		expect(resolution.path).toBeNull();
+		expect(resolution.candidates).toEqual([
+			`${businessObjects}/GadgetLocation.vb`,
+			`${businessObjects}/Gadget.vb`,
+		]);
+		expect(getBusinessObjectPath("Gadget")).toBe(`${businessObjects}/GadgetLocation.vb`);
+	});
+
+	test("takes an entity's override over the configured patterns for that kind only", () => {
+		// config.json's own type only knows the entities it overrides
+		const naming = config.legacyNaming as { overrides: Record<string, object> };
+		naming.overrides.Widget = { businessObject: "Widget.vb", list: ["WidgetSearch.vb"] };
+
+		expect(getLegacyNamingPatterns("Widget", "businessObject")).toEqual(["Widget.vb"]);
+		expect(getLegacyNamingPatterns("Widget", "businessObjectBase")).toEqual([
+			"{entity}LocationBase.vb",
+			"{entity}Base.vb",
+		]);
+		expect(resolveLegacyFile("Widget", "list")).toMatchObject({
+			path: null,
+			candidates: [`${lists}/WidgetSearch.vb`],
+		});
+	});
+
+	test("falls back to the default patterns without a legacyNaming section or patterns", () => {
+		(config as { legacyNaming?: unknown }).legacyNaming = undefined;
+		expect(getLegacyNamingPatterns("Widget", "businessObject")).toEqual([
+			"{entity}Location.vb",
+			"{entity}.vb",
+		]);
+
+		config.legacyNaming = structuredClone(configuredNaming);
+		config.legacyNaming.list = [];
+		expect(getLegacyNamingPatterns("Widget", "list")).toEqual([
+			"{entity}LocationSearch.vb",
+			"{entity}Search.vb",
+			"{entity}List.vb",
+		]);
+	});
+});
@@ -0,0 +1,253 @@
+/**
+ * Tests for lib/project-wiring.ts against registration and project files in a temp folder
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { readFileSync, writeFileSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { PlannedFile } from "../lib/deployment";
+import {
+	type PlannedEdit,
+	type Registration,
+	getRegistrations,
+	planEmbeddedSqlEdit,
+	planRegistrationEdit,
+	revertProjectEdit,
+} from "../lib/project-wiring";
+
+const EXTENSION = `using Microsoft.Extensions.DependencyInjection;
+
+namespace Admin.Api.Extensions;
+
+public static class ServiceCollectionExtensions
+{
+    public static IServiceCollection AddAdminServices(this IServiceCollection services)
+    {
+        services.AddScoped<ILocationRepository, LocationRepository>();
+        return services;
+    }
+}
+`;
+
+const PROGRAM = `var builder = WebApplication.CreateBuilder(args);
+builder.Services.AddControllers();
+var app = builder.Build();
+app.Run();
+`;
+
+const PROJECT = `<Project Sdk="Microsoft.NET.Sdk">
+  <ItemGroup>
+    <EmbeddedResource Include="Sql\\Location\\*.sql" />
+  </ItemGroup>
+</Project>
+`;
+
+const bargeRepository: Registration = {
+	project: "api",
+	method: "AddScoped",
+	service: "IBargeRepository",
+	implementation: "BargeRepository",
+	namespaces: ["Admin.Infrastructure.Repositories"],
+};
+
+let workDir: string;
+
+beforeEach(async () => {
+	workDir = await mkdtemp(join(tmpdir(), "project-wiring-test-"));
+});
+
+afterEach(async () => {
+	await rm(workDir, { recursive: true, force: true });
+});
+
+function writeTarget(name: string, content: string): string {
+	const target = join(workDir, name);
+	writeFileSync(target, content);
+	return target;
+}
+
+function apply(planned: PlannedEdit | null): PlannedEdit {
+	if (!planned) throw new Error("No edit planned");
+	writeFileSync(planned.edit.target, planned.content);
+	return planned;
+}
+
+function plannedFile(template: string, content: string): PlannedFile {
+	return {
+		template,
+		source: template,
+		target: join(workDir, template),
+		content: Buffer.from(content),
+		rewrites: [],
+		exists: false,
+		identical: false,
+	};
+}
+
+describe("project wiring", () => {
+	test("pairs deployed interfaces with their implementations", () => {
+		const registrations = getRegistrations([
+			plannedFile("api/Repositories/IBargeRepository.cs", "namespace Admin.Repositories;"),
+			plannedFile("api/Repositories/BargeRepository.cs", "namespace Admin.Repositories;"),
+			plannedFile("api/Services/IBargeService.cs", "namespace Admin.Services;"),
+			plannedFile("ui/Services/IBargeService.cs", "namespace Admin.Ui.Services;"),
+			plannedFile("ui/Services/BargeService.cs", "namespace Admin.Ui.Services;"),
+		]);
+		expect(registrations).toEqual([
+			{ ...bargeRepository, namespaces: ["Admin.Repositories"] },
+			{
+				project: "ui",
+				method: "AddHttpClient",
+				service: "IBargeService",
+				implementation: "BargeService",
+				namespaces: ["Admin.Ui.Services"],
+			},
+		]);
+	});
+
+	test("adds registrations in a region before the extension's return, then reverts them", () => {
+		const target = writeTarget("ServiceCollectionExtensions.cs", EXTENSION);
+		const { edit, content } = apply(planRegistrationEdit(target, [bargeRepository]));
+
+		expect(content).toContain(
+			[
+				"        #region Conversion registrations (deploy-templates)",
+				"        services.AddScoped<IBargeRepository, BargeRepository>();",
+				"        #endregion",
+				"        return services;",
+			].join("\n"),
+		);
+		expect(
+			content.startsWith(
+				"using Microsoft.Extensions.DependencyInjection;\nusing Admin.Infrastructure.Repositories;\n",
+			),
+		).toBe(true);
+		expect(edit).toEqual({
+			target,
+			purpose: "registrations",
+			inserted: [
+				"services.AddScoped<IBargeRepository, BargeRepository>();",
+				"using Admin.Infrastructure.Repositories;",
+			],
+			wrapper: ["#region Conversion registrations (deploy-templates)", "#endregion"],
+		});
+
+		// Already registered: nothing to add
+		expect(planRegistrationEdit(target, [bargeRepository])).toBeNull();
+		expect(
+			planRegistrationEdit(target, [
+				{
+					...bargeRepository,
+					service: "ILocationRepository",
+					implementation: "LocationRepository",
+				},
+			]),
+		).toBeNull();
+
+		expect(revertProjectEdit(edit)).toEqual({ state: "reverted" });
+		expect(readFileSync(target, "utf8")).toBe(EXTENSION);
+	});
+
+	test("adds to the existing region and leaves it in place on revert", () => {
+		const target = writeTarget("ServiceCollectionExtensions.cs", EXTENSION);
+		apply(planRegistrationEdit(target, [bargeRepository]));
+		const withRegion = readFileSync(target, "utf8");
+
+		const boatRepository = {
+			...bargeRepository,
+			service: "IBoatRepository",
+			implementation: "BoatRepository",
+		};
+		const { edit, content } = apply(planRegistrationEdit(target, [boatRepository]));
+		expect(content).toContain(
+			"        services.AddScoped<IBargeRepository, BargeRepository>();\n        services.AddScoped<IBoatRepository, BoatRepository>();\n        #endregion",
+		);
+		expect(edit.wrapper).toBeUndefined();
+		expect(edit.inserted).toEqual(["services.AddScoped<IBoatRepository, BoatRepository>();"]);
+
+		expect(revertProjectEdit(edit)).toEqual({ state: "reverted" });
+		expect(readFileSync(target, "utf8")).toBe(withRegion);
+	});
+
+	test("registers before builder.Build() in a CRLF Program.cs", () => {
+		const original = PROGRAM.replaceAll("\n", "\r\n");
+		const target = writeTarget("Program.cs", original);
+		const { edit, content } = apply(planRegistrationEdit(target, [bargeRepository]));
+
+		expect(content).toContain(
+			"#region Conversion registrations (deploy-templates)\r\nbuilder.Services.AddScoped<IBargeRepository, BargeRepository>();\r\n#endregion\r\nvar app = builder.Build();\r\n",
+		);
+		expect(content.split("\n").every((line) => line === "" || line.endsWith("\r"))).toBe(true);
+
+		expect(revertProjectEdit(edit)).toEqual({ state: "reverted" });
+		expect(readFileSync(target, "utf8")).toBe(original);
+	});
+
+	test("embeds only the SQL files no item covers yet, then reverts them", () => {
+		const projectFile = writeTarget("Admin.Infrastructure.csproj", PROJECT);
+		const sql = (path: string) => join(workDir, "Sql", ...path.split("/"));
+		const { edit, content } = apply(
+			planEmbeddedSqlEdit(projectFile, [
+				sql("Barge/Barge_Search.sql"),
+				sql("Location/Location_GetById.sql"),
+				sql("Barge/Barge_GetById.sql"),
+			]),
+		);
+
+		expect(content).toBe(
+			PROJECT.replace(
+				"</Project>",
+				[
+					'  <ItemGroup Label="Embedded SQL (deploy-templates)">',
+					'    <EmbeddedResource Include="Sql\\Barge\\Barge_GetById.sql" />',
+					'    <EmbeddedResource Include="Sql\\Barge\\Barge_Search.sql" />',
+					"  </ItemGroup>",
+					"</Project>",
+				].join("\n"),
+			),
+		);
+		expect(edit.wrapper).toEqual([
+			'<ItemGroup Label="Embedded SQL (deploy-templates)">',
+			"</ItemGroup>",
+		]);
+		expect(planEmbeddedSqlEdit(projectFile, [sql("Barge/Barge_Search.sql")])).toBeNull();
+
+		expect(revertProjectEdit(edit)).toEqual({ state: "reverted" });
+		expect(readFileSync(projectFile, "utf8")).toBe(PROJECT);
+	});
+
+	test("leaves the file alone and names the lines it cannot find", () => {
+		const target = writeTarget("ServiceCollectionExtensions.cs", EXTENSION);
+		const { edit } = apply(planRegistrationEdit(target, [bargeRepository]));
+		const edited = readFileSync(target, "utf8").replace(
+			"services.AddScoped<IBargeRepository, BargeRepository>();",
+			"services.AddTransient<IBargeRepository, BargeRepository>();",
+		);
+		writeFileSync(target, edited);
+
+		expect(revertProjectEdit(edit)).toEqual({
+			state: "kept",
+			reason:
+				"inserted lines no longer present: services.AddScoped<IBargeRepository, BargeRepository>();",
+		});
+		expect(readFileSync(target, "utf8")).toBe(edited);
+	});
+
+	test("counts an edit whose lines are all gone as already undone", () => {
+		const target = writeTarget("ServiceCollectionExtensions.cs", EXTENSION);
+		const { edit } = apply(planRegistrationEdit(target, [bargeRepository]));
+
+		writeFileSync(target, EXTENSION);
+		expect(revertProjectEdit(edit)).toEqual({
+			state: "undone",
+			reason: "inserted lines no longer present",
+		});
+		expect(readFileSync(target, "utf8")).toBe(EXTENSION);
+		expect(revertProjectEdit({ ...edit, target: join(workDir, "Missing.cs") })).toEqual({
+			state: "undone",
+			reason: "no longer exists",
+		});
+	});
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for lib/source-index.ts against the legacy tree in tests/fixtures/source-tree
+ */
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "node:fs";
+import { cp, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import config from "../config.json" with { type: "json" };
+import { getProjectRoot } from "../lib/paths";
+import {
+	buildSourceIndex,
+	detectChildForms,
+	getEntitySources,
+	getSourceIndexPath,
+	loadSourceIndex,
+} from "../lib/source-index";
+
+const fixtureTree = `${getProjectRoot(import.meta.url)}tests/fixtures/source-tree`;
+const configuredInputDirectory = config.inputDirectory;
+
+// loadSourceIndex writes the real cache; put back whatever was there before
+let savedCache: string | null = null;
+
+beforeAll(async () => {
+	const indexPath = getSourceIndexPath();
+	savedCache = existsSync(indexPath) ? await readFile(indexPath, "utf8") : null;
+});
+
+afterAll(async () => {
+	const indexPath = getSourceIndexPath();
+	if (savedCache === null) {
+		await rm(indexPath, { force: true });
+	} else {
+		await writeFile(indexPath, savedCache);
+	}
+});
+
+beforeEach(() => {
+	config.inputDirectory = fixtureTree;
+});
+
+afterEach(() => {
+	config.inputDirectory = configuredInputDirectory;
+});
+
+describe("source index", () => {
+	test("catalogs forms with their Designer files, child forms and the classes they use", async () => {
+		const index = await buildSourceIndex();
+
+		expect(index.inputDirectory).toBe(fixtureTree);
+		expect(index.fileCount).toBe(7);
+		expect(index.forms).toEqual([
+			{
+				name: "frmWidgetDetail",
+				kind: "Detail",
+				entity: "Widget",
+				file: "Forms/frmWidgetDetail.vb",
+				designerFile: undefined,
+				childForms: ["frmWidgetHistory"],
+				navigations: [{ form: "frmWidgetHistory", handler: "btnHistory_Click", line: 5 }],
+				classes: ["Widget"],
+			},
+			{
+				name: "frmWidgetHistory",
+				kind: "Single",
+				entity: "WidgetHistory",
+				file: "Forms/frmWidgetHistory.vb",
+				designerFile: undefined,
+				childForms: [],
+				navigations: [],
+				classes: [],
+			},
+			{
+				name: "frmWidgetSearch",
+				kind: "Search",
+				entity: "Widget",
+				file: "Forms/frmWidgetSearch.vb",
+				designerFile: "Forms/frmWidgetSearch.Designer.vb",
+				// Opened as frmWIDGETDETAIL; the comment naming frmWidgetHistory is not a navigation
+				childForms: ["frmWidgetDetail"],
+				navigations: [{ form: "frmWidgetDetail", handler: "btnDetail_Click", line: 5 }],
+				classes: ["WidgetList"],
+			},
+		]);
+	});
+
+	test("catalogs top-level classes with what they inherit and reference", async () => {
+		const index = await buildSourceIndex();
+
+		expect(index.classes).toEqual([
+			{
+				name: "Widget",
+				kind: "businessObject",
+				file: "BusinessLogic/Business Objects/Widget.vb",
+				inherits: "WidgetBase",
+				references: ["WidgetBase"],
+				usedByForms: ["frmWidgetDetail"],
+			},
+			{
+				name: "WidgetBase",
+				kind: "businessObjectBase",
+				file: "BusinessLogic/Business Objects/Base Classes/WidgetBase.vb",
+				inherits: "BusinessBase",
+				references: [],
+				usedByForms: [],
+			},
+			{
+				name: "WidgetList",
+				kind: "list",
+				file: "BusinessLogic/Lists/WidgetList.vb",
+				inherits: "BusinessListBase",
+				references: ["Widget"],
+				usedByForms: ["frmWidgetSearch"],
+			},
+		]);
+	});
+
+	test("collects an entity's forms and classes, following Inherits to the base class", async () => {
+		const index = await buildSourceIndex();
+
+		const widget = getEntitySources(index, "Widget");
+		expect(widget.forms.map((form) => form.name)).toEqual(["frmWidgetDetail", "frmWidgetSearch"]);
+		expect(widget.classes.map((indexed) => indexed.name)).toEqual([
+			"Widget",
+			"WidgetBase",
+			"WidgetList",
+		]);
+
+		const detail = getEntitySources(index, "Widget", "frmwidgetdetail");
+		expect(detail.forms.map((form) => form.name)).toEqual(["frmWidgetDetail"]);
+	});
+
+	test("reuses the index in memory until a refresh is asked for", async () => {
+		const workDir = await mkdtemp(join(tmpdir(), "source-index-test-"));
+		try {
+			await cp(fixtureTree, workDir, { recursive: true });
+			config.inputDirectory = workDir;
+
+			expect(await detectChildForms("frmWidgetHistory")).toEqual([]);
+			await writeFile(
+				join(workDir, "Forms", "frmWidgetHistory.vb"),
+				"Public Class frmWidgetHistory\n    Private Sub btnBack_Click()\n        Dim search As New frmWidgetSearch()\n    End Sub\nEnd Class\n",
+			);
+
+			expect(await detectChildForms("frmWidgetHistory")).toEqual([]);
+			expect((await loadSourceIndex({ refresh: true })).inputDirectory).toBe(workDir);
+			expect(await detectChildForms("frmWidgetHistory")).toEqual(["frmWidgetSearch"]);
+		} finally {
+			await rm(workDir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,274 @@
+/**
+ * Tests for lib/sql-generator.ts against the data-access.json fixture in tests/fixtures/sql
+ */
+
+import { describe, expect, test } from "bun:test";
+import { getProjectRoot } from "../lib/paths";
+import {
+	GENERATED_MARKER,
+	type GeneratedSqlFile,
+	type SqlGenerationResult,
+	generateSqlTemplates,
+} from "../lib/sql-generator";
+
+const dataAccessPath = `${getProjectRoot(import.meta.url)}tests/fixtures/sql/data-access.json`;
+
+async function generate(): Promise<SqlGenerationResult> {
+	return generateSqlTemplates(await Bun.file(dataAccessPath).json(), "Sample");
+}
+
+function findSqlFile(result: SqlGenerationResult, fileName: string): GeneratedSqlFile {
+	const found = result.sqlFiles.find((file) => file.procedure.fileName === fileName);
+	if (!found) throw new Error(`${fileName} was not generated`);
+	return found;
+}
+
+function sql(fileName: string, procedure: string, operation: string, ...lines: string[]): string {
+	return [
+		`-- ${fileName}`,
+		`-- Generated from data-access.json: legacy procedure ${procedure} (${operation})`,
+		...lines,
+		"",
+	].join("\n");
+}
+
+describe("sql generator", () => {
+	test("finds the table and key and names a file and method per procedure", async () => {
+		const result = await generate();
+		expect(result.table).toBe("Sample");
+		expect(result.key).toEqual({
+			column: "SampleID",
+			property: "SampleID",
+			type: "int",
+			isPrimaryKey: true,
+		});
+		expect(
+			result.sqlFiles.map((file) => [file.procedure.fileName, file.kind, file.method]),
+		).toEqual([
+			["Sample_GetById.sql", "select-one", "GetByIdAsync"],
+			["Sample_Search.sql", "select-many", "SearchAsync"],
+			["Sample_Insert.sql", "insert", "CreateAsync"],
+			["Sample_Update.sql", "update", "UpdateAsync"],
+			["Sample_SetActive.sql", "set-active", "SetActiveAsync"],
+			["Sample_History.sql", "exec", "HistoryAsync"],
+		]);
+		expect(result.files.map((file) => file.path)).toEqual([
+			"api/Sql/Sample_GetById.sql",
+			"api/Sql/Sample_Search.sql",
+			"api/Sql/Sample_Insert.sql",
+			"api/Sql/Sample_Update.sql",
+			"api/Sql/Sample_SetActive.sql",
+			"api/Sql/Sample_History.sql",
+			"api/Repositories/ISampleRepository.cs",
+			"api/Repositories/SampleRepository.cs",
+		]);
+	});
+
+	test("selects a row by its key", async () => {
+		expect(findSqlFile(await generate(), "Sample_GetById.sql").sql).toBe(
+			sql(
+				"Sample_GetById.sql",
+				"SampleSelect",
+				"GetById",
+				"SELECT",
+				"    SampleID,",
+				"    Name,",
+				"    LocationID,",
+				"    IsActive",
+				"FROM Sample",
+				"WHERE SampleID = @SampleID;",
+			),
+		);
+	});
+
+	test("searches the table's columns only and leaves joined columns to a TODO", async () => {
+		const result = await generate();
+		expect(findSqlFile(result, "Sample_Search.sql").sql).toBe(
+			sql(
+				"Sample_Search.sql",
+				"SampleSearch",
+				"Search",
+				"-- TODO: not columns of Sample, add the joins by hand: LocationName",
+				"-- TODO: @River matches no column of Sample; add its filter by hand",
+				"SELECT",
+				"    SampleID,",
+				"    Name,",
+				"    IsActive",
+				"FROM Sample",
+				"WHERE (@Name IS NULL OR Name LIKE '%' + @Name + '%')",
+				"  AND (@LocationID IS NULL OR LocationID = @LocationID)",
+				"  AND (@ActiveOnly = 0 OR IsActive = 1)",
+				"ORDER BY Name;",
+			),
+		);
+		expect(result.warnings).toContain(
+			"Sample_Search.sql: result columns not in Sample left out (joined by SampleSearch): LocationName",
+		);
+		expect(result.warnings).toContain("Sample_Search.sql: @River matches no column of Sample");
+	});
+
+	test("inserts, updates and sets IsActive from the parameters", async () => {
+		const result = await generate();
+		expect(findSqlFile(result, "Sample_Insert.sql").sql).toBe(
+			sql(
+				"Sample_Insert.sql",
+				"SampleInsert",
+				"Insert",
+				"INSERT INTO Sample (",
+				"    Name,",
+				"    LocationID,",
+				"    IsActive",
+				")",
+				"VALUES (",
+				"    @Name,",
+				"    @LocationID,",
+				"    @IsActive",
+				");",
+				"",
+				"SELECT CAST(SCOPE_IDENTITY() AS int) AS SampleID;",
+			),
+		);
+		expect(findSqlFile(result, "Sample_Update.sql").sql).toBe(
+			sql(
+				"Sample_Update.sql",
+				"SampleUpdate",
+				"Update",
+				"UPDATE Sample",
+				"SET",
+				"    Name = @Name,",
+				"    LocationID = @LocationID,",
+				"    IsActive = @IsActive",
+				"WHERE SampleID = @SampleID;",
+			),
+		);
+		expect(findSqlFile(result, "Sample_SetActive.sql").sql).toBe(
+			sql(
+				"Sample_SetActive.sql",
+				"SampleSetActive",
+				"SetActive",
+				"UPDATE Sample",
+				"SET IsActive = @IsActive",
+				"WHERE SampleID = @SampleID;",
+			),
+		);
+	});
+
+	test("calls a procedure with no SQL pattern and types its rows after the procedure", async () => {
+		const result = await generate();
+		expect(findSqlFile(result, "Sample_History.sql").sql).toBe(
+			sql(
+				"Sample_History.sql",
+				"SampleHistory",
+				"History",
+				"-- TODO: replace the call with the procedure's SQL",
+				"EXEC SampleHistory",
+				"    @SampleID = @SampleID;",
+			),
+		);
+		expect(result.warnings).toEqual([
+			"Sample_Search.sql: result columns not in Sample left out (joined by SampleSearch): LocationName",
+			"Sample_Search.sql: @River matches no column of Sample",
+			'Sample_History.sql: no SQL pattern for operation "History"; calls SampleHistory',
+			"Sample_History.sql: HistoryAsync returns SampleHistoryDto, which is not generated; create it from the result columns",
+		]);
+	});
+
+	test("writes a repository interface and class that load the embedded SQL", async () => {
+		const result = await generate();
+		const repositoryInterface = result.files.find((file) =>
+			file.path.endsWith("ISampleRepository.cs"),
+		)?.content;
+		const repository = result.files.find((file) =>
+			file.path.endsWith("/SampleRepository.cs"),
+		)?.content;
+
+		expect(repositoryInterface?.startsWith(GENERATED_MARKER)).toBe(true);
+		expect(repositoryInterface).toContain(
+			[
+				"public interface ISampleRepository",
+				"{",
+				"    Task<SampleDto?> GetByIdAsync(int id, CancellationToken cancellationToken = default);",
+				"",
+				"    Task<IEnumerable<SampleDto>> SearchAsync(string? name, int? locationID, bool activeOnly, string? river, CancellationToken cancellationToken = default);",
+				"",
+				"    Task<int> CreateAsync(SampleDto sample, CancellationToken cancellationToken = default);",
+				"",
+				"    Task<bool> UpdateAsync(SampleDto sample, CancellationToken cancellationToken = default);",
+				"",
+				"    Task<bool> SetActiveAsync(int id, bool isActive, CancellationToken cancellationToken = default);",
+				"",
+				"    Task<IEnumerable<SampleHistoryDto>> HistoryAsync(int sampleID, CancellationToken cancellationToken = default);",
+				"}",
+			].join("\n"),
+		);
+
+		expect(repository?.startsWith(GENERATED_MARKER)).toBe(true);
+		expect(repository).toContain("public class SampleRepository : ISampleRepository");
+		expect(repository).toContain(
+			'return await connection.QuerySingleOrDefaultAsync<SampleDto>(new CommandDefinition(Sql("Sample_GetById"), new { SampleID = id }, cancellationToken: cancellationToken));',
+		);
+		expect(repository).toContain(
+			'return await connection.ExecuteAsync(new CommandDefinition(Sql("Sample_SetActive"), new { SampleID = id, IsActive = isActive }, cancellationToken: cancellationToken)) > 0;',
+		);
+		expect(repository).toContain(
+			'return await connection.QueryAsync<SampleDto>(new CommandDefinition(Sql("Sample_Search"), new { Name = name, LocationID = locationID, ActiveOnly = activeOnly, River = river }, cancellationToken: cancellationToken));',
+		);
+		expect(repository).toContain(
+			'return await connection.QueryAsync<SampleHistoryDto>(new CommandDefinition(Sql("Sample_History"), new { SampleID = sampleID }, cancellationToken: cancellationToken));',
+		);
+		expect(repository).not.toContain("using System.Data;");
+	});
+
+	test("binds lookup arguments as given and OUTPUT parameters through DynamicParameters", () => {
+		const result = generateSqlTemplates(
+			{
+				entity: "Sample",
+				databaseTable: "Sample",
+				storedProcedures: [
+					{
+						name: "SampleSelect",
+						operation: "GetById",
+						parameters: ["@SampleID int"],
+						resultColumns: [{ column: "SampleID", type: "int", isPrimaryKey: true }],
+					},
+					{
+						name: "SampleGetByOperator",
+						operation: "GetByOperator",
+						parameters: ["@Operator int"],
+					},
+					{
+						name: "SampleRenumber",
+						operation: "Renumber",
+						parameters: ["@SampleID int", { name: "@NewNumber", type: "int", direction: "Output" }],
+					},
+				],
+			},
+			"Sample",
+		);
+		const repository = result.files.find((file) =>
+			file.path.endsWith("/SampleRepository.cs"),
+		)?.content;
+
+		expect(repository).toContain("using System.Data;");
+		expect(repository).toContain(
+			[
+				"    public async Task<IEnumerable<SampleDto>> GetByOperatorAsync(int @operator, CancellationToken cancellationToken = default)",
+				"    {",
+				"        using var connection = new SqlConnection(_connectionString);",
+				'        return await connection.QueryAsync<SampleDto>(new CommandDefinition(Sql("Sample_GetByOperator"), new { Operator = @operator }, cancellationToken: cancellationToken));',
+				"    }",
+			].join("\n"),
+		);
+		expect(repository).toContain(
+			[
+				"    public async Task<int> RenumberAsync(int sampleID, CancellationToken cancellationToken = default)",
+				"    {",
+				"        using var connection = new SqlConnection(_connectionString);",
+				"        var parameters = new DynamicParameters(new { SampleID = sampleID });",
+				'        parameters.Add("NewNumber", direction: ParameterDirection.Output);',
+				'        return await connection.ExecuteAsync(new CommandDefinition(Sql("Sample_Renumber"), parameters, cancellationToken: cancellationToken));',
+				"    }",
+			].join("\n"),
+		);
+	});
+});